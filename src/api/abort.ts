@@ -0,0 +1,95 @@
+/**
+ * Request Cancellation and Timeouts
+ *
+ * Combines a caller-provided AbortSignal with an optional timeout into a
+ * single signal for fetch, and remembers why the request was aborted.
+ */
+
+import { ApiException } from '../types/api';
+
+/**
+ * Per-call options accepted by every SimpleIdmClient method
+ */
+export interface RequestCallOptions {
+  /** Abort the request when this signal fires */
+  signal?: AbortSignal;
+  /**
+   * Abort the request after this many milliseconds
+   * Overrides the client-wide `timeoutMs`; use 0 to disable for this call
+   */
+  timeoutMs?: number;
+  /**
+   * Retry override for this call
+   * - true: retry even if the method isn't retried by default (e.g. POST)
+   * - false: never retry
+   * - number: retry up to this many times
+   */
+  retry?: boolean | number;
+  /**
+   * Ignore a cached response and fetch a fresh one
+   * Only affects the cached read methods when the client cache is enabled
+   */
+  skipCache?: boolean;
+}
+
+/**
+ * Combined signal for a single request
+ */
+export interface RequestSignal {
+  /** Signal to pass to fetch */
+  signal: AbortSignal;
+  /** Whether the request was aborted because the timeout elapsed */
+  timedOut: () => boolean;
+  /** Clear the timer and detach from the caller's signal */
+  cleanup: () => void;
+}
+
+/**
+ * Create a signal that aborts when the caller aborts or the timeout elapses
+ *
+ * @param signal - Caller-provided signal (optional)
+ * @param timeoutMs - Timeout in milliseconds; 0 or undefined disables it
+ */
+export function createRequestSignal(signal?: AbortSignal, timeoutMs?: number): RequestSignal {
+  const controller = new AbortController();
+  let didTimeOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const onAbort = () => controller.abort(signal?.reason);
+
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  if (timeoutMs && timeoutMs > 0) {
+    timer = setTimeout(() => {
+      didTimeOut = true;
+      controller.abort();
+    }, timeoutMs);
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => didTimeOut,
+    cleanup: () => {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Check whether an error is a request cancelled by the caller
+ *
+ * Timeouts are not considered aborts - they are reported as errors.
+ */
+export function isAbortError(error: unknown): boolean {
+  if (error instanceof ApiException) {
+    return error.data.error === 'aborted';
+  }
+  return error instanceof DOMException && error.name === 'AbortError';
+}
@@ -0,0 +1,111 @@
+/**
+ * Cross-tab Auth Sync
+ *
+ * Tells the app's other tabs when this tab signs in, signs out or sees the
+ * user change, so they don't keep showing a session that no longer exists.
+ * Uses BroadcastChannel where available and falls back to `storage` events.
+ * Events carry no user data - receiving tabs re-check the session themselves.
+ */
+
+import { generateRandomString } from './oauth';
+
+/**
+ * Auth change announced to the other tabs
+ */
+export type AuthSyncEvent = 'login' | 'logout' | 'user-changed';
+
+/**
+ * Default channel name (also the localStorage key of the fallback)
+ */
+export const DEFAULT_AUTH_CHANNEL = 'simple-idm-auth';
+
+export interface AuthChannel {
+  /** Announce a change to the other tabs */
+  post: (event: AuthSyncEvent) => void;
+  /**
+   * Subscribe to changes announced by other tabs
+   * @returns Function that removes the listener
+   */
+  subscribe: (listener: (event: AuthSyncEvent) => void) => () => void;
+  /** Stop sending and receiving */
+  close: () => void;
+}
+
+interface AuthSyncMessage {
+  event: AuthSyncEvent;
+  /** Sending channel, so a tab ignores its own storage writes */
+  source: string;
+  /** Makes every write a change, so repeated events still fire `storage` */
+  at: number;
+}
+
+const isAuthSyncMessage = (value: unknown): value is AuthSyncMessage =>
+  typeof value === 'object' &&
+  value !== null &&
+  ['login', 'logout', 'user-changed'].includes((value as AuthSyncMessage).event);
+
+/**
+ * Create a channel to the app's other tabs
+ * Does nothing outside the browser
+ */
+export function createAuthChannel(name: string = DEFAULT_AUTH_CHANNEL): AuthChannel {
+  if (typeof window === 'undefined') {
+    return { post: () => undefined, subscribe: () => () => undefined, close: () => undefined };
+  }
+
+  const source = generateRandomString(8);
+  const listeners = new Set<(event: AuthSyncEvent) => void>();
+
+  const receive = (message: unknown) => {
+    if (!isAuthSyncMessage(message) || message.source === source) return;
+    listeners.forEach((listener) => listener(message.event));
+  };
+
+  const message = (event: AuthSyncEvent): AuthSyncMessage => ({ event, source, at: Date.now() });
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (e: MessageEvent) => receive(e.data);
+    return {
+      post: (event) => channel.postMessage(message(event)),
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      close: () => {
+        listeners.clear();
+        channel.close();
+      },
+    };
+  }
+
+  // storage events only fire in the other tabs, which is what we want
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== name || !e.newValue) return;
+    try {
+      receive(JSON.parse(e.newValue));
+    } catch {
+      // Not ours
+    }
+  };
+  window.addEventListener('storage', onStorage);
+
+  return {
+    post: (event) => {
+      try {
+        window.localStorage.setItem(name, JSON.stringify(message(event)));
+        window.localStorage.removeItem(name);
+      } catch {
+        // Storage unavailable (private mode, quota) - the other tabs catch up on focus
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: () => {
+      listeners.clear();
+      window.removeEventListener('storage', onStorage);
+    },
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Response Cache
+ *
+ * Optional cache for the read endpoints that many components call on mount.
+ * Concurrent calls share one in-flight request, results are kept for a
+ * per-endpoint TTL, and successful mutations invalidate the reads they affect.
+ */
+
+import { ApiException } from '../types/api';
+import { type ApiOperation, getErrorMessage } from './errors';
+
+/**
+ * Client methods whose responses can be cached
+ */
+export type CacheableOperation =
+  | 'getCurrentUser'
+  | 'get2FAStatus'
+  | 'getVerificationStatus'
+  | 'getPasswordPolicy';
+
+/**
+ * Response cache configuration
+ */
+export interface CacheConfig {
+  /**
+   * Time to live in milliseconds per method
+   * 0 disables caching for a method (in-flight requests are still shared)
+   * @default DEFAULT_CACHE_TTLS
+   */
+  ttlMs?: Partial<Record<CacheableOperation, number>>;
+}
+
+/**
+ * Default TTLs - the password policy almost never changes
+ */
+export const DEFAULT_CACHE_TTLS: Record<CacheableOperation, number> = {
+  getCurrentUser: 30_000,
+  get2FAStatus: 30_000,
+  getVerificationStatus: 30_000,
+  getPasswordPolicy: 60 * 60_000,
+};
+
+/**
+ * Cached reads invalidated by each successful call
+ * 'all' is used for calls that change who is signed in
+ */
+const INVALIDATIONS: Partial<Record<ApiOperation, CacheableOperation[] | 'all'>> = {
+  login: 'all',
+  selectUser: 'all',
+  linkExternalAccount: 'all',
+  finishPasskeyLogin: 'all',
+  logout: 'all',
+  validateMagicLink: 'all',
+  validate2FA: 'all',
+  exchangeOAuthCode: 'all',
+  signup: 'all',
+  updateUsername: ['getCurrentUser'],
+  updatePhone: ['getCurrentUser'],
+  updatePassword: ['getCurrentUser'],
+  setup2FATOTP: ['get2FAStatus'],
+  enable2FA: ['get2FAStatus'],
+  disable2FA: ['get2FAStatus'],
+  verifyEmail: ['getVerificationStatus', 'getCurrentUser'],
+  resendVerificationEmail: ['getVerificationStatus'],
+};
+
+/**
+ * Whether a client method's responses can be cached
+ */
+export function isCacheable(operation: ApiOperation): operation is CacheableOperation {
+  return operation in DEFAULT_CACHE_TTLS;
+}
+
+export interface ResponseCache {
+  /**
+   * Get a cached value, join an in-flight request or start a new one
+   *
+   * @param operation - Cached method
+   * @param load - Performs the request; receives a signal that aborts once every caller has aborted
+   * @param signal - Caller's signal; aborting it only rejects this caller
+   * @param skipCache - Ignore a cached value (the fresh result is still cached)
+   */
+  get: <T>(
+    operation: CacheableOperation,
+    load: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+    skipCache?: boolean,
+  ) => Promise<T>;
+  /** Drop cached values for a method, or all of them */
+  invalidate: (operation?: CacheableOperation) => void;
+  /** Invalidate the reads affected by a successful call */
+  onSuccess: (operation: ApiOperation) => void;
+}
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+/**
+ * Create a response cache
+ */
+export function createResponseCache(config: CacheConfig = {}): ResponseCache {
+  const ttls = { ...DEFAULT_CACHE_TTLS, ...config.ttlMs };
+  const entries = new Map<CacheableOperation, { value: unknown; expiresAt: number }>();
+  const inFlight = new Map<CacheableOperation, InFlight>();
+
+  const invalidate = (operation?: CacheableOperation) => {
+    // In-flight results may predate the change - don't cache them or hand them to new callers
+    if (operation) {
+      entries.delete(operation);
+      inFlight.delete(operation);
+    } else {
+      entries.clear();
+      inFlight.clear();
+    }
+  };
+
+  /** Share an in-flight request with one more caller */
+  const subscribe = <T>(flight: InFlight, signal?: AbortSignal): Promise<T> => {
+    flight.subscribers++;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        if (--flight.subscribers === 0) {
+          flight.controller.abort();
+        }
+        reject(
+          new ApiException(0, {
+            message: getErrorMessage('aborted'),
+            status: 0,
+            error: 'aborted',
+            code: 'aborted',
+          }),
+        );
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      flight.promise.then(
+        (value) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value as T);
+        },
+        (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      );
+    });
+  };
+
+  const get: ResponseCache['get'] = (operation, load, signal, skipCache) => {
+    const entry = entries.get(operation);
+    if (!skipCache && entry && entry.expiresAt > Date.now()) {
+      return Promise.resolve(entry.value as never);
+    }
+
+    let flight = inFlight.get(operation);
+    if (!flight) {
+      const controller = new AbortController();
+      const current: InFlight = { controller, subscribers: 0, promise: Promise.resolve() };
+      current.promise = load(controller.signal)
+        .then((value) => {
+          // Skip caching if the cache was invalidated while the request was in flight
+          if (inFlight.get(operation) === current && ttls[operation] > 0) {
+            entries.set(operation, { value, expiresAt: Date.now() + ttls[operation] });
+          }
+          return value;
+        })
+        .finally(() => {
+          if (inFlight.get(operation) === current) {
+            inFlight.delete(operation);
+          }
+        });
+      // Rejections are delivered to subscribers
+      current.promise.catch(() => undefined);
+      inFlight.set(operation, current);
+      flight = current;
+    }
+
+    return subscribe(flight, signal);
+  };
+
+  const onSuccess = (operation: ApiOperation) => {
+    const affected = INVALIDATIONS[operation];
+    if (affected === 'all') {
+      invalidate();
+    } else {
+      affected?.forEach(invalidate);
+    }
+  };
+
+  return { get, invalidate, onSuccess };
+}
@@ -0,0 +1,1284 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SimpleIdmClient } from './client';
+import type { ApiClientConfig } from './client';
+import { ApiException } from '~/types/api';
+import { isAbortError } from './abort';
+import { createMemoryTokenStorage, createWebStorageDeviceTokenStorage } from './tokenStorage';
+import { validateResponse } from './validation';
+import { verifyIdTokenNonce } from './oauth';
+import { mockLoginSuccess, mock2FARequired, mockMultipleUsers } from '~/test/utils';
+
+const BASE_URL = 'http://localhost:4000';
+const REFRESH_URL = `${BASE_URL}/api/v1/idm/login/token/refresh`;
+const USERINFO_URL = `${BASE_URL}/api/v1/idm/oauth2/userinfo`;
+const STATUS_URL = `${BASE_URL}/api/v1/idm/2fa/status`;
+const LOGIN_URL = `${BASE_URL}/api/v1/idm/login/login`;
+const LOGOUT_URL = `${BASE_URL}/api/v1/idm/login/logout`;
+const PASSWORD_URL = `${BASE_URL}/api/v1/idm/profile/password`;
+const CSRF_URL = `${BASE_URL}/api/v1/idm/csrf`;
+
+/**
+ * Build a JSON Response for the mocked fetch
+ */
+function jsonResponse(status: number, body: unknown = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Create a client whose fetch is a mock routing by URL
+ */
+function createClient(
+  handler: (url: string, init?: RequestInit) => Response | Promise<Response>,
+  configOverrides?: Partial<ApiClientConfig>,
+) {
+  const fetchMock = vi.fn((input: RequestInfo | URL, init?: RequestInit) =>
+    Promise.resolve(handler(String(input), init)),
+  );
+  const client = new SimpleIdmClient({
+    baseUrl: BASE_URL,
+    basePrefix: '/api/v1/idm',
+    fetch: fetchMock as unknown as typeof fetch,
+    ...configOverrides,
+  });
+  return { client, fetchMock };
+}
+
+function callsTo(fetchMock: ReturnType<typeof vi.fn>, url: string): number {
+  return fetchMock.mock.calls.filter(([input]) => String(input) === url).length;
+}
+
+describe('SimpleIdmClient', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Automatic Token Refresh', () => {
+    it('should refresh the session and replay the request after a 401', async () => {
+      let sessionValid = false;
+      const { client, fetchMock } = createClient((url) => {
+        if (url === REFRESH_URL) {
+          sessionValid = true;
+          return jsonResponse(200, { access_token: 'a', refresh_token: 'r' });
+        }
+        return sessionValid ? jsonResponse(200, { sub: 'user-1' }) : jsonResponse(401);
+      });
+
+      const user = await client.getCurrentUser();
+
+      expect(user).toEqual({ sub: 'user-1' });
+      expect(callsTo(fetchMock, REFRESH_URL)).toBe(1);
+      expect(callsTo(fetchMock, USERINFO_URL)).toBe(2);
+    });
+
+    it('should share a single refresh between concurrent requests', async () => {
+      let sessionValid = false;
+      let resolveRefresh: (() => void) | undefined;
+      const { client, fetchMock } = createClient((url) => {
+        if (url === REFRESH_URL) {
+          return new Promise<Response>((resolve) => {
+            resolveRefresh = () => {
+              sessionValid = true;
+              resolve(jsonResponse(200, { access_token: 'a', refresh_token: 'r' }));
+            };
+          });
+        }
+        if (!sessionValid) return jsonResponse(401);
+        return url === STATUS_URL
+          ? jsonResponse(200, { enabled: false, types: [] })
+          : jsonResponse(200, { sub: 'user-1' });
+      });
+
+      const userPromise = client.getCurrentUser();
+      const statusPromise = client.get2FAStatus();
+
+      await vi.waitFor(() => expect(resolveRefresh).toBeDefined());
+      resolveRefresh!();
+
+      await expect(userPromise).resolves.toEqual({ sub: 'user-1' });
+      await expect(statusPromise).resolves.toEqual({ enabled: false, types: [] });
+      expect(callsTo(fetchMock, REFRESH_URL)).toBe(1);
+    });
+
+    it('should call onUnauthorized once when the refresh fails', async () => {
+      const onUnauthorized = vi.fn();
+      const onError = vi.fn();
+      const { client, fetchMock } = createClient(() => jsonResponse(401), {
+        onUnauthorized,
+        onError,
+      });
+
+      await expect(client.getCurrentUser()).rejects.toBeInstanceOf(ApiException);
+
+      expect(callsTo(fetchMock, REFRESH_URL)).toBe(1);
+      expect(callsTo(fetchMock, USERINFO_URL)).toBe(1);
+      expect(onUnauthorized).toHaveBeenCalledTimes(1);
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('should not refresh when login itself returns 401', async () => {
+      const { client, fetchMock } = createClient(() => jsonResponse(401));
+
+      await expect(
+        client.login({ username: 'testuser', password: 'wrong' }),
+      ).rejects.toBeInstanceOf(ApiException);
+
+      expect(callsTo(fetchMock, REFRESH_URL)).toBe(0);
+    });
+
+    it('should not refresh when autoRefresh is disabled', async () => {
+      const onUnauthorized = vi.fn();
+      const { client, fetchMock } = createClient(() => jsonResponse(401), {
+        autoRefresh: false,
+        onUnauthorized,
+      });
+
+      await expect(client.getCurrentUser()).rejects.toBeInstanceOf(ApiException);
+
+      expect(callsTo(fetchMock, REFRESH_URL)).toBe(0);
+      expect(onUnauthorized).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Interceptors', () => {
+    it('should let request interceptors add headers', async () => {
+      const { client, fetchMock } = createClient(() => jsonResponse(200, { sub: 'user-1' }), {
+        interceptors: [
+          {
+            onRequest: (request) => {
+              request.headers.set('X-Correlation-ID', 'abc-123');
+            },
+          },
+        ],
+      });
+
+      await client.getCurrentUser();
+
+      const init = fetchMock.mock.calls[0]![1] as RequestInit;
+      const headers = new Headers(init.headers);
+      expect(headers.get('X-Correlation-ID')).toBe('abc-123');
+      expect(headers.get('Content-Type')).toBe('application/json');
+      expect(init.credentials).toBe('include');
+    });
+
+    it('should run interceptors in registration order', async () => {
+      const order: string[] = [];
+      const { client } = createClient(() => jsonResponse(200, { sub: 'user-1' }), {
+        interceptors: [{ onRequest: () => void order.push('config') }],
+      });
+      client.use({ onRequest: () => void order.push('use') });
+
+      await client.getCurrentUser();
+
+      expect(order).toEqual(['config', 'use']);
+    });
+
+    it('should short-circuit when a request interceptor returns a Response', async () => {
+      const { client, fetchMock } = createClient(() => jsonResponse(500), {
+        interceptors: [{ onRequest: () => jsonResponse(200, { sub: 'cached' }) }],
+      });
+
+      await expect(client.getCurrentUser()).resolves.toEqual({ sub: 'cached' });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should let response interceptors replace the response', async () => {
+      const { client } = createClient(() => jsonResponse(200, { sub: 'user-1' }), {
+        interceptors: [
+          {
+            onResponse: async (response) => {
+              const body = await response.json();
+              return jsonResponse(200, { ...body, name: 'Injected' });
+            },
+          },
+        ],
+      });
+
+      await expect(client.getCurrentUser()).resolves.toEqual({ sub: 'user-1', name: 'Injected' });
+    });
+
+    it('should let error interceptors recover from network errors', async () => {
+      const onError = vi.fn();
+      const { client } = createClient(
+        () => {
+          throw new TypeError('Failed to fetch');
+        },
+        {
+          interceptors: [
+            {
+              onError: (error) => {
+                onError(error);
+                return jsonResponse(200, { sub: 'offline-user' });
+              },
+            },
+          ],
+        },
+      );
+
+      await expect(client.getCurrentUser()).resolves.toEqual({ sub: 'offline-user' });
+      expect(onError).toHaveBeenCalledWith(expect.any(TypeError));
+    });
+
+    it('should stop calling an interceptor after it is removed', async () => {
+      const onRequest = vi.fn();
+      const { client } = createClient(() => jsonResponse(200, { sub: 'user-1' }));
+      const remove = client.use({ onRequest });
+
+      await client.getCurrentUser();
+      remove();
+      await client.getCurrentUser();
+
+      expect(onRequest).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Cancellation and Timeouts', () => {
+    /**
+     * Fetch handler that never resolves until its signal aborts
+     */
+    const hangingFetch = (_url: string, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        if (init?.signal?.aborted) {
+          reject(new DOMException('The operation was aborted.', 'AbortError'));
+        }
+        init?.signal?.addEventListener('abort', () =>
+          reject(new DOMException('The operation was aborted.', 'AbortError')),
+        );
+      });
+
+    it('should reject with a timeout error after the client-wide timeout', async () => {
+      vi.useFakeTimers();
+      const onError = vi.fn();
+      const { client } = createClient(hangingFetch, { timeoutMs: 5000, onError });
+
+      const promise = client.getCurrentUser();
+      const assertion = expect(promise).rejects.toMatchObject({
+        status: 0,
+        data: { error: 'timeout' },
+      });
+      await vi.advanceTimersByTimeAsync(5000);
+      await assertion;
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ error: 'timeout' }));
+      vi.useRealTimers();
+    });
+
+    it('should let a per-call timeout override the client default', async () => {
+      vi.useFakeTimers();
+      const { client } = createClient(hangingFetch, { timeoutMs: 60000 });
+
+      const promise = client.get2FAStatus({ timeoutMs: 100 });
+      const assertion = expect(promise).rejects.toMatchObject({ data: { error: 'timeout' } });
+      await vi.advanceTimersByTimeAsync(100);
+      await assertion;
+      vi.useRealTimers();
+    });
+
+    it('should reject with an abort error without calling onError when cancelled', async () => {
+      const onError = vi.fn();
+      const { client } = createClient(hangingFetch, { onError });
+      const controller = new AbortController();
+
+      const promise = client.getCurrentUser({ signal: controller.signal });
+      controller.abort();
+
+      const error = await promise.catch((err: unknown) => err);
+      expect(isAbortError(error)).toBe(true);
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Retry', () => {
+    it('should retry GET requests on transient failures', async () => {
+      let calls = 0;
+      const { client, fetchMock } = createClient(
+        () => (++calls < 3 ? jsonResponse(503) : jsonResponse(200, { sub: 'user-1' })),
+        { retry: { baseDelayMs: 1 } },
+      );
+
+      await expect(client.getCurrentUser()).resolves.toEqual({ sub: 'user-1' });
+      expect(callsTo(fetchMock, USERINFO_URL)).toBe(3);
+    });
+
+    it('should retry GET requests on network errors', async () => {
+      let calls = 0;
+      const { client } = createClient(
+        () => {
+          if (++calls === 1) throw new TypeError('Failed to fetch');
+          return jsonResponse(200, { sub: 'user-1' });
+        },
+        { retry: { baseDelayMs: 1 } },
+      );
+
+      await expect(client.getCurrentUser()).resolves.toEqual({ sub: 'user-1' });
+      expect(calls).toBe(2);
+    });
+
+    it('should not retry POST requests unless the call opts in', async () => {
+      const { client, fetchMock } = createClient(() => jsonResponse(503), {
+        retry: { baseDelayMs: 1 },
+      });
+
+      await expect(client.requestMagicLink({ username: 'testuser' })).rejects.toBeInstanceOf(
+        ApiException,
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      fetchMock.mockClear();
+      await expect(
+        client.requestMagicLink({ username: 'testuser' }, { retry: true }),
+      ).rejects.toBeInstanceOf(ApiException);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should wait for Retry-After before retrying', async () => {
+      vi.useFakeTimers();
+      let calls = 0;
+      const { client, fetchMock } = createClient(() =>
+        ++calls === 1
+          ? new Response('{}', { status: 429, headers: { 'Retry-After': '2' } })
+          : jsonResponse(200, { sub: 'user-1' }),
+      );
+
+      const promise = client.getCurrentUser();
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(promise).resolves.toEqual({ sub: 'user-1' });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      vi.useRealTimers();
+    });
+
+    it('should expose Retry-After on the ApiException when it is too long to wait', async () => {
+      const { client, fetchMock } = createClient(
+        () => new Response('{}', { status: 429, headers: { 'Retry-After': '30' } }),
+      );
+
+      const error = await client.getCurrentUser().catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(ApiException);
+      expect((error as ApiException).retryAfterMs).toBe(30000);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Bearer Token Mode', () => {
+    function authorizationOf(init?: RequestInit): string | null {
+      return new Headers(init?.headers).get('Authorization');
+    }
+
+    it('should send cookies and no Authorization header in cookie mode', async () => {
+      const { client, fetchMock } = createClient(() => jsonResponse(200, { sub: 'user-1' }));
+
+      await client.getCurrentUser();
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(init?.credentials).toBe('include');
+      expect(authorizationOf(init)).toBeNull();
+    });
+
+    it('should store tokens from login and attach them as a Bearer header', async () => {
+      const tokenStorage = createMemoryTokenStorage();
+      const { client, fetchMock } = createClient(
+        (url) =>
+          url === LOGIN_URL
+            ? jsonResponse(200, { status: 'success', access_token: 'a1', refresh_token: 'r1' })
+            : jsonResponse(200, { sub: 'user-1' }),
+        { authMode: 'bearer', tokenStorage },
+      );
+
+      await client.login({ username: 'testuser', password: 'secret' });
+      await client.getCurrentUser();
+
+      expect(tokenStorage.getTokens()).toEqual({ accessToken: 'a1', refreshToken: 'r1' });
+      const [, init] = fetchMock.mock.calls[1];
+      expect(authorizationOf(init)).toBe('Bearer a1');
+      expect(init?.credentials).toBe('same-origin');
+    });
+
+    it('should send the refresh token and store the new tokens on 401', async () => {
+      const tokenStorage = createMemoryTokenStorage();
+      tokenStorage.setTokens({ accessToken: 'old', refreshToken: 'r1' });
+      const { client, fetchMock } = createClient(
+        (url, init) => {
+          if (url === REFRESH_URL) {
+            return jsonResponse(200, { access_token: 'new', refresh_token: 'r2' });
+          }
+          return authorizationOf(init) === 'Bearer new'
+            ? jsonResponse(200, { sub: 'user-1' })
+            : jsonResponse(401);
+        },
+        { authMode: 'bearer', tokenStorage },
+      );
+
+      await expect(client.getCurrentUser()).resolves.toEqual({ sub: 'user-1' });
+
+      const refreshCall = fetchMock.mock.calls.find(([input]) => String(input) === REFRESH_URL);
+      expect(JSON.parse(String(refreshCall?.[1]?.body))).toEqual({ refresh_token: 'r1' });
+      expect(tokenStorage.getTokens()).toEqual({ accessToken: 'new', refreshToken: 'r2' });
+    });
+
+    it('should clear tokens when the refresh is rejected', async () => {
+      const tokenStorage = createMemoryTokenStorage();
+      tokenStorage.setTokens({ accessToken: 'old', refreshToken: 'expired' });
+      const { client } = createClient(() => jsonResponse(401), {
+        authMode: 'bearer',
+        tokenStorage,
+      });
+
+      await expect(client.getCurrentUser()).rejects.toBeInstanceOf(ApiException);
+      expect(tokenStorage.getTokens()).toBeNull();
+    });
+
+    it('should clear tokens on logout even if the request fails', async () => {
+      const tokenStorage = createMemoryTokenStorage();
+      tokenStorage.setTokens({ accessToken: 'a1', refreshToken: 'r1' });
+      const { client, fetchMock } = createClient(() => jsonResponse(500), {
+        authMode: 'bearer',
+        tokenStorage,
+      });
+
+      await expect(client.logout()).rejects.toBeInstanceOf(ApiException);
+      expect(callsTo(fetchMock, LOGOUT_URL)).toBe(1);
+      expect(await client.getTokens()).toBeNull();
+    });
+
+    it('should keep the trusted-device token across logout and send it at login', async () => {
+      const deviceTokenStorage = createWebStorageDeviceTokenStorage(sessionStorage);
+      let trusted = true;
+      const { client, fetchMock } = createClient(
+        (url) => {
+          if (url === `${BASE_URL}/api/v1/idm/2fa/validate`) {
+            return jsonResponse(200, { message: 'ok', success: true, device_token: 'd1' });
+          }
+          if (url === LOGIN_URL) {
+            return jsonResponse(200, { status: trusted ? 'success' : '2fa_required' });
+          }
+          return new Response(null, { status: 204 });
+        },
+        { authMode: 'bearer', deviceTokenStorage },
+      );
+
+      await client.validate2FA({ type: 'totp', code: '123456', remember_device_days: 30 });
+      await client.logout();
+      await client.login({ username: 'testuser', password: 'secret' });
+
+      const loginCall = fetchMock.mock.calls.find(([input]) => String(input) === LOGIN_URL);
+      expect(JSON.parse(String(loginCall?.[1]?.body))).toMatchObject({ device_token: 'd1' });
+
+      // Revoked on the server: the token is dropped once 2FA is asked for again
+      trusted = false;
+      await client.login({ username: 'testuser', password: 'secret' });
+      expect(deviceTokenStorage.getDeviceToken()).toBeNull();
+    });
+  });
+
+  describe('CSRF Protection', () => {
+    const passwordChange = { current_password: 'old', new_password: 'new' };
+
+    function csrfHeaderOf(init?: RequestInit): string | null {
+      return new Headers(init?.headers).get('X-CSRF-Token');
+    }
+
+    afterEach(() => {
+      document.cookie = 'csrf_token=; expires=Thu, 01 Jan 1970 00:00:00 GMT';
+    });
+
+    it('should attach the token from the cookie to non-GET requests only', async () => {
+      document.cookie = 'csrf_token=cookie-token';
+      const { client, fetchMock } = createClient(() => jsonResponse(200, {}), {
+        csrf: { cookieName: 'csrf_token' },
+      });
+
+      await client.updatePassword(passwordChange);
+      await client.getCurrentUser();
+
+      expect(csrfHeaderOf(fetchMock.mock.calls[0][1])).toBe('cookie-token');
+      expect(csrfHeaderOf(fetchMock.mock.calls[1][1])).toBeNull();
+    });
+
+    it('should fetch the token from the bootstrap endpoint once', async () => {
+      const { client, fetchMock } = createClient(
+        (url) =>
+          url === CSRF_URL ? jsonResponse(200, { csrf_token: 'boot-token' }) : jsonResponse(200, {}),
+        { csrf: { endpoint: '/api/v1/idm/csrf' } },
+      );
+
+      await Promise.all([client.updatePassword(passwordChange), client.disable2FA('totp')]);
+
+      expect(callsTo(fetchMock, CSRF_URL)).toBe(1);
+      const passwordCall = fetchMock.mock.calls.find(([input]) => String(input) === PASSWORD_URL);
+      expect(csrfHeaderOf(passwordCall?.[1])).toBe('boot-token');
+    });
+
+    it('should refresh the token and replay once on a 403 CSRF failure', async () => {
+      let issued = 0;
+      const { client, fetchMock } = createClient(
+        (url, init) => {
+          if (url === CSRF_URL) {
+            return jsonResponse(200, { csrf_token: `token-${++issued}` });
+          }
+          return csrfHeaderOf(init) === 'token-2'
+            ? jsonResponse(200, { message: 'updated' })
+            : jsonResponse(403, { error: 'csrf_token_invalid' });
+        },
+        { csrf: { endpoint: '/api/v1/idm/csrf' } },
+      );
+
+      await expect(client.updatePassword(passwordChange)).resolves.toEqual({ message: 'updated' });
+      expect(callsTo(fetchMock, CSRF_URL)).toBe(2);
+      expect(callsTo(fetchMock, PASSWORD_URL)).toBe(2);
+    });
+
+    it('should not replay 403 responses unrelated to CSRF', async () => {
+      const { client, fetchMock } = createClient(
+        (url) =>
+          url === CSRF_URL
+            ? jsonResponse(200, { csrf_token: 'boot-token' })
+            : jsonResponse(403, { error: 'forbidden' }),
+        { csrf: { endpoint: '/api/v1/idm/csrf' } },
+      );
+
+      await expect(client.updatePassword(passwordChange)).rejects.toBeInstanceOf(ApiException);
+      expect(callsTo(fetchMock, PASSWORD_URL)).toBe(1);
+    });
+  });
+
+  describe('Error Taxonomy', () => {
+    it('should map a 400 to a method-specific code and message', async () => {
+      const { client } = createClient(() => jsonResponse(400));
+
+      const loginError = await client
+        .login({ username: 'testuser', password: 'wrong' })
+        .catch((err: ApiException) => err);
+      const resetError = await client
+        .resetPassword({ token: 'bad', new_password: 'Secret123!' })
+        .catch((err: ApiException) => err);
+
+      expect(loginError.code).toBe('invalid_credentials');
+      expect(resetError.code).toBe('token_invalid');
+      expect(resetError.message).toBe(
+        'This password reset link is invalid. Please request a new one.',
+      );
+    });
+
+    it('should prefer the server error identifier over the status', async () => {
+      const { client } = createClient(() =>
+        jsonResponse(400, { error: 'token_expired', message: 'Token has expired' }),
+      );
+
+      const error = await client
+        .resetPassword({ token: 'old', new_password: 'Secret123!' })
+        .catch((err: ApiException) => err);
+
+      expect(error.code).toBe('token_expired');
+      expect(error.message).toBe('Token has expired');
+    });
+
+    it('should preserve field-level validation details', async () => {
+      const { client } = createClient(() =>
+        jsonResponse(422, {
+          errors: [{ field: 'phone', message: 'Phone number must be in E.164 format' }],
+        }),
+      );
+
+      const error = await client.updatePhone({ phone: '123' }).catch((err: ApiException) => err);
+
+      expect(error.code).toBe('validation_failed');
+      expect(error.fields).toEqual({ phone: 'Phone number must be in E.164 format' });
+    });
+
+    it('should report network failures with the network code', async () => {
+      const { client } = createClient(
+        () => {
+          throw new TypeError('Failed to fetch');
+        },
+        { retry: false },
+      );
+
+      const error = await client.getCurrentUser().catch((err: ApiException) => err);
+
+      expect(error.code).toBe('network');
+      expect(error.status).toBe(0);
+    });
+  });
+
+  describe('Response Validation', () => {
+    const malformedUser = { sub: 42, groups: 'admins' };
+
+    it('should accept the test fixtures as valid login responses', () => {
+      expect(validateResponse('login', mockLoginSuccess())).toEqual([]);
+      expect(validateResponse('login', mock2FARequired())).toEqual([]);
+      expect(validateResponse('login', mockMultipleUsers())).toEqual([]);
+    });
+
+    it('should not validate responses by default', async () => {
+      const { client } = createClient(() => jsonResponse(200, malformedUser));
+
+      await expect(client.getCurrentUser()).resolves.toEqual(malformedUser);
+    });
+
+    it('should report mismatches and return the data in lenient mode', async () => {
+      const onValidationError = vi.fn();
+      const { client } = createClient(() => jsonResponse(200, malformedUser), {
+        validation: 'lenient',
+        onValidationError,
+      });
+
+      await expect(client.getCurrentUser()).resolves.toEqual(malformedUser);
+      expect(onValidationError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operation: 'getCurrentUser',
+          issues: [
+            { path: 'sub', expected: 'string', received: 'number' },
+            { path: 'groups', expected: 'array', received: 'string' },
+          ],
+        }),
+      );
+    });
+
+    it('should reject malformed payloads in strict mode', async () => {
+      const onError = vi.fn();
+      const { client } = createClient(
+        () => jsonResponse(200, { status: 'success', user: { id: '1', name: 'Test' } }),
+        { validation: 'strict', onError },
+      );
+
+      const error = await client
+        .login({ username: 'testuser', password: 'secret' })
+        .catch((err: ApiException) => err);
+
+      expect(error).toBeInstanceOf(ApiException);
+      expect(error.code).toBe('invalid_response');
+      expect(error.data.error).toContain('user.email: expected string, received undefined');
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'invalid_response' }));
+    });
+
+    it('should accept well-formed payloads in strict mode', async () => {
+      const { client } = createClient(() => jsonResponse(200, { enabled: true, types: ['totp'] }), {
+        validation: 'strict',
+      });
+
+      await expect(client.get2FAStatus()).resolves.toEqual({ enabled: true, types: ['totp'] });
+    });
+  });
+
+  describe('Response Cache', () => {
+    const PHONE_URL = `${BASE_URL}/api/v1/idm/profile/phone`;
+
+    it('should not cache responses by default', async () => {
+      const { client, fetchMock } = createClient(() => jsonResponse(200, { sub: 'user-1' }));
+
+      await client.getCurrentUser();
+      await client.getCurrentUser();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share in-flight requests and serve cached responses', async () => {
+      const { client, fetchMock } = createClient(() => jsonResponse(200, { sub: 'user-1' }), {
+        cache: true,
+      });
+
+      const [a, b] = await Promise.all([client.getCurrentUser(), client.getCurrentUser()]);
+      const c = await client.getCurrentUser();
+
+      expect([a, b, c]).toEqual([{ sub: 'user-1' }, { sub: 'user-1' }, { sub: 'user-1' }]);
+      expect(callsTo(fetchMock, USERINFO_URL)).toBe(1);
+    });
+
+    it('should refetch after the TTL expires or when skipCache is set', async () => {
+      vi.useFakeTimers();
+      const { client, fetchMock } = createClient(() => jsonResponse(200, { sub: 'user-1' }), {
+        cache: { ttlMs: { getCurrentUser: 1000 } },
+      });
+
+      await client.getCurrentUser();
+      await client.getCurrentUser({ skipCache: true });
+      expect(callsTo(fetchMock, USERINFO_URL)).toBe(2);
+
+      vi.advanceTimersByTime(1001);
+      await client.getCurrentUser();
+      expect(callsTo(fetchMock, USERINFO_URL)).toBe(3);
+      vi.useRealTimers();
+    });
+
+    it('should invalidate affected reads after a successful mutation', async () => {
+      const { client, fetchMock } = createClient(
+        (url) =>
+          url === PHONE_URL
+            ? jsonResponse(200, { message: 'updated', success: true })
+            : jsonResponse(200, { enabled: false, types: [] }),
+        { cache: true },
+      );
+
+      await client.getCurrentUser();
+      await client.get2FAStatus();
+      await client.updatePhone({ phone: '+15555550100' });
+      await client.getCurrentUser();
+      await client.get2FAStatus();
+
+      expect(callsTo(fetchMock, USERINFO_URL)).toBe(2);
+      expect(callsTo(fetchMock, STATUS_URL)).toBe(1);
+    });
+
+    it('should only reject the caller that aborted a shared request', async () => {
+      let resolveUser: (() => void) | undefined;
+      const { client, fetchMock } = createClient(
+        () =>
+          new Promise<Response>((resolve) => {
+            resolveUser = () => resolve(jsonResponse(200, { sub: 'user-1' }));
+          }),
+        { cache: true },
+      );
+
+      const controller = new AbortController();
+      const aborted = client.getCurrentUser({ signal: controller.signal });
+      const other = client.getCurrentUser();
+      controller.abort();
+      await expect(aborted).rejects.toSatisfy(isAbortError);
+
+      await vi.waitFor(() => expect(resolveUser).toBeDefined());
+      resolveUser?.();
+      await expect(other).resolves.toEqual({ sub: 'user-1' });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Multi-Tenant', () => {
+    it('should send the active tenant as a header', async () => {
+      const { client, fetchMock } = createClient(() => jsonResponse(200, { sub: 'user-1' }), {
+        tenant: { id: 'acme' },
+      });
+
+      await client.getCurrentUser();
+      await client.setTenant('globex');
+      await client.getCurrentUser();
+
+      const tenants = fetchMock.mock.calls.map(([, init]) =>
+        new Headers(init?.headers).get('X-Tenant-ID'),
+      );
+      expect(tenants).toEqual(['acme', 'globex']);
+    });
+
+    it('should omit the header without an active tenant', async () => {
+      const { client, fetchMock } = createClient(() => jsonResponse(200, { sub: 'user-1' }));
+
+      await client.getCurrentUser();
+
+      expect(new Headers(fetchMock.mock.calls[0][1]?.headers).has('X-Tenant-ID')).toBe(false);
+    });
+
+    it('should inject the tenant into the prefixes with the path strategy', async () => {
+      const { client, fetchMock } = createClient(() => jsonResponse(200, { sub: 'user-1' }), {
+        tenant: { id: 'acme', strategy: 'path' },
+        prefixes: { twoFA: '/api/v1/{tenant}/2fa' },
+      });
+
+      await client.getCurrentUser();
+      await client.get2FAStatus();
+
+      expect(fetchMock.mock.calls.map(([input]) => String(input))).toEqual([
+        `${BASE_URL}/t/acme/api/v1/idm/oauth2/userinfo`,
+        `${BASE_URL}/api/v1/acme/2fa/status`,
+      ]);
+    });
+
+    it('should refuse path-scoped requests until a tenant is set', async () => {
+      const { client, fetchMock } = createClient(() => jsonResponse(200, { sub: 'user-1' }), {
+        tenant: { strategy: 'path' },
+      });
+
+      await expect(client.getCurrentUser()).rejects.toThrow('No active tenant');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should not carry state from one tenant to another', async () => {
+      const tokenStorage = createMemoryTokenStorage();
+      const { client, fetchMock } = createClient(
+        (url) =>
+          url === LOGIN_URL
+            ? jsonResponse(200, mockLoginSuccess())
+            : jsonResponse(200, { sub: 'user-1' }),
+        { tenant: { id: 'acme' }, authMode: 'bearer', tokenStorage, cache: true },
+      );
+      const listener = vi.fn();
+      client.onTenantChange(listener);
+
+      await client.login({ username: 'testuser', password: 'password' });
+      await client.getCurrentUser();
+      await client.setTenant('globex');
+      await client.getCurrentUser();
+
+      expect(listener).toHaveBeenCalledWith('globex');
+      expect(await tokenStorage.getTokens()).toBeNull();
+      expect(callsTo(fetchMock, USERINFO_URL)).toBe(2);
+      expect(new Headers(fetchMock.mock.calls[2][1]?.headers).has('Authorization')).toBe(false);
+    });
+  });
+
+  describe('Backend Discovery', () => {
+    const CAPABILITIES_URL = `${BASE_URL}/.well-known/simple-idm`;
+    const OPENID_URL = `${BASE_URL}/.well-known/openid-configuration`;
+
+    function discoveryFetch(routes: Record<string, Response>) {
+      return vi.fn((input: RequestInfo | URL) =>
+        Promise.resolve(routes[String(input)] ?? jsonResponse(404, { error: 'not_found' })),
+      );
+    }
+
+    it('should configure prefixes and features from the capabilities document', async () => {
+      const fetchMock = discoveryFetch({
+        [CAPABILITIES_URL]: jsonResponse(200, {
+          api_version: 'v1',
+          prefixes: { two_fa: '/mfa' },
+          features: { magic_links: true, two_factor_types: ['totp'] },
+        }),
+        [`${BASE_URL}/mfa/status`]: jsonResponse(200, { enabled: false, types: [] }),
+      });
+
+      const client = await SimpleIdmClient.discover({
+        baseUrl: BASE_URL,
+        basePrefix: '/wrong',
+        fetch: fetchMock as unknown as typeof fetch,
+      });
+      await client.get2FAStatus();
+
+      expect(client.getDiscovery()).toMatchObject({
+        source: 'capabilities',
+        layout: 'custom',
+        prefixes: { login: '/api/v1/idm/login', twoFA: '/mfa' },
+        features: { magicLinks: true, passwordlessSignup: false, twoFactorTypes: ['totp'] },
+      });
+      expect(fetchMock).toHaveBeenLastCalledWith(`${BASE_URL}/mfa/status`, expect.anything());
+    });
+
+    it('should match the OIDC userinfo endpoint to a known layout', async () => {
+      const fetchMock = discoveryFetch({
+        [OPENID_URL]: jsonResponse(200, {
+          issuer: BASE_URL,
+          userinfo_endpoint: `${BASE_URL}/api/v2/oauth2/userinfo`,
+        }),
+      });
+
+      const client = await SimpleIdmClient.discover({
+        baseUrl: BASE_URL,
+        fetch: fetchMock as unknown as typeof fetch,
+      });
+
+      expect(client.getDiscovery()).toMatchObject({
+        source: 'openid-configuration',
+        layout: 'v2',
+        features: null,
+        issuer: BASE_URL,
+      });
+    });
+
+    it('should probe the known layouts and ignore SPA fallbacks', async () => {
+      const fetchMock = vi.fn((input: RequestInfo | URL) =>
+        Promise.resolve(
+          String(input) === `${BASE_URL}/api/idm/password-reset/policy`
+            ? jsonResponse(200, {})
+            : new Response('<html></html>', { headers: { 'Content-Type': 'text/html' } }),
+        ),
+      );
+
+      const client = await SimpleIdmClient.discover({
+        baseUrl: BASE_URL,
+        fetch: fetchMock as unknown as typeof fetch,
+      });
+
+      expect(client.getDiscovery()).toMatchObject({ source: 'probe', layout: 'legacy' });
+    });
+
+    it('should fail when no layout answers', async () => {
+      const fetchMock = discoveryFetch({});
+
+      await expect(
+        SimpleIdmClient.discover({ baseUrl: BASE_URL, fetch: fetchMock as unknown as typeof fetch }),
+      ).rejects.toMatchObject({ code: 'not_found' });
+    });
+  });
+
+  describe('Telemetry', () => {
+    it('should report start and response with redacted credentials', async () => {
+      const onEvent = vi.fn();
+      const { client } = createClient(() => jsonResponse(200, mockLoginSuccess()), {
+        telemetry: { onEvent },
+      });
+
+      await client.login({ username: 'testuser', password: 'secret' });
+
+      const [start, response] = onEvent.mock.calls.map(([event]) => event);
+      expect(start).toMatchObject({
+        type: 'request:start',
+        operation: 'login',
+        routeGroup: 'login',
+        method: 'POST',
+        body: { username: 'testuser', password: '[REDACTED]' },
+      });
+      expect(response).toMatchObject({
+        type: 'request:response',
+        requestId: start.requestId,
+        status: 200,
+        durationMs: expect.any(Number),
+      });
+      expect(JSON.stringify(onEvent.mock.calls)).not.toContain('secret');
+    });
+
+    it('should redact nested fields and token query parameters', async () => {
+      const onEvent = vi.fn();
+      const { client } = createClient(() => jsonResponse(200, { status: 'success' }), {
+        telemetry: { onEvent, redactFields: ['phone'] },
+      });
+
+      await client.validateMagicLink('magic-secret');
+      await client.updatePhone({ phone: '+15551234567' });
+      await client.enable2FA({ type: 'totp', code: '123456' });
+
+      const starts = onEvent.mock.calls
+        .map(([event]) => event)
+        .filter((event) => event.type === 'request:start');
+      expect(starts[0].endpoint).toBe('/api/v1/idm/magic-links/validate?token=%5BREDACTED%5D');
+      expect(starts[1].body).toEqual({ phone: '[REDACTED]' });
+      expect(starts[2]).toMatchObject({
+        routeGroup: 'twoFA',
+        body: { type: 'totp', code: '[REDACTED]' },
+      });
+    });
+
+    it('should report retries and errors', async () => {
+      const onEvent = vi.fn();
+      const { client } = createClient(() => jsonResponse(503, { error: 'unavailable' }), {
+        telemetry: { onEvent },
+        retry: { retries: 1, baseDelayMs: 1 },
+      });
+
+      await expect(client.getPasswordPolicy()).rejects.toBeInstanceOf(ApiException);
+
+      expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual([
+        'request:start',
+        'request:retry',
+        'request:response',
+        'request:error',
+      ]);
+      expect(onEvent.mock.calls[1][0]).toMatchObject({ attempt: 1, reason: 'status', status: 503 });
+      expect(onEvent.mock.calls[3][0]).toMatchObject({
+        status: 503,
+        code: 'unavailable',
+        routeGroup: 'passwordReset',
+      });
+    });
+
+    it('should not let a failing listener break requests', async () => {
+      const { client } = createClient(() => jsonResponse(200, { sub: 'user-1' }), {
+        telemetry: {
+          onEvent: () => {
+            throw new Error('exporter down');
+          },
+        },
+      });
+
+      await expect(client.getCurrentUser()).resolves.toEqual({ sub: 'user-1' });
+    });
+  });
+
+  describe('Offline Awareness', () => {
+    function goOffline() {
+      return vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    }
+
+    it('should reject with an offline error while the browser is offline', async () => {
+      goOffline();
+      const { client } = createClient(
+        () => {
+          throw new TypeError('Failed to fetch');
+        },
+        { retry: false },
+      );
+
+      const error = await client.getCurrentUser().catch((err: ApiException) => err);
+
+      expect(error).toMatchObject({ code: 'offline', status: 0 });
+      expect(error.message).not.toContain('Failed to fetch');
+      expect(client.isOnline()).toBe(false);
+    });
+
+    it('should track reachability from failed and successful requests', async () => {
+      let reachable = false;
+      const { client } = createClient(
+        () => {
+          if (!reachable) throw new TypeError('Failed to fetch');
+          return jsonResponse(200, { sub: 'user-1' });
+        },
+        { retry: false },
+      );
+      const listener = vi.fn();
+      client.onConnectivityChange(listener);
+
+      await expect(client.getCurrentUser()).rejects.toMatchObject({ code: 'network' });
+      expect(client.isOnline()).toBe(false);
+
+      reachable = true;
+      await client.getCurrentUser();
+
+      expect(client.isOnline()).toBe(true);
+      expect(listener.mock.calls).toEqual([[false], [true]]);
+    });
+
+    it('should hold safe requests until the browser is back online', async () => {
+      const onLine = goOffline();
+      const { client, fetchMock } = createClient(() => jsonResponse(200, { sub: 'user-1' }), {
+        offline: { holdRequests: true },
+      });
+
+      const pending = client.getCurrentUser();
+      await Promise.resolve();
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      onLine.mockReturnValue(true);
+      window.dispatchEvent(new Event('online'));
+
+      await expect(pending).resolves.toEqual({ sub: 'user-1' });
+    });
+
+    it('should fail held requests after maxHoldMs and never hold mutations', async () => {
+      goOffline();
+      const { client, fetchMock } = createClient(
+        () => {
+          throw new TypeError('Failed to fetch');
+        },
+        { offline: { holdRequests: true, maxHoldMs: 5 }, retry: false },
+      );
+
+      await expect(client.getCurrentUser()).rejects.toMatchObject({ code: 'offline' });
+      await expect(client.updatePhone({ phone: '+15551234567' })).rejects.toMatchObject({
+        code: 'offline',
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('OAuth2 Authorization Code + PKCE', () => {
+    const TOKEN_URL = `${BASE_URL}/api/v1/idm/oauth2/token`;
+    const OAUTH = { clientId: 'spa', redirectUri: 'http://app.local/oauth/callback' };
+
+    /** Unsigned JWT, base64url-encoded without padding like real ones */
+    function idToken(claims: object): string {
+      const encode = (value: object) =>
+        btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(value))))
+          .replace(/\+/g, '-')
+          .replace(/\//g, '_')
+          .replace(/=+$/, '');
+      return `${encode({ alg: 'none' })}.${encode(claims)}.`;
+    }
+
+    beforeEach(() => {
+      sessionStorage.clear();
+    });
+
+    it('should build an authorization URL with an S256 PKCE challenge', async () => {
+      const { client } = createClient(() => jsonResponse(200), { oauth: OAUTH });
+
+      const request = await client.createAuthorizationRequest({ prompt: 'login' });
+      const url = new URL(request.url);
+
+      expect(`${url.origin}${url.pathname}`).toBe(`${BASE_URL}/api/v1/idm/oauth2/authorize`);
+      expect(Object.fromEntries(url.searchParams)).toMatchObject({
+        response_type: 'code',
+        client_id: 'spa',
+        redirect_uri: OAUTH.redirectUri,
+        scope: 'openid profile email',
+        state: request.state,
+        nonce: request.nonce,
+        code_challenge_method: 'S256',
+        prompt: 'login',
+      });
+      const digest = await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(request.codeVerifier),
+      );
+      const expected = btoa(String.fromCharCode(...new Uint8Array(digest)))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+      expect(url.searchParams.get('code_challenge')).toBe(expected);
+    });
+
+    it('should exchange the code and store the tokens', async () => {
+      let nonce = '';
+      const { client, fetchMock } = createClient(
+        (url) =>
+          url === TOKEN_URL
+            ? jsonResponse(200, {
+                access_token: 'oauth-access',
+                refresh_token: 'oauth-refresh',
+                token_type: 'Bearer',
+                id_token: idToken({ sub: 'user-1', nonce }),
+              })
+            : jsonResponse(404),
+        { oauth: OAUTH, authMode: 'bearer' },
+      );
+      const request = await client.createAuthorizationRequest({ returnTo: '/dashboard' });
+      nonce = request.nonce;
+
+      const result = await client.handleOAuthCallback(
+        `${OAUTH.redirectUri}?code=auth-code&state=${request.state}`,
+      );
+
+      expect(result).toMatchObject({
+        returnTo: '/dashboard',
+        tokens: { access_token: 'oauth-access' },
+      });
+      expect(await client.getTokens()).toEqual({
+        accessToken: 'oauth-access',
+        refreshToken: 'oauth-refresh',
+      });
+      const [, init] = fetchMock.mock.calls.find(([input]) => String(input) === TOKEN_URL)!;
+      expect(Object.fromEntries(new URLSearchParams(String(init!.body)))).toEqual({
+        grant_type: 'authorization_code',
+        code: 'auth-code',
+        redirect_uri: OAUTH.redirectUri,
+        client_id: 'spa',
+        code_verifier: request.codeVerifier,
+      });
+      expect(new Headers(init!.headers).get('Content-Type')).toBe(
+        'application/x-www-form-urlencoded',
+      );
+    });
+
+    it('should reject an unknown or reused state without calling the token endpoint', async () => {
+      const { client, fetchMock } = createClient(
+        () => jsonResponse(200, { access_token: 'a', token_type: 'Bearer' }),
+        { oauth: OAUTH },
+      );
+      const request = await client.createAuthorizationRequest();
+      const callback = `${OAUTH.redirectUri}?code=auth-code&state=${request.state}`;
+
+      await expect(
+        client.handleOAuthCallback(`${OAUTH.redirectUri}?code=auth-code&state=forged`),
+      ).rejects.toMatchObject({ data: { error: 'invalid_state' } });
+      await client.handleOAuthCallback(callback);
+      await expect(client.handleOAuthCallback(callback)).rejects.toMatchObject({
+        data: { error: 'invalid_state' },
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an ID token issued for another nonce', async () => {
+      const { client } = createClient(
+        () =>
+          jsonResponse(200, {
+            access_token: 'a',
+            token_type: 'Bearer',
+            id_token: idToken({ nonce: 'other' }),
+          }),
+        { oauth: OAUTH },
+      );
+      const request = await client.createAuthorizationRequest();
+
+      await expect(
+        client.handleOAuthCallback(`${OAUTH.redirectUri}?code=c&state=${request.state}`),
+      ).rejects.toMatchObject({ code: 'token_invalid', data: { error: 'invalid_nonce' } });
+    });
+
+    it('should read unpadded ID tokens with non-ASCII claims', () => {
+      const token = idToken({ sub: 'user-1', name: 'Zoë', nonce: 'nönce-Å' });
+      expect(token.split('.')[1].length % 4).not.toBe(0);
+
+      expect(() => verifyIdTokenNonce(token, 'nönce-Å')).not.toThrow();
+    });
+
+    it('should reject a corrupted pending authorization', async () => {
+      const { client, fetchMock } = createClient(() => jsonResponse(200), { oauth: OAUTH });
+      const request = await client.createAuthorizationRequest();
+      for (let i = 0; i < sessionStorage.length; i++) {
+        sessionStorage.setItem(sessionStorage.key(i)!, '{not json');
+      }
+
+      const error = await client
+        .handleOAuthCallback(`${OAUTH.redirectUri}?code=c&state=${request.state}`)
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(ApiException);
+      expect(error).toMatchObject({ data: { error: 'invalid_state' } });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should surface provider errors from the redirect', async () => {
+      const { client } = createClient(() => jsonResponse(200), { oauth: OAUTH });
+
+      const error = await client
+        .handleOAuthCallback(`${OAUTH.redirectUri}?error=access_denied&state=s`)
+        .catch((err: ApiException) => err);
+
+      expect(error).toBeInstanceOf(ApiException);
+      expect(error).toMatchObject({ code: 'forbidden' });
+    });
+  });
+
+  describe('Session Expiry', () => {
+    /** Unsigned JWT with an exp claim */
+    const jwt = (exp: number) =>
+      `header.${btoa(JSON.stringify({ sub: 'user-1', exp })).replace(/=+$/, '')}.signature`;
+
+    it('should read the expiry from expires_in or the token claims', async () => {
+      const now = Date.now();
+      const accessExp = Math.floor(now / 1000) + 300;
+      const { client } = createClient((url) =>
+        url === LOGIN_URL
+          ? jsonResponse(200, {
+              status: 'success',
+              access_token: jwt(accessExp),
+              refresh_token: 'opaque',
+              refresh_expires_in: 3600,
+            })
+          : jsonResponse(200, { access_token: 'opaque', refresh_token: 'r2', expires_in: 120 }),
+      );
+      const listener = vi.fn();
+      client.onSessionExpiryChange(listener);
+
+      await client.login({ username: 'testuser', password: 'secret' });
+
+      expect(client.getSessionExpiry()?.accessTokenExpiresAt).toBe(accessExp * 1000);
+      expect(client.getSessionExpiry()?.refreshTokenExpiresAt).toBeGreaterThanOrEqual(
+        now + 3600_000,
+      );
+
+      await client.refreshToken();
+
+      // expires_in wins; the rotated opaque refresh token has no known expiry
+      expect(client.getSessionExpiry()?.accessTokenExpiresAt).toBeGreaterThanOrEqual(
+        now + 120_000,
+      );
+      expect(client.getSessionExpiry()?.refreshTokenExpiresAt).toBeNull();
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should forget the expiry on logout or a rejected refresh', async () => {
+      const { client } = createClient((url) =>
+        url === LOGIN_URL
+          ? jsonResponse(200, { status: 'success', access_token: 'a1', expires_in: 60 })
+          : url === REFRESH_URL
+            ? jsonResponse(401)
+            : new Response(null, { status: 204 }),
+      );
+
+      await client.login({ username: 'testuser', password: 'secret' });
+      expect(client.getSessionExpiry()).not.toBeNull();
+      await expect(client.refreshToken()).rejects.toBeInstanceOf(ApiException);
+      expect(client.getSessionExpiry()).toBeNull();
+
+      await client.login({ username: 'testuser', password: 'secret' });
+      await client.logout();
+      expect(client.getSessionExpiry()).toBeNull();
+    });
+  });
+});
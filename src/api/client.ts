@@ -1,14 +1,36 @@
 /**
  * Simple IDM API Client
  *
- * IMPORTANT: This client works with HTTP-only cookies for JWT token storage.
+ * IMPORTANT: By default this client works with HTTP-only cookies for JWT token storage.
  * All requests include `credentials: 'include'` to automatically send cookies.
  * No manual token management is required.
+ *
+ * Bearer mode (`authMode: 'bearer'`) is available for environments where cookies
+ * can't be used (cross-site embeds, native shells). Tokens are kept in a
+ * `TokenStorage` and sent as `Authorization: Bearer` headers.
  */
 
 import type {
   LoginRequest,
   LoginResponse,
+  SelectUserRequest,
+  ExternalProvider,
+  ExternalProvidersResponse,
+  ExternalLoginResult,
+  LinkExternalAccountRequest,
+  PasskeyRegistrationOptions,
+  PasskeyLoginOptions,
+  BeginPasskeyLoginRequest,
+  FinishPasskeyRegistrationRequest,
+  AuthenticationCredentialJSON,
+  Passkey,
+  PasskeyListResponse,
+  Session,
+  SessionListResponse,
+  RevokeSessionsResponse,
+  TrustedDevice,
+  TrustedDeviceListResponse,
+  RenameTrustedDeviceRequest,
   MagicLinkRequest,
   MagicLinkResponse,
   MagicLinkValidateResponse,
@@ -24,7 +46,11 @@ import type {
   Setup2FAResponse,
   Enable2FARequest,
   Validate2FARequest,
+  Validate2FAResponse,
   TwoFAStatus,
+  BackupCodeStatus,
+  RegenerateBackupCodesRequest,
+  RegenerateBackupCodesResponse,
   Send2FACodeRequest,
   VerifyEmailRequest,
   VerifyEmailResponse,
@@ -47,6 +73,98 @@ import {
   mergePrefixes,
   validatePrefixes,
 } from './config';
+import {
+  type Interceptor,
+  type InterceptedRequest,
+  runRequestInterceptors,
+  runResponseInterceptors,
+  runErrorInterceptors,
+} from './interceptors';
+import { type RequestCallOptions, createRequestSignal } from './abort';
+import {
+  type RetryPolicy,
+  resolveRetryPolicy,
+  getRetryCount,
+  getBackoffDelay,
+  parseRetryAfter,
+  sleep,
+} from './retry';
+import {
+  type AuthTokens,
+  type DeviceTokenStorage,
+  type TokenStorage,
+  createMemoryTokenStorage,
+  createWebStorageDeviceTokenStorage,
+} from './tokenStorage';
+import {
+  type CsrfConfig,
+  type ResolvedCsrfConfig,
+  resolveCsrfConfig,
+  requiresCsrfToken,
+  readCookie,
+  extractCsrfToken,
+  isCsrfFailure,
+} from './csrf';
+import {
+  type ApiOperation,
+  resolveErrorCode,
+  getErrorMessage,
+  parseFieldErrors,
+} from './errors';
+import {
+  type ValidationMode,
+  type ResponseValidationError,
+  validateResponse,
+  formatValidationIssues,
+} from './validation';
+import {
+  type CacheConfig,
+  type CacheableOperation,
+  type ResponseCache,
+  createResponseCache,
+  isCacheable,
+} from './cache';
+import {
+  type TenantConfig,
+  type ResolvedTenantConfig,
+  resolveTenantConfig,
+  scopePrefixes,
+  TENANT_PLACEHOLDER,
+} from './tenant';
+import {
+  type TelemetryConfig,
+  type Tracer,
+  type RequestTrace,
+  createTracer,
+  findRouteGroup,
+} from './telemetry';
+import {
+  type OfflineConfig,
+  type ConnectivityMonitor,
+  DEFAULT_OFFLINE_CONFIG,
+  createConnectivityMonitor,
+  isBrowserOnline,
+} from './connectivity';
+import { type DiscoveryOptions, type DiscoveryResult, discoverBackend } from './discovery';
+import {
+  type AuthorizationRequest,
+  type AuthorizeOptions,
+  type OAuthCallbackResult,
+  type OAuthConfig,
+  type OAuthTokenResponse,
+  consumeCallback,
+  createAuthorizationRequest,
+  verifyIdTokenNonce,
+} from './oauth';
+import { parseExternalLoginResult } from './externalProviders';
+import { type SessionExpiry, type TokenLifetimeFields, readSessionExpiry } from './sessionExpiry';
+
+/**
+ * How requests are authenticated
+ * - `cookie`: HTTP-only cookies set by the server (default)
+ * - `bearer`: tokens kept in a TokenStorage and sent as `Authorization: Bearer`
+ */
+export type AuthMode = 'cookie' | 'bearer';
 
 export interface ApiClientConfig {
   /**
@@ -57,7 +175,10 @@ export interface ApiClientConfig {
   baseUrl?: string;
   /** Custom fetch implementation (defaults to global fetch) */
   fetch?: typeof fetch;
-  /** Callback when a 401 Unauthorized response is received */
+  /**
+   * Callback when a 401 Unauthorized response is received and the session
+   * could not be refreshed (or auto refresh is disabled)
+   */
   onUnauthorized?: () => void;
   /** Callback for general errors */
   onError?: (error: ApiError) => void;
@@ -88,6 +209,117 @@ export interface ApiClientConfig {
    * @deprecated Use basePrefix, apiVersion, or custom prefixes instead
    */
   useLegacyPrefixes?: boolean;
+  /**
+   * Automatically refresh the session when a request returns 401
+   * Calls the token refresh endpoint once, queues concurrent requests behind it,
+   * and replays them when the refresh succeeds
+   * @default true
+   */
+  autoRefresh?: boolean;
+  /**
+   * Request/response interceptors, run in order for every request
+   * More can be added later with `client.use()`
+   * @example [{ onRequest: (req) => { req.headers.set('X-Request-ID', crypto.randomUUID()); } }]
+   */
+  interceptors?: Interceptor[];
+  /**
+   * Default timeout in milliseconds for every request
+   * Can be overridden per call with `{ timeoutMs }`
+   * @default undefined (no timeout)
+   */
+  timeoutMs?: number;
+  /**
+   * Retry policy for transient failures (network errors, 429, 5xx)
+   * GET requests are retried by default; other methods opt in per call with `{ retry: true }`
+   * Set to false to disable retries
+   * @default { retries: 2, baseDelayMs: 300, maxDelayMs: 5000, methods: ['GET', 'HEAD'] }
+   */
+  retry?: RetryPolicy | false;
+  /**
+   * Authentication mode
+   * Use 'bearer' when cookies can't be used (cross-site embeds, Capacitor, blocked third-party cookies)
+   * @default 'cookie'
+   */
+  authMode?: AuthMode;
+  /**
+   * Where bearer tokens are stored (only used when authMode is 'bearer')
+   * @default createMemoryTokenStorage()
+   */
+  tokenStorage?: TokenStorage;
+  /**
+   * Where the trusted-device token is kept (only used when authMode is 'bearer';
+   * in cookie mode the server keeps it in a cookie). Set to false to not remember devices
+   * @default createWebStorageDeviceTokenStorage() where localStorage is available
+   */
+  deviceTokenStorage?: DeviceTokenStorage | false;
+  /**
+   * CSRF protection for state-changing requests
+   * Reads the token from a cookie (double-submit) or a bootstrap endpoint and
+   * sends it on every non-GET request; refreshed and replayed once on a 403 CSRF failure
+   * @default false
+   * @example { cookieName: 'csrf_token', headerName: 'X-CSRF-Token' }
+   */
+  csrf?: CsrfConfig | false;
+  /**
+   * Runtime validation of response payloads against their declared types
+   * - 'lenient': report mismatches via onValidationError (or console.warn) and continue
+   * - 'strict': reject malformed payloads with an ApiException (code 'invalid_response')
+   * @default 'off'
+   */
+  validation?: ValidationMode;
+  /** Callback for response schema mismatches (lenient and strict modes) */
+  onValidationError?: (error: ResponseValidationError) => void;
+  /**
+   * Cache for read endpoints (getCurrentUser, get2FAStatus, getVerificationStatus, getPasswordPolicy)
+   * Concurrent calls share one request; successful mutations invalidate affected reads
+   * Pass true for the default TTLs
+   * @default false
+   */
+  cache?: CacheConfig | boolean;
+  /**
+   * Multi-tenant deployments: send the active tenant as a header or path segment
+   * Switch tenants at runtime with `client.setTenant()`
+   * @default header strategy ('X-Tenant-ID'), no tenant
+   * @example { id: 'acme', strategy: 'path', pathTemplate: '/t/{tenant}' }
+   */
+  tenant?: TenantConfig;
+  /**
+   * Lifecycle events (start, response, error, retry) for every request
+   * Request bodies and query strings are redacted (passwords, codes, tokens)
+   * @example { onEvent: (event) => exporter.record(event) }
+   */
+  telemetry?: TelemetryConfig;
+  /**
+   * Offline handling
+   * Network failures while the browser is offline reject with code 'offline';
+   * `holdRequests` makes safe requests wait for connectivity instead
+   * @example { holdRequests: true, maxHoldMs: 60_000 }
+   */
+  offline?: OfflineConfig;
+  /**
+   * OAuth2 client registration, for the authorization code + PKCE flow
+   * Use with `authMode: 'bearer'` so the issued tokens are stored and sent
+   * @example { clientId: 'my-spa', redirectUri: `${location.origin}/oauth/callback` }
+   */
+  oauth?: OAuthConfig;
+}
+
+/**
+ * Per-request options used internally by the client
+ */
+interface RequestOptions extends RequestInit {
+  /** Skip the automatic refresh/replay on 401 (used by auth endpoints) */
+  skipAuthRefresh?: boolean;
+  /** Don't invoke onUnauthorized/onError (used for the background refresh) */
+  silent?: boolean;
+  /** Timeout for this request (overrides the client default) */
+  timeoutMs?: number;
+  /** Retry override for this request */
+  retry?: boolean | number;
+  /** Client method making the call, used to pick error codes and messages */
+  operation?: ApiOperation;
+  /** Ignore a cached response (cached read methods only) */
+  skipCache?: boolean;
 }
 
 export class SimpleIdmClient {
@@ -95,7 +327,39 @@ export class SimpleIdmClient {
   private fetchFn: typeof fetch;
   private onUnauthorized?: () => void;
   private onError?: (error: ApiError) => void;
+  /** Prefixes before tenant scoping */
+  private basePrefixes: PrefixConfig;
+  /** Prefixes for the active tenant */
   private prefixes: PrefixConfig;
+  private autoRefresh: boolean;
+  /** In-flight refresh shared by all requests that received a 401 */
+  private refreshPromise: Promise<boolean> | null = null;
+  private interceptors: Interceptor[];
+  private timeoutMs?: number;
+  private retryPolicy: Required<RetryPolicy>;
+  private authMode: AuthMode;
+  private tokenStorage: TokenStorage | null;
+  private deviceTokenStorage: DeviceTokenStorage | null;
+  private csrfConfig: ResolvedCsrfConfig | null;
+  private validation: ValidationMode;
+  private onValidationError?: (error: ResponseValidationError) => void;
+  private cache: ResponseCache | null;
+  private tracer: Tracer | null;
+  private offlineConfig: Required<OfflineConfig>;
+  private oauthConfig: OAuthConfig | null;
+  private connectivity: ConnectivityMonitor = createConnectivityMonitor();
+  /** CSRF token from the bootstrap endpoint */
+  private csrfToken: string | null = null;
+  /** In-flight bootstrap request shared by concurrent requests */
+  private csrfPromise: Promise<string | null> | null = null;
+  private tenantConfig: ResolvedTenantConfig;
+  private tenant: string | null;
+  private tenantListeners = new Set<(tenant: string | null) => void>();
+  /** Token expiry of the current session, if known */
+  private sessionExpiry: SessionExpiry | null = null;
+  private sessionExpiryListeners = new Set<(expiry: SessionExpiry | null) => void>();
+  /** Set when the client was created with discover() */
+  private discovery: DiscoveryResult | null = null;
 
   constructor(config: ApiClientConfig) {
     // Use relative URLs if baseUrl is not provided (same origin)
@@ -103,6 +367,27 @@ export class SimpleIdmClient {
     this.fetchFn = config.fetch || fetch.bind(globalThis);
     this.onUnauthorized = config.onUnauthorized;
     this.onError = config.onError;
+    this.autoRefresh = config.autoRefresh ?? true;
+    this.interceptors = [...(config.interceptors ?? [])];
+    this.timeoutMs = config.timeoutMs;
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.authMode = config.authMode ?? 'cookie';
+    this.tokenStorage =
+      this.authMode === 'bearer' ? (config.tokenStorage ?? createMemoryTokenStorage()) : null;
+    this.deviceTokenStorage =
+      this.authMode !== 'bearer' || config.deviceTokenStorage === false
+        ? null
+        : (config.deviceTokenStorage ??
+          (typeof localStorage !== 'undefined' ? createWebStorageDeviceTokenStorage() : null));
+    this.csrfConfig = resolveCsrfConfig(config.csrf);
+    this.validation = config.validation ?? 'off';
+    this.onValidationError = config.onValidationError;
+    this.cache = config.cache
+      ? createResponseCache(config.cache === true ? {} : config.cache)
+      : null;
+    this.tracer = config.telemetry ? createTracer(config.telemetry) : null;
+    this.offlineConfig = { ...DEFAULT_OFFLINE_CONFIG, ...config.offline };
+    this.oauthConfig = config.oauth ?? null;
 
     // Initialize endpoint prefixes based on configuration priority:
     // 1. basePrefix (highest priority for simplicity)
@@ -110,7 +395,10 @@ export class SimpleIdmClient {
     // 3. useLegacyPrefixes
     // 4. custom prefixes
     // 5. DEFAULT_V1_PREFIXES (default)
-    this.prefixes = this.initializePrefixes(config);
+    this.basePrefixes = this.initializePrefixes(config);
+    this.tenantConfig = resolveTenantConfig(config.tenant);
+    this.tenant = config.tenant?.id ?? null;
+    this.prefixes = scopePrefixes(this.basePrefixes, this.tenant, this.tenantConfig);
   }
 
   /**
@@ -147,19 +435,205 @@ export class SimpleIdmClient {
     return basePrefixes;
   }
 
+  /**
+   * Create a client configured for the layout the backend actually serves
+   *
+   * Reads the simple-idm capabilities document, then the OIDC discovery document,
+   * then probes the v2, v1 and legacy layouts. Discovered prefixes replace
+   * basePrefix/apiVersion/useLegacyPrefixes; explicit `prefixes` still win.
+   *
+   * @throws ApiException with code `not_found` if no known layout answers
+   * @example
+   * const client = await SimpleIdmClient.discover({ baseUrl: 'https://idm.example.com' });
+   * client.getDiscovery()?.features?.magicLinks;
+   */
+  static async discover(
+    config: ApiClientConfig = {},
+    options: DiscoveryOptions = {},
+  ): Promise<SimpleIdmClient> {
+    const tenantConfig = resolveTenantConfig(config.tenant);
+    const tenantHeaders: Record<string, string> =
+      config.tenant?.id && tenantConfig.strategy === 'header'
+        ? { [tenantConfig.headerName]: config.tenant.id }
+        : {};
+
+    const discovery = await discoverBackend(
+      config.baseUrl ?? '',
+      config.fetch || fetch.bind(globalThis),
+      { ...options, headers: { ...tenantHeaders, ...options.headers } },
+    );
+
+    const client = new SimpleIdmClient({
+      ...config,
+      basePrefix: undefined,
+      apiVersion: undefined,
+      useLegacyPrefixes: false,
+      prefixes: mergePrefixes(config.prefixes ?? {}, discovery.prefixes),
+    });
+    client.discovery = discovery;
+    return client;
+  }
+
+  /**
+   * What discover() found: layout, prefixes and enabled features
+   * null for clients created with the constructor
+   */
+  getDiscovery(): DiscoveryResult | null {
+    return this.discovery;
+  }
+
+  // ============================================================================
+  // Interceptors
+  // ============================================================================
+
+  /**
+   * Register an interceptor at the end of the chain
+   * @returns Function that removes the interceptor
+   */
+  use(interceptor: Interceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      this.interceptors = this.interceptors.filter((i) => i !== interceptor);
+    };
+  }
+
+  /**
+   * Drop cached responses for a method, or all of them
+   * No-op when the cache is disabled
+   */
+  invalidateCache(operation?: CacheableOperation): void {
+    this.cache?.invalidate(operation);
+  }
+
+  // ============================================================================
+  // Tenants
+  // ============================================================================
+
+  /**
+   * Get the active tenant identifier
+   */
+  getTenant(): string | null {
+    return this.tenant;
+  }
+
+  /**
+   * Switch the active tenant
+   * Cached responses and the CSRF token belong to the previous tenant and are dropped.
+   * In bearer mode the stored tokens are cleared so a session never crosses tenants.
+   */
+  async setTenant(tenant: string | null): Promise<void> {
+    if (tenant === this.tenant) return;
+
+    this.tenant = tenant;
+    this.prefixes = scopePrefixes(this.basePrefixes, tenant, this.tenantConfig);
+    this.cache?.invalidate();
+    this.csrfToken = null;
+    this.csrfPromise = null;
+    await this.tokenStorage?.clearTokens();
+    this.setSessionExpiry(null);
+
+    this.tenantListeners.forEach((listener) => listener(tenant));
+  }
+
+  /**
+   * Subscribe to tenant switches
+   * @returns Function that removes the listener
+   */
+  onTenantChange(listener: (tenant: string | null) => void): () => void {
+    this.tenantListeners.add(listener);
+    return () => {
+      this.tenantListeners.delete(listener);
+    };
+  }
+
+  // ============================================================================
+  // Connectivity
+  // ============================================================================
+
+  /**
+   * Whether the browser is online and simple-idm answered the last request
+   */
+  isOnline(): boolean {
+    return this.connectivity.isOnline();
+  }
+
+  /**
+   * Subscribe to connectivity changes
+   * @returns Function that removes the listener
+   */
+  onConnectivityChange(listener: (online: boolean) => void): () => void {
+    return this.connectivity.subscribe(listener);
+  }
+
+  // ============================================================================
+  // Session Expiry
+  // ============================================================================
+
+  /**
+   * When the current session's tokens expire, if known
+   * Read from `expires_in` in sign-in and refresh responses or the tokens' `exp` claim;
+   * null before sign-in, after logout, or when the server reveals neither
+   */
+  getSessionExpiry(): SessionExpiry | null {
+    return this.sessionExpiry;
+  }
+
+  /**
+   * Subscribe to changes of getSessionExpiry() (sign-in, refresh, logout)
+   * @returns Function that removes the listener
+   */
+  onSessionExpiryChange(listener: (expiry: SessionExpiry | null) => void): () => void {
+    this.sessionExpiryListeners.add(listener);
+    return () => {
+      this.sessionExpiryListeners.delete(listener);
+    };
+  }
+
+  private setSessionExpiry(expiry: SessionExpiry | null): void {
+    if (expiry === this.sessionExpiry) return;
+    this.sessionExpiry = expiry;
+    this.sessionExpiryListeners.forEach((listener) => listener(expiry));
+  }
+
   // ============================================================================
   // Authentication Methods
   // ============================================================================
 
   /**
    * Login with username and password
-   * Tokens are automatically stored in HTTP-only cookies by the server
+   * Tokens are stored in HTTP-only cookies by the server (cookie mode)
+   * or in the configured token storage (bearer mode)
+   * A trusted device skips 2FA; in bearer mode its stored device token is sent along
    */
-  async login(credentials: LoginRequest): Promise<LoginResponse> {
+  async login(credentials: LoginRequest, options?: RequestCallOptions): Promise<LoginResponse> {
+    const body = await this.withDeviceToken(credentials);
     const response = await this.request<LoginResponse>(`${this.prefixes.login}/login`, {
+      ...options,
+      operation: 'login',
+      method: 'POST',
+      body: JSON.stringify(body),
+      skipAuthRefresh: true,
+    });
+    await this.checkDeviceToken(body, response);
+    await this.storeTokens(response);
+    return response;
+  }
+
+  /**
+   * Choose the account to sign in as after a 'user_selection_required' login
+   * Resolves like login(): 'success', or '2fa_required' if the account has 2FA enabled
+   */
+  async selectUser(data: SelectUserRequest, options?: RequestCallOptions): Promise<LoginResponse> {
+    const body = await this.withDeviceToken(data);
+    const response = await this.request<LoginResponse>(`${this.prefixes.login}/user/switch`, {
+      ...options,
+      operation: 'selectUser',
       method: 'POST',
-      body: JSON.stringify(credentials),
+      body: JSON.stringify(body),
+      skipAuthRefresh: true,
     });
+    await this.checkDeviceToken(body, response);
+    await this.storeTokens(response);
     return response;
   }
 
@@ -167,8 +641,13 @@ export class SimpleIdmClient {
    * Request a magic link to be sent to the user's email
    * Accepts either username or email
    */
-  async requestMagicLink(request: MagicLinkRequest): Promise<MagicLinkResponse> {
+  async requestMagicLink(
+    request: MagicLinkRequest,
+    options?: RequestCallOptions,
+  ): Promise<MagicLinkResponse> {
     const response = await this.request<MagicLinkResponse>(this.prefixes.magicLinks, {
+      ...options,
+      operation: 'requestMagicLink',
       method: 'POST',
       body: JSON.stringify(request),
     });
@@ -177,36 +656,57 @@ export class SimpleIdmClient {
 
   /**
    * Validate a magic link token
-   * Tokens are automatically stored in HTTP-only cookies by the server
+   * Tokens are stored in HTTP-only cookies by the server (cookie mode)
+   * or in the configured token storage (bearer mode)
    */
-  async validateMagicLink(token: string): Promise<MagicLinkValidateResponse> {
+  async validateMagicLink(
+    token: string,
+    options?: RequestCallOptions,
+  ): Promise<MagicLinkValidateResponse> {
     const response = await this.request<MagicLinkValidateResponse>(
       `${this.prefixes.magicLinks}/validate?token=${encodeURIComponent(token)}`,
       {
+        ...options,
+        operation: 'validateMagicLink',
         method: 'GET',
       },
     );
+    await this.storeTokens(response);
     return response;
   }
 
   /**
-   * Refresh the access token using the refresh token from cookies
-   * New tokens are automatically stored in HTTP-only cookies by the server
+   * Refresh the access token using the refresh token from cookies (cookie mode)
+   * or from the token storage (bearer mode)
    */
-  async refreshToken(): Promise<TokenRefreshResponse> {
-    const response = await this.request<TokenRefreshResponse>(`${this.prefixes.login}/token/refresh`, {
-      method: 'POST',
-    });
-    return response;
+  async refreshToken(options?: RequestCallOptions): Promise<TokenRefreshResponse> {
+    return this.requestTokenRefresh(false, options);
   }
 
   /**
    * Logout and clear authentication cookies
+   * In bearer mode the stored tokens are cleared even if the request fails
    */
-  async logout(): Promise<void> {
-    await this.request<void>(`${this.prefixes.login}/logout`, {
-      method: 'POST',
-    });
+  async logout(options?: RequestCallOptions): Promise<void> {
+    try {
+      await this.request<void>(`${this.prefixes.login}/logout`, {
+        ...options,
+        operation: 'logout',
+        method: 'POST',
+        skipAuthRefresh: true,
+      });
+    } finally {
+      await this.tokenStorage?.clearTokens();
+      this.setSessionExpiry(null);
+    }
+  }
+
+  /**
+   * Get the stored bearer tokens
+   * Always null in cookie mode - the tokens live in HTTP-only cookies
+   */
+  async getTokens(): Promise<AuthTokens | null> {
+    return (await this.tokenStorage?.getTokens()) ?? null;
   }
 
   // ============================================================================
@@ -218,14 +718,362 @@ export class SimpleIdmClient {
    * Password is optional - if provided, performs password-based registration
    * Otherwise, performs passwordless registration
    */
-  async signup(data: SignupRequest): Promise<SignupResponse> {
+  async signup(data: SignupRequest, options?: RequestCallOptions): Promise<SignupResponse> {
     const response = await this.request<SignupResponse>(this.prefixes.signup, {
+      ...options,
+      operation: 'signup',
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return response;
+  }
+
+  // ============================================================================
+  // OAuth2 Methods
+  // ============================================================================
+
+  /**
+   * Prepare an authorization code request with PKCE, state and nonce
+   * They are kept in storage until handleOAuthCallback(); requires the `oauth` option
+   */
+  async createAuthorizationRequest(options?: AuthorizeOptions): Promise<AuthorizationRequest> {
+    return createAuthorizationRequest(
+      `${this.baseUrl}${this.prefixes.oauth2}/authorize`,
+      this.requireOAuthConfig(),
+      options,
+    );
+  }
+
+  /**
+   * Redirect the browser to simple-idm's authorization endpoint
+   */
+  async authorize(options?: AuthorizeOptions): Promise<void> {
+    const { url } = await this.createAuthorizationRequest(options);
+    window.location.assign(url);
+  }
+
+  /**
+   * Finish the authorization code flow on the redirect page
+   * Checks the state, exchanges the code at the token endpoint and checks the
+   * ID token's nonce. Tokens are stored in bearer mode.
+   *
+   * @param callbackUrl - URL simple-idm redirected to (default: the current location)
+   * @throws ApiException if the provider returned an error, the state is unknown
+   *   or the exchange fails
+   */
+  async handleOAuthCallback(
+    callbackUrl: string = window.location.href,
+    options?: RequestCallOptions,
+  ): Promise<OAuthCallbackResult> {
+    const { code, pending } = consumeCallback(callbackUrl, this.requireOAuthConfig());
+
+    const tokens = await this.request<OAuthTokenResponse>(`${this.prefixes.oauth2}/token`, {
+      ...options,
+      operation: 'exchangeOAuthCode',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: pending.redirectUri,
+        client_id: this.requireOAuthConfig().clientId,
+        code_verifier: pending.codeVerifier,
+      }).toString(),
+      skipAuthRefresh: true,
+    });
+
+    if (tokens.id_token) {
+      verifyIdTokenNonce(tokens.id_token, pending.nonce);
+    }
+    await this.storeTokens(tokens);
+    return { tokens, returnTo: pending.returnTo };
+  }
+
+  private requireOAuthConfig(): OAuthConfig {
+    if (!this.oauthConfig) {
+      throw new Error('OAuth is not configured: pass `oauth: { clientId, redirectUri }`');
+    }
+    return this.oauthConfig;
+  }
+
+  // ============================================================================
+  // External Identity Providers
+  // ============================================================================
+
+  /**
+   * List the external identity providers configured in simple-idm
+   */
+  async getExternalProviders(options?: RequestCallOptions): Promise<ExternalProvider[]> {
+    const response = await this.request<ExternalProvidersResponse>(
+      `${this.prefixes.login}/external/providers`,
+      {
+        ...options,
+        operation: 'getExternalProviders',
+        method: 'GET',
+      },
+    );
+    return response.providers;
+  }
+
+  /**
+   * URL that starts sign-in with an external provider through simple-idm
+   *
+   * @param providerId - Provider id from getExternalProviders()
+   * @param redirectUrl - App URL simple-idm returns to with the result (default: current page)
+   */
+  getExternalLoginUrl(providerId: string, redirectUrl?: string): string {
+    const returnTo = redirectUrl ?? (typeof window !== 'undefined' ? window.location.href : '');
+    const query = returnTo ? `?${new URLSearchParams({ redirect_url: returnTo })}` : '';
+    const path = `${this.prefixes.login}/external/${encodeURIComponent(providerId)}`;
+    return `${this.baseUrl}${path}${query}`;
+  }
+
+  /**
+   * Redirect the browser to sign in with an external provider
+   * Read the outcome on the return page with handleExternalLoginCallback()
+   */
+  loginWithProvider(providerId: string, redirectUrl?: string): void {
+    window.location.assign(this.getExternalLoginUrl(providerId, redirectUrl));
+  }
+
+  /**
+   * Read the outcome of a provider sign-in from the URL simple-idm returned to
+   * On success the session was started by simple-idm (cookie mode)
+   *
+   * @param callbackUrl - Return URL (default: the current location)
+   * @returns The result, or null if the URL doesn't carry one
+   * @throws ApiException if the provider sign-in failed
+   */
+  handleExternalLoginCallback(
+    callbackUrl: string = window.location.href,
+  ): ExternalLoginResult | null {
+    const result = parseExternalLoginResult(callbackUrl);
+    if (result?.status === 'success') {
+      this.invalidateCache();
+    }
+    return result;
+  }
+
+  /**
+   * Link a provider account to the existing account with the same email
+   * Answers a 'link_required' result; resolves like login() once linked
+   */
+  async linkExternalAccount(
+    data: LinkExternalAccountRequest,
+    options?: RequestCallOptions,
+  ): Promise<LoginResponse> {
+    const response = await this.request<LoginResponse>(`${this.prefixes.login}/external/link`, {
+      ...options,
+      operation: 'linkExternalAccount',
       method: 'POST',
       body: JSON.stringify(data),
+      skipAuthRefresh: true,
+    });
+    await this.storeTokens(response);
+    return response;
+  }
+
+  // ============================================================================
+  // Passkey (WebAuthn) Methods
+  // ============================================================================
+
+  /**
+   * Start registering a passkey for the signed-in user
+   * Pass the options to navigator.credentials.create() (see usePasskeys)
+   */
+  async beginPasskeyRegistration(
+    options?: RequestCallOptions,
+  ): Promise<PasskeyRegistrationOptions> {
+    const response = await this.request<PasskeyRegistrationOptions>(
+      `${this.prefixes.profile}/passkeys/register/begin`,
+      {
+        ...options,
+        operation: 'beginPasskeyRegistration',
+        method: 'POST',
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Finish registering a passkey with the credential the authenticator created
+   */
+  async finishPasskeyRegistration(
+    data: FinishPasskeyRegistrationRequest,
+    options?: RequestCallOptions,
+  ): Promise<Passkey> {
+    const response = await this.request<Passkey>(
+      `${this.prefixes.profile}/passkeys/register/finish`,
+      {
+        ...options,
+        operation: 'finishPasskeyRegistration',
+        method: 'POST',
+        body: JSON.stringify(data),
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Start signing in with a passkey
+   * Pass the options to navigator.credentials.get() (see usePasskeys)
+   */
+  async beginPasskeyLogin(
+    data: BeginPasskeyLoginRequest = {},
+    options?: RequestCallOptions,
+  ): Promise<PasskeyLoginOptions> {
+    const response = await this.request<PasskeyLoginOptions>(
+      `${this.prefixes.login}/passkey/begin`,
+      {
+        ...options,
+        operation: 'beginPasskeyLogin',
+        method: 'POST',
+        body: JSON.stringify(data),
+        skipAuthRefresh: true,
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Finish signing in with the assertion the authenticator returned
+   * Resolves like login()
+   */
+  async finishPasskeyLogin(
+    credential: AuthenticationCredentialJSON,
+    options?: RequestCallOptions,
+  ): Promise<LoginResponse> {
+    const response = await this.request<LoginResponse>(`${this.prefixes.login}/passkey/finish`, {
+      ...options,
+      operation: 'finishPasskeyLogin',
+      method: 'POST',
+      body: JSON.stringify(credential),
+      skipAuthRefresh: true,
+    });
+    await this.storeTokens(response);
+    return response;
+  }
+
+  /**
+   * List the signed-in user's passkeys
+   */
+  async listPasskeys(options?: RequestCallOptions): Promise<Passkey[]> {
+    const response = await this.request<PasskeyListResponse>(`${this.prefixes.profile}/passkeys`, {
+      ...options,
+      operation: 'listPasskeys',
+      method: 'GET',
+    });
+    return response.passkeys;
+  }
+
+  /**
+   * Remove one of the signed-in user's passkeys
+   */
+  async deletePasskey(id: string, options?: RequestCallOptions): Promise<void> {
+    await this.request<void>(`${this.prefixes.profile}/passkeys/${encodeURIComponent(id)}`, {
+      ...options,
+      operation: 'deletePasskey',
+      method: 'DELETE',
+    });
+  }
+
+  // ============================================================================
+  // Session Methods
+  // ============================================================================
+
+  /**
+   * List the signed-in user's active sessions, including this one (`current: true`)
+   */
+  async listSessions(options?: RequestCallOptions): Promise<Session[]> {
+    const response = await this.request<SessionListResponse>(`${this.prefixes.profile}/sessions`, {
+      ...options,
+      operation: 'listSessions',
+      method: 'GET',
     });
+    return response.sessions;
+  }
+
+  /**
+   * End one of the signed-in user's other sessions
+   * Use logout() to end the current session
+   */
+  async revokeSession(id: string, options?: RequestCallOptions): Promise<void> {
+    await this.request<void>(`${this.prefixes.profile}/sessions/${encodeURIComponent(id)}`, {
+      ...options,
+      operation: 'revokeSession',
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * End every session of the signed-in user except the current one
+   */
+  async revokeOtherSessions(options?: RequestCallOptions): Promise<RevokeSessionsResponse> {
+    const response = await this.request<RevokeSessionsResponse>(
+      `${this.prefixes.profile}/sessions/revoke-others`,
+      {
+        ...options,
+        operation: 'revokeOtherSessions',
+        method: 'POST',
+      },
+    );
     return response;
   }
 
+  // ============================================================================
+  // Trusted Device Methods
+  // ============================================================================
+
+  /**
+   * List the devices on which the signed-in user skips 2FA
+   * Devices are trusted with `remember_device_days` when validating a login's 2FA code
+   */
+  async listTrustedDevices(options?: RequestCallOptions): Promise<TrustedDevice[]> {
+    const response = await this.request<TrustedDeviceListResponse>(
+      `${this.prefixes.profile}/trusted-devices`,
+      {
+        ...options,
+        operation: 'listTrustedDevices',
+        method: 'GET',
+      },
+    );
+    return response.devices;
+  }
+
+  /**
+   * Rename a trusted device
+   */
+  async renameTrustedDevice(
+    id: string,
+    data: RenameTrustedDeviceRequest,
+    options?: RequestCallOptions,
+  ): Promise<TrustedDevice> {
+    const response = await this.request<TrustedDevice>(
+      `${this.prefixes.profile}/trusted-devices/${encodeURIComponent(id)}`,
+      {
+        ...options,
+        operation: 'renameTrustedDevice',
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      },
+    );
+    return response;
+  }
+
+  /**
+   * Stop trusting a device; the next login on it asks for 2FA again
+   */
+  async revokeTrustedDevice(id: string, options?: RequestCallOptions): Promise<void> {
+    await this.request<void>(
+      `${this.prefixes.profile}/trusted-devices/${encodeURIComponent(id)}`,
+      {
+        ...options,
+        operation: 'revokeTrustedDevice',
+        method: 'DELETE',
+      },
+    );
+  }
+
   // ============================================================================
   // User Methods
   // ============================================================================
@@ -234,9 +1082,11 @@ export class SimpleIdmClient {
    * Get current authenticated user information
    * Requires valid access token in HTTP-only cookie
    */
-  async getCurrentUser(): Promise<UserInfo> {
+  async getCurrentUser(options?: RequestCallOptions): Promise<UserInfo> {
     // Get user info from standard OIDC userinfo endpoint
     const userInfo = await this.request<UserInfo>(`${this.prefixes.oauth2}/userinfo`, {
+      ...options,
+      operation: 'getCurrentUser',
       method: 'GET',
     });
     return userInfo;
@@ -250,8 +1100,13 @@ export class SimpleIdmClient {
    * Update username
    * Requires current password for verification
    */
-  async updateUsername(data: UpdateUsernameRequest): Promise<ProfileUpdateResponse> {
+  async updateUsername(
+    data: UpdateUsernameRequest,
+    options?: RequestCallOptions,
+  ): Promise<ProfileUpdateResponse> {
     const response = await this.request<ProfileUpdateResponse>(`${this.prefixes.profile}/username`, {
+      ...options,
+      operation: 'updateUsername',
       method: 'PUT',
       body: JSON.stringify(data),
     });
@@ -261,8 +1116,13 @@ export class SimpleIdmClient {
   /**
    * Update phone number
    */
-  async updatePhone(data: UpdatePhoneRequest): Promise<ProfileUpdateResponse> {
+  async updatePhone(
+    data: UpdatePhoneRequest,
+    options?: RequestCallOptions,
+  ): Promise<ProfileUpdateResponse> {
     const response = await this.request<ProfileUpdateResponse>(`${this.prefixes.profile}/phone`, {
+      ...options,
+      operation: 'updatePhone',
       method: 'PUT',
       body: JSON.stringify(data),
     });
@@ -273,8 +1133,13 @@ export class SimpleIdmClient {
    * Update password
    * Requires current password for verification
    */
-  async updatePassword(data: UpdatePasswordRequest): Promise<ProfileUpdateResponse> {
+  async updatePassword(
+    data: UpdatePasswordRequest,
+    options?: RequestCallOptions,
+  ): Promise<ProfileUpdateResponse> {
     const response = await this.request<ProfileUpdateResponse>(`${this.prefixes.profile}/password`, {
+      ...options,
+      operation: 'updatePassword',
       method: 'PUT',
       body: JSON.stringify(data),
     });
@@ -288,8 +1153,10 @@ export class SimpleIdmClient {
   /**
    * Get 2FA status for current user
    */
-  async get2FAStatus(): Promise<TwoFAStatus> {
+  async get2FAStatus(options?: RequestCallOptions): Promise<TwoFAStatus> {
     const response = await this.request<TwoFAStatus>(`${this.prefixes.twoFA}/status`, {
+      ...options,
+      operation: 'get2FAStatus',
       method: 'GET',
     });
     return response;
@@ -299,8 +1166,10 @@ export class SimpleIdmClient {
    * Setup TOTP 2FA (generates QR code)
    * Returns secret and QR code for authenticator app
    */
-  async setup2FATOTP(): Promise<Setup2FAResponse> {
+  async setup2FATOTP(options?: RequestCallOptions): Promise<Setup2FAResponse> {
     const response = await this.request<Setup2FAResponse>(`${this.prefixes.twoFA}/totp/setup`, {
+      ...options,
+      operation: 'setup2FATOTP',
       method: 'POST',
     });
     return response;
@@ -310,8 +1179,13 @@ export class SimpleIdmClient {
    * Enable 2FA after setup
    * Requires verification code to confirm setup
    */
-  async enable2FA(data: Enable2FARequest): Promise<ProfileUpdateResponse> {
+  async enable2FA(
+    data: Enable2FARequest,
+    options?: RequestCallOptions,
+  ): Promise<ProfileUpdateResponse> {
     const response = await this.request<ProfileUpdateResponse>(`${this.prefixes.twoFA}/enable`, {
+      ...options,
+      operation: 'enable2FA',
       method: 'POST',
       body: JSON.stringify(data),
     });
@@ -321,18 +1195,57 @@ export class SimpleIdmClient {
   /**
    * Disable 2FA
    */
-  async disable2FA(type: string): Promise<ProfileUpdateResponse> {
+  async disable2FA(type: string, options?: RequestCallOptions): Promise<ProfileUpdateResponse> {
     const response = await this.request<ProfileUpdateResponse>(`${this.prefixes.twoFA}/${type}/disable`, {
+      ...options,
+      operation: 'disable2FA',
       method: 'POST',
     });
     return response;
   }
 
+  /**
+   * Get how many backup codes the current user has left
+   */
+  async getBackupCodeStatus(options?: RequestCallOptions): Promise<BackupCodeStatus> {
+    const response = await this.request<BackupCodeStatus>(`${this.prefixes.twoFA}/backup-codes`, {
+      ...options,
+      operation: 'getBackupCodeStatus',
+      method: 'GET',
+    });
+    return response;
+  }
+
+  /**
+   * Replace the current user's backup codes with new ones
+   * Requires current password; the old codes stop working
+   */
+  async regenerateBackupCodes(
+    data: RegenerateBackupCodesRequest,
+    options?: RequestCallOptions,
+  ): Promise<RegenerateBackupCodesResponse> {
+    const response = await this.request<RegenerateBackupCodesResponse>(
+      `${this.prefixes.twoFA}/backup-codes/regenerate`,
+      {
+        ...options,
+        operation: 'regenerateBackupCodes',
+        method: 'POST',
+        body: JSON.stringify(data),
+      },
+    );
+    return response;
+  }
+
   /**
    * Send 2FA code via SMS or email
    */
-  async send2FACode(data: Send2FACodeRequest): Promise<ProfileUpdateResponse> {
+  async send2FACode(
+    data: Send2FACodeRequest,
+    options?: RequestCallOptions,
+  ): Promise<ProfileUpdateResponse> {
     const response = await this.request<ProfileUpdateResponse>(`${this.prefixes.twoFA}/send-code`, {
+      ...options,
+      operation: 'send2FACode',
       method: 'POST',
       body: JSON.stringify(data),
     });
@@ -341,12 +1254,26 @@ export class SimpleIdmClient {
 
   /**
    * Validate 2FA code
+   * With the temp_token of a '2fa_required' login this completes the login:
+   * tokens are set in HTTP-only cookies (cookie mode) or stored (bearer mode).
+   * With remember_device_days the device is trusted and later logins skip 2FA
    */
-  async validate2FA(data: Validate2FARequest): Promise<ProfileUpdateResponse> {
-    const response = await this.request<ProfileUpdateResponse>(`${this.prefixes.twoFA}/validate`, {
+  async validate2FA(
+    data: Validate2FARequest,
+    options?: RequestCallOptions,
+  ): Promise<Validate2FAResponse> {
+    const response = await this.request<Validate2FAResponse>(`${this.prefixes.twoFA}/validate`, {
+      ...options,
+      operation: 'validate2FA',
       method: 'POST',
       body: JSON.stringify(data),
+      // A rejected login code must not trigger a session refresh
+      skipAuthRefresh: !!data.temp_token,
     });
+    if (response.device_token) {
+      await this.deviceTokenStorage?.setDeviceToken(response.device_token);
+    }
+    await this.storeTokens(response);
     return response;
   }
 
@@ -357,8 +1284,13 @@ export class SimpleIdmClient {
   /**
    * Verify email with token (public endpoint)
    */
-  async verifyEmail(data: VerifyEmailRequest): Promise<VerifyEmailResponse> {
+  async verifyEmail(
+    data: VerifyEmailRequest,
+    options?: RequestCallOptions,
+  ): Promise<VerifyEmailResponse> {
     const response = await this.request<VerifyEmailResponse>(`${this.prefixes.email}/verify`, {
+      ...options,
+      operation: 'verifyEmail',
       method: 'POST',
       body: JSON.stringify(data),
     });
@@ -368,8 +1300,13 @@ export class SimpleIdmClient {
   /**
    * Resend verification email (requires authentication)
    */
-  async resendVerificationEmail(data?: ResendVerificationRequest): Promise<ResendVerificationResponse> {
+  async resendVerificationEmail(
+    data?: ResendVerificationRequest,
+    options?: RequestCallOptions,
+  ): Promise<ResendVerificationResponse> {
     const response = await this.request<ResendVerificationResponse>(`${this.prefixes.email}/resend`, {
+      ...options,
+      operation: 'resendVerificationEmail',
       method: 'POST',
       body: data ? JSON.stringify(data) : undefined,
     });
@@ -379,8 +1316,10 @@ export class SimpleIdmClient {
   /**
    * Get email verification status (requires authentication)
    */
-  async getVerificationStatus(): Promise<VerificationStatusResponse> {
+  async getVerificationStatus(options?: RequestCallOptions): Promise<VerificationStatusResponse> {
     const response = await this.request<VerificationStatusResponse>(`${this.prefixes.email}/status`, {
+      ...options,
+      operation: 'getVerificationStatus',
       method: 'GET',
     });
     return response;
@@ -394,11 +1333,16 @@ export class SimpleIdmClient {
    * Initiate password reset by email (public endpoint)
    * Sends a password reset token to the user's email
    */
-  async initiatePasswordResetByEmail(email: string): Promise<PasswordResetInitResponse> {
+  async initiatePasswordResetByEmail(
+    email: string,
+    options?: RequestCallOptions,
+  ): Promise<PasswordResetInitResponse> {
     const data: PasswordResetInitRequest = { email };
     const response = await this.request<PasswordResetInitResponse>(
       `${this.prefixes.passwordReset}/initiate/email`,
       {
+        ...options,
+        operation: 'initiatePasswordReset',
         method: 'POST',
         body: JSON.stringify(data),
       },
@@ -410,11 +1354,16 @@ export class SimpleIdmClient {
    * Initiate password reset by username (public endpoint)
    * Sends a password reset token to the user's email associated with the username
    */
-  async initiatePasswordResetByUsername(username: string): Promise<PasswordResetInitResponse> {
+  async initiatePasswordResetByUsername(
+    username: string,
+    options?: RequestCallOptions,
+  ): Promise<PasswordResetInitResponse> {
     const data: PasswordResetInitRequest = { username };
     const response = await this.request<PasswordResetInitResponse>(
       `${this.prefixes.passwordReset}/initiate/username`,
       {
+        ...options,
+        operation: 'initiatePasswordReset',
         method: 'POST',
         body: JSON.stringify(data),
       },
@@ -426,8 +1375,13 @@ export class SimpleIdmClient {
    * Reset password with token (public endpoint)
    * Completes the password reset using the token from email
    */
-  async resetPassword(data: PasswordResetRequest): Promise<PasswordResetResponse> {
+  async resetPassword(
+    data: PasswordResetRequest,
+    options?: RequestCallOptions,
+  ): Promise<PasswordResetResponse> {
     const response = await this.request<PasswordResetResponse>(`${this.prefixes.passwordReset}/reset`, {
+      ...options,
+      operation: 'resetPassword',
       method: 'POST',
       body: JSON.stringify(data),
     });
@@ -438,8 +1392,10 @@ export class SimpleIdmClient {
    * Get password policy requirements (public endpoint)
    * Returns the password policy configuration for validation
    */
-  async getPasswordPolicy(): Promise<PasswordPolicyResponse> {
+  async getPasswordPolicy(options?: RequestCallOptions): Promise<PasswordPolicyResponse> {
     const response = await this.request<PasswordPolicyResponse>(`${this.prefixes.passwordReset}/policy`, {
+      ...options,
+      operation: 'getPasswordPolicy',
       method: 'GET',
     });
     return response;
@@ -450,60 +1406,152 @@ export class SimpleIdmClient {
   // ============================================================================
 
   /**
-   * Make an HTTP request to the API
+   * Make an API call, going through the response cache when enabled
+   * Cached reads share in-flight requests; successful calls invalidate affected reads
+   */
+  private async request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    if (endpoint.includes(TENANT_PLACEHOLDER)) {
+      throw new Error('No active tenant: call setTenant() before making requests');
+    }
+
+    const { skipCache, ...rest } = options;
+    const { cache } = this;
+    const operation = rest.operation;
+
+    if (!cache || !operation) {
+      return this.performRequest<T>(endpoint, rest);
+    }
+
+    if (isCacheable(operation)) {
+      return cache.get(
+        operation,
+        (signal) => this.performRequest<T>(endpoint, { ...rest, signal }),
+        rest.signal ?? undefined,
+        skipCache,
+      );
+    }
+
+    const result = await this.performRequest<T>(endpoint, rest);
+    cache.onSuccess(operation);
+    return result;
+  }
+
+  /**
+   * Make an HTTP request to the API, reporting it to telemetry when enabled
+   */
+  private async performRequest<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const trace = this.tracer?.start({
+      operation: options.operation,
+      routeGroup: findRouteGroup(endpoint, this.prefixes),
+      method: (options.method ?? 'GET').toUpperCase(),
+      endpoint,
+      body: options.body,
+    });
+
+    try {
+      return await this.executeRequest<T>(endpoint, options, trace);
+    } catch (error) {
+      trace?.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send the request and turn the response into data or an ApiException
    * CRITICAL: Always includes credentials to send HTTP-only cookies
+   *
+   * On 401 the session is refreshed once (shared across concurrent requests)
+   * and the request is replayed; onUnauthorized only fires if the refresh fails.
    */
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
+  private async executeRequest<T>(
+    endpoint: string,
+    options: RequestOptions,
+    trace?: RequestTrace,
+  ): Promise<T> {
+    const {
+      skipAuthRefresh,
+      silent,
+      timeoutMs,
+      retry,
+      operation,
+      signal: callerSignal,
+      ...rest
+    } = options;
+    const requestSignal = createRequestSignal(
+      callerSignal ?? undefined,
+      timeoutMs ?? this.timeoutMs,
+    );
+    const init: RequestInit = { ...rest, signal: requestSignal.signal };
+    const retries = getRetryCount(this.retryPolicy, init.method, retry);
 
     try {
-      const response = await this.fetchFn(url, {
-        ...options,
-        credentials: 'include', // CRITICAL: Include cookies in requests
-        headers: {
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-      });
+      // Hold safe requests until the browser is back online
+      if (
+        this.offlineConfig.holdRequests &&
+        this.offlineConfig.methods.includes((init.method || 'GET').toUpperCase()) &&
+        !isBrowserOnline()
+      ) {
+        await this.connectivity.waitForOnline(this.offlineConfig.maxHoldMs, init.signal);
+      }
+
+      let response = await this.sendWithRetry(endpoint, init, retries, trace);
+
+      // Refresh the session and replay the request once
+      if (response.status === 401 && this.autoRefresh && !skipAuthRefresh) {
+        const refreshed = await this.refreshSession();
+        if (refreshed) {
+          trace?.retry('session_refreshed', { status: 401 });
+          response = await this.sendWithRetry(endpoint, init, retries, trace);
+        }
+      }
+
+      // Fetch a fresh CSRF token and replay the request once
+      if (
+        this.csrfConfig &&
+        requiresCsrfToken(this.csrfConfig, init.method) &&
+        (await isCsrfFailure(response))
+      ) {
+        this.csrfToken = null;
+        trace?.retry('csrf', { status: response.status });
+        response = await this.sendWithRetry(endpoint, init, retries, trace);
+      }
+
+      this.connectivity.reportReachable();
+      trace?.response(response.status);
 
       // Handle 401 Unauthorized
       if (response.status === 401) {
-        this.onUnauthorized?.();
-        const errorData = await this.parseErrorResponse(response);
+        // Cached reads belong to a session that is gone
+        if (!skipAuthRefresh) {
+          this.cache?.invalidate();
+        }
+        if (!silent) {
+          this.onUnauthorized?.();
+        }
+        const errorData = await this.parseErrorResponse(response, operation);
         throw new ApiException(response.status, errorData);
       }
 
       // Handle other error status codes
       if (!response.ok) {
-        const errorData = await this.parseErrorResponse(response);
-        this.onError?.(errorData);
-        throw new ApiException(response.status, errorData);
+        const errorData = await this.parseErrorResponse(response, operation);
+        if (!silent) {
+          this.onError?.(errorData);
+        }
+        throw new ApiException(
+          response.status,
+          errorData,
+          parseRetryAfter(response.headers.get('Retry-After')),
+        );
       }
 
-      // Handle 204 No Content
-      if (response.status === 204) {
-        return undefined as T;
-      }
+      const data = await this.parseResponseBody(response);
 
-      // Check if response has content
-      const contentLength = response.headers.get('Content-Length');
-      if (contentLength === '0' || contentLength === null) {
-        // Try to read as text to check if body is empty
-        const text = await response.text();
-        if (!text || text.trim() === '') {
-          return undefined as T;
-        }
-        // If we have text, try to parse it as JSON
-        try {
-          return JSON.parse(text) as T;
-        } catch {
-          // If not valid JSON, return undefined for void responses
-          return undefined as T;
-        }
+      // Check the payload against the declared response type
+      if (operation && this.validation !== 'off') {
+        this.checkResponse(operation, endpoint, data, silent);
       }
 
-      // Parse JSON response
-      const data = await response.json();
       return data as T;
     } catch (error) {
       // Re-throw ApiException as-is
@@ -511,59 +1559,381 @@ export class SimpleIdmClient {
         throw error;
       }
 
+      // Cancelled by the caller - not an error worth reporting
+      if (requestSignal.signal.aborted && !requestSignal.timedOut()) {
+        throw new ApiException(0, {
+          message: getErrorMessage('aborted'),
+          status: 0,
+          error: 'aborted',
+          code: 'aborted',
+        });
+      }
+
+      // Timed out
+      if (requestSignal.timedOut()) {
+        const timeoutError: ApiError = {
+          message: getErrorMessage('timeout', operation),
+          status: 0,
+          error: 'timeout',
+          code: 'timeout',
+        };
+        if (!silent) {
+          this.onError?.(timeoutError);
+        }
+        throw new ApiException(0, timeoutError);
+      }
+
       // Handle network errors or other exceptions
+      this.connectivity.reportUnreachable();
+      const code = isBrowserOnline() ? 'network' : 'offline';
       const apiError: ApiError = {
-        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        message: getErrorMessage(code, operation),
         status: 0,
+        code,
       };
-      this.onError?.(apiError);
+      if (!silent) {
+        this.onError?.(apiError);
+      }
       throw new ApiException(0, apiError);
+    } finally {
+      requestSignal.cleanup();
     }
   }
 
   /**
-   * Parse error response from the API
+   * Read a successful response body
+   * Empty and non-JSON bodies resolve to undefined
    */
-  private async parseErrorResponse(response: Response): Promise<ApiError> {
-    try {
-      const data = await response.json();
-      // Use the server's error message if available, otherwise provide a user-friendly default
-      const defaultMessage = this.getDefaultErrorMessage(response.status);
-      return {
-        message: data.message || data.error || defaultMessage,
-        status: response.status,
-        error: data.error,
-      };
-    } catch {
-      // If JSON parsing fails, provide a user-friendly default message
-      return {
-        message: this.getDefaultErrorMessage(response.status),
-        status: response.status,
+  private async parseResponseBody(response: Response): Promise<unknown> {
+    // Handle 204 No Content
+    if (response.status === 204) {
+      return undefined;
+    }
+
+    // Check if response has content
+    const contentLength = response.headers.get('Content-Length');
+    if (contentLength === '0' || contentLength === null) {
+      // Try to read as text to check if body is empty
+      const text = await response.text();
+      if (!text || text.trim() === '') {
+        return undefined;
+      }
+      // If we have text, try to parse it as JSON
+      try {
+        return JSON.parse(text);
+      } catch {
+        // If not valid JSON, return undefined for void responses
+        return undefined;
+      }
+    }
+
+    // Parse JSON response
+    return response.json();
+  }
+
+  /**
+   * Validate a response body against its schema
+   * Lenient mode reports mismatches; strict mode throws an ApiException
+   */
+  private checkResponse(
+    operation: ApiOperation,
+    endpoint: string,
+    data: unknown,
+    silent?: boolean,
+  ): void {
+    const issues = validateResponse(operation, data);
+    if (issues.length === 0) return;
+
+    const details: ResponseValidationError = { operation, endpoint, issues, data };
+    if (this.onValidationError) {
+      this.onValidationError(details);
+    } else if (this.validation === 'lenient') {
+      console.warn(
+        `[simple-idm] Unexpected ${operation} response: ${formatValidationIssues(issues)}`,
+      );
+    }
+
+    if (this.validation === 'strict') {
+      const apiError: ApiError = {
+        message: getErrorMessage('invalid_response', operation),
+        status: 0,
+        error: formatValidationIssues(issues),
+        code: 'invalid_response',
       };
+      if (!silent) {
+        this.onError?.(apiError);
+      }
+      throw new ApiException(0, apiError);
+    }
+  }
+
+  /**
+   * Send a request, retrying network errors and retryable statuses with backoff
+   * Honors Retry-After; gives up early if the server asks for a longer wait
+   * than `maxRetryAfterMs` so the caller can surface it
+   */
+  private async sendWithRetry(
+    endpoint: string,
+    init: RequestInit,
+    retries: number,
+    trace?: RequestTrace,
+  ): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.send(endpoint, init);
+      } catch (error) {
+        // Network error - retry unless cancelled or out of attempts
+        if (attempt >= retries || init.signal?.aborted) {
+          throw error;
+        }
+        const delayMs = getBackoffDelay(this.retryPolicy, attempt);
+        trace?.retry('network', { delayMs });
+        await sleep(delayMs, init.signal);
+        continue;
+      }
+
+      if (attempt >= retries || !this.retryPolicy.retryOn.includes(response.status)) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (retryAfter !== undefined && retryAfter > this.retryPolicy.maxRetryAfterMs) {
+        return response;
+      }
+
+      const delayMs = retryAfter ?? getBackoffDelay(this.retryPolicy, attempt);
+      trace?.retry('status', { status: response.status, delayMs });
+      await sleep(delayMs, init.signal);
+    }
+  }
+
+  /**
+   * Send the HTTP request with credentials and JSON headers through the interceptor chain
+   * Cookie mode includes cookies; bearer mode attaches the stored access token
+   */
+  private async send(endpoint: string, init: RequestInit): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (!headers.has('Content-Type')) {
+      headers.set('Content-Type', 'application/json');
+    }
+
+    if (this.tokenStorage && !headers.has('Authorization')) {
+      const tokens = await this.tokenStorage.getTokens();
+      if (tokens?.accessToken) {
+        headers.set('Authorization', `Bearer ${tokens.accessToken}`);
+      }
+    }
+
+    if (
+      this.csrfConfig &&
+      requiresCsrfToken(this.csrfConfig, init.method) &&
+      !headers.has(this.csrfConfig.headerName)
+    ) {
+      const csrfToken = await this.getCsrfToken();
+      if (csrfToken) {
+        headers.set(this.csrfConfig.headerName, csrfToken);
+      }
+    }
+
+    if (
+      this.tenant !== null &&
+      this.tenantConfig.strategy === 'header' &&
+      !headers.has(this.tenantConfig.headerName)
+    ) {
+      headers.set(this.tenantConfig.headerName, this.tenant);
+    }
+
+    const intercepted = await runRequestInterceptors(this.interceptors, {
+      url: `${this.baseUrl}${endpoint}`,
+      endpoint,
+      init: {
+        ...init,
+        // CRITICAL: Include cookies in requests (bearer mode doesn't need them cross-origin)
+        credentials: this.authMode === 'cookie' ? 'include' : 'same-origin',
+      },
+      headers,
+    });
+
+    // Short-circuited by a request interceptor
+    if (intercepted instanceof Response) {
+      return intercepted;
+    }
+
+    const request: InterceptedRequest = intercepted;
+    // Don't hit the network if the request was cancelled while intercepting
+    request.init.signal?.throwIfAborted();
+
+    let response: Response;
+    try {
+      response = await this.fetchFn(request.url, { ...request.init, headers: request.headers });
+    } catch (error) {
+      const recovered = await runErrorInterceptors(this.interceptors, error, request);
+      if (!recovered) {
+        throw error;
+      }
+      response = recovered;
+    }
+
+    return runResponseInterceptors(this.interceptors, response, request);
+  }
+
+  /**
+   * Get the CSRF token for a state-changing request
+   * Prefers the cookie, then the cached token, then the bootstrap endpoint
+   */
+  private async getCsrfToken(): Promise<string | null> {
+    const config = this.csrfConfig;
+    if (!config) return null;
+
+    if (config.cookieName) {
+      const cookieToken = readCookie(config.cookieName);
+      if (cookieToken) return cookieToken;
+    }
+
+    if (this.csrfToken || !config.endpoint) {
+      return this.csrfToken;
     }
+
+    if (!this.csrfPromise) {
+      const endpoint = config.endpoint;
+      this.csrfPromise = this.send(endpoint, { method: 'GET' })
+        .then((response) => (response.ok ? extractCsrfToken(config, response) : null))
+        .catch(() => null)
+        .then((token) => {
+          this.csrfToken = token;
+          return token;
+        })
+        .finally(() => {
+          this.csrfPromise = null;
+        });
+    }
+    return this.csrfPromise;
   }
 
   /**
-   * Get a user-friendly error message based on HTTP status code
+   * Call the token refresh endpoint
+   * In bearer mode the stored refresh token is sent in the body and the new
+   * tokens are stored; they are cleared if the refresh is rejected
+   * @param silent - Suppress onUnauthorized/onError (background refresh)
    */
-  private getDefaultErrorMessage(status: number): string {
-    switch (status) {
-      case 400:
-        return 'Invalid username or password. Please check your credentials and try again.';
-      case 401:
-        return 'Your session has expired. Please log in again.';
-      case 403:
-        return 'You do not have permission to access this resource.';
-      case 404:
-        return 'The requested resource was not found.';
-      case 429:
-        return 'Too many attempts. Please try again later.';
-      case 500:
-        return 'A server error occurred. Please try again later.';
-      case 503:
-        return 'The service is temporarily unavailable. Please try again later.';
-      default:
-        return 'An unexpected error occurred. Please try again.';
+  private async requestTokenRefresh(
+    silent: boolean,
+    options?: RequestCallOptions,
+  ): Promise<TokenRefreshResponse> {
+    let body: string | undefined;
+    if (this.tokenStorage) {
+      const tokens = await this.tokenStorage.getTokens();
+      if (tokens?.refreshToken) {
+        body = JSON.stringify({ refresh_token: tokens.refreshToken });
+      }
     }
+
+    try {
+      const response = await this.request<TokenRefreshResponse>(
+        `${this.prefixes.login}/token/refresh`,
+        {
+          ...options,
+          operation: 'refreshToken',
+          method: 'POST',
+          body,
+          skipAuthRefresh: true,
+          silent,
+        },
+      );
+      await this.storeTokens(response);
+      return response;
+    } catch (error) {
+      if (error instanceof ApiException && error.status === 401) {
+        await this.tokenStorage?.clearTokens();
+        this.setSessionExpiry(null);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Add the stored trusted-device token to a login request (bearer mode)
+   */
+  private async withDeviceToken<T extends { device_token?: string }>(data: T): Promise<T> {
+    if (data.device_token || !this.deviceTokenStorage) return data;
+    const deviceToken = await this.deviceTokenStorage.getDeviceToken();
+    return deviceToken ? { ...data, device_token: deviceToken } : data;
+  }
+
+  /**
+   * Forget a stored device token the server no longer trusts (expired or revoked)
+   */
+  private async checkDeviceToken(
+    request: { device_token?: string },
+    response: LoginResponse,
+  ): Promise<void> {
+    if (request.device_token && response.status === '2fa_required') {
+      await this.deviceTokenStorage?.clearDeviceToken();
+    }
+  }
+
+  /**
+   * Note when tokens returned by sign-in calls or refresh expire, and store them (bearer mode only)
+   * Keeps the current refresh token if the response doesn't rotate it
+   */
+  private async storeTokens(response: TokenLifetimeFields | undefined): Promise<void> {
+    this.setSessionExpiry(readSessionExpiry(response, this.sessionExpiry));
+
+    if (!this.tokenStorage || !response?.access_token) {
+      return;
+    }
+    const current = await this.tokenStorage.getTokens();
+    await this.tokenStorage.setTokens({
+      accessToken: response.access_token,
+      refreshToken: response.refresh_token ?? current?.refreshToken,
+    });
+  }
+
+  /**
+   * Refresh the session after a 401
+   * Concurrent callers share a single refresh request
+   * @returns true if the refresh succeeded and requests can be replayed
+   */
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestTokenRefresh(true)
+        .then(() => true)
+        .catch(() => false)
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Parse error response from the API
+   * The error code and default message depend on the calling method, not just the status
+   */
+  private async parseErrorResponse(
+    response: Response,
+    operation?: ApiOperation,
+  ): Promise<ApiError> {
+    let data: Record<string, unknown> | null = null;
+    try {
+      data = await response.json();
+    } catch {
+      // Not JSON - fall back to the status
+    }
+
+    const serverError = typeof data?.error === 'string' ? data.error : undefined;
+    const serverCode = typeof data?.code === 'string' ? data.code : undefined;
+    const code = resolveErrorCode(response.status, serverCode ?? serverError, operation);
+    const serverMessage = typeof data?.message === 'string' ? data.message : undefined;
+
+    // Use the server's message if available, otherwise a user-friendly default for the call
+    return {
+      message: serverMessage || getErrorMessage(code, operation),
+      status: response.status,
+      error: serverError,
+      code,
+      fields: parseFieldErrors(data),
+    };
   }
 }
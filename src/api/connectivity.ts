@@ -0,0 +1,160 @@
+/**
+ * Connectivity
+ *
+ * Tracks whether the client can reach simple-idm. The browser's
+ * `navigator.onLine` says whether there is a network at all; failed and
+ * successful requests say whether the backend is reachable over it.
+ */
+
+import { sleep } from './retry';
+
+/**
+ * Offline handling configuration
+ */
+export interface OfflineConfig {
+  /**
+   * Hold safe requests (e.g. getCurrentUser) made while the browser is offline
+   * until connectivity returns, instead of failing them right away
+   * @default false
+   */
+  holdRequests?: boolean;
+  /**
+   * Longest time to hold a request before failing it with code `offline`
+   * @default 30000
+   */
+  maxHoldMs?: number;
+  /**
+   * HTTP methods that are held
+   * @default ['GET', 'HEAD']
+   */
+  methods?: string[];
+}
+
+/**
+ * Default offline handling
+ */
+export const DEFAULT_OFFLINE_CONFIG: Required<OfflineConfig> = {
+  holdRequests: false,
+  maxHoldMs: 30_000,
+  methods: ['GET', 'HEAD'],
+};
+
+/**
+ * Whether the browser reports a network connection
+ * Always true outside the browser
+ */
+export function isBrowserOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/**
+ * Subscribe to the browser's online/offline events
+ * @returns Function that removes the listener
+ */
+function onBrowserConnectivityChange(listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => undefined;
+
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+}
+
+export interface ConnectivityMonitor {
+  /** Online and the backend answered the last request */
+  isOnline: () => boolean;
+  /** Subscribe to changes of isOnline() */
+  subscribe: (listener: (online: boolean) => void) => () => void;
+  /** A request got a response */
+  reportReachable: () => void;
+  /** A request failed with a network error */
+  reportUnreachable: () => void;
+  /**
+   * Wait until the browser is back online
+   * @returns false if maxMs passed first
+   * @throws The abort reason if the signal aborts first
+   */
+  waitForOnline: (maxMs: number, signal?: AbortSignal | null) => Promise<boolean>;
+}
+
+/**
+ * Create a connectivity monitor for a client
+ * Browser events are only listened to while something is subscribed or waiting
+ */
+export function createConnectivityMonitor(): ConnectivityMonitor {
+  const listeners = new Set<(online: boolean) => void>();
+  let unreachable = false;
+  let last = isBrowserOnline();
+  let detach: (() => void) | null = null;
+
+  const isOnline = () => isBrowserOnline() && !unreachable;
+
+  const notify = () => {
+    const online = isOnline();
+    if (online === last) return;
+    last = online;
+    listeners.forEach((listener) => listener(online));
+  };
+
+  const onBrowserChange = () => {
+    // Back on a network - give the backend another chance
+    if (isBrowserOnline()) {
+      unreachable = false;
+    }
+    notify();
+  };
+
+  const listen = (listener: (online: boolean) => void) => {
+    listeners.add(listener);
+    if (!detach) {
+      last = isOnline();
+      detach = onBrowserConnectivityChange(onBrowserChange);
+    }
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        detach?.();
+        detach = null;
+      }
+    };
+  };
+
+  const waitForOnline: ConnectivityMonitor['waitForOnline'] = async (maxMs, signal) => {
+    signal?.throwIfAborted();
+    if (isBrowserOnline()) return true;
+
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', abort, { once: true });
+    const unsubscribe = listen(() => {
+      if (isBrowserOnline()) controller.abort();
+    });
+
+    try {
+      await sleep(maxMs, controller.signal);
+      return false;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      return true;
+    } finally {
+      unsubscribe();
+      signal?.removeEventListener('abort', abort);
+    }
+  };
+
+  return {
+    isOnline,
+    subscribe: listen,
+    reportReachable: () => {
+      unreachable = false;
+      notify();
+    },
+    reportUnreachable: () => {
+      unreachable = true;
+      notify();
+    },
+    waitForOnline,
+  };
+}
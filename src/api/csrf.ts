@@ -0,0 +1,126 @@
+/**
+ * CSRF Protection
+ *
+ * Cookie-authenticated requests are CSRF targets. The client supports the
+ * double-submit-cookie pattern (token read from a cookie) and header tokens
+ * fetched from a bootstrap endpoint. The token is attached to every
+ * state-changing request and refreshed after a 403 CSRF failure.
+ */
+
+/**
+ * CSRF protection configuration
+ */
+export interface CsrfConfig {
+  /**
+   * Cookie the server writes the CSRF token to (double-submit-cookie pattern)
+   * Checked before the bootstrap endpoint
+   * @example 'csrf_token'
+   */
+  cookieName?: string;
+  /**
+   * Endpoint that returns a CSRF token, relative to baseUrl
+   * The token is read from the `headerName` response header or from a
+   * `csrf_token`/`token` field in the JSON body. If it only sets the cookie,
+   * the token is read from `cookieName` afterwards.
+   * @example '/api/v2/idm/csrf'
+   */
+  endpoint?: string;
+  /**
+   * Request header the token is sent in
+   * @default 'X-CSRF-Token'
+   */
+  headerName?: string;
+  /**
+   * HTTP methods that don't need a token
+   * @default ['GET', 'HEAD', 'OPTIONS']
+   */
+  safeMethods?: string[];
+}
+
+/**
+ * Default CSRF configuration
+ */
+export const DEFAULT_CSRF_CONFIG: Required<Omit<CsrfConfig, 'cookieName' | 'endpoint'>> = {
+  headerName: 'X-CSRF-Token',
+  safeMethods: ['GET', 'HEAD', 'OPTIONS'],
+};
+
+export type ResolvedCsrfConfig = CsrfConfig & typeof DEFAULT_CSRF_CONFIG;
+
+/**
+ * Merge a CSRF configuration with the defaults
+ *
+ * @returns null when CSRF protection is disabled
+ */
+export function resolveCsrfConfig(config?: CsrfConfig | false): ResolvedCsrfConfig | null {
+  if (!config) return null;
+  if (!config.cookieName && !config.endpoint) {
+    throw new Error('CSRF protection requires a cookieName or an endpoint');
+  }
+  return { ...DEFAULT_CSRF_CONFIG, ...config };
+}
+
+/**
+ * Whether a request with this method needs a CSRF token
+ */
+export function requiresCsrfToken(config: ResolvedCsrfConfig, method: string | undefined): boolean {
+  return !config.safeMethods.includes((method || 'GET').toUpperCase());
+}
+
+/**
+ * Read a cookie value by name
+ *
+ * @returns The decoded value, or null outside the browser or if the cookie is missing
+ */
+export function readCookie(name: string): string | null {
+  if (typeof document === 'undefined') return null;
+
+  for (const part of document.cookie.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      try {
+        return decodeURIComponent(value.join('='));
+      } catch {
+        return value.join('=');
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Extract a CSRF token from a bootstrap endpoint response
+ */
+export async function extractCsrfToken(
+  config: ResolvedCsrfConfig,
+  response: Response,
+): Promise<string | null> {
+  const header = response.headers.get(config.headerName);
+  if (header) return header;
+
+  try {
+    const data = await response.json();
+    const token = data?.csrf_token ?? data?.token;
+    if (typeof token === 'string' && token) return token;
+  } catch {
+    // Not JSON - the endpoint may only set the cookie
+  }
+
+  return config.cookieName ? readCookie(config.cookieName) : null;
+}
+
+/**
+ * Whether a response is a 403 caused by a missing or invalid CSRF token
+ *
+ * Reads a clone so the original body stays available for error handling.
+ */
+export async function isCsrfFailure(response: Response): Promise<boolean> {
+  if (response.status !== 403) return false;
+
+  try {
+    const data = await response.clone().json();
+    return /csrf/i.test(`${data?.error ?? ''} ${data?.message ?? ''}`);
+  } catch {
+    return false;
+  }
+}
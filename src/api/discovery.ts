@@ -0,0 +1,308 @@
+/**
+ * Backend Discovery
+ *
+ * Works out which endpoint layout a simple-idm backend serves, instead of
+ * trusting `basePrefix`/`apiVersion`/`useLegacyPrefixes`. Sources are tried in
+ * order: the simple-idm capabilities document, the OIDC discovery document,
+ * then probing the known layouts.
+ */
+
+import { ApiException } from '../types/api';
+import {
+  type PrefixConfig,
+  DEFAULT_V1_PREFIXES,
+  DEFAULT_V2_PREFIXES,
+  LEGACY_PREFIXES,
+  buildPrefixesFromBase,
+  buildPrefixesFromVersion,
+  mergePrefixes,
+  validatePrefixes,
+} from './config';
+import { getErrorMessage } from './errors';
+
+/**
+ * Endpoint layout served by the backend
+ * `custom` means the prefixes came from the backend and match no preset
+ */
+export type BackendLayout = 'v2' | 'v1' | 'legacy' | 'custom';
+
+/**
+ * Where the discovery result came from
+ */
+export type DiscoverySource = 'capabilities' | 'openid-configuration' | 'probe';
+
+/**
+ * Features the backend has enabled
+ */
+export interface BackendFeatures {
+  /** Magic link login */
+  magicLinks: boolean;
+  /** Signup with a password */
+  passwordSignup: boolean;
+  /** Signup without a password */
+  passwordlessSignup: boolean;
+  /** Enabled 2FA methods, e.g. ['totp', 'email'] */
+  twoFactorTypes: string[];
+  /** Email verification */
+  emailVerification: boolean;
+  /** Self-service password reset */
+  passwordReset: boolean;
+}
+
+/**
+ * Result of discovering a backend
+ */
+export interface DiscoveryResult {
+  /** Where the result came from */
+  source: DiscoverySource;
+  /** Endpoint layout */
+  layout: BackendLayout;
+  /** Prefixes to configure the client with */
+  prefixes: PrefixConfig;
+  /**
+   * Enabled features
+   * null when the backend doesn't advertise them (OIDC document or probing)
+   */
+  features: BackendFeatures | null;
+  /** OIDC issuer, if the OIDC discovery document was read */
+  issuer?: string;
+}
+
+/**
+ * Discovery options
+ */
+export interface DiscoveryOptions {
+  /**
+   * simple-idm capabilities document, relative to baseUrl
+   * @default '/.well-known/simple-idm'
+   */
+  capabilitiesPath?: string;
+  /**
+   * OIDC discovery document, relative to baseUrl
+   * @default '/.well-known/openid-configuration'
+   */
+  openIdConfigurationPath?: string;
+  /** Extra headers sent with every discovery request (e.g. a tenant header) */
+  headers?: Record<string, string>;
+  /** Cancels discovery */
+  signal?: AbortSignal;
+}
+
+/**
+ * Capabilities document served by simple-idm
+ *
+ * @example
+ * {
+ *   "api_version": "v2",
+ *   "prefixes": { "login": "/api/v2/auth", "magic_links": "/api/v2/auth/magic-link" },
+ *   "features": { "magic_links": true, "two_factor_types": ["totp", "email"] }
+ * }
+ */
+export interface CapabilitiesDocument {
+  /** 'v2', 'v1', 'legacy' or another version served under /api/{version}/idm */
+  api_version?: string;
+  /** Prefixes that differ from the version's defaults */
+  prefixes?: Partial<Record<CapabilityPrefixKey, string>>;
+  features?: {
+    magic_links?: boolean;
+    password_signup?: boolean;
+    passwordless_signup?: boolean;
+    two_factor_types?: string[];
+    email_verification?: boolean;
+    password_reset?: boolean;
+  };
+}
+
+type CapabilityPrefixKey =
+  | 'login'
+  | 'signup'
+  | 'profile'
+  | 'two_fa'
+  | 'email'
+  | 'password_reset'
+  | 'magic_links'
+  | 'oauth2';
+
+const CAPABILITY_PREFIX_KEYS: Record<CapabilityPrefixKey, keyof PrefixConfig> = {
+  login: 'login',
+  signup: 'signup',
+  profile: 'profile',
+  two_fa: 'twoFA',
+  email: 'email',
+  password_reset: 'passwordReset',
+  magic_links: 'magicLinks',
+  oauth2: 'oauth2',
+};
+
+/**
+ * Preset layouts, most recent first - probed in this order
+ */
+const PRESET_LAYOUTS: [Exclude<BackendLayout, 'custom'>, PrefixConfig][] = [
+  ['v2', DEFAULT_V2_PREFIXES],
+  ['v1', DEFAULT_V1_PREFIXES],
+  ['legacy', LEGACY_PREFIXES],
+];
+
+/**
+ * Default discovery document locations
+ */
+export const DEFAULT_DISCOVERY_OPTIONS = {
+  capabilitiesPath: '/.well-known/simple-idm',
+  openIdConfigurationPath: '/.well-known/openid-configuration',
+};
+
+/**
+ * Discover the endpoint layout and features of a simple-idm backend
+ *
+ * @param baseUrl - Backend base URL ('' for same origin)
+ * @param fetchFn - fetch implementation
+ * @throws ApiException with code `not_found` if no known layout answers,
+ *   or `network` if the backend can't be reached
+ */
+export async function discoverBackend(
+  baseUrl: string,
+  fetchFn: typeof fetch,
+  options: DiscoveryOptions = {},
+): Promise<DiscoveryResult> {
+  const { capabilitiesPath, openIdConfigurationPath } = {
+    ...DEFAULT_DISCOVERY_OPTIONS,
+    ...options,
+  };
+  const base = baseUrl.replace(/\/$/, '');
+
+  const get = async (path: string): Promise<Response> => {
+    try {
+      return await fetchFn(`${base}${path}`, {
+        method: 'GET',
+        headers: { Accept: 'application/json', ...options.headers },
+        credentials: 'same-origin',
+        signal: options.signal,
+      });
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      throw new ApiException(0, {
+        message: getErrorMessage('network'),
+        status: 0,
+        error: error instanceof Error ? error.message : 'network',
+        code: 'network',
+      });
+    }
+  };
+
+  const capabilities = await readJson<CapabilitiesDocument>(await get(capabilitiesPath));
+  if (capabilities) {
+    return fromCapabilities(capabilities);
+  }
+
+  const openIdConfiguration = await readJson<{ issuer?: string; userinfo_endpoint?: string }>(
+    await get(openIdConfigurationPath),
+  );
+  const fromOpenId =
+    openIdConfiguration && fromUserinfoEndpoint(openIdConfiguration.userinfo_endpoint);
+  if (fromOpenId) {
+    return {
+      source: 'openid-configuration',
+      ...fromOpenId,
+      features: null,
+      issuer: openIdConfiguration.issuer,
+    };
+  }
+
+  for (const [layout, prefixes] of PRESET_LAYOUTS) {
+    // The policy endpoint is public and side-effect free in every layout
+    if (isApiResponse(await get(`${prefixes.passwordReset}/policy`))) {
+      return { source: 'probe', layout, prefixes, features: null };
+    }
+  }
+
+  throw new ApiException(404, {
+    message: `No simple-idm API found at ${base || 'this origin'}`,
+    status: 404,
+    code: 'not_found',
+  });
+}
+
+/**
+ * Parse a JSON document, or return null if the response isn't one
+ */
+async function readJson<T>(response: Response): Promise<T | null> {
+  if (!response.ok || !isJson(response)) return null;
+  try {
+    const data = await response.json();
+    return typeof data === 'object' && data !== null ? (data as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function isJson(response: Response): boolean {
+  return (response.headers.get('Content-Type') ?? '').includes('json');
+}
+
+/**
+ * Whether a probe reached an API route
+ * SPA hosts answer unknown paths with index.html, so a 200 only counts if it's JSON
+ */
+function isApiResponse(response: Response): boolean {
+  if (response.status === 401 || response.status === 403) return true;
+  return response.ok && isJson(response);
+}
+
+function fromCapabilities(document: CapabilitiesDocument): DiscoveryResult {
+  const version = document.api_version ?? 'v2';
+  const preset = PRESET_LAYOUTS.find(([layout]) => layout === version);
+  let prefixes = preset ? preset[1] : buildPrefixesFromVersion(version);
+
+  const overrides: Partial<PrefixConfig> = {};
+  for (const [key, value] of Object.entries(document.prefixes ?? {})) {
+    const prefixKey = CAPABILITY_PREFIX_KEYS[key as CapabilityPrefixKey];
+    if (prefixKey && typeof value === 'string') {
+      overrides[prefixKey] = value;
+    }
+  }
+  const customized = Object.keys(overrides).length > 0;
+  if (customized) {
+    prefixes = mergePrefixes(overrides, prefixes);
+    validatePrefixes(prefixes);
+  }
+
+  const features = document.features ?? {};
+  return {
+    source: 'capabilities',
+    layout: preset && !customized ? preset[0] : 'custom',
+    prefixes,
+    features: {
+      magicLinks: features.magic_links ?? false,
+      passwordSignup: features.password_signup ?? false,
+      passwordlessSignup: features.passwordless_signup ?? false,
+      twoFactorTypes: features.two_factor_types ?? [],
+      emailVerification: features.email_verification ?? false,
+      passwordReset: features.password_reset ?? false,
+    },
+  };
+}
+
+/**
+ * Match the OIDC userinfo endpoint against the known layouts
+ * An unknown `/x/oauth2/userinfo` path is treated as `buildPrefixesFromBase('/x')`
+ */
+function fromUserinfoEndpoint(
+  endpoint: string | undefined,
+): Pick<DiscoveryResult, 'layout' | 'prefixes'> | null {
+  if (!endpoint) return null;
+
+  let path: string;
+  try {
+    path = new URL(endpoint, 'http://discovery.local').pathname.replace(/\/$/, '');
+  } catch {
+    return null;
+  }
+
+  const preset = PRESET_LAYOUTS.find(([, prefixes]) => path === `${prefixes.oauth2}/userinfo`);
+  if (preset) {
+    return { layout: preset[0], prefixes: preset[1] };
+  }
+
+  const base = path.match(/^(\/.+)\/oauth2\/userinfo$/)?.[1];
+  return base ? { layout: 'custom', prefixes: buildPrefixesFromBase(base) } : null;
+}
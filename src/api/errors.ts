@@ -0,0 +1,308 @@
+/**
+ * Error Taxonomy
+ *
+ * Maps failed responses to a discriminated error `code` using the server's
+ * error field, the HTTP status and the client method that made the call.
+ * Default messages are chosen per method, so a 400 from `resetPassword`
+ * reads as an invalid link rather than a login failure.
+ */
+
+import { ApiException, type ApiError, type ApiErrorCode } from '../types/api';
+
+/**
+ * Client methods that make API calls
+ * Used to pick error codes and default messages that fit the call
+ */
+export type ApiOperation =
+  | 'login'
+  | 'selectUser'
+  | 'getExternalProviders'
+  | 'loginWithProvider'
+  | 'linkExternalAccount'
+  | 'beginPasskeyLogin'
+  | 'finishPasskeyLogin'
+  | 'beginPasskeyRegistration'
+  | 'finishPasskeyRegistration'
+  | 'listPasskeys'
+  | 'deletePasskey'
+  | 'listSessions'
+  | 'revokeSession'
+  | 'revokeOtherSessions'
+  | 'listTrustedDevices'
+  | 'renameTrustedDevice'
+  | 'revokeTrustedDevice'
+  | 'requestMagicLink'
+  | 'validateMagicLink'
+  | 'refreshToken'
+  | 'logout'
+  | 'signup'
+  | 'getCurrentUser'
+  | 'updateUsername'
+  | 'updatePhone'
+  | 'updatePassword'
+  | 'get2FAStatus'
+  | 'setup2FATOTP'
+  | 'enable2FA'
+  | 'disable2FA'
+  | 'send2FACode'
+  | 'validate2FA'
+  | 'getBackupCodeStatus'
+  | 'regenerateBackupCodes'
+  | 'verifyEmail'
+  | 'resendVerificationEmail'
+  | 'getVerificationStatus'
+  | 'initiatePasswordReset'
+  | 'resetPassword'
+  | 'getPasswordPolicy'
+  | 'exchangeOAuthCode';
+
+/**
+ * Default message for each error code
+ */
+export const DEFAULT_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
+  invalid_credentials: 'Invalid username or password. Please check your credentials and try again.',
+  token_expired: 'This link has expired. Please request a new one.',
+  token_invalid: 'This link is invalid. Please request a new one.',
+  invalid_code: 'The verification code is incorrect. Please try again.',
+  rate_limited: 'Too many attempts. Please try again later.',
+  validation_failed: 'Some of the information you entered is invalid. Please check it and try again.',
+  account_locked: 'Your account is locked. Please contact support or try again later.',
+  unauthorized: 'Your session has expired. Please log in again.',
+  forbidden: 'You do not have permission to access this resource.',
+  csrf_failed: 'Your session could not be verified. Please reload the page and try again.',
+  not_found: 'The requested resource was not found.',
+  conflict: 'This information is already in use.',
+  server_error: 'A server error occurred. Please try again later.',
+  unavailable: 'The service is temporarily unavailable. Please try again later.',
+  invalid_response: 'The server returned an unexpected response. Please try again later.',
+  network: 'Unable to reach the server. Please check your connection and try again.',
+  offline: "You're offline. Check your internet connection and try again.",
+  timeout: 'The request timed out. Please try again.',
+  aborted: 'The request was cancelled.',
+  unknown: 'An unexpected error occurred. Please try again.',
+};
+
+/**
+ * Method-specific messages that override DEFAULT_ERROR_MESSAGES
+ */
+const OPERATION_ERROR_MESSAGES: Partial<
+  Record<ApiOperation, Partial<Record<ApiErrorCode, string>>>
+> = {
+  validateMagicLink: {
+    token_invalid: 'This magic link is invalid. Please request a new one.',
+    token_expired: 'This magic link has expired. Please request a new one.',
+  },
+  selectUser: {
+    unauthorized: 'Your sign-in has expired. Please log in again.',
+    validation_failed: 'That account is not available. Please choose another one.',
+  },
+  loginWithProvider: {
+    forbidden: 'Sign-in with the provider was cancelled or denied.',
+    conflict: 'This provider account is already linked to another user.',
+  },
+  linkExternalAccount: {
+    invalid_credentials: 'Your password is incorrect.',
+    token_invalid: 'This account link request is invalid. Please sign in with the provider again.',
+    token_expired: 'This account link request has expired. Please sign in with the provider again.',
+  },
+  beginPasskeyLogin: {
+    not_found: 'No passkeys are registered for this account.',
+  },
+  finishPasskeyLogin: {
+    invalid_credentials: 'This passkey was not recognized. Please try another sign-in method.',
+    token_expired: 'The passkey sign-in timed out. Please try again.',
+  },
+  finishPasskeyRegistration: {
+    validation_failed: 'The passkey could not be registered. Please try again.',
+    conflict: 'This passkey is already registered.',
+  },
+  deletePasskey: {
+    not_found: 'This passkey was already removed.',
+  },
+  revokeSession: {
+    not_found: 'This session has already ended.',
+    validation_failed: 'Sign out to end the session on this device.',
+  },
+  renameTrustedDevice: {
+    not_found: 'This device is no longer trusted.',
+    validation_failed: 'Please enter a name for the device.',
+  },
+  revokeTrustedDevice: {
+    not_found: 'This device is no longer trusted.',
+  },
+  requestMagicLink: {
+    not_found: 'No account was found for that username or email.',
+  },
+  signup: {
+    validation_failed: 'Please check the registration details and try again.',
+    conflict: 'An account with this username or email already exists.',
+  },
+  updateUsername: {
+    invalid_credentials: 'Your current password is incorrect.',
+    conflict: 'This username is already taken.',
+  },
+  updatePhone: {
+    validation_failed: 'Please enter a valid phone number.',
+  },
+  updatePassword: {
+    invalid_credentials: 'Your current password is incorrect.',
+    validation_failed: 'The new password does not meet the password policy.',
+  },
+  regenerateBackupCodes: {
+    invalid_credentials: 'Your current password is incorrect.',
+  },
+  verifyEmail: {
+    token_invalid: 'This verification link is invalid. Please request a new one.',
+    token_expired: 'This verification link has expired. Please request a new one.',
+  },
+  initiatePasswordReset: {
+    not_found: 'No account was found for that username or email.',
+  },
+  exchangeOAuthCode: {
+    token_invalid: 'This sign-in response is invalid or was already used. Please sign in again.',
+    forbidden: 'Sign-in was cancelled or denied.',
+  },
+  resetPassword: {
+    token_invalid: 'This password reset link is invalid. Please request a new one.',
+    token_expired: 'This password reset link has expired. Please request a new one.',
+    validation_failed: 'The new password does not meet the password policy.',
+  },
+};
+
+/**
+ * What a 400 means for each method, when the server doesn't say
+ * Methods not listed map 400 to `validation_failed`
+ */
+const BAD_REQUEST_CODES: Partial<Record<ApiOperation, ApiErrorCode>> = {
+  login: 'invalid_credentials',
+  linkExternalAccount: 'invalid_credentials',
+  finishPasskeyLogin: 'invalid_credentials',
+  validateMagicLink: 'token_invalid',
+  verifyEmail: 'token_invalid',
+  resetPassword: 'token_invalid',
+  enable2FA: 'invalid_code',
+  validate2FA: 'invalid_code',
+  regenerateBackupCodes: 'invalid_credentials',
+  exchangeOAuthCode: 'token_invalid',
+};
+
+/**
+ * Server `error` values recognised as error codes, beyond the codes themselves
+ */
+const SERVER_ERROR_ALIASES: Record<string, ApiErrorCode> = {
+  invalid_password: 'invalid_credentials',
+  invalid_username_or_password: 'invalid_credentials',
+  expired_token: 'token_expired',
+  invalid_token: 'token_invalid',
+  invalid_2fa_code: 'invalid_code',
+  too_many_requests: 'rate_limited',
+  validation_error: 'validation_failed',
+  account_disabled: 'account_locked',
+  user_locked: 'account_locked',
+  csrf_token_invalid: 'csrf_failed',
+  csrf_token_missing: 'csrf_failed',
+  // OAuth2 error responses (RFC 6749)
+  invalid_grant: 'token_invalid',
+  access_denied: 'forbidden',
+  login_required: 'unauthorized',
+};
+
+/**
+ * Map a failed response to an error code
+ *
+ * @param status - HTTP status
+ * @param serverError - The `error` (or `code`) field of the response body
+ * @param operation - Client method that made the call
+ */
+export function resolveErrorCode(
+  status: number,
+  serverError?: string,
+  operation?: ApiOperation,
+): ApiErrorCode {
+  if (serverError) {
+    const normalized = serverError.toLowerCase();
+    if (normalized in DEFAULT_ERROR_MESSAGES) return normalized as ApiErrorCode;
+    const alias = SERVER_ERROR_ALIASES[normalized];
+    if (alias) return alias;
+    if (normalized.includes('csrf')) return 'csrf_failed';
+  }
+
+  switch (status) {
+    case 400:
+      return (operation && BAD_REQUEST_CODES[operation]) || 'validation_failed';
+    case 401:
+      return operation === 'login' ? 'invalid_credentials' : 'unauthorized';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not_found';
+    case 409:
+      return 'conflict';
+    case 410:
+      return 'token_expired';
+    case 422:
+      return 'validation_failed';
+    case 423:
+      return 'account_locked';
+    case 429:
+      return 'rate_limited';
+    case 503:
+      return 'unavailable';
+    default:
+      return status >= 500 ? 'server_error' : 'unknown';
+  }
+}
+
+/**
+ * Get the default message for an error code, preferring the method-specific one
+ */
+export function getErrorMessage(code: ApiErrorCode, operation?: ApiOperation): string {
+  return (operation && OPERATION_ERROR_MESSAGES[operation]?.[code]) || DEFAULT_ERROR_MESSAGES[code];
+}
+
+/**
+ * Extract field-level validation errors from an error response body
+ *
+ * Accepts `{ fields: { name: message } }`, `{ errors: { name: message | message[] } }`
+ * and `{ errors: [{ field, message }] }`.
+ */
+export function parseFieldErrors(body: unknown): Record<string, string> | undefined {
+  if (!body || typeof body !== 'object') return undefined;
+
+  const source =
+    (body as Record<string, unknown>).fields ?? (body as Record<string, unknown>).errors;
+  const fields: Record<string, string> = {};
+
+  if (Array.isArray(source)) {
+    for (const item of source) {
+      if (item && typeof item.field === 'string' && typeof item.message === 'string') {
+        fields[item.field] = item.message;
+      }
+    }
+  } else if (source && typeof source === 'object') {
+    for (const [field, value] of Object.entries(source)) {
+      const message = Array.isArray(value) ? value[0] : value;
+      if (typeof message === 'string') {
+        fields[field] = message;
+      }
+    }
+  }
+
+  return Object.keys(fields).length > 0 ? fields : undefined;
+}
+
+/**
+ * Normalise anything thrown by a client call into an ApiError
+ *
+ * @param error - The caught value
+ * @param fallbackMessage - Message used when the error carries none
+ */
+export function toApiError(error: unknown, fallbackMessage: string): ApiError {
+  if (error instanceof ApiException) {
+    return { ...error.data, code: error.code };
+  }
+  return {
+    message: error instanceof Error && error.message ? error.message : fallbackMessage,
+    code: 'unknown',
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * External Identity Providers
+ *
+ * Sign-in through Google, GitHub, Microsoft or any OIDC provider configured in
+ * simple-idm. The browser is sent to simple-idm, which runs the provider flow
+ * and redirects back to the app with the outcome in the query string:
+ *
+ * - `?provider=google&status=success` - signed in, session started
+ * - `?provider=google&status=link_required&link_token=...&email=...` - the email
+ *   belongs to an existing account; link it with linkExternalAccount()
+ * - `?provider=google&error=access_denied&error_description=...` - failed
+ */
+
+import { ApiException, type ExternalLoginResult } from '../types/api';
+import { getErrorMessage, resolveErrorCode } from './errors';
+
+/** Query parameters simple-idm adds to the return URL */
+const RESULT_PARAMS = ['provider', 'status', 'link_token', 'email', 'error', 'error_description'];
+
+/**
+ * Read the outcome of a provider sign-in from the return URL
+ *
+ * @returns The result, or null if the URL doesn't carry one
+ * @throws ApiException if the provider or simple-idm reported an error
+ */
+export function parseExternalLoginResult(callbackUrl: string): ExternalLoginResult | null {
+  const params = new URL(callbackUrl, 'http://callback.local').searchParams;
+  const provider = params.get('provider');
+  if (!provider) return null;
+
+  const error = params.get('error');
+  if (error) {
+    const code = resolveErrorCode(400, error, 'loginWithProvider');
+    throw new ApiException(400, {
+      message: params.get('error_description') || getErrorMessage(code, 'loginWithProvider'),
+      status: 400,
+      error,
+      code,
+    });
+  }
+
+  switch (params.get('status')) {
+    case 'success':
+      return { status: 'success', provider };
+    case 'link_required': {
+      const linkToken = params.get('link_token');
+      if (!linkToken) return null;
+      return {
+        status: 'link_required',
+        provider,
+        link_token: linkToken,
+        email: params.get('email') ?? undefined,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * The return URL without the result parameters, so a reload doesn't replay the result
+ */
+export function stripExternalLoginParams(callbackUrl: string): string {
+  const url = new URL(callbackUrl);
+  for (const param of RESULT_PARAMS) {
+    url.searchParams.delete(param);
+  }
+  return url.toString();
+}
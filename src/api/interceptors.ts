@@ -0,0 +1,130 @@
+/**
+ * Request/Response Interceptors
+ *
+ * Ordered middleware chain that every SimpleIdmClient request passes through.
+ * Use interceptors to add headers (correlation IDs, tenant IDs), log traffic,
+ * transform responses, or short-circuit requests entirely.
+ */
+
+/**
+ * Outgoing request as seen by interceptors
+ */
+export interface InterceptedRequest {
+  /** Fully-qualified request URL (baseUrl + endpoint) */
+  url: string;
+  /** Endpoint path without baseUrl (e.g., '/api/v2/auth/login') */
+  endpoint: string;
+  /** Fetch options (method, body, credentials, ...) - headers live in `headers` */
+  init: RequestInit;
+  /** Request headers - mutate in place or replace */
+  headers: Headers;
+}
+
+/**
+ * Interceptor hooks
+ *
+ * All hooks are optional and run in registration order.
+ */
+export interface Interceptor {
+  /** Optional name, useful for debugging */
+  name?: string;
+  /**
+   * Called before the request is sent
+   * - Return nothing to continue with the (possibly mutated) request
+   * - Return an InterceptedRequest to replace the request
+   * - Return a Response to short-circuit: fetch and all remaining
+   *   interceptors are skipped and the client handles that Response
+   */
+  onRequest?: (
+    request: InterceptedRequest,
+  ) => InterceptedRequest | Response | void | Promise<InterceptedRequest | Response | void>;
+  /**
+   * Called after a response is received (including error statuses)
+   * Return a Response to replace it, or nothing to keep it
+   */
+  onResponse?: (
+    response: Response,
+    request: InterceptedRequest,
+  ) => Response | void | Promise<Response | void>;
+  /**
+   * Called when the request fails without a response (network error, abort)
+   * Return a Response to recover, or nothing to let the error propagate
+   */
+  onError?: (
+    error: unknown,
+    request: InterceptedRequest,
+  ) => Response | void | Promise<Response | void>;
+}
+
+/**
+ * Run request interceptors
+ *
+ * @returns The final request, or a Response if an interceptor short-circuited
+ */
+export async function runRequestInterceptors(
+  interceptors: readonly Interceptor[],
+  request: InterceptedRequest,
+): Promise<InterceptedRequest | Response> {
+  let current = request;
+
+  for (const interceptor of interceptors) {
+    if (!interceptor.onRequest) continue;
+
+    const result = await interceptor.onRequest(current);
+    if (result instanceof Response) {
+      return result;
+    }
+    if (result) {
+      current = result;
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Run response interceptors
+ *
+ * @returns The final response after all replacements
+ */
+export async function runResponseInterceptors(
+  interceptors: readonly Interceptor[],
+  response: Response,
+  request: InterceptedRequest,
+): Promise<Response> {
+  let current = response;
+
+  for (const interceptor of interceptors) {
+    if (!interceptor.onResponse) continue;
+
+    const result = await interceptor.onResponse(current, request);
+    if (result) {
+      current = result;
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Run error interceptors
+ *
+ * @returns A recovery Response from the first interceptor that provides one,
+ *          or undefined if the error should propagate
+ */
+export async function runErrorInterceptors(
+  interceptors: readonly Interceptor[],
+  error: unknown,
+  request: InterceptedRequest,
+): Promise<Response | undefined> {
+  for (const interceptor of interceptors) {
+    if (!interceptor.onError) continue;
+
+    const result = await interceptor.onError(error, request);
+    if (result) {
+      return result;
+    }
+  }
+
+  return undefined;
+}
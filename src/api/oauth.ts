@@ -0,0 +1,255 @@
+/**
+ * OAuth2 Authorization Code + PKCE
+ *
+ * Lets an SPA use simple-idm as a standard OIDC provider: redirect to the
+ * authorization endpoint with a PKCE challenge, then exchange the returned
+ * code at the token endpoint. The verifier, state and nonce are kept in
+ * sessionStorage between the two page loads.
+ */
+
+import { ApiException } from '../types/api';
+import { getErrorMessage, resolveErrorCode } from './errors';
+import { base64UrlToBuffer } from './webauthn';
+
+/**
+ * OAuth2 client configuration
+ */
+export interface OAuthConfig {
+  /** Client id registered with simple-idm */
+  clientId: string;
+  /** Redirect URI registered for the client (the page rendering OAuthCallback) */
+  redirectUri: string;
+  /**
+   * Requested scopes
+   * @default 'openid profile email'
+   */
+  scope?: string;
+  /**
+   * Where pending authorization requests are kept between the redirect and the callback
+   * @default sessionStorage
+   */
+  storage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+}
+
+/**
+ * Default requested scopes
+ */
+export const DEFAULT_OAUTH_SCOPE = 'openid profile email';
+
+/**
+ * Per-call authorization options
+ */
+export interface AuthorizeOptions {
+  /** Overrides the configured scopes */
+  scope?: string;
+  /** OIDC prompt, e.g. 'login' to force re-authentication */
+  prompt?: string;
+  /** Prefills the username on the login page */
+  loginHint?: string;
+  /** App URL to return to after the callback; handed back by handleOAuthCallback() */
+  returnTo?: string;
+  /** Extra query parameters for the authorization endpoint */
+  extraParams?: Record<string, string>;
+}
+
+/**
+ * A prepared authorization request
+ */
+export interface AuthorizationRequest {
+  /** Authorization endpoint URL to redirect to */
+  url: string;
+  state: string;
+  nonce: string;
+  /** PKCE code verifier (kept in storage until the callback) */
+  codeVerifier: string;
+}
+
+/**
+ * Token endpoint response
+ */
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+  /** Present when the 'openid' scope was granted */
+  id_token?: string;
+  scope?: string;
+}
+
+/**
+ * Result of handling the redirect back from simple-idm
+ */
+export interface OAuthCallbackResult {
+  tokens: OAuthTokenResponse;
+  /** returnTo passed to the authorization request, if any */
+  returnTo?: string;
+}
+
+/**
+ * What's remembered between the redirect and the callback
+ */
+export interface PendingAuthorization {
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+  returnTo?: string;
+}
+
+const STORAGE_PREFIX = 'simple-idm.oauth.';
+
+/**
+ * Random URL-safe string
+ * @param bytes - Entropy in bytes (32 gives a 43-character PKCE verifier)
+ */
+export function generateRandomString(bytes = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+/**
+ * S256 PKCE code challenge for a verifier
+ */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function resolveStorage(config: OAuthConfig): NonNullable<OAuthConfig['storage']> {
+  if (config.storage) return config.storage;
+  if (typeof sessionStorage === 'undefined') {
+    throw new Error('OAuth requires sessionStorage or a custom `storage`');
+  }
+  return sessionStorage;
+}
+
+/**
+ * Create an authorization request and remember its verifier, state and nonce
+ *
+ * @param authorizationEndpoint - URL of simple-idm's authorization endpoint
+ */
+export async function createAuthorizationRequest(
+  authorizationEndpoint: string,
+  config: OAuthConfig,
+  options: AuthorizeOptions = {},
+): Promise<AuthorizationRequest> {
+  const state = generateRandomString(16);
+  const nonce = generateRandomString(16);
+  const codeVerifier = generateRandomString(32);
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: options.scope ?? config.scope ?? DEFAULT_OAUTH_SCOPE,
+    state,
+    nonce,
+    code_challenge: await createCodeChallenge(codeVerifier),
+    code_challenge_method: 'S256',
+    ...(options.prompt && { prompt: options.prompt }),
+    ...(options.loginHint && { login_hint: options.loginHint }),
+    ...options.extraParams,
+  });
+
+  const pending: PendingAuthorization = {
+    codeVerifier,
+    nonce,
+    redirectUri: config.redirectUri,
+    returnTo: options.returnTo,
+  };
+  resolveStorage(config).setItem(`${STORAGE_PREFIX}${state}`, JSON.stringify(pending));
+
+  const separator = authorizationEndpoint.includes('?') ? '&' : '?';
+  return { url: `${authorizationEndpoint}${separator}${params}`, state, nonce, codeVerifier };
+}
+
+/**
+ * Read the callback URL and take the pending authorization it belongs to
+ * The pending entry is removed, so a callback can only be used once
+ *
+ * @throws ApiException if the provider returned an error or the state is unknown
+ */
+export function consumeCallback(
+  callbackUrl: string,
+  config: OAuthConfig,
+): { code: string; pending: PendingAuthorization } {
+  const params = new URL(callbackUrl, 'http://callback.local').searchParams;
+
+  const error = params.get('error');
+  if (error) {
+    throw callbackError(400, error, params.get('error_description') ?? undefined);
+  }
+
+  const state = params.get('state') ?? '';
+  const storage = resolveStorage(config);
+  const key = `${STORAGE_PREFIX}${state}`;
+  const raw = state ? storage.getItem(key) : null;
+  storage.removeItem(key);
+  if (!raw) {
+    throw callbackError(
+      400,
+      'invalid_state',
+      'The sign-in response did not match a request from this browser.',
+    );
+  }
+
+  // Unreadable storage can't be trusted any more than a missing entry
+  let pending: PendingAuthorization;
+  try {
+    pending = JSON.parse(raw) as PendingAuthorization;
+  } catch {
+    throw callbackError(
+      400,
+      'invalid_state',
+      'The sign-in response did not match a request from this browser.',
+    );
+  }
+
+  const code = params.get('code');
+  if (!code) {
+    throw callbackError(
+      400,
+      'invalid_request',
+      'The sign-in response is missing the authorization code.',
+    );
+  }
+
+  return { code, pending };
+}
+
+/**
+ * Check the nonce claim of an ID token against the one sent in the request
+ * Only the nonce is checked - the signature is the token consumer's job
+ *
+ * @throws ApiException with code `token_invalid` on a mismatch
+ */
+export function verifyIdTokenNonce(idToken: string, nonce: string): void {
+  let claims: { nonce?: unknown };
+  try {
+    // base64url without padding, UTF-8 encoded
+    const payload = idToken.split('.')[1] ?? '';
+    claims = JSON.parse(new TextDecoder().decode(base64UrlToBuffer(payload)));
+  } catch {
+    throw callbackError(400, 'invalid_token', 'The ID token could not be read.');
+  }
+  if (claims.nonce !== nonce) {
+    throw callbackError(400, 'invalid_nonce', 'The ID token does not belong to this sign-in.');
+  }
+}
+
+function callbackError(status: number, error: string, description?: string): ApiException {
+  const code = resolveErrorCode(status, error, 'exchangeOAuthCode');
+  return new ApiException(status, {
+    message: description || getErrorMessage(code, 'exchangeOAuthCode'),
+    status,
+    error,
+    code,
+  });
+}
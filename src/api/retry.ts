@@ -0,0 +1,145 @@
+/**
+ * Retry Policy
+ *
+ * Exponential backoff with full jitter for transient failures (network
+ * errors, 429, 5xx). Honors the `Retry-After` response header.
+ */
+
+/**
+ * Retry policy configuration
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of retries after the first attempt
+   * @default 2
+   */
+  retries?: number;
+  /**
+   * Base delay in milliseconds for exponential backoff
+   * @default 300
+   */
+  baseDelayMs?: number;
+  /**
+   * Maximum backoff delay in milliseconds
+   * @default 5000
+   */
+  maxDelayMs?: number;
+  /**
+   * Longest `Retry-After` the client will wait for before giving up and
+   * surfacing the error (with `retryAfterMs` set on the ApiException)
+   * @default 10000
+   */
+  maxRetryAfterMs?: number;
+  /**
+   * HTTP status codes that are retried
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryOn?: number[];
+  /**
+   * HTTP methods retried by default
+   * Other methods (e.g. POST) are only retried when a call opts in with `{ retry: true }`
+   * @default ['GET', 'HEAD']
+   */
+  methods?: string[];
+}
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  maxRetryAfterMs: 10000,
+  retryOn: [408, 429, 500, 502, 503, 504],
+  methods: ['GET', 'HEAD'],
+};
+
+/**
+ * Merge a partial retry policy with the defaults
+ *
+ * @param policy - Partial policy, or false to disable retries entirely
+ */
+export function resolveRetryPolicy(policy?: RetryPolicy | false): Required<RetryPolicy> {
+  if (policy === false) {
+    return { ...DEFAULT_RETRY_POLICY, retries: 0 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Work out how many retries a request gets
+ *
+ * @param policy - Resolved retry policy
+ * @param method - HTTP method of the request
+ * @param retry - Per-call override: true opts in, false opts out, a number sets the retry count
+ */
+export function getRetryCount(
+  policy: Required<RetryPolicy>,
+  method: string | undefined,
+  retry?: boolean | number,
+): number {
+  if (retry === false) return 0;
+  if (typeof retry === 'number') return Math.max(0, retry);
+  if (retry === true) return policy.retries;
+
+  const normalized = (method || 'GET').toUpperCase();
+  return policy.methods.includes(normalized) ? policy.retries : 0;
+}
+
+/**
+ * Parse a `Retry-After` header value into milliseconds
+ *
+ * Supports both delay-seconds (`120`) and HTTP-date formats.
+ *
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Compute the backoff delay before the next attempt
+ *
+ * Uses full jitter: a random delay between 0 and the exponential cap.
+ *
+ * @param policy - Resolved retry policy
+ * @param attempt - Zero-based index of the attempt that just failed
+ */
+export function getBackoffDelay(policy: Required<RetryPolicy>, attempt: number): number {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * cap);
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * Session Expiry
+ *
+ * Works out when the session's tokens expire from the responses that issue
+ * them: `expires_in` / `refresh_expires_in` when simple-idm sends them, the
+ * JWT `exp` claim otherwise. Relative lifetimes are preferred because they
+ * don't depend on the browser's clock agreeing with the server's.
+ */
+
+import { base64UrlToBuffer } from './webauthn';
+
+/**
+ * When the current session's tokens expire (milliseconds since the epoch)
+ */
+export interface SessionExpiry {
+  /** The access token expires - a refresh gets a new one */
+  accessTokenExpiresAt: number | null;
+  /** The refresh token expires - the session can't be extended past it */
+  refreshTokenExpiresAt: number | null;
+}
+
+/**
+ * Token fields of sign-in, refresh and OAuth token responses
+ */
+export interface TokenLifetimeFields {
+  access_token?: string;
+  refresh_token?: string;
+  /** Access token lifetime in seconds */
+  expires_in?: number;
+  /** Refresh token lifetime in seconds */
+  refresh_expires_in?: number;
+}
+
+/**
+ * The `exp` claim of a JWT in milliseconds, or null for opaque tokens
+ */
+export function readTokenExpiry(token: string): number | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlToBuffer(payload)));
+    return typeof claims?.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+const expiresAt = (lifetimeSeconds: number | undefined, token: string | undefined, now: number) =>
+  typeof lifetimeSeconds === 'number'
+    ? now + lifetimeSeconds * 1000
+    : token
+      ? readTokenExpiry(token)
+      : null;
+
+/**
+ * Expiry after a response that may issue tokens
+ * A response that doesn't rotate the refresh token keeps its expiry
+ *
+ * @param current - Expiry before the response
+ * @returns The new expiry, or `current` if the response issues no tokens
+ */
+export function readSessionExpiry(
+  response: TokenLifetimeFields | undefined,
+  current: SessionExpiry | null,
+  now: number = Date.now(),
+): SessionExpiry | null {
+  if (!response?.access_token && typeof response?.expires_in !== 'number') {
+    return current;
+  }
+  return {
+    accessTokenExpiresAt: expiresAt(response.expires_in, response.access_token, now),
+    refreshTokenExpiresAt:
+      response.refresh_token || typeof response.refresh_expires_in === 'number'
+        ? expiresAt(response.refresh_expires_in, response.refresh_token, now)
+        : current?.refreshTokenExpiresAt ?? null,
+  };
+}
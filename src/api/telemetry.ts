@@ -0,0 +1,267 @@
+/**
+ * Request Telemetry
+ *
+ * Structured lifecycle events for every request the client makes, for
+ * tracing exporters and support tooling. Credentials never leave the client:
+ * password, code and token fields are redacted from bodies and query strings
+ * before an event is emitted.
+ */
+
+import type { ApiErrorCode } from '../types/api';
+import { ApiException } from '../types/api';
+import type { PrefixConfig } from './config';
+import type { ApiOperation } from './errors';
+
+/**
+ * Why a request was sent again
+ * - `network`: network error, retried with backoff
+ * - `status`: retryable status (408, 429, 5xx), retried with backoff
+ * - `session_refreshed`: replayed after a 401 and a successful session refresh
+ * - `csrf`: replayed with a fresh CSRF token after a 403 CSRF failure
+ */
+export type RetryReason = 'network' | 'status' | 'session_refreshed' | 'csrf';
+
+interface TelemetryEventBase {
+  /** Correlates the events of one client call */
+  requestId: string;
+  /** Client method that made the call */
+  operation: ApiOperation | null;
+  /** Route group from PrefixConfig, e.g. `login` or `twoFA` */
+  routeGroup: keyof PrefixConfig | null;
+  /** HTTP method */
+  method: string;
+  /** Endpoint path with sensitive query parameters redacted */
+  endpoint: string;
+  /** Epoch milliseconds */
+  timestamp: number;
+}
+
+/** A client call started */
+export interface RequestStartEvent extends TelemetryEventBase {
+  type: 'request:start';
+  /** Parsed JSON request body with sensitive fields redacted */
+  body?: unknown;
+}
+
+/** The final HTTP response arrived (any status) */
+export interface RequestResponseEvent extends TelemetryEventBase {
+  type: 'request:response';
+  status: number;
+  /** Time since request:start, including retries */
+  durationMs: number;
+}
+
+/** The client call failed */
+export interface RequestErrorEvent extends TelemetryEventBase {
+  type: 'request:error';
+  /** HTTP status, 0 for network errors, timeouts and cancellations */
+  status: number;
+  code?: ApiErrorCode;
+  message: string;
+  durationMs: number;
+}
+
+/** The request is about to be sent again */
+export interface RequestRetryEvent extends TelemetryEventBase {
+  type: 'request:retry';
+  /** 1 for the first retry */
+  attempt: number;
+  reason: RetryReason;
+  /** Status that triggered the retry (absent for network errors) */
+  status?: number;
+  /** Backoff before the retry */
+  delayMs?: number;
+}
+
+export type TelemetryEvent =
+  | RequestStartEvent
+  | RequestResponseEvent
+  | RequestErrorEvent
+  | RequestRetryEvent;
+
+/**
+ * Telemetry configuration
+ */
+export interface TelemetryConfig {
+  /** Receives every event; exceptions thrown here are ignored */
+  onEvent: (event: TelemetryEvent) => void;
+  /**
+   * Extra field names to redact, on top of DEFAULT_REDACTED_FIELDS
+   * @example ['phone', 'email']
+   */
+  redactFields?: string[];
+  /**
+   * Include the redacted request body in request:start events
+   * @default true
+   */
+  includeBody?: boolean;
+}
+
+/**
+ * Fields always redacted (case-insensitive)
+ * Any field whose name ends in `token` (access_token, refreshToken, ...) is redacted too
+ */
+export const DEFAULT_REDACTED_FIELDS = [
+  'password',
+  'current_password',
+  'new_password',
+  'code',
+  'token',
+];
+
+/**
+ * Replacement for redacted values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Build a predicate for field names that must be redacted
+ */
+export function createRedactionMatcher(extraFields: string[] = []): (field: string) => boolean {
+  const fields = new Set(
+    [...DEFAULT_REDACTED_FIELDS, ...extraFields].map((field) => field.toLowerCase()),
+  );
+  return (field) => fields.has(field.toLowerCase()) || /token$/i.test(field);
+}
+
+/**
+ * Deep-copy a value with sensitive fields replaced by REDACTED
+ */
+export function redactFields(value: unknown, isSensitive: (field: string) => boolean): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactFields(item, isSensitive));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        isSensitive(key) ? REDACTED : redactFields(item, isSensitive),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Redact sensitive query parameters in an endpoint path
+ * @example '/magic-link/validate?token=abc' → '/magic-link/validate?token=%5BREDACTED%5D'
+ */
+export function redactEndpoint(endpoint: string, isSensitive: (field: string) => boolean): string {
+  const queryStart = endpoint.indexOf('?');
+  if (queryStart === -1) return endpoint;
+
+  const params = new URLSearchParams(endpoint.slice(queryStart + 1));
+  for (const key of [...params.keys()]) {
+    if (isSensitive(key)) {
+      params.set(key, REDACTED);
+    }
+  }
+  return `${endpoint.slice(0, queryStart)}?${params.toString()}`;
+}
+
+/**
+ * Route group an endpoint belongs to (longest matching prefix)
+ */
+export function findRouteGroup(
+  endpoint: string,
+  prefixes: PrefixConfig,
+): keyof PrefixConfig | null {
+  const path = endpoint.split('?')[0] ?? endpoint;
+  let group: keyof PrefixConfig | null = null;
+  let length = -1;
+
+  for (const [key, prefix] of Object.entries(prefixes) as [keyof PrefixConfig, string][]) {
+    const matches = path === prefix || path.startsWith(`${prefix}/`);
+    if (matches && prefix.length > length) {
+      group = key;
+      length = prefix.length;
+    }
+  }
+  return group;
+}
+
+/**
+ * Emits the events of one client call
+ */
+export interface RequestTrace {
+  response: (status: number) => void;
+  error: (error: unknown) => void;
+  /** Attempts are numbered automatically */
+  retry: (reason: RetryReason, details?: { status?: number; delayMs?: number }) => void;
+}
+
+export interface RequestTraceContext {
+  operation?: ApiOperation;
+  routeGroup: keyof PrefixConfig | null;
+  method: string;
+  endpoint: string;
+  body?: BodyInit | null;
+}
+
+export interface Tracer {
+  /** Emit request:start and return the trace for the rest of the call */
+  start: (context: RequestTraceContext) => RequestTrace;
+}
+
+/**
+ * Create a tracer for a client
+ */
+export function createTracer(config: TelemetryConfig): Tracer {
+  const isSensitive = createRedactionMatcher(config.redactFields);
+  let sequence = 0;
+
+  const emit = (event: TelemetryEvent) => {
+    try {
+      config.onEvent(event);
+    } catch {
+      // A broken exporter must not break requests
+    }
+  };
+
+  const parseBody = (body: BodyInit | null | undefined): unknown => {
+    if (typeof body !== 'string' || !body) return undefined;
+    try {
+      return redactFields(JSON.parse(body), isSensitive);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const start = (context: RequestTraceContext): RequestTrace => {
+    const startedAt = Date.now();
+    const shared = {
+      requestId: `req-${++sequence}`,
+      operation: context.operation ?? null,
+      routeGroup: context.routeGroup,
+      method: context.method,
+      endpoint: redactEndpoint(context.endpoint, isSensitive),
+    };
+    const now = () => ({ ...shared, timestamp: Date.now() });
+    const durationMs = () => Date.now() - startedAt;
+    let attempt = 0;
+
+    emit({
+      ...now(),
+      type: 'request:start',
+      ...(config.includeBody === false ? {} : { body: parseBody(context.body) }),
+    });
+
+    return {
+      response: (status) =>
+        emit({ ...now(), type: 'request:response', status, durationMs: durationMs() }),
+      error: (error) =>
+        emit({
+          ...now(),
+          type: 'request:error',
+          status: error instanceof ApiException ? error.status : 0,
+          code: error instanceof ApiException ? error.code : undefined,
+          message: error instanceof Error ? error.message : String(error),
+          durationMs: durationMs(),
+        }),
+      retry: (reason, details) =>
+        emit({ ...now(), type: 'request:retry', attempt: ++attempt, reason, ...details }),
+    };
+  };
+
+  return { start };
+}
@@ -0,0 +1,98 @@
+/**
+ * Multi-Tenant Support
+ *
+ * One simple-idm deployment can serve several tenants. The active tenant is
+ * sent on every request, either as a header or as a path segment in the
+ * endpoint prefixes, and can be switched at runtime.
+ */
+
+import type { PrefixConfig } from './config';
+
+/**
+ * How the tenant identifier is sent
+ * - `header`: a request header (default)
+ * - `path`: a segment in every endpoint prefix
+ */
+export type TenantStrategy = 'header' | 'path';
+
+/**
+ * Tenant configuration
+ */
+export interface TenantConfig {
+  /**
+   * Initial tenant identifier
+   * Can be changed later with `client.setTenant()`
+   */
+  id?: string | null;
+  /**
+   * How the tenant identifier is sent
+   * @default 'header'
+   */
+  strategy?: TenantStrategy;
+  /**
+   * Request header carrying the tenant (header strategy)
+   * @default 'X-Tenant-ID'
+   */
+  headerName?: string;
+  /**
+   * Path segment prepended to prefixes that don't contain the placeholder (path strategy)
+   * Prefixes that already contain `{tenant}` (e.g. '/api/v2/{tenant}/auth') are filled in place
+   * @default '/t/{tenant}'
+   */
+  pathTemplate?: string;
+}
+
+/**
+ * Default tenant configuration
+ */
+export const DEFAULT_TENANT_CONFIG: Required<Omit<TenantConfig, 'id'>> = {
+  strategy: 'header',
+  headerName: 'X-Tenant-ID',
+  pathTemplate: '/t/{tenant}',
+};
+
+export type ResolvedTenantConfig = typeof DEFAULT_TENANT_CONFIG;
+
+/**
+ * Placeholder replaced by the tenant identifier in prefixes and path templates
+ */
+export const TENANT_PLACEHOLDER = '{tenant}';
+
+/**
+ * Merge a tenant configuration with the defaults
+ */
+export function resolveTenantConfig(config?: TenantConfig): ResolvedTenantConfig {
+  const resolved = { ...DEFAULT_TENANT_CONFIG, ...config };
+  if (resolved.strategy === 'path' && !resolved.pathTemplate.startsWith('/')) {
+    throw new Error(`Tenant path template must start with '/': ${resolved.pathTemplate}`);
+  }
+  return {
+    strategy: resolved.strategy,
+    headerName: resolved.headerName,
+    pathTemplate: resolved.pathTemplate,
+  };
+}
+
+/**
+ * Inject the tenant into every endpoint prefix (path strategy)
+ * Without a tenant the placeholders are left in place so requests fail fast
+ *
+ * @example scopePrefixes({ login: '/api/v2/auth', ... }, 'acme', config).login === '/t/acme/api/v2/auth'
+ */
+export function scopePrefixes(
+  prefixes: PrefixConfig,
+  tenant: string | null,
+  config: ResolvedTenantConfig,
+): PrefixConfig {
+  if (config.strategy !== 'path') return prefixes;
+
+  const segment = tenant === null ? TENANT_PLACEHOLDER : encodeURIComponent(tenant);
+  const scoped = { ...prefixes };
+  for (const key of Object.keys(scoped) as (keyof PrefixConfig)[]) {
+    const prefix = scoped[key].includes(TENANT_PLACEHOLDER)
+      ? scoped[key]
+      : `${config.pathTemplate}${scoped[key]}`;
+    scoped[key] = prefix.split(TENANT_PLACEHOLDER).join(segment);
+  }
+  return scoped;
+}
@@ -0,0 +1,114 @@
+/**
+ * Token Storage
+ *
+ * Pluggable storage for bearer-token mode. Cookie mode (the default) does not
+ * use token storage - the server keeps tokens in HTTP-only cookies.
+ */
+
+/**
+ * Tokens issued by simple-idm in bearer mode
+ */
+export interface AuthTokens {
+  /** Access token sent as `Authorization: Bearer <token>` */
+  accessToken: string;
+  /** Refresh token used to obtain a new access token */
+  refreshToken?: string;
+}
+
+/**
+ * Storage backend for bearer tokens
+ *
+ * Methods may be synchronous or async (e.g. Capacitor Preferences, secure storage).
+ */
+export interface TokenStorage {
+  /** Read the stored tokens, or null if none */
+  getTokens: () => AuthTokens | null | Promise<AuthTokens | null>;
+  /** Persist tokens after login, magic link validation or refresh */
+  setTokens: (tokens: AuthTokens) => void | Promise<void>;
+  /** Remove tokens on logout or when the session can't be refreshed */
+  clearTokens: () => void | Promise<void>;
+}
+
+/**
+ * In-memory token storage
+ *
+ * Tokens are lost on page reload. Safest option against XSS token theft.
+ */
+export function createMemoryTokenStorage(): TokenStorage {
+  let tokens: AuthTokens | null = null;
+
+  return {
+    getTokens: () => tokens,
+    setTokens: (next) => {
+      tokens = next;
+    },
+    clearTokens: () => {
+      tokens = null;
+    },
+  };
+}
+
+/**
+ * Web Storage backed token storage (sessionStorage by default)
+ *
+ * @param storage - Storage instance (sessionStorage or localStorage)
+ * @param key - Storage key
+ */
+export function createWebStorageTokenStorage(
+  storage: Storage = sessionStorage,
+  key = 'simple-idm.tokens',
+): TokenStorage {
+  return {
+    getTokens: () => {
+      const raw = storage.getItem(key);
+      if (!raw) return null;
+      try {
+        return JSON.parse(raw) as AuthTokens;
+      } catch {
+        return null;
+      }
+    },
+    setTokens: (tokens) => {
+      storage.setItem(key, JSON.stringify(tokens));
+    },
+    clearTokens: () => {
+      storage.removeItem(key);
+    },
+  };
+}
+
+/**
+ * Storage for the trusted-device token ("remember this device" after 2FA)
+ *
+ * Kept apart from the session tokens because it outlives them: logout clears
+ * the session but the device stays trusted.
+ */
+export interface DeviceTokenStorage {
+  /** Read the stored device token, or null if none */
+  getDeviceToken: () => string | null | Promise<string | null>;
+  /** Persist the token issued when the user chose to remember the device */
+  setDeviceToken: (token: string) => void | Promise<void>;
+  /** Remove the token once the server no longer accepts it */
+  clearDeviceToken: () => void | Promise<void>;
+}
+
+/**
+ * Web Storage backed device token storage (localStorage by default, so it survives restarts)
+ *
+ * @param storage - Storage instance
+ * @param key - Storage key
+ */
+export function createWebStorageDeviceTokenStorage(
+  storage: Storage = localStorage,
+  key = 'simple-idm.device-token',
+): DeviceTokenStorage {
+  return {
+    getDeviceToken: () => storage.getItem(key),
+    setDeviceToken: (token) => {
+      storage.setItem(key, token);
+    },
+    clearDeviceToken: () => {
+      storage.removeItem(key);
+    },
+  };
+}
@@ -0,0 +1,326 @@
+/**
+ * Response Validation
+ *
+ * Lightweight runtime validators for the response types in `types/api.ts`.
+ * They check the fields each type declares (extra fields are allowed), so
+ * backend drift is reported at the client boundary instead of surfacing as
+ * undefined properties deep inside components.
+ */
+
+import type { ApiOperation } from './errors';
+
+/**
+ * How the client treats responses that don't match their declared type
+ * - `off`: no validation (default)
+ * - `lenient`: report mismatches through `onValidationError` and return the data
+ * - `strict`: reject with an ApiException (code `invalid_response`)
+ */
+export type ValidationMode = 'off' | 'lenient' | 'strict';
+
+/**
+ * A single schema mismatch
+ */
+export interface ValidationIssue {
+  /** Path to the offending field, e.g. `user.roles[0]` (empty for the root) */
+  path: string;
+  /** What the type declares, e.g. `string` or `'success' | '2fa_required'` */
+  expected: string;
+  /** What the server sent, e.g. `undefined` or `number` */
+  received: string;
+}
+
+/**
+ * Details passed to `onValidationError`
+ */
+export interface ResponseValidationError {
+  /** Client method that received the response */
+  operation: ApiOperation;
+  /** Endpoint that was called */
+  endpoint: string;
+  /** All mismatches found */
+  issues: ValidationIssue[];
+  /** The response body as received */
+  data: unknown;
+}
+
+/**
+ * Checks a value and returns the mismatches found
+ */
+export type Validator = (value: unknown, path: string) => ValidationIssue[];
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function issue(path: string, expected: string, value: unknown): ValidationIssue[] {
+  return [{ path, expected, received: typeName(value) }];
+}
+
+function primitive(type: 'string' | 'number' | 'boolean'): Validator {
+  return (value, path) => (typeof value === type ? [] : issue(path, type, value));
+}
+
+export const string = primitive('string');
+export const number = primitive('number');
+export const boolean = primitive('boolean');
+
+/**
+ * One of a fixed set of string values
+ */
+export function literal(...values: string[]): Validator {
+  const expected = values.map((v) => `'${v}'`).join(' | ');
+  return (value, path) =>
+    typeof value === 'string' && values.includes(value) ? [] : issue(path, expected, value);
+}
+
+/**
+ * Allow undefined (missing) in addition to the wrapped validator
+ * null is accepted too - Go backends serialise empty optional fields as null
+ */
+export function optional(validator: Validator): Validator {
+  return (value, path) => (value === undefined || value === null ? [] : validator(value, path));
+}
+
+/**
+ * Array whose items all match the validator
+ */
+export function arrayOf(validator: Validator): Validator {
+  return (value, path) => {
+    if (!Array.isArray(value)) return issue(path, 'array', value);
+    return value.flatMap((item, index) => validator(item, `${path}[${index}]`));
+  };
+}
+
+/**
+ * Object with the given fields (extra fields are allowed)
+ */
+export function object(shape: Record<string, Validator>): Validator {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return issue(path, 'object', value);
+    }
+    const record = value as Record<string, unknown>;
+    return Object.entries(shape).flatMap(([key, validator]) =>
+      validator(record[key], path ? `${path}.${key}` : key),
+    );
+  };
+}
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+const loginUser = object({
+  id: string,
+  name: string,
+  email: string,
+  roles: arrayOf(string),
+});
+
+const loginResponse = object({
+  status: literal('success', '2fa_required', 'user_selection_required'),
+  user: optional(loginUser),
+  users: optional(arrayOf(loginUser)),
+  temp_token: optional(string),
+  two_factor_methods: optional(
+    arrayOf(
+      object({
+        type: string,
+        delivery_options: optional(arrayOf(string)),
+        display_name: optional(string),
+      }),
+    ),
+  ),
+  message: optional(string),
+  access_token: optional(string),
+  refresh_token: optional(string),
+  expires_in: optional(number),
+  refresh_expires_in: optional(number),
+});
+
+const message = object({ message: string });
+
+const passkey = object({
+  id: string,
+  name: string,
+  created_at: string,
+  last_used_at: optional(string),
+});
+
+const session = object({
+  id: string,
+  device: string,
+  ip_address: optional(string),
+  location: optional(string),
+  created_at: string,
+  last_seen_at: string,
+  current: boolean,
+});
+
+const trustedDevice = object({
+  id: string,
+  name: string,
+  created_at: string,
+  last_used_at: optional(string),
+  expires_at: string,
+  current: boolean,
+});
+
+const profileUpdate = object({
+  message: string,
+  success: boolean,
+});
+
+/**
+ * Validators for each client method's response
+ * Methods without an entry (e.g. logout) are not validated
+ */
+export const RESPONSE_VALIDATORS: Partial<Record<ApiOperation, Validator>> = {
+  login: loginResponse,
+  selectUser: loginResponse,
+  getExternalProviders: object({
+    providers: arrayOf(
+      object({
+        id: string,
+        name: string,
+        type: optional(string),
+        icon_url: optional(string),
+      }),
+    ),
+  }),
+  linkExternalAccount: loginResponse,
+  beginPasskeyLogin: object({
+    publicKey: object({ challenge: string }),
+  }),
+  finishPasskeyLogin: loginResponse,
+  beginPasskeyRegistration: object({
+    publicKey: object({
+      challenge: string,
+      rp: object({ name: string }),
+      user: object({ id: string, name: string }),
+    }),
+  }),
+  finishPasskeyRegistration: passkey,
+  listPasskeys: object({ passkeys: arrayOf(passkey) }),
+  listSessions: object({ sessions: arrayOf(session) }),
+  revokeOtherSessions: object({ message: string, revoked: number }),
+  listTrustedDevices: object({ devices: arrayOf(trustedDevice) }),
+  renameTrustedDevice: trustedDevice,
+  requestMagicLink: message,
+  validateMagicLink: object({
+    status: literal('success'),
+    user: optional(loginUser),
+    temp_token: optional(string),
+    message: optional(string),
+    access_token: optional(string),
+    refresh_token: optional(string),
+  }),
+  refreshToken: object({
+    access_token: string,
+    refresh_token: string,
+    expires_in: optional(number),
+    refresh_expires_in: optional(number),
+  }),
+  signup: object({
+    user_id: string,
+    message: string,
+    status: optional(literal('success')),
+    user: optional(loginUser),
+  }),
+  exchangeOAuthCode: object({
+    access_token: string,
+    token_type: string,
+    expires_in: optional(number),
+    refresh_token: optional(string),
+    id_token: optional(string),
+    scope: optional(string),
+  }),
+  getCurrentUser: object({
+    sub: string,
+    preferred_username: optional(string),
+    email: optional(string),
+    email_verified: optional(boolean),
+    name: optional(string),
+    given_name: optional(string),
+    family_name: optional(string),
+    picture: optional(string),
+    groups: optional(arrayOf(string)),
+    updated_at: optional(number),
+  }),
+  updateUsername: profileUpdate,
+  updatePhone: profileUpdate,
+  updatePassword: profileUpdate,
+  get2FAStatus: object({
+    enabled: boolean,
+    types: arrayOf(string),
+  }),
+  setup2FATOTP: object({
+    secret: string,
+    qr_code: string,
+    backup_codes: optional(arrayOf(string)),
+  }),
+  enable2FA: profileUpdate,
+  disable2FA: profileUpdate,
+  send2FACode: profileUpdate,
+  validate2FA: object({
+    message: string,
+    success: boolean,
+    user: optional(loginUser),
+    access_token: optional(string),
+    refresh_token: optional(string),
+    device_token: optional(string),
+  }),
+  getBackupCodeStatus: object({
+    remaining: number,
+    total: number,
+    generated_at: optional(string),
+  }),
+  regenerateBackupCodes: object({
+    backup_codes: arrayOf(string),
+    generated_at: string,
+  }),
+  verifyEmail: object({
+    message: string,
+    verified_at: string,
+  }),
+  resendVerificationEmail: message,
+  getVerificationStatus: object({
+    email_verified: boolean,
+    verified_at: optional(string),
+  }),
+  initiatePasswordReset: message,
+  resetPassword: message,
+  getPasswordPolicy: object({
+    min_length: number,
+    require_uppercase: boolean,
+    require_lowercase: boolean,
+    require_digit: boolean,
+    require_special_char: boolean,
+    disallow_common_pwds: boolean,
+    max_repeated_chars: number,
+    history_check_count: number,
+    expiration_days: number,
+  }),
+};
+
+/**
+ * Validate a response body against the schema for a client method
+ *
+ * @returns The mismatches found (empty if valid or the method has no schema)
+ */
+export function validateResponse(operation: ApiOperation, data: unknown): ValidationIssue[] {
+  const validator = RESPONSE_VALIDATORS[operation];
+  return validator ? validator(data, '') : [];
+}
+
+/**
+ * Format issues for logs and error messages
+ * @example "user.roles: expected array, received undefined"
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((i) => `${i.path || '(root)'}: expected ${i.expected}, received ${i.received}`)
+    .join('; ');
+}
@@ -0,0 +1,146 @@
+/**
+ * WebAuthn Encoding
+ *
+ * simple-idm sends ceremony options and expects credentials as JSON with
+ * binary fields (challenge, ids, client data, signatures) base64url-encoded.
+ * These helpers convert between that form and the ArrayBuffers the
+ * navigator.credentials API works with.
+ */
+
+import type {
+  AuthenticationCredentialJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialDescriptorJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationCredentialJSON,
+} from '../types/api';
+
+/**
+ * Encode bytes as unpadded base64url
+ */
+export function bufferToBase64Url(buffer: ArrayBuffer | ArrayBufferView): string {
+  const bytes = ArrayBuffer.isView(buffer)
+    ? new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+    : new Uint8Array(buffer);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode base64url (padded or not) to bytes
+ */
+export function base64UrlToBuffer(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Whether the browser supports passkeys
+ */
+export function isPasskeySupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    typeof window.PublicKeyCredential !== 'undefined' &&
+    typeof navigator.credentials?.create === 'function'
+  );
+}
+
+/**
+ * Whether the browser can offer passkeys in username autofill (conditional mediation)
+ */
+export async function isConditionalMediationAvailable(): Promise<boolean> {
+  if (!isPasskeySupported()) return false;
+  try {
+    return (await PublicKeyCredential.isConditionalMediationAvailable?.()) ?? false;
+  } catch {
+    return false;
+  }
+}
+
+function toDescriptor(
+  descriptor: PublicKeyCredentialDescriptorJSON,
+): PublicKeyCredentialDescriptor {
+  return {
+    ...descriptor,
+    id: base64UrlToBuffer(descriptor.id),
+    transports: descriptor.transports as AuthenticatorTransport[] | undefined,
+  };
+}
+
+/**
+ * Options for navigator.credentials.create()
+ */
+export function toCreationOptions(
+  options: PublicKeyCredentialCreationOptionsJSON,
+): PublicKeyCredentialCreationOptions {
+  return {
+    ...options,
+    challenge: base64UrlToBuffer(options.challenge),
+    user: { ...options.user, id: base64UrlToBuffer(options.user.id) },
+    excludeCredentials: options.excludeCredentials?.map(toDescriptor),
+  };
+}
+
+/**
+ * Options for navigator.credentials.get()
+ */
+export function toRequestOptions(
+  options: PublicKeyCredentialRequestOptionsJSON,
+): PublicKeyCredentialRequestOptions {
+  return {
+    ...options,
+    challenge: base64UrlToBuffer(options.challenge),
+    allowCredentials: options.allowCredentials?.map(toDescriptor),
+  };
+}
+
+/**
+ * JSON form of a credential returned by navigator.credentials.create()
+ */
+export function serializeRegistrationCredential(
+  credential: PublicKeyCredential,
+): RegistrationCredentialJSON {
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      attestationObject: bufferToBase64Url(response.attestationObject),
+      transports: response.getTransports?.(),
+    },
+    authenticatorAttachment: credential.authenticatorAttachment ?? undefined,
+    clientExtensionResults: { ...credential.getClientExtensionResults() },
+  };
+}
+
+/**
+ * JSON form of an assertion returned by navigator.credentials.get()
+ */
+export function serializeAuthenticationCredential(
+  credential: PublicKeyCredential,
+): AuthenticationCredentialJSON {
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      authenticatorData: bufferToBase64Url(response.authenticatorData),
+      signature: bufferToBase64Url(response.signature),
+      userHandle: response.userHandle ? bufferToBase64Url(response.userHandle) : undefined,
+    },
+    authenticatorAttachment: credential.authenticatorAttachment ?? undefined,
+    clientExtensionResults: { ...credential.getClientExtensionResults() },
+  };
+}
@@ -0,0 +1,142 @@
+import { Component, For, Show } from 'solid-js';
+import { useUserSelection } from '~/headless/useUserSelection';
+import { Alert } from '~/primitives/Alert';
+import { TwoFactorChallenge } from '~/components/TwoFactorChallenge';
+import type { LoginResponse, Validate2FAResponse } from '~/types/api';
+import type { ThemeConfig } from '~/types/theme';
+
+export interface AccountPickerProps {
+  /**
+   * Base URL of the simple-idm backend (e.g., http://localhost:4000)
+   * If omitted, uses relative URLs (assumes same origin)
+   * @default undefined (same origin)
+   */
+  apiBaseUrl?: string;
+  /** The 'user_selection_required' login response */
+  selection: LoginResponse;
+  /** Callback called with the response for the chosen account */
+  onSuccess?: (response: LoginResponse) => void;
+  /** Callback called on error */
+  onError?: (error: string) => void;
+  /** Callback for the "Back to sign in" link; the link is hidden without it */
+  onCancel?: () => void;
+  /**
+   * Complete 2FA for the chosen account here instead of passing the
+   * '2fa_required' response to onSuccess
+   * @default false
+   */
+  inlineTwoFactor?: boolean;
+  /** Custom CSS class */
+  class?: string;
+  /** Theme configuration */
+  theme?: ThemeConfig;
+}
+
+export const AccountPicker: Component<AccountPickerProps> = (props) => {
+  // Use headless selection hook for business logic
+  const picker = useUserSelection({
+    client: props.apiBaseUrl,
+    selection: props.selection,
+    onSuccess: (response) => {
+      if (props.inlineTwoFactor && response.status === '2fa_required') return;
+      props.onSuccess?.(response);
+    },
+    onError: props.onError,
+  });
+
+  const twoFactorChallenge = () => {
+    const response = picker.response();
+    return props.inlineTwoFactor && response?.status === '2fa_required' ? response : null;
+  };
+
+  // The 2FA code completed the login - report it like a direct success
+  const handleTwoFactorSuccess = (response: Validate2FAResponse) => {
+    props.onSuccess?.({ status: 'success', user: response.user, message: response.message });
+  };
+
+  return (
+    <div class={`w-full ${props.class ?? ''}`}>
+      <Show
+        when={twoFactorChallenge()}
+        fallback={
+          <>
+            <div class="text-center mb-6">
+              <h2 class="text-2xl font-extrabold text-gray-900">Choose an account</h2>
+              <p class="mt-2 text-sm text-gray-600">
+                Your sign-in is linked to several accounts.
+              </p>
+            </div>
+
+            <Show when={picker.error()}>
+              <Alert variant="error" class="mb-6">
+                {picker.error()}
+              </Alert>
+            </Show>
+
+            <Show when={picker.success()}>
+              <Alert variant="success" class="mb-6">
+                {picker.success()}
+              </Alert>
+            </Show>
+
+            <ul class="space-y-3">
+              <For each={picker.users()}>
+                {(user) => (
+                  <li>
+                    <button
+                      type="button"
+                      onClick={() => picker.selectUser(user.id)}
+                      disabled={picker.isLoading() || !!picker.response()}
+                      aria-busy={picker.isLoading() && picker.selectedUserId() === user.id}
+                      class={`w-full text-left p-4 border-2 rounded-lg transition-colors disabled:cursor-not-allowed ${
+                        picker.selectedUserId() === user.id
+                          ? 'border-blue-500 bg-blue-50'
+                          : 'border-gray-300 hover:border-blue-500 hover:bg-blue-50 disabled:opacity-50'
+                      }`}
+                    >
+                      <p class="text-sm font-medium text-gray-900">{user.name}</p>
+                      <p class="text-xs text-gray-500">{user.email}</p>
+                      <Show when={user.roles.length > 0}>
+                        <div class="mt-2 flex flex-wrap gap-1">
+                          <For each={user.roles}>
+                            {(role) => (
+                              <span class="inline-flex items-center px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">
+                                {role}
+                              </span>
+                            )}
+                          </For>
+                        </div>
+                      </Show>
+                    </button>
+                  </li>
+                )}
+              </For>
+            </ul>
+
+            <Show when={props.onCancel}>
+              <div class="mt-4 text-center text-sm">
+                <button
+                  type="button"
+                  class="text-blue-600 hover:text-blue-500"
+                  onClick={() => props.onCancel?.()}
+                >
+                  Back to sign in
+                </button>
+              </div>
+            </Show>
+          </>
+        }
+      >
+        {(challenge) => (
+          <TwoFactorChallenge
+            apiBaseUrl={props.apiBaseUrl}
+            challenge={challenge()}
+            onSuccess={handleTwoFactorSuccess}
+            onError={(error) => props.onError?.(error)}
+            onCancel={props.onCancel}
+          />
+        )}
+      </Show>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import { Component, For, Show } from 'solid-js';
+import { useSessions, type SessionOperation } from '~/headless/useSessions';
+import { Button } from '~/primitives/Button';
+import { Alert } from '~/primitives/Alert';
+import type { Session } from '~/types/api';
+import type { ThemeConfig } from '~/types/theme';
+
+export interface ActiveSessionsListProps {
+  /**
+   * Base URL of the simple-idm backend (e.g., http://localhost:4000)
+   * If omitted, uses relative URLs (assumes same origin)
+   * @default undefined (same origin)
+   */
+  apiBaseUrl?: string;
+  /** Callback called after sessions were ended, with the number ended */
+  onRevoke?: (revoked: number) => void;
+  /** Callback called on error */
+  onError?: (error: string, operation: SessionOperation) => void;
+  /** Custom CSS class */
+  class?: string;
+  /** Theme configuration */
+  theme?: ThemeConfig;
+}
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+const describeOrigin = (session: Session) =>
+  [session.location, session.ip_address].filter(Boolean).join(' · ');
+
+export const ActiveSessionsList: Component<ActiveSessionsListProps> = (props) => {
+  // Use headless sessions hook for business logic
+  const sessions = useSessions({
+    client: props.apiBaseUrl,
+    autoLoad: true,
+    onRevoke: props.onRevoke,
+    onError: props.onError,
+  });
+
+  const isRunning = (operation: SessionOperation) =>
+    sessions.isLoading() && sessions.currentOperation() === operation;
+
+  return (
+    <div class={`w-full space-y-6 ${props.class ?? ''}`}>
+      <p class="text-sm text-gray-600">
+        These are the devices signed in to your account. Sign out of any you don't recognize.
+      </p>
+
+      <Show when={sessions.error()}>
+        <Alert variant="error">{sessions.error()}</Alert>
+      </Show>
+
+      <Show when={sessions.success()}>
+        <Alert variant="success">{sessions.success()}</Alert>
+      </Show>
+
+      <Show when={sessions.sessions().length > 0}>
+        <ul class="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          <For each={sessions.sessions()}>
+            {(session) => (
+              <li class="flex items-center justify-between gap-4 p-4">
+                <div>
+                  <p class="text-sm font-medium text-gray-900">
+                    {session.device}
+                    <Show when={session.current}>
+                      <span class="ml-2 inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800">
+                        This device
+                      </span>
+                    </Show>
+                  </p>
+                  <Show when={describeOrigin(session)}>
+                    <p class="text-xs text-gray-500">{describeOrigin(session)}</p>
+                  </Show>
+                  <p class="text-xs text-gray-500">
+                    {session.current
+                      ? 'Active now'
+                      : `Last seen ${formatDateTime(session.last_seen_at)}`}
+                  </p>
+                </div>
+                <Show when={!session.current}>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    loading={sessions.revokingId() === session.id}
+                    disabled={sessions.isLoading()}
+                    onClick={() => sessions.revokeSession(session.id)}
+                  >
+                    Sign out
+                  </Button>
+                </Show>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+
+      <Show when={sessions.otherSessions().length > 0}>
+        <Button
+          variant="secondary"
+          fullWidth
+          loading={isRunning('revokeOthers')}
+          disabled={sessions.isLoading()}
+          onClick={() => sessions.revokeOtherSessions()}
+        >
+          Sign out of all other sessions
+        </Button>
+      </Show>
+    </div>
+  );
+};
@@ -0,0 +1,2 @@
+export { ActiveSessionsList } from './ActiveSessionsList';
+export type { ActiveSessionsListProps } from './ActiveSessionsList';
@@ -0,0 +1,176 @@
+import { Component, For, Show, createSignal } from 'solid-js';
+import { Button } from '~/primitives/Button';
+import { Alert } from '~/primitives/Alert';
+import type { ThemeConfig } from '~/types/theme';
+
+export interface BackupCodesPanelProps {
+  /** Backup codes to show - from setup or regeneration */
+  codes: string[];
+  /** Panel title */
+  title?: string;
+  /** Name of the downloaded file (default: 'backup-codes.txt') */
+  fileName?: string;
+  /** Require the "I have saved these codes" checkbox before onDone (default: true) */
+  requireAcknowledgement?: boolean;
+  /** Callback for the done button; the button is hidden without it */
+  onDone?: () => void;
+  /** Label of the done button (default: 'Done') */
+  doneLabel?: string;
+  /** Custom CSS class */
+  class?: string;
+  /** Theme configuration */
+  theme?: ThemeConfig;
+}
+
+const DEFAULT_TITLE = 'Save your backup codes';
+
+const INSTRUCTIONS =
+  'Each code can be used once to sign in if you lose access to your two-factor device.';
+
+/**
+ * The codes as a plain-text document
+ */
+const formatCodes = (title: string, codes: string[]) =>
+  [title, INSTRUCTIONS, '', ...codes, '', `Generated ${new Date().toLocaleString()}`].join('\n');
+
+const downloadText = (fileName: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Print the codes from a separate window, so the rest of the page isn't printed
+ * @returns false if the window was blocked
+ */
+const printText = (title: string, text: string) => {
+  const printWindow = window.open('', '_blank', 'width=480,height=640');
+  if (!printWindow) return false;
+  printWindow.document.title = title;
+  const content = printWindow.document.createElement('pre');
+  content.style.fontFamily = 'monospace';
+  content.textContent = text;
+  printWindow.document.body.append(content);
+  // print() doesn't block everywhere, so close once the dialog is done
+  printWindow.addEventListener('afterprint', () => printWindow.close());
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};
+
+/**
+ * Backup codes with copy, download and print actions
+ *
+ * @example
+ * ```tsx
+ * const twoFA = use2FA({ client });
+ *
+ * <Show when={twoFA.backupCodes()}>
+ *   {(codes) => <BackupCodesPanel codes={codes()} onDone={twoFA.clearBackupCodes} />}
+ * </Show>
+ * ```
+ */
+export const BackupCodesPanel: Component<BackupCodesPanelProps> = (props) => {
+  const [acknowledged, setAcknowledged] = createSignal(false);
+  const [notice, setNotice] = createSignal<{ variant: 'success' | 'error'; text: string } | null>(
+    null,
+  );
+
+  const title = () => props.title || DEFAULT_TITLE;
+  const text = () => formatCodes(title(), props.codes);
+  const canFinish = () => acknowledged() || props.requireAcknowledgement === false;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text());
+      setNotice({ variant: 'success', text: 'Codes copied to the clipboard.' });
+    } catch {
+      setNotice({
+        variant: 'error',
+        text: "Couldn't copy the codes. Select and copy them instead.",
+      });
+    }
+  };
+
+  const handleDownload = () => {
+    downloadText(props.fileName || 'backup-codes.txt', text());
+    setNotice({ variant: 'success', text: 'Codes downloaded.' });
+  };
+
+  const handlePrint = () => {
+    if (!printText(title(), text())) {
+      setNotice({ variant: 'error', text: 'Allow pop-ups for this site to print the codes.' });
+    }
+  };
+
+  return (
+    <div
+      class={`w-full bg-yellow-50 border border-yellow-200 rounded-lg p-4 space-y-4 ${props.class ?? ''}`}
+    >
+      <div>
+        <p class="text-sm font-medium text-yellow-900">{title()}</p>
+        <p class="mt-1 text-xs text-yellow-700">
+          {INSTRUCTIONS} Store them somewhere safe - they won't be shown again.
+        </p>
+      </div>
+
+      <ul class="grid grid-cols-2 gap-2" aria-label="Backup codes">
+        <For each={props.codes}>
+          {(code) => (
+            <li>
+              <code class="block p-2 bg-white rounded text-xs font-mono text-center select-all">
+                {code}
+              </code>
+            </li>
+          )}
+        </For>
+      </ul>
+
+      <div class="flex gap-2">
+        <Button type="button" variant="outline" size="sm" fullWidth onClick={handleCopy}>
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" fullWidth onClick={handleDownload}>
+          Download
+        </Button>
+        <Button type="button" variant="outline" size="sm" fullWidth onClick={handlePrint}>
+          Print
+        </Button>
+      </div>
+
+      <Show when={notice()}>
+        {(current) => <Alert variant={current().variant}>{current().text}</Alert>}
+      </Show>
+
+      <Show when={props.onDone}>
+        <Show when={props.requireAcknowledgement !== false}>
+          <div class="flex items-center">
+            <input
+              id="backup-codes-saved"
+              type="checkbox"
+              class="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              checked={acknowledged()}
+              onChange={(e) => setAcknowledged(e.currentTarget.checked)}
+            />
+            <label for="backup-codes-saved" class="ml-2 text-sm text-gray-700">
+              I have saved these codes
+            </label>
+          </div>
+        </Show>
+        <Button
+          type="button"
+          variant="primary"
+          fullWidth
+          disabled={!canFinish()}
+          onClick={() => props.onDone?.()}
+        >
+          {props.doneLabel || 'Done'}
+        </Button>
+      </Show>
+    </div>
+  );
+};
@@ -0,0 +1,2 @@
+export { BackupCodesPanel } from './BackupCodesPanel';
+export type { BackupCodesPanelProps } from './BackupCodesPanel';
@@ -0,0 +1,154 @@
+import { Component, For, Show } from 'solid-js';
+import { useExternalLogin } from '~/headless/useExternalLogin';
+import { Input } from '~/primitives/Input';
+import { Button } from '~/primitives/Button';
+import { Label } from '~/primitives/Label';
+import { Alert } from '~/primitives/Alert';
+import { cn } from '~/utils/cn';
+import type { ExternalProvider, LoginResponse } from '~/types/api';
+import type { ThemeConfig } from '~/types/theme';
+
+export interface ExternalProviderButtonsProps {
+  /**
+   * Base URL of the simple-idm backend (e.g., http://localhost:4000)
+   * If omitted, uses relative URLs (assumes same origin)
+   * @default undefined (same origin)
+   */
+  apiBaseUrl?: string;
+  /** Providers to offer; omit to load the ones configured in simple-idm */
+  providers?: ExternalProvider[];
+  /** App URL simple-idm returns to after the provider sign-in (default: current page) */
+  redirectUrl?: string;
+  /** Callback called once signed in through a provider (or after linking an account) */
+  onSuccess?: (response: LoginResponse) => void;
+  /** Callback called on error */
+  onError?: (error: string) => void;
+  /** Text of the divider above the buttons (default: "Or continue with") */
+  dividerText?: string;
+  /** Custom CSS class */
+  class?: string;
+  /** Theme configuration */
+  theme?: ThemeConfig;
+}
+
+/** Button styles for providers with brand guidelines; others get the neutral style */
+const PROVIDER_BUTTON_CLASSES: Record<string, string> = {
+  google: 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50',
+  github: 'bg-gray-900 text-white border-gray-900 hover:bg-gray-800',
+  microsoft: 'bg-white text-gray-900 border-gray-400 hover:bg-gray-50',
+};
+
+const DEFAULT_BUTTON_CLASS = 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50';
+
+export const ExternalProviderButtons: Component<ExternalProviderButtonsProps> = (props) => {
+  // Use headless external login hook for business logic
+  const external = useExternalLogin({
+    client: props.apiBaseUrl,
+    providers: props.providers,
+    redirectUrl: props.redirectUrl,
+    onSuccess: props.onSuccess,
+    onError: props.onError,
+  });
+
+  const providerName = (id: string) => external.providers().find((p) => p.id === id)?.name ?? id;
+
+  const handleLink = (e: Event) => {
+    e.preventDefault();
+    external.linkAccount();
+  };
+
+  return (
+    <div class={`w-full ${props.class ?? ''}`}>
+      <Show when={external.error()}>
+        <Alert variant="error" class="mb-4">
+          {external.error()}
+        </Alert>
+      </Show>
+
+      <Show when={external.success()}>
+        <Alert variant="success" class="mb-4">
+          {external.success()}
+        </Alert>
+      </Show>
+
+      <Show
+        when={!external.response() && external.linkRequest()}
+        fallback={
+          <Show when={external.providers().length > 0}>
+            <div class="relative my-6">
+              <div class="absolute inset-0 flex items-center" aria-hidden="true">
+                <div class="w-full border-t border-gray-300" />
+              </div>
+              <div class="relative flex justify-center text-sm">
+                <span class="px-2 bg-white text-gray-500">
+                  {props.dividerText ?? 'Or continue with'}
+                </span>
+              </div>
+            </div>
+
+            <div class="space-y-3">
+              <For each={external.providers()}>
+                {(provider) => (
+                  <button
+                    type="button"
+                    onClick={() => external.signIn(provider.id)}
+                    class={cn(
+                      'w-full inline-flex items-center justify-center gap-3 px-4 py-2 border rounded-lg text-sm font-medium transition-colors',
+                      PROVIDER_BUTTON_CLASSES[provider.type ?? ''] ?? DEFAULT_BUTTON_CLASS,
+                    )}
+                  >
+                    <Show when={provider.icon_url}>
+                      <img src={provider.icon_url} alt="" class="h-5 w-5" />
+                    </Show>
+                    Continue with {provider.name}
+                  </button>
+                )}
+              </For>
+            </div>
+          </Show>
+        }
+      >
+        {(request) => (
+          <form onSubmit={handleLink} class="space-y-4">
+            <Alert variant="info">
+              An account with {request().email ?? 'this email'} already exists. Enter its
+              password to link your {providerName(request().provider)} sign-in to it.
+            </Alert>
+
+            <div>
+              <Label for="link-password" required>
+                Password
+              </Label>
+              <div class="mt-1">
+                <Input
+                  id="link-password"
+                  name="password"
+                  type="password"
+                  autocomplete="current-password"
+                  required
+                  value={external.password()}
+                  onInput={(e) => external.setPassword(e.currentTarget.value)}
+                />
+              </div>
+            </div>
+
+            <div class="flex gap-3">
+              <Button
+                type="submit"
+                variant="primary"
+                fullWidth
+                loading={external.isLoading()}
+                disabled={!external.canLink()}
+              >
+                {external.isLoading() ? 'Linking...' : 'Link account'}
+              </Button>
+              <Button type="button" variant="outline" fullWidth onClick={external.cancelLink}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </Show>
+    </div>
+  );
+};
@@ -0,0 +1,2 @@
+export { ExternalProviderButtons } from './ExternalProviderButtons';
+export type { ExternalProviderButtonsProps } from './ExternalProviderButtons';
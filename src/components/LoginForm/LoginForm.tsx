@@ -1,10 +1,14 @@
-import { Component, Show } from 'solid-js';
+import { Component, Match, Show, Switch, createSignal, onMount } from 'solid-js';
 import { useLogin } from '~/headless/useLogin';
+import { usePasskeys } from '~/headless/usePasskeys';
 import { Input } from '~/primitives/Input';
 import { Button } from '~/primitives/Button';
 import { Label } from '~/primitives/Label';
 import { Alert } from '~/primitives/Alert';
-import type { LoginResponse } from '~/types/api';
+import { TwoFactorChallenge } from '~/components/TwoFactorChallenge';
+import { AccountPicker } from '~/components/AccountPicker';
+import { ExternalProviderButtons } from '~/components/ExternalProviderButtons';
+import type { ExternalProvider, LoginResponse } from '~/types/api';
 import type { ThemeConfig } from '~/types/theme';
 
 export interface LoginFormProps {
@@ -24,6 +28,35 @@ export interface LoginFormProps {
   showMagicLinkOption?: boolean;
   /** Show link to registration */
   showRegistrationLink?: boolean;
+  /**
+   * Complete 2FA logins in the form instead of passing the '2fa_required'
+   * response to onSuccess; onSuccess then fires once the code is accepted
+   * @default false
+   */
+  inlineTwoFactor?: boolean;
+  /**
+   * With inlineTwoFactor, offer to remember the device for this many days so
+   * later logins on it skip 2FA; 0 hides the option
+   * @default 0
+   */
+  rememberDeviceDays?: number;
+  /**
+   * Let users with several accounts choose one in the form instead of passing the
+   * 'user_selection_required' response to onSuccess
+   * @default false
+   */
+  inlineAccountSelection?: boolean;
+  /**
+   * External identity providers to offer below the form
+   * `true` loads the providers configured in simple-idm
+   */
+  externalProviders?: ExternalProvider[] | boolean;
+  /**
+   * Offer passkey sign-in: a "Sign in with a passkey" button, and passkeys in
+   * the username field's autofill where the browser supports it
+   * @default false
+   */
+  showPasskeyLogin?: boolean;
   /** Custom CSS class */
   class?: string;
   /** Theme configuration */
@@ -31,10 +64,18 @@ export interface LoginFormProps {
 }
 
 export const LoginForm: Component<LoginFormProps> = (props) => {
+  // Whether the login continues with a step shown in the form
+  const hasInlineStep = (response: LoginResponse) =>
+    (props.inlineTwoFactor && response.status === '2fa_required') ||
+    (props.inlineAccountSelection && response.status === 'user_selection_required');
+
   // Use headless login hook for business logic
   const login = useLogin({
     client: props.apiBaseUrl,
-    onSuccess: props.onSuccess,
+    onSuccess: (response) => {
+      if (hasInlineStep(response)) return;
+      props.onSuccess?.(response);
+    },
     onError: props.onError,
     autoRedirect: !!props.redirectUrl,
     redirectUrl: props.redirectUrl,
@@ -46,6 +87,61 @@ export const LoginForm: Component<LoginFormProps> = (props) => {
     login.submit();
   };
 
+  // A passkey login can need the same follow-up steps as a password login
+  const [passkeyResponse, setPasskeyResponse] = createSignal<LoginResponse | null>(null);
+  const pendingResponse = () => passkeyResponse() ?? login.response();
+
+  const twoFactorChallenge = () => {
+    const response = pendingResponse();
+    return props.inlineTwoFactor && response?.status === '2fa_required' ? response : null;
+  };
+
+  const accountSelection = () => {
+    const response = pendingResponse();
+    return props.inlineAccountSelection && response?.status === 'user_selection_required'
+      ? response
+      : null;
+  };
+
+  // Back to the sign-in form from a follow-up step
+  const resetSteps = () => {
+    setPasskeyResponse(null);
+    passkeys?.clearSuccess();
+    login.reset();
+  };
+
+  // A later step completed the login - report it like a direct success
+  const handleStepSuccess = (response: LoginResponse) => {
+    props.onSuccess?.(response);
+    if (props.redirectUrl && response.status === 'success') {
+      setTimeout(() => {
+        window.location.href = props.redirectUrl!;
+      }, 500);
+    }
+  };
+
+  const handlePasskeyLogin = (response: LoginResponse) => {
+    if (hasInlineStep(response)) {
+      setPasskeyResponse(response);
+      return;
+    }
+    handleStepSuccess(response);
+  };
+
+  // Only set up passkeys when they are offered
+  const passkeys = props.showPasskeyLogin
+    ? usePasskeys({
+        client: props.apiBaseUrl,
+        onLogin: handlePasskeyLogin,
+        onError: (error) => props.onError?.(error),
+      })
+    : null;
+
+  // Offer passkeys in the username autofill
+  onMount(() => {
+    passkeys?.startConditionalLogin();
+  });
+
   return (
     <div class="w-full">
       <div class="text-center mb-8">
@@ -56,97 +152,175 @@ export const LoginForm: Component<LoginFormProps> = (props) => {
 
       <div class="w-full">
         <div class="bg-white py-8 px-4 shadow-lg rounded-lg sm:px-10">
-          <Show when={login.error()}>
-            <Alert variant="error" class="mb-6">
-              {login.error()}
-            </Alert>
-          </Show>
-
-          <Show when={login.success()}>
-            <Alert variant="success" class="mb-6">
-              {login.success()}
-            </Alert>
-          </Show>
-
-          <form onSubmit={handleSubmit}>
-            <div class="space-y-6">
-              {/* Username/Email Field */}
-              <div>
-                <Label for="username" required>
-                  Email or Username
-                </Label>
-                <div class="mt-1">
-                  <Input
-                    id="username"
-                    name="username"
-                    type="text"
-                    autocomplete="username email"
-                    required
-                    placeholder="your@email.com or username"
-                    value={login.username()}
-                    onInput={(e) => login.setUsername(e.currentTarget.value)}
-                  />
-                </div>
-              </div>
-
-              {/* Password Field */}
-              <div>
-                <Label for="password" required>
-                  Password
-                </Label>
-                <div class="mt-1">
-                  <Input
-                    id="password"
-                    name="password"
-                    type="password"
-                    autocomplete="current-password"
-                    required
-                    value={login.password()}
-                    onInput={(e) => login.setPassword(e.currentTarget.value)}
-                  />
-                </div>
-              </div>
-            </div>
-
-            {/* Submit Button */}
-            <div class="mt-8">
-              <Button
-                type="submit"
-                variant="primary"
-                fullWidth
-                loading={login.isLoading()}
-                disabled={!login.canSubmit() || login.isLoading()}
-              >
-                {login.isLoading() ? 'Signing in...' : 'Sign in'}
-              </Button>
-            </div>
-
-            {/* Links */}
-            <Show when={props.showMagicLinkOption || props.showRegistrationLink}>
-              <div class="text-center text-sm space-y-2">
-                <Show when={props.showMagicLinkOption}>
-                  <div>
-                    <a
-                      href="/magic-link"
-                      class="text-blue-600 hover:text-blue-500"
-                    >
-                      Use magic link instead
-                    </a>
-                  </div>
+          <Switch
+            fallback={
+              <>
+                <Show when={!login.isOnline() && !login.error()}>
+                  <Alert variant="warning" class="mb-6">
+                    You're offline. Check your internet connection before signing in.
+                  </Alert>
+                </Show>
+
+                <Show when={login.error() || passkeys?.error()}>
+                  <Alert variant="error" class="mb-6">
+                    {login.error() || passkeys?.error()}
+                  </Alert>
                 </Show>
-                <Show when={props.showRegistrationLink}>
-                  <div>
-                    <a
-                      href="/register"
-                      class="text-blue-600 hover:text-blue-500"
+
+                <Show when={login.success() || passkeys?.success()}>
+                  <Alert variant="success" class="mb-6">
+                    {login.success() || passkeys?.success()}
+                  </Alert>
+                </Show>
+
+                <form onSubmit={handleSubmit}>
+                  <div class="space-y-6">
+                    {/* Username/Email Field */}
+                    <div>
+                      <Label for="username" required>
+                        Email or Username
+                      </Label>
+                      <div class="mt-1">
+                        <Input
+                          id="username"
+                          name="username"
+                          type="text"
+                          autocomplete={
+                            props.showPasskeyLogin ? 'username webauthn' : 'username email'
+                          }
+                          required
+                          placeholder="your@email.com or username"
+                          value={login.username()}
+                          onInput={(e) => login.setUsername(e.currentTarget.value)}
+                        />
+                      </div>
+                    </div>
+
+                    {/* Password Field */}
+                    <div>
+                      <Label for="password" required>
+                        Password
+                      </Label>
+                      <div class="mt-1">
+                        <Input
+                          id="password"
+                          name="password"
+                          type="password"
+                          autocomplete="current-password"
+                          required
+                          value={login.password()}
+                          onInput={(e) => login.setPassword(e.currentTarget.value)}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Submit Button */}
+                  <div class="mt-8">
+                    <Button
+                      type="submit"
+                      variant="primary"
+                      fullWidth
+                      loading={login.isLoading()}
+                      disabled={!login.canSubmit() || login.isLoading()}
                     >
-                      Don't have an account? Sign up
-                    </a>
+                      {login.isLoading()
+                        ? 'Signing in...'
+                        : login.retryAfter() > 0
+                          ? `Try again in ${login.retryAfter()}s`
+                          : 'Sign in'}
+                    </Button>
+
+                    <Show when={passkeys?.isSupported() && passkeys}>
+                      {(pk) => (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          fullWidth
+                          class="mt-3"
+                          loading={pk().isLoading()}
+                          disabled={pk().isLoading() || login.isLoading()}
+                          onClick={() => pk().login(login.username().trim() || undefined)}
+                        >
+                          {pk().isLoading()
+                            ? 'Waiting for your device...'
+                            : 'Sign in with a passkey'}
+                        </Button>
+                      )}
+                    </Show>
                   </div>
+
+                  {/* Links */}
+                  <Show when={props.showMagicLinkOption || props.showRegistrationLink}>
+                    <div class="text-center text-sm space-y-2">
+                      <Show when={props.showMagicLinkOption}>
+                        <div>
+                          <a
+                            href="/magic-link"
+                            class="text-blue-600 hover:text-blue-500"
+                          >
+                            Use magic link instead
+                          </a>
+                        </div>
+                      </Show>
+                      <Show when={props.showRegistrationLink}>
+                        <div>
+                          <a
+                            href="/register"
+                            class="text-blue-600 hover:text-blue-500"
+                          >
+                            Don't have an account? Sign up
+                          </a>
+                        </div>
+                      </Show>
+                    </div>
+                  </Show>
+                </form>
+
+                <Show when={props.externalProviders}>
+                  <ExternalProviderButtons
+                    apiBaseUrl={props.apiBaseUrl}
+                    providers={
+                      Array.isArray(props.externalProviders) ? props.externalProviders : undefined
+                    }
+                    onSuccess={handleStepSuccess}
+                    onError={props.onError}
+                  />
                 </Show>
-              </div>
-            </Show>
-          </form>
+              </>
+            }
+          >
+            <Match when={twoFactorChallenge()}>
+              {(challenge) => (
+                <TwoFactorChallenge
+                  apiBaseUrl={props.apiBaseUrl}
+                  challenge={challenge()}
+                  rememberDeviceDays={props.rememberDeviceDays}
+                  onSuccess={(response) =>
+                    handleStepSuccess({
+                      status: 'success',
+                      user: response.user,
+                      message: response.message,
+                    })
+                  }
+                  onError={(error) => props.onError?.(error)}
+                  onCancel={resetSteps}
+                />
+              )}
+            </Match>
+            <Match when={accountSelection()}>
+              {(selection) => (
+                <AccountPicker
+                  apiBaseUrl={props.apiBaseUrl}
+                  selection={selection()}
+                  inlineTwoFactor={props.inlineTwoFactor}
+                  onSuccess={handleStepSuccess}
+                  onError={props.onError}
+                  onCancel={resetSteps}
+                />
+              )}
+            </Match>
+          </Switch>
         </div>
       </div>
     </div>
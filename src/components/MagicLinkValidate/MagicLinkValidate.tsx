@@ -1,5 +1,7 @@
 import { Component, Show, createSignal, onMount } from 'solid-js';
 import { SimpleIdmClient } from '~/api/client';
+import { createRequestScope } from '~/headless/requestScope';
+import { bindTenant, useTenantConfig } from '~/headless/tenant';
 import { Alert } from '~/primitives/Alert';
 import { Button } from '~/primitives/Button';
 import type { MagicLinkValidateResponse } from '~/types/api';
@@ -36,23 +38,36 @@ export const MagicLinkValidate: Component<MagicLinkValidateProps> = (props) => {
 
   const client = new SimpleIdmClient({
     baseUrl: props.apiBaseUrl,
+    tenant: useTenantConfig(),
     onError: (err) => {
       setError(err.message);
       props.onError?.(err.message);
     },
   });
 
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
+
+  // In-flight validation is aborted on unmount
+  const requests = createRequestScope();
+
   const validate = async () => {
     if (!props.token) {
       setError('No magic link token provided');
       return;
     }
 
+    const request = requests.start();
+
     try {
       setIsValidating(true);
       setError(null);
 
-      const response = await client.validateMagicLink(props.token);
+      const response = await client.validateMagicLink(props.token, { signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
       setUserInfo(response);
       setSuccess(true);
       props.onSuccess?.(response);
@@ -64,6 +79,8 @@ export const MagicLinkValidate: Component<MagicLinkValidateProps> = (props) => {
         }, 1500);
       }
     } catch (err) {
+      if (!request.isCurrent()) return;
+
       const message =
         err instanceof Error
           ? err.message
@@ -71,7 +88,9 @@ export const MagicLinkValidate: Component<MagicLinkValidateProps> = (props) => {
       setError(message);
       props.onError?.(message);
     } finally {
-      setIsValidating(false);
+      if (request.isCurrent()) {
+        setIsValidating(false);
+      }
     }
   };
 
@@ -0,0 +1,130 @@
+import { Component, Show, createSignal, onMount } from 'solid-js';
+import type { SimpleIdmClient } from '~/api/client';
+import type { OAuthCallbackResult } from '~/api/oauth';
+import { createRequestScope } from '~/headless/requestScope';
+import { bindTenant } from '~/headless/tenant';
+import { Alert } from '~/primitives/Alert';
+import { Button } from '~/primitives/Button';
+import type { ThemeConfig } from '~/types/theme';
+
+export interface OAuthCallbackProps {
+  /**
+   * Client configured with `oauth` (and usually `authMode: 'bearer'`)
+   * Use the app's client so the issued tokens end up in its storage
+   */
+  client: SimpleIdmClient;
+  /** URL simple-idm redirected to (default: the current location) */
+  callbackUrl?: string;
+  /** Callback called once the tokens were issued */
+  onSuccess?: (result: OAuthCallbackResult) => void;
+  /** Callback called on error */
+  onError?: (error: string) => void;
+  /**
+   * Where to go after signing in when the authorization request had no `returnTo`
+   * Without either, the page stays on the success message
+   */
+  redirectUrl?: string;
+  /** Login page linked from the error state */
+  loginUrl?: string;
+  /** Custom CSS class */
+  class?: string;
+  /** Theme configuration */
+  theme?: ThemeConfig;
+}
+
+export const OAuthCallback: Component<OAuthCallbackProps> = (props) => {
+  const [isExchanging, setIsExchanging] = createSignal(true);
+  const [error, setError] = createSignal<string | null>(null);
+  const [success, setSuccess] = createSignal(false);
+  const [redirectTo, setRedirectTo] = createSignal<string | null>(null);
+
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(props.client);
+
+  // In-flight exchange is aborted on unmount
+  const requests = createRequestScope();
+
+  const exchange = async () => {
+    const request = requests.start();
+
+    try {
+      setIsExchanging(true);
+      setError(null);
+
+      const result = await props.client.handleOAuthCallback(
+        props.callbackUrl ?? window.location.href,
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setSuccess(true);
+      props.onSuccess?.(result);
+
+      // Replace, so going back doesn't revisit the spent callback URL
+      const target = result.returnTo ?? props.redirectUrl;
+      if (target) {
+        setRedirectTo(target);
+        window.location.replace(target);
+      }
+    } catch (err) {
+      if (!request.isCurrent()) return;
+
+      const message = err instanceof Error ? err.message : 'Sign-in failed. Please try again.';
+      setError(message);
+      props.onError?.(message);
+    } finally {
+      if (request.isCurrent()) {
+        setIsExchanging(false);
+      }
+    }
+  };
+
+  // The authorization code can only be exchanged once
+  onMount(() => {
+    exchange();
+  });
+
+  return (
+    <div class={`min-h-screen bg-gray-50 flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8 ${props.class ?? ''}`}>
+      <div class="sm:mx-auto sm:w-full sm:max-w-md">
+        <div class="bg-white py-8 px-4 shadow-lg rounded-lg sm:px-10">
+          {/* Loading State */}
+          <Show when={isExchanging()}>
+            <div class="text-center">
+              <div class="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600" />
+              <p class="mt-4 text-gray-600">Completing sign-in...</p>
+            </div>
+          </Show>
+
+          {/* Error State */}
+          <Show when={!isExchanging() && error()}>
+            <div class="space-y-4">
+              <Alert variant="error">
+                <p class="font-medium">{error()}</p>
+              </Alert>
+              <Button
+                variant="primary"
+                fullWidth
+                onClick={() => (window.location.href = props.loginUrl ?? '/login')}
+              >
+                Back to Login
+              </Button>
+            </div>
+          </Show>
+
+          {/* Success State */}
+          <Show when={!isExchanging() && success()}>
+            <Alert variant="success">
+              <p class="font-medium">
+                You're signed in.
+                <Show when={redirectTo()}> Redirecting you now...</Show>
+              </p>
+            </Alert>
+          </Show>
+        </div>
+      </div>
+    </div>
+  );
+};
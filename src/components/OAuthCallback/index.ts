@@ -0,0 +1,2 @@
+export { OAuthCallback } from './OAuthCallback';
+export type { OAuthCallbackProps } from './OAuthCallback';
@@ -0,0 +1,134 @@
+import { Component, For, Show, createSignal } from 'solid-js';
+import { usePasskeys, type PasskeyOperation } from '~/headless/usePasskeys';
+import { Input } from '~/primitives/Input';
+import { Button } from '~/primitives/Button';
+import { Label } from '~/primitives/Label';
+import { Alert } from '~/primitives/Alert';
+import type { Passkey } from '~/types/api';
+import type { ThemeConfig } from '~/types/theme';
+
+export interface PasskeyManagerProps {
+  /**
+   * Base URL of the simple-idm backend (e.g., http://localhost:4000)
+   * If omitted, uses relative URLs (assumes same origin)
+   * @default undefined (same origin)
+   */
+  apiBaseUrl?: string;
+  /** Callback called once a passkey was added */
+  onRegister?: (passkey: Passkey) => void;
+  /** Callback called on error */
+  onError?: (error: string, operation: PasskeyOperation) => void;
+  /** Custom CSS class */
+  class?: string;
+  /** Theme configuration */
+  theme?: ThemeConfig;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+export const PasskeyManager: Component<PasskeyManagerProps> = (props) => {
+  const [name, setName] = createSignal('');
+
+  // Use headless passkeys hook for business logic
+  const passkeys = usePasskeys({
+    client: props.apiBaseUrl,
+    autoLoad: true,
+    onRegister: (passkey) => {
+      setName('');
+      props.onRegister?.(passkey);
+    },
+    onError: props.onError,
+  });
+
+  const isRunning = (operation: PasskeyOperation) =>
+    passkeys.isLoading() && passkeys.currentOperation() === operation;
+
+  const handleRegister = (e: Event) => {
+    e.preventDefault();
+    passkeys.register(name());
+  };
+
+  return (
+    <div class={`w-full space-y-6 ${props.class ?? ''}`}>
+      <p class="text-sm text-gray-600">
+        Passkeys let you sign in with your fingerprint, face or device PIN instead of a password.
+      </p>
+
+      <Show when={passkeys.error()}>
+        <Alert variant="error">{passkeys.error()}</Alert>
+      </Show>
+
+      <Show when={passkeys.success()}>
+        <Alert variant="success">{passkeys.success()}</Alert>
+      </Show>
+
+      <Show
+        when={passkeys.passkeys().length > 0}
+        fallback={
+          <Show when={!isRunning('load')}>
+            <p class="text-sm text-gray-500">You haven't added any passkeys yet.</p>
+          </Show>
+        }
+      >
+        <ul class="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          <For each={passkeys.passkeys()}>
+            {(passkey) => (
+              <li class="flex items-center justify-between gap-4 p-4">
+                <div>
+                  <p class="text-sm font-medium text-gray-900">{passkey.name}</p>
+                  <p class="text-xs text-gray-500">
+                    Added {formatDate(passkey.created_at)}
+                    <Show when={passkey.last_used_at}>
+                      {' · '}Last used {formatDate(passkey.last_used_at!)}
+                    </Show>
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={passkeys.isLoading()}
+                  onClick={() => passkeys.remove(passkey.id)}
+                >
+                  Remove
+                </Button>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+
+      <Show
+        when={passkeys.isSupported()}
+        fallback={
+          <Alert variant="info">This browser doesn't support passkeys.</Alert>
+        }
+      >
+        <form onSubmit={handleRegister} class="space-y-4">
+          <div>
+            <Label for="passkey-name">Passkey name (Optional)</Label>
+            <div class="mt-1">
+              <Input
+                id="passkey-name"
+                name="passkey-name"
+                type="text"
+                placeholder="e.g. Work laptop"
+                value={name()}
+                onInput={(e) => setName(e.currentTarget.value)}
+              />
+            </div>
+          </div>
+
+          <Button
+            type="submit"
+            variant="primary"
+            fullWidth
+            loading={isRunning('register')}
+            disabled={passkeys.isLoading()}
+          >
+            {isRunning('register') ? 'Waiting for your device...' : 'Add a passkey'}
+          </Button>
+        </form>
+      </Show>
+    </div>
+  );
+};
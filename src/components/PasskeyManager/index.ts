@@ -0,0 +1,2 @@
+export { PasskeyManager } from './PasskeyManager';
+export type { PasskeyManagerProps } from './PasskeyManager';
@@ -5,6 +5,7 @@ import { Input } from '~/primitives/Input';
 import { Button } from '~/primitives/Button';
 import { Label } from '~/primitives/Label';
 import { Alert } from '~/primitives/Alert';
+import { PasskeyManager } from '~/components/PasskeyManager';
 import type { ProfileUpdateResponse } from '~/types/api';
 import type { ThemeConfig } from '~/types/theme';
 
@@ -20,9 +21,11 @@ export interface ProfileSettingsFormProps {
   /** Callback called on error */
   onError?: (error: string, operation: ProfileOperation) => void;
   /** Default active tab */
-  defaultTab?: 'username' | 'phone' | 'password';
+  defaultTab?: 'username' | 'phone' | 'password' | 'passkeys';
   /** Show phone tab (default: true) */
   showPhoneTab?: boolean;
+  /** Show passkeys tab for managing passkeys (default: false) */
+  showPasskeysTab?: boolean;
   /** Custom CSS class */
   class?: string;
   /** Theme configuration */
@@ -31,7 +34,7 @@ export interface ProfileSettingsFormProps {
 
 export const ProfileSettingsForm: Component<ProfileSettingsFormProps> = (props) => {
   const showPhoneTab = props.showPhoneTab ?? true;
-  const [activeTab, setActiveTab] = createSignal<'username' | 'phone' | 'password'>(
+  const [activeTab, setActiveTab] = createSignal<'username' | 'phone' | 'password' | 'passkeys'>(
     props.defaultTab || 'username',
   );
 
@@ -106,6 +109,19 @@ export const ProfileSettingsForm: Component<ProfileSettingsFormProps> = (props)
               >
                 Password
               </button>
+              <Show when={props.showPasskeysTab}>
+                <button
+                  type="button"
+                  onClick={() => setActiveTab('passkeys')}
+                  class={`py-4 px-1 border-b-2 font-medium text-sm ${
+                    activeTab() === 'passkeys'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  Passkeys
+                </button>
+              </Show>
             </nav>
           </div>
 
@@ -323,6 +339,11 @@ export const ProfileSettingsForm: Component<ProfileSettingsFormProps> = (props)
               </div>
             </form>
           </Show>
+
+          {/* Passkeys Tab */}
+          <Show when={activeTab() === 'passkeys' && props.showPasskeysTab}>
+            <PasskeyManager apiBaseUrl={props.apiBaseUrl} />
+          </Show>
         </div>
       </div>
     </div>
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render } from '@solidjs/testing-library';
+import { ProtectedRoute } from './ProtectedRoute';
+import { useAuth, type UseAuthReturn } from '~/hooks/useAuth';
+import { SimpleIdmClient } from '~/api/client';
+import { createFakeBackend, type FakeBackend } from '~/testing/fakeBackend';
+
+const ALICE = { username: 'alice', email: 'alice@example.com', password: 'Password123!' };
+
+// A hash login path, so the redirect is observable in jsdom
+const LOGIN_PATH = '#login';
+
+describe('ProtectedRoute', () => {
+  let backend: FakeBackend;
+  let client: SimpleIdmClient;
+
+  /** Render a protected page for a signed-in user */
+  const renderProtected = async () => {
+    let auth!: UseAuthReturn;
+    const view = render(() => {
+      auth = useAuth({ client, checkAuthOnMount: false, syncTabs: false });
+      return ProtectedRoute({
+        auth,
+        loginPath: LOGIN_PATH,
+        get children() {
+          return 'Dashboard';
+        },
+      });
+    });
+    await auth.login({ username: ALICE.username, password: ALICE.password });
+    return { auth, view };
+  };
+
+  beforeEach(() => {
+    window.location.hash = '';
+    backend = createFakeBackend({ users: [ALICE] });
+    client = new SimpleIdmClient({ fetch: backend.fetch, retry: false, tenant: { id: 'acme' } });
+  });
+
+  afterEach(() => {
+    window.location.hash = '';
+  });
+
+  it('should redirect to login after a logout', async () => {
+    const { auth } = await renderProtected();
+    window.location.hash = '';
+
+    await auth.logout();
+
+    expect(window.location.hash).toMatch(/^#login\?redirect=/);
+  });
+
+  it('should keep a signed-in user on the page while the tenant is re-checked', async () => {
+    const { auth, view } = await renderProtected();
+    window.location.hash = '';
+
+    await client.setTenant('globex');
+    expect(auth.isAuthenticated()).toBe(true);
+    await vi.waitFor(() => expect(auth.isLoading()).toBe(false));
+
+    expect(auth.isAuthenticated()).toBe(true);
+    expect(view.container.textContent).toBe('Dashboard');
+    expect(window.location.hash).toBe('');
+  });
+});
@@ -1,4 +1,4 @@
-import { Component, ParentComponent, Show, onMount } from 'solid-js';
+import { Component, ParentComponent, Show, createEffect, on, onMount } from 'solid-js';
 import type { UseAuthReturn } from '../hooks/useAuth';
 
 export interface ProtectedRouteProps {
@@ -23,6 +23,32 @@ export interface ProtectedRouteProps {
   unauthorizedComponent?: Component;
 }
 
+/**
+ * Send the browser to the login page, remembering the current page
+ */
+const redirectToLogin = (loginPath: string) => {
+  const currentPath = window.location.pathname + window.location.search;
+  const redirectUrl = `${loginPath}?redirect=${encodeURIComponent(currentPath)}`;
+  window.location.href = redirectUrl;
+};
+
+/**
+ * Redirect once the user is signed out while the route is shown (e.g. logout in another tab)
+ */
+const redirectOnSignOut = (auth: UseAuthReturn, loginPath: string) => {
+  createEffect(
+    on(
+      auth.isAuthenticated,
+      (authenticated, wasAuthenticated) => {
+        if (wasAuthenticated && !authenticated) {
+          redirectToLogin(loginPath);
+        }
+      },
+      { defer: true },
+    ),
+  );
+};
+
 /**
  * Loading component shown while checking authentication
  */
@@ -76,11 +102,10 @@ export const ProtectedRoute: ParentComponent<ProtectedRouteProps> = (props) => {
   // Redirect to login if not authenticated
   onMount(() => {
     if (!props.auth.isAuthenticated()) {
-      const currentPath = window.location.pathname + window.location.search;
-      const redirectUrl = `${loginPath}?redirect=${encodeURIComponent(currentPath)}`;
-      window.location.href = redirectUrl;
+      redirectToLogin(loginPath);
     }
   });
+  redirectOnSignOut(props.auth, loginPath);
 
   // If unauthorizedComponent is provided, show it instead of children
   return (
@@ -129,11 +154,10 @@ export const ProtectedRouteWithLoading: ParentComponent<ProtectedRouteProps> = (
   // Redirect to login if not authenticated (after loading completes)
   onMount(() => {
     if (!props.auth.isLoading() && !props.auth.isAuthenticated()) {
-      const currentPath = window.location.pathname + window.location.search;
-      const redirectUrl = `${loginPath}?redirect=${encodeURIComponent(currentPath)}`;
-      window.location.href = redirectUrl;
+      redirectToLogin(loginPath);
     }
   });
+  redirectOnSignOut(props.auth, loginPath);
 
   // Show loading state while checking authentication
   return (
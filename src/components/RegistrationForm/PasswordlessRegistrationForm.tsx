@@ -4,7 +4,8 @@ import { Input } from '~/primitives/Input';
 import { Button } from '~/primitives/Button';
 import { Label } from '~/primitives/Label';
 import { Alert } from '~/primitives/Alert';
-import type { SignupResponse } from '~/types/api';
+import { ExternalProviderButtons } from '~/components/ExternalProviderButtons';
+import type { ExternalProvider, LoginResponse, SignupResponse } from '~/types/api';
 import type { ThemeConfig } from '~/types/theme';
 
 export interface PasswordlessRegistrationFormProps {
@@ -30,6 +31,13 @@ export interface PasswordlessRegistrationFormProps {
   showLoginLink?: boolean;
   /** Redirect URL after registration */
   redirectUrl?: string;
+  /**
+   * External identity providers to sign up with, shown below the form
+   * `true` loads the providers configured in simple-idm
+   */
+  externalProviders?: ExternalProvider[] | boolean;
+  /** Callback called once signed up or in through an external provider */
+  onExternalSuccess?: (response: LoginResponse) => void;
   /** Custom CSS class */
   class?: string;
   /** Theme configuration */
@@ -55,6 +63,13 @@ export const PasswordlessRegistrationForm: Component<PasswordlessRegistrationFor
     registration.submit();
   };
 
+  const handleExternalSuccess = (response: LoginResponse) => {
+    props.onExternalSuccess?.(response);
+    if (props.redirectUrl && response.status === 'success') {
+      window.location.href = props.redirectUrl;
+    }
+  };
+
   return (
     <div class="w-full">
       <div class="text-center mb-8">
@@ -204,6 +219,18 @@ export const PasswordlessRegistrationForm: Component<PasswordlessRegistrationFor
               </div>
             </Show>
           </form>
+
+          <Show when={props.externalProviders}>
+            <ExternalProviderButtons
+              apiBaseUrl={props.apiBaseUrl}
+              providers={
+                Array.isArray(props.externalProviders) ? props.externalProviders : undefined
+              }
+              dividerText="Or sign up with"
+              onSuccess={handleExternalSuccess}
+              onError={props.onError}
+            />
+          </Show>
         </div>
       </div>
     </div>
@@ -0,0 +1,114 @@
+import { Component, Show, createEffect, createSignal, onCleanup } from 'solid-js';
+import type { UseAuthReturn } from '~/hooks/useAuth';
+import { Button } from '~/primitives/Button';
+import type { ThemeConfig } from '~/types/theme';
+
+export interface SessionTimeoutWarningProps {
+  /** Auth context from useAuth (configure idleTimeoutMs and sessionWarningMs there) */
+  auth: UseAuthReturn;
+  /** Dialog title */
+  title?: string;
+  /** Callback called after the user chose to log out */
+  onLogout?: () => void;
+  /** Custom CSS class for the dialog */
+  class?: string;
+  /** Theme configuration */
+  theme?: ThemeConfig;
+}
+
+/**
+ * Remaining time as m:ss
+ */
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Dialog shown while the session is about to time out
+ *
+ * @example
+ * ```tsx
+ * const auth = useAuth({ client, idleTimeoutMs: 15 * 60_000 });
+ *
+ * <SessionTimeoutWarning auth={auth} onLogout={() => navigate('/login')} />
+ * ```
+ */
+export const SessionTimeoutWarning: Component<SessionTimeoutWarningProps> = (props) => {
+  const [now, setNow] = createSignal(Date.now());
+  const [isExtending, setIsExtending] = createSignal(false);
+  let stayButton: HTMLButtonElement | undefined;
+
+  // Tick while the dialog is open
+  createEffect(() => {
+    if (!props.auth.isSessionExpiring()) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    onCleanup(() => clearInterval(timer));
+    queueMicrotask(() => stayButton?.focus());
+  });
+
+  const remaining = () => (props.auth.sessionTimeoutAt() ?? now()) - now();
+
+  const handleStay = async () => {
+    setIsExtending(true);
+    try {
+      await props.auth.extendSession();
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await props.auth.logout();
+    } finally {
+      props.onLogout?.();
+    }
+  };
+
+  return (
+    <Show when={props.auth.isSessionExpiring()}>
+      <div class="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 p-4">
+        <div
+          role="alertdialog"
+          aria-modal="true"
+          aria-labelledby="session-timeout-title"
+          aria-describedby="session-timeout-description"
+          class={`w-full max-w-sm bg-white rounded-lg shadow-lg border border-gray-200 p-6 space-y-4 ${props.class ?? ''}`}
+        >
+          <h2 id="session-timeout-title" class="text-lg font-semibold text-gray-900">
+            {props.title || 'Your session is about to expire'}
+          </h2>
+          <p id="session-timeout-description" class="text-sm text-gray-600">
+            For your security, you'll be signed out in{' '}
+            <span class="font-mono font-semibold text-gray-900" aria-live="polite">
+              {formatCountdown(remaining())}
+            </span>
+            . Any unsaved changes may be lost.
+          </p>
+          <div class="flex gap-3">
+            <Button
+              variant="outline"
+              fullWidth
+              disabled={isExtending() || props.auth.isLoading()}
+              onClick={handleLogout}
+            >
+              Log out
+            </Button>
+            <Button
+              ref={stayButton}
+              variant="primary"
+              fullWidth
+              loading={isExtending()}
+              disabled={isExtending()}
+              onClick={handleStay}
+            >
+              Stay signed in
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
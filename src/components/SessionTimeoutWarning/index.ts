@@ -0,0 +1,2 @@
+export { SessionTimeoutWarning } from './SessionTimeoutWarning';
+export type { SessionTimeoutWarningProps } from './SessionTimeoutWarning';
@@ -0,0 +1,34 @@
+import { ParentComponent } from 'solid-js';
+import type { TenantConfig } from '../api/tenant';
+import { TenantContext } from '../headless/tenant';
+
+export interface TenantProviderProps {
+  /**
+   * Active tenant identifier
+   * Changing it switches every hook and component below the provider
+   */
+  tenant: string | null;
+
+  /**
+   * How clients created by hooks and components send the tenant
+   * Clients you pass in keep their own configuration
+   * @default { strategy: 'header', headerName: 'X-Tenant-ID' }
+   */
+  config?: Omit<TenantConfig, 'id'>;
+}
+
+/**
+ * Provides the active tenant to all hooks and components below it
+ */
+export const TenantProvider: ParentComponent<TenantProviderProps> = (props) => {
+  return (
+    <TenantContext.Provider
+      value={{
+        tenant: () => props.tenant,
+        config: props.config,
+      }}
+    >
+      {props.children}
+    </TenantContext.Provider>
+  );
+};
@@ -0,0 +1,160 @@
+import { Component, For, Show, createSignal } from 'solid-js';
+import { useTrustedDevices, type TrustedDeviceOperation } from '~/headless/useTrustedDevices';
+import { Input } from '~/primitives/Input';
+import { Button } from '~/primitives/Button';
+import { Alert } from '~/primitives/Alert';
+import type { TrustedDevice } from '~/types/api';
+import type { ThemeConfig } from '~/types/theme';
+
+export interface TrustedDevicesProps {
+  /**
+   * Base URL of the simple-idm backend (e.g., http://localhost:4000)
+   * If omitted, uses relative URLs (assumes same origin)
+   * @default undefined (same origin)
+   */
+  apiBaseUrl?: string;
+  /** Callback called after a device was removed */
+  onRevoke?: (device: TrustedDevice) => void;
+  /** Callback called on error */
+  onError?: (error: string, operation: TrustedDeviceOperation) => void;
+  /** Custom CSS class */
+  class?: string;
+  /** Theme configuration */
+  theme?: ThemeConfig;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+export const TrustedDevices: Component<TrustedDevicesProps> = (props) => {
+  // Use headless trusted devices hook for business logic
+  const trusted = useTrustedDevices({
+    client: props.apiBaseUrl,
+    autoLoad: true,
+    onRevoke: props.onRevoke,
+    onError: props.onError,
+  });
+
+  const [editingId, setEditingId] = createSignal<string | null>(null);
+  const [name, setName] = createSignal('');
+
+  const startRename = (device: TrustedDevice) => {
+    trusted.clearError();
+    setName(device.name);
+    setEditingId(device.id);
+  };
+
+  const handleRename = async (e: Event) => {
+    e.preventDefault();
+    const id = editingId();
+    if (id && (await trusted.renameDevice(id, name()))) {
+      setEditingId(null);
+    }
+  };
+
+  const isPending = (device: TrustedDevice, operation: TrustedDeviceOperation) =>
+    trusted.pendingId() === device.id && trusted.currentOperation() === operation;
+
+  return (
+    <div class={`w-full space-y-6 ${props.class ?? ''}`}>
+      <p class="text-sm text-gray-600">
+        Sign-ins on these devices skip the two-factor code. Remove any you no longer use.
+      </p>
+
+      <Show when={trusted.error()}>
+        <Alert variant="error">{trusted.error()}</Alert>
+      </Show>
+
+      <Show when={trusted.success()}>
+        <Alert variant="success">{trusted.success()}</Alert>
+      </Show>
+
+      <Show
+        when={trusted.devices().length > 0}
+        fallback={
+          <Show when={!trusted.isLoading()}>
+            <p class="text-sm text-gray-500">No trusted devices.</p>
+          </Show>
+        }
+      >
+        <ul class="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          <For each={trusted.devices()}>
+            {(device) => (
+              <li class="p-4">
+                <Show
+                  when={editingId() === device.id}
+                  fallback={
+                    <div class="flex items-center justify-between gap-4">
+                      <div>
+                        <p class="text-sm font-medium text-gray-900">
+                          {device.name}
+                          <Show when={device.current}>
+                            <span class="ml-2 inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800">
+                              This device
+                            </span>
+                          </Show>
+                        </p>
+                        <p class="text-xs text-gray-500">
+                          Trusted until {formatDate(device.expires_at)}
+                          <Show when={device.last_used_at}>
+                            {' · '}Last used {formatDate(device.last_used_at!)}
+                          </Show>
+                        </p>
+                      </div>
+                      <div class="flex gap-2">
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          disabled={trusted.isLoading()}
+                          onClick={() => startRename(device)}
+                        >
+                          Rename
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          loading={isPending(device, 'revoke')}
+                          disabled={trusted.isLoading()}
+                          onClick={() => trusted.revokeDevice(device.id)}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    </div>
+                  }
+                >
+                  <form class="flex items-center gap-2" onSubmit={handleRename}>
+                    <Input
+                      id={`trusted-device-name-${device.id}`}
+                      aria-label="Device name"
+                      value={name()}
+                      onInput={(e) => setName(e.currentTarget.value)}
+                      autofocus
+                    />
+                    <Button
+                      type="submit"
+                      variant="primary"
+                      size="sm"
+                      loading={isPending(device, 'rename')}
+                      disabled={trusted.isLoading() || !name().trim()}
+                    >
+                      Save
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={trusted.isLoading()}
+                      onClick={() => setEditingId(null)}
+                    >
+                      Cancel
+                    </Button>
+                  </form>
+                </Show>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+    </div>
+  );
+};
@@ -0,0 +1,2 @@
+export { TrustedDevices } from './TrustedDevices';
+export type { TrustedDevicesProps } from './TrustedDevices';
@@ -1,11 +1,17 @@
-import { Component, Show, createSignal } from 'solid-js';
+import { Component, Show, createEffect, createSignal, on } from 'solid-js';
 import { use2FA } from '~/headless/use2FA';
 import type { TwoFAOperation } from '~/headless/use2FA';
+import { BackupCodesPanel } from '~/components/BackupCodesPanel';
 import { Input } from '~/primitives/Input';
 import { Button } from '~/primitives/Button';
 import { Label } from '~/primitives/Label';
 import { Alert } from '~/primitives/Alert';
-import type { ProfileUpdateResponse, Setup2FAResponse } from '~/types/api';
+import type {
+  BackupCodeStatus,
+  ProfileUpdateResponse,
+  RegenerateBackupCodesResponse,
+  Setup2FAResponse,
+} from '~/types/api';
 import type { ThemeConfig } from '~/types/theme';
 
 export interface TwoFactorAuthSetupProps {
@@ -17,21 +23,38 @@ export interface TwoFactorAuthSetupProps {
   apiBaseUrl?: string;
   /** Callback called on successful 2FA operation */
   onSuccess?: (
-    response: ProfileUpdateResponse | Setup2FAResponse,
+    response:
+      | ProfileUpdateResponse
+      | Setup2FAResponse
+      | BackupCodeStatus
+      | RegenerateBackupCodesResponse,
     operation: TwoFAOperation,
   ) => void;
   /** Callback called on error */
   onError?: (error: string, operation: TwoFAOperation) => void;
   /** Auto-load 2FA status on mount (default: true) */
   autoLoadStatus?: boolean;
+  /**
+   * Show the remaining backup codes and let the user generate new ones while 2FA is enabled
+   * @default true
+   */
+  showBackupCodes?: boolean;
   /** Custom CSS class */
   class?: string;
   /** Theme configuration */
   theme?: ThemeConfig;
 }
 
+/** Warn when this many backup codes or fewer are left */
+const LOW_BACKUP_CODES = 2;
+
 export const TwoFactorAuthSetup: Component<TwoFactorAuthSetupProps> = (props) => {
-  const [setupStep, setSetupStep] = createSignal<'select' | 'qr' | 'verify'>('select');
+  // 'backup' shows new backup codes until the user confirms they saved them
+  const [setupStep, setSetupStep] = createSignal<'select' | 'qr' | 'verify' | 'backup'>(
+    'select',
+  );
+  const [isRegenerating, setIsRegenerating] = createSignal(false);
+  const [currentPassword, setCurrentPassword] = createSignal('');
 
   // Use headless 2FA hook for business logic
   const twoFA = use2FA({
@@ -39,11 +62,16 @@ export const TwoFactorAuthSetup: Component<TwoFactorAuthSetupProps> = (props) =>
     autoLoadStatus: props.autoLoadStatus ?? true,
     onSuccess: (response, operation) => {
       props.onSuccess?.(response as any, operation);
-      // Reset setup flow after successful enable
+      // Reset setup flow after successful enable, showing the backup codes first
       if (operation === 'enable') {
-        setSetupStep('select');
+        setSetupStep(twoFA.backupCodes() ? 'backup' : 'select');
         twoFA.clearSetupData();
       }
+      if (operation === 'regenerate_backup_codes') {
+        setIsRegenerating(false);
+        setCurrentPassword('');
+        setSetupStep('backup');
+      }
     },
     onError: props.onError,
   });
@@ -63,9 +91,35 @@ export const TwoFactorAuthSetup: Component<TwoFactorAuthSetupProps> = (props) =>
   const handleCancelSetup = () => {
     setSetupStep('select');
     twoFA.clearSetupData();
+    twoFA.clearBackupCodes();
     twoFA.setCode('');
   };
 
+  const handleRegenerateSubmit = async (e: Event) => {
+    e.preventDefault();
+    await twoFA.regenerateBackupCodes(currentPassword());
+  };
+
+  const handleCancelRegenerate = () => {
+    setIsRegenerating(false);
+    setCurrentPassword('');
+    twoFA.clearError();
+  };
+
+  const handleBackupCodesSaved = () => {
+    twoFA.clearBackupCodes();
+    setSetupStep('select');
+  };
+
+  // Load the remaining backup codes once 2FA is known to be enabled
+  createEffect(
+    on(twoFA.isEnabled, (enabled) => {
+      if (enabled && props.showBackupCodes !== false) {
+        twoFA.loadBackupCodeStatus();
+      }
+    }),
+  );
+
   return (
     <div class="min-h-screen bg-gray-50 flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8">
       <div class="sm:mx-auto sm:w-full sm:max-w-md">
@@ -127,8 +181,19 @@ export const TwoFactorAuthSetup: Component<TwoFactorAuthSetupProps> = (props) =>
             </Show>
           </div>
 
+          {/* New backup codes (after enabling 2FA or generating new codes) */}
+          <Show when={setupStep() === 'backup' && twoFA.backupCodes()}>
+            {(codes) => (
+              <BackupCodesPanel
+                codes={codes()}
+                onDone={handleBackupCodesSaved}
+                theme={props.theme}
+              />
+            )}
+          </Show>
+
           {/* Setup Flow (when 2FA is not enabled) */}
-          <Show when={!twoFA.isEnabled()}>
+          <Show when={!twoFA.isEnabled() && setupStep() !== 'backup'}>
             {/* Step 1: Select Method */}
             <Show when={setupStep() === 'select'}>
               <div class="space-y-4">
@@ -226,23 +291,10 @@ export const TwoFactorAuthSetup: Component<TwoFactorAuthSetupProps> = (props) =>
                   </code>
                 </div>
 
-                <Show when={twoFA.backupCodes() && twoFA.backupCodes()!.length > 0}>
-                  <div class="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                    <p class="text-sm font-medium text-yellow-900 mb-2">
-                      ⚠️ Save your backup codes
-                    </p>
-                    <div class="grid grid-cols-2 gap-2 mb-2">
-                      {twoFA.backupCodes()!.map((code) => (
-                        <code class="block p-2 bg-white rounded text-xs font-mono text-center">
-                          {code}
-                        </code>
-                      ))}
-                    </div>
-                    <p class="text-xs text-yellow-700">
-                      Store these codes safely. You can use them to access your account if you lose
-                      your authenticator device.
-                    </p>
-                  </div>
+                <Show when={twoFA.backupCodes()}>
+                  <p class="text-xs text-gray-500">
+                    You'll get backup codes to save once two-factor authentication is enabled.
+                  </p>
                 </Show>
 
                 <div class="flex gap-3">
@@ -311,7 +363,7 @@ export const TwoFactorAuthSetup: Component<TwoFactorAuthSetupProps> = (props) =>
           </Show>
 
           {/* Manage Enabled 2FA */}
-          <Show when={twoFA.isEnabled()}>
+          <Show when={twoFA.isEnabled() && setupStep() !== 'backup'}>
             <div class="space-y-4">
               <h3 class="text-lg font-medium text-gray-900">Manage 2FA</h3>
               <p class="text-sm text-gray-600">
@@ -349,6 +401,86 @@ export const TwoFactorAuthSetup: Component<TwoFactorAuthSetupProps> = (props) =>
                   </div>
                 ))}
               </div>
+
+              {/* Backup codes */}
+              <Show when={props.showBackupCodes !== false}>
+                <div class="p-4 border border-gray-200 rounded-lg space-y-3">
+                  <div class="flex items-center justify-between">
+                    <div>
+                      <p class="text-sm font-medium text-gray-900">Backup codes</p>
+                      <p class="text-xs text-gray-500">
+                        <Show
+                          when={twoFA.backupCodeStatus()}
+                          fallback="One-time codes for when your device isn't available"
+                        >
+                          {(status) => `${status().remaining} of ${status().total} left`}
+                        </Show>
+                      </p>
+                    </div>
+                    <Show when={!isRegenerating()}>
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => setIsRegenerating(true)}
+                        disabled={twoFA.isLoading()}
+                      >
+                        Generate new codes
+                      </Button>
+                    </Show>
+                  </div>
+
+                  <Show when={(twoFA.remainingBackupCodes() ?? Infinity) <= LOW_BACKUP_CODES}>
+                    <Alert variant="warning">
+                      {twoFA.remainingBackupCodes() === 0
+                        ? 'You have no backup codes left. Generate new ones to keep a way in.'
+                        : 'You are running low on backup codes. Generate new ones soon.'}
+                    </Alert>
+                  </Show>
+
+                  <Show when={isRegenerating()}>
+                    <form onSubmit={handleRegenerateSubmit} class="space-y-3">
+                      <p class="text-xs text-gray-600">
+                        Your current backup codes will stop working. Enter your password to
+                        continue.
+                      </p>
+                      <div>
+                        <Label for="backup-codes-password" required>
+                          Current Password
+                        </Label>
+                        <div class="mt-1">
+                          <Input
+                            id="backup-codes-password"
+                            name="current_password"
+                            type="password"
+                            autocomplete="current-password"
+                            required
+                            value={currentPassword()}
+                            onInput={(e) => setCurrentPassword(e.currentTarget.value)}
+                          />
+                        </div>
+                      </div>
+                      <div class="flex gap-3">
+                        <Button
+                          type="submit"
+                          variant="primary"
+                          fullWidth
+                          loading={
+                            twoFA.isLoading() &&
+                            twoFA.currentOperation() === 'regenerate_backup_codes'
+                          }
+                          disabled={!currentPassword() || twoFA.isLoading()}
+                        >
+                          Generate
+                        </Button>
+                        <Button type="button" variant="secondary" onClick={handleCancelRegenerate}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </form>
+                  </Show>
+                </div>
+              </Show>
             </div>
           </Show>
         </div>
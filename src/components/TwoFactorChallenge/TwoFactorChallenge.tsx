@@ -0,0 +1,219 @@
+import { Component, For, Show } from 'solid-js';
+import { useTwoFactorChallenge } from '~/headless/useTwoFactorChallenge';
+import type { TwoFactorChallengeOperation } from '~/headless/useTwoFactorChallenge';
+import { Input } from '~/primitives/Input';
+import { Button } from '~/primitives/Button';
+import { Label } from '~/primitives/Label';
+import { Alert } from '~/primitives/Alert';
+import type { LoginResponse, TwoFactorMethod, Validate2FAResponse } from '~/types/api';
+import type { ThemeConfig } from '~/types/theme';
+
+export interface TwoFactorChallengeProps {
+  /**
+   * Base URL of the simple-idm backend (e.g., http://localhost:4000)
+   * If omitted, uses relative URLs (assumes same origin)
+   * @default undefined (same origin)
+   */
+  apiBaseUrl?: string;
+  /** The '2fa_required' login response */
+  challenge: LoginResponse;
+  /** Show a "Remember this device for N days" checkbox; 0 hides it (default: 0) */
+  rememberDeviceDays?: number;
+  /** Name for the remembered device (server default if omitted) */
+  deviceName?: string;
+  /** Callback called once the code is accepted and the user is signed in */
+  onSuccess?: (response: Validate2FAResponse) => void;
+  /** Callback called on error */
+  onError?: (error: string, operation: TwoFactorChallengeOperation) => void;
+  /** Callback for the "Back to sign in" link; the link is hidden without it */
+  onCancel?: () => void;
+  /** Custom CSS class */
+  class?: string;
+  /** Theme configuration */
+  theme?: ThemeConfig;
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  totp: 'Authenticator app',
+  sms: 'Text message',
+  email: 'Email',
+  backup_code: 'Backup code',
+};
+
+const methodLabel = (method: TwoFactorMethod) =>
+  method.display_name || METHOD_LABELS[method.type] || method.type.toUpperCase();
+
+export const TwoFactorChallenge: Component<TwoFactorChallengeProps> = (props) => {
+  // Use headless challenge hook for business logic
+  const twoFA = useTwoFactorChallenge({
+    client: props.apiBaseUrl,
+    challenge: props.challenge,
+    rememberDeviceDays: props.rememberDeviceDays,
+    deviceName: props.deviceName,
+    onSuccess: props.onSuccess,
+    onError: props.onError,
+  });
+
+  const handleSubmit = (e: Event) => {
+    e.preventDefault();
+    twoFA.submit();
+  };
+
+  const isBackupCode = () => twoFA.method()?.type === 'backup_code';
+
+  const instructions = () => {
+    switch (twoFA.method()?.type) {
+      case 'totp':
+        return 'Enter the 6-digit code from your authenticator app.';
+      case 'backup_code':
+        return 'Enter one of your backup codes. Each code works only once.';
+      case 'sms':
+      case 'email':
+        return twoFA.codeSent()
+          ? `Enter the code we sent to ${twoFA.deliveryOption() || 'you'}.`
+          : 'We will send you a one-time code.';
+      default:
+        return 'Enter your verification code.';
+    }
+  };
+
+  return (
+    <div class={`w-full ${props.class ?? ''}`}>
+      <div class="text-center mb-6">
+        <h2 class="text-2xl font-extrabold text-gray-900">Two-factor verification</h2>
+        <p class="mt-2 text-sm text-gray-600">{instructions()}</p>
+      </div>
+
+      <Show when={twoFA.error()}>
+        <Alert variant="error" class="mb-6">
+          {twoFA.error()}
+        </Alert>
+      </Show>
+
+      <Show when={twoFA.success()}>
+        <Alert variant="success" class="mb-6">
+          {twoFA.success()}
+        </Alert>
+      </Show>
+
+      {/* Method selection */}
+      <Show when={twoFA.methods().length > 1}>
+        <div class="mb-6" role="radiogroup" aria-label="Verification method">
+          <div class="flex gap-2">
+            <For each={twoFA.methods()}>
+              {(method) => (
+                <button
+                  type="button"
+                  role="radio"
+                  aria-checked={twoFA.method()?.type === method.type}
+                  onClick={() => twoFA.selectMethod(method.type)}
+                  disabled={twoFA.isComplete()}
+                  class={`flex-1 px-3 py-2 text-sm rounded-md border-2 transition-colors ${
+                    twoFA.method()?.type === method.type
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 text-gray-700 hover:border-blue-300'
+                  }`}
+                >
+                  {methodLabel(method)}
+                </button>
+              )}
+            </For>
+          </div>
+        </div>
+      </Show>
+
+      {/* Code delivery (SMS/email) */}
+      <Show when={twoFA.needsCodeSent()}>
+        <div class="mb-6 space-y-3">
+          <Show when={(twoFA.method()?.delivery_options?.length ?? 0) > 1}>
+            <div>
+              <Label for="delivery-option">Send code to</Label>
+              <select
+                id="delivery-option"
+                class="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                value={twoFA.deliveryOption()}
+                onChange={(e) => twoFA.setDeliveryOption(e.currentTarget.value)}
+              >
+                <For each={twoFA.method()?.delivery_options ?? []}>
+                  {(option) => <option value={option}>{option}</option>}
+                </For>
+              </select>
+            </div>
+          </Show>
+          <Button
+            type="button"
+            variant="secondary"
+            fullWidth
+            loading={twoFA.currentOperation() === 'send_code'}
+            disabled={!twoFA.canSendCode()}
+            onClick={() => twoFA.sendCode()}
+          >
+            {twoFA.codeSent() ? 'Resend code' : 'Send code'}
+          </Button>
+        </div>
+      </Show>
+
+      {/* Code entry */}
+      <form onSubmit={handleSubmit}>
+        <div>
+          <Label for="two-factor-code" required>
+            Verification code
+          </Label>
+          <div class="mt-1">
+            <Input
+              id="two-factor-code"
+              name="code"
+              type="text"
+              inputmode={isBackupCode() ? 'text' : 'numeric'}
+              autocomplete={isBackupCode() ? 'off' : 'one-time-code'}
+              required
+              placeholder={isBackupCode() ? 'Backup code' : '123456'}
+              value={twoFA.code()}
+              onInput={(e) => twoFA.setCode(e.currentTarget.value)}
+            />
+          </div>
+        </div>
+
+        <Show when={(props.rememberDeviceDays ?? 0) > 0}>
+          <div class="mt-4 flex items-center">
+            <input
+              id="remember-device"
+              type="checkbox"
+              class="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              checked={twoFA.rememberDevice()}
+              onChange={(e) => twoFA.setRememberDevice(e.currentTarget.checked)}
+              disabled={twoFA.isComplete()}
+            />
+            <label for="remember-device" class="ml-2 text-sm text-gray-700">
+              Remember this device for {props.rememberDeviceDays} days
+            </label>
+          </div>
+        </Show>
+
+        <div class="mt-6">
+          <Button
+            type="submit"
+            variant="primary"
+            fullWidth
+            loading={twoFA.currentOperation() === 'validate'}
+            disabled={!twoFA.canSubmit()}
+          >
+            {twoFA.currentOperation() === 'validate' ? 'Verifying...' : 'Verify'}
+          </Button>
+        </div>
+
+        <Show when={props.onCancel}>
+          <div class="mt-4 text-center text-sm">
+            <button
+              type="button"
+              class="text-blue-600 hover:text-blue-500"
+              onClick={() => props.onCancel?.()}
+            >
+              Back to sign in
+            </button>
+          </div>
+        </Show>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,2 @@
+export { TwoFactorChallenge } from './TwoFactorChallenge';
+export type { TwoFactorChallengeProps } from './TwoFactorChallenge';
@@ -8,6 +8,10 @@
  * 2. Start this dev server: npm run dev
  * 3. Open http://localhost:5173
  * 4. Test each component
+ *
+ * No backend? Open http://localhost:5173/?backend=fake to use the in-memory
+ * fake backend instead (demo user: demo / Password123!, 2FA code 123456).
+ * Open /?backend=live to switch back.
  */
 
 import { render } from 'solid-js/web';
@@ -21,12 +25,38 @@ import { MagicLinkValidate } from './components/MagicLinkValidate';
 import { PasswordlessRegistrationForm } from './components/RegistrationForm';
 import { PasswordRegistrationForm } from './components/RegistrationForm';
 
+import { createFakeBackend } from './testing/fakeBackend';
+
 // Import styles
 import './styles/default.css';
 
 // Backend URL (change if needed)
 const API_BASE_URL = 'http://localhost:4000';
 
+// Fake backend mode, toggled with ?backend=fake / ?backend=live and kept for the session
+const backendParam = new URLSearchParams(window.location.search).get('backend');
+if (backendParam) {
+  sessionStorage.setItem('simple-idm.dev.backend', backendParam);
+}
+const USE_FAKE_BACKEND = sessionStorage.getItem('simple-idm.dev.backend') === 'fake';
+
+if (USE_FAKE_BACKEND) {
+  const backend = createFakeBackend({
+    users: [
+      { username: 'demo', email: 'demo@example.com', password: 'Password123!', name: 'Demo User' },
+    ],
+    delayMs: 300,
+  });
+  const realFetch = globalThis.fetch.bind(globalThis);
+  // Components create their own clients, so route backend URLs through the fake globally
+  globalThis.fetch = (input, init) =>
+    String(input instanceof Request ? input.url : input).startsWith(API_BASE_URL)
+      ? backend.fetch(input, init)
+      : realFetch(input, init);
+  // Magic links and verification emails end up here
+  (window as unknown as { fakeBackend: typeof backend }).fakeBackend = backend;
+}
+
 // Navigation menu
 const NavMenu: Component = () => {
   const routes = [
@@ -85,6 +115,10 @@ const HomePage: Component = () => {
 
   // Check backend status
   const checkBackend = async () => {
+    if (USE_FAKE_BACKEND) {
+      setBackendStatus('online');
+      return;
+    }
     try {
       const response = await fetch(`${API_BASE_URL}/.well-known/openid-configuration`);
       if (response.ok) {
@@ -126,7 +160,9 @@ const HomePage: Component = () => {
           >
             <span class="text-sm text-gray-500">Checking...</span>
           </Show>
-          <code class="text-xs text-gray-500 ml-2">{API_BASE_URL}</code>
+          <code class="text-xs text-gray-500 ml-2">
+            {USE_FAKE_BACKEND ? 'in-memory fake backend' : API_BASE_URL}
+          </code>
         </div>
       </div>
 
@@ -0,0 +1,46 @@
+/**
+ * Error state for headless hooks
+ *
+ * Keeps the display message and the structured ApiError (code, status,
+ * field errors) in sync, so hooks can expose both.
+ */
+
+import { createSignal, type Accessor } from 'solid-js';
+import type { ApiError } from '~/types/api';
+import { toApiError } from '~/api/errors';
+
+export interface ErrorState {
+  /** Error message for display */
+  error: Accessor<string | null>;
+  /** Structured error from the last failed API call */
+  errorDetails: Accessor<ApiError | null>;
+  /** Set a plain message (e.g. client-side validation) and clear the details */
+  setError: (message: string | null) => void;
+  /**
+   * Record an error thrown by a client call
+   * @returns The message to display
+   */
+  setErrorFrom: (error: unknown, fallbackMessage: string) => string;
+}
+
+/**
+ * Create error signals for a headless hook
+ */
+export function createErrorState(): ErrorState {
+  const [error, setErrorMessage] = createSignal<string | null>(null);
+  const [errorDetails, setErrorDetails] = createSignal<ApiError | null>(null);
+
+  const setError = (message: string | null) => {
+    setErrorMessage(message);
+    setErrorDetails(null);
+  };
+
+  const setErrorFrom = (err: unknown, fallbackMessage: string) => {
+    const details = toApiError(err, fallbackMessage);
+    setErrorMessage(details.message);
+    setErrorDetails(details);
+    return details.message;
+  };
+
+  return { error, errorDetails, setError, setErrorFrom };
+}
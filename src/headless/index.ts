@@ -48,6 +48,54 @@ export type {
   TwoFAOperation,
 } from './use2FA';
 
+// Two-Factor Login Challenge hook
+export { useTwoFactorChallenge } from './useTwoFactorChallenge';
+export type {
+  UseTwoFactorChallengeConfig,
+  UseTwoFactorChallengeReturn,
+  TwoFactorChallengeOperation,
+} from './useTwoFactorChallenge';
+
+// Account Selection hook
+export { useUserSelection } from './useUserSelection';
+export type {
+  UseUserSelectionConfig,
+  UseUserSelectionReturn,
+  SelectableUser,
+} from './useUserSelection';
+
+// External identity provider hook
+export { useExternalLogin } from './useExternalLogin';
+export type {
+  UseExternalLoginConfig,
+  UseExternalLoginReturn,
+  ExternalLinkRequest,
+} from './useExternalLogin';
+
+// Passkey hook
+export { usePasskeys } from './usePasskeys';
+export type {
+  UsePasskeysConfig,
+  UsePasskeysReturn,
+  PasskeyOperation,
+} from './usePasskeys';
+
+// Sessions hook
+export { useSessions } from './useSessions';
+export type {
+  UseSessionsConfig,
+  UseSessionsReturn,
+  SessionOperation,
+} from './useSessions';
+
+// Trusted devices hook
+export { useTrustedDevices } from './useTrustedDevices';
+export type {
+  UseTrustedDevicesConfig,
+  UseTrustedDevicesReturn,
+  TrustedDeviceOperation,
+} from './useTrustedDevices';
+
 // Email Verification hook
 export { useEmailVerification } from './useEmailVerification';
 export type {
@@ -71,3 +119,10 @@ export type {
   UseResetPasswordReturn,
   PasswordStrengthResult as ResetPasswordStrengthResult,
 } from './useResetPassword';
+
+// Tenant context
+export { useTenant } from './tenant';
+export type { TenantContextValue } from './tenant';
+
+// Online status
+export { useOnlineStatus } from './onlineStatus';
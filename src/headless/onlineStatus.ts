@@ -0,0 +1,20 @@
+/**
+ * Online status for headless hooks
+ */
+
+import { createSignal, onCleanup, type Accessor } from 'solid-js';
+import type { SimpleIdmClient } from '~/api/client';
+
+/**
+ * Reactive connectivity of a client
+ * False while the browser is offline or simple-idm can't be reached
+ *
+ * @example
+ * const isOnline = useOnlineStatus(client);
+ * <Show when={!isOnline()}><Alert variant="warning">You're offline</Alert></Show>
+ */
+export function useOnlineStatus(client: SimpleIdmClient): Accessor<boolean> {
+  const [isOnline, setIsOnline] = createSignal(client.isOnline());
+  onCleanup(client.onConnectivityChange(setIsOnline));
+  return isOnline;
+}
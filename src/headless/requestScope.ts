@@ -0,0 +1,73 @@
+/**
+ * Request scope for headless hooks
+ *
+ * Tracks in-flight requests so hooks can abort them when the owning
+ * component unmounts, and ignore responses that were superseded by a
+ * newer request for the same operation.
+ */
+
+import { onCleanup } from 'solid-js';
+
+/**
+ * Handle for a single in-flight request
+ */
+export interface RequestHandle {
+  /** Signal to pass to the client call */
+  signal: AbortSignal;
+  /**
+   * Whether this request is still the latest for its operation and has not
+   * been aborted - only write to hook state while this returns true
+   */
+  isCurrent: () => boolean;
+}
+
+/**
+ * Tracks the latest request per operation key
+ */
+export interface RequestScope {
+  /**
+   * Start a new request for an operation
+   * Aborts the previous in-flight request with the same key
+   */
+  start: (key?: string) => RequestHandle;
+  /** Abort the in-flight request for an operation */
+  abort: (key?: string) => void;
+  /** Abort all in-flight requests */
+  abortAll: () => void;
+}
+
+/**
+ * Create a request scope bound to the current reactive owner
+ * All in-flight requests are aborted when the owner is disposed
+ */
+export function createRequestScope(): RequestScope {
+  const controllers = new Map<string, AbortController>();
+
+  const start = (key = 'default'): RequestHandle => {
+    controllers.get(key)?.abort();
+
+    const controller = new AbortController();
+    controllers.set(key, controller);
+
+    return {
+      signal: controller.signal,
+      isCurrent: () => !controller.signal.aborted && controllers.get(key) === controller,
+    };
+  };
+
+  const abort = (key = 'default') => {
+    controllers.get(key)?.abort();
+    controllers.delete(key);
+  };
+
+  const abortAll = () => {
+    for (const controller of controllers.values()) {
+      controller.abort();
+    }
+    controllers.clear();
+  };
+
+  onCleanup(abortAll);
+
+  return { start, abort, abortAll };
+}
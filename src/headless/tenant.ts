@@ -0,0 +1,58 @@
+/**
+ * Tenant context for headless hooks
+ *
+ * Inside a `TenantProvider`, every hook follows the provider's tenant:
+ * clients the hooks create start on it, and all clients (created or passed in)
+ * are switched when it changes.
+ */
+
+import { createContext, createEffect, on, untrack, useContext, type Accessor } from 'solid-js';
+import type { SimpleIdmClient } from '~/api/client';
+import type { TenantConfig } from '~/api/tenant';
+
+/**
+ * Value provided by `TenantProvider`
+ */
+export interface TenantContextValue {
+  /** Active tenant identifier */
+  tenant: Accessor<string | null>;
+  /** How clients created by hooks send the tenant */
+  config?: Omit<TenantConfig, 'id'>;
+}
+
+export const TenantContext = createContext<TenantContextValue>();
+
+/**
+ * Active tenant from the nearest TenantProvider
+ *
+ * @returns null outside a TenantProvider
+ */
+export function useTenant(): Accessor<string | null> {
+  const context = useContext(TenantContext);
+  return context?.tenant ?? (() => null);
+}
+
+/**
+ * Tenant configuration for a client created by a hook
+ *
+ * @returns undefined outside a TenantProvider
+ */
+export function useTenantConfig(): TenantConfig | undefined {
+  const context = useContext(TenantContext);
+  return context && { ...context.config, id: untrack(context.tenant) };
+}
+
+/**
+ * Keep a client on the TenantProvider's tenant
+ * No-op outside a TenantProvider
+ */
+export function bindTenant(client: SimpleIdmClient): void {
+  const context = useContext(TenantContext);
+  if (!context) return;
+
+  createEffect(
+    on(context.tenant, (tenant) => {
+      void client.setTenant(tenant);
+    }),
+  );
+}
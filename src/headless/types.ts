@@ -4,6 +4,7 @@
 
 import type { Accessor } from 'solid-js';
 import type { SimpleIdmClient } from '~/api/client';
+import type { ApiError } from '~/types/api';
 
 /**
  * Base configuration for all headless hooks
@@ -23,6 +24,8 @@ export interface HeadlessBaseState {
   isLoading: Accessor<boolean>;
   /** Error message if operation failed */
   error: Accessor<string | null>;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: Accessor<ApiError | null>;
   /** Success message if operation succeeded */
   success: Accessor<string | null>;
   /** Clear error state */
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook } from '@solidjs/testing-library';
+import { use2FA } from './use2FA';
+import { SimpleIdmClient } from '~/api/client';
+import { createFakeBackend, type FakeBackend } from '~/testing/fakeBackend';
+
+const ALICE = { username: 'alice', email: 'alice@example.com', password: 'Password123!' };
+
+describe('use2FA', () => {
+  let backend: FakeBackend;
+  let client: SimpleIdmClient;
+
+  beforeEach(async () => {
+    backend = createFakeBackend({ users: [ALICE] });
+    client = new SimpleIdmClient({ fetch: backend.fetch, retry: false });
+    await client.login({ username: ALICE.username, password: ALICE.password });
+  });
+
+  it('should keep the backup codes after enabling TOTP', async () => {
+    const { result } = renderHook(() => use2FA({ client, autoLoadStatus: false }));
+
+    await result.setupTOTP();
+    const codes = result.backupCodes();
+    expect(codes).toHaveLength(8);
+
+    result.setCode('123456');
+    await result.enable();
+
+    expect(result.isEnabled()).toBe(true);
+    expect(result.secret()).toBe(null);
+    expect(result.backupCodes()).toEqual(codes);
+
+    result.clearBackupCodes();
+    expect(result.backupCodes()).toBe(null);
+  });
+
+  it('should load the remaining backup codes', async () => {
+    await client.setup2FATOTP();
+    await client.enable2FA({ type: 'totp', code: '123456' });
+    const { result } = renderHook(() => use2FA({ client, autoLoadStatus: false }));
+
+    await result.loadBackupCodeStatus();
+
+    expect(result.remainingBackupCodes()).toBe(8);
+    expect(result.backupCodeStatus()).toMatchObject({ remaining: 8, total: 8 });
+  });
+
+  it('should require the current password to generate new codes', async () => {
+    const onError = vi.fn();
+    const setup = await client.setup2FATOTP();
+    await client.enable2FA({ type: 'totp', code: '123456' });
+    const { result } = renderHook(() => use2FA({ client, autoLoadStatus: false, onError }));
+
+    await result.regenerateBackupCodes('wrong-password');
+
+    expect(result.errorDetails()?.code).toBe('invalid_credentials');
+    expect(result.backupCodes()).toBe(null);
+    expect(onError).toHaveBeenCalledWith(expect.any(String), 'regenerate_backup_codes');
+
+    await result.regenerateBackupCodes(ALICE.password);
+
+    expect(result.error()).toBe(null);
+    expect(result.backupCodes()).toHaveLength(8);
+    expect(result.backupCodes()).not.toContain(setup.backup_codes![0]);
+    expect(result.remainingBackupCodes()).toBe(8);
+    expect(result.success()).toBeTruthy();
+  });
+});
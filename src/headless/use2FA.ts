@@ -2,7 +2,8 @@
  * use2FA - Headless two-factor authentication hook
  *
  * Provides 2FA setup, enable/disable, and validation logic without any UI.
- * Handles TOTP, SMS, and email-based 2FA flows.
+ * Handles TOTP, SMS, and email-based 2FA flows, and the backup codes that
+ * stand in for them when the user loses their device.
  */
 
 import { createSignal, createMemo, Accessor } from 'solid-js';
@@ -11,7 +12,13 @@ import type {
   TwoFAStatus,
   Setup2FAResponse,
   ProfileUpdateResponse,
+  BackupCodeStatus,
+  RegenerateBackupCodesResponse,
+  ApiError,
 } from '~/types/api';
+import { createRequestScope } from './requestScope';
+import { createErrorState } from './errorState';
+import { bindTenant, useTenantConfig } from './tenant';
 
 /**
  * 2FA method type
@@ -27,7 +34,9 @@ export type TwoFAOperation =
   | 'enable'
   | 'disable'
   | 'send_code'
-  | 'validate';
+  | 'validate'
+  | 'backup_codes_status'
+  | 'regenerate_backup_codes';
 
 /**
  * Configuration for the use2FA hook
@@ -43,7 +52,15 @@ export interface Use2FAConfig {
   /**
    * Callback invoked on successful 2FA operation
    */
-  onSuccess?: (response: ProfileUpdateResponse | TwoFAStatus | Setup2FAResponse, operation: TwoFAOperation) => void;
+  onSuccess?: (
+    response:
+      | ProfileUpdateResponse
+      | TwoFAStatus
+      | Setup2FAResponse
+      | BackupCodeStatus
+      | RegenerateBackupCodesResponse,
+    operation: TwoFAOperation,
+  ) => void;
 
   /**
    * Callback invoked when 2FA operation fails
@@ -76,9 +93,15 @@ export interface Use2FAReturn {
   qrCode: Accessor<string | null>;
   /** TOTP secret for manual entry */
   secret: Accessor<string | null>;
-  /** Backup codes from setup */
+  /** Backup codes from setup or regeneration, kept until clearBackupCodes() */
   backupCodes: Accessor<string[] | null>;
 
+  // Backup codes
+  /** Remaining and issued backup codes (after loadBackupCodeStatus) */
+  backupCodeStatus: Accessor<BackupCodeStatus | null>;
+  /** Number of unused backup codes, if loaded */
+  remainingBackupCodes: Accessor<number | null>;
+
   // Form fields
   /** Current 2FA type being configured */
   type: Accessor<TwoFAType>;
@@ -98,6 +121,8 @@ export interface Use2FAReturn {
   isLoading: Accessor<boolean>;
   /** Error message if operation failed */
   error: Accessor<string | null>;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: Accessor<ApiError | null>;
   /** Success message if operation succeeded */
   success: Accessor<string | null>;
   /** Current operation being performed */
@@ -124,6 +149,12 @@ export interface Use2FAReturn {
   clearSuccess: () => void;
   /** Clear setup data */
   clearSetupData: () => void;
+  /** Load how many backup codes are left */
+  loadBackupCodeStatus: () => Promise<void>;
+  /** Replace the backup codes (requires current password); the new ones are in backupCodes() */
+  regenerateBackupCodes: (currentPassword: string) => Promise<void>;
+  /** Forget the shown backup codes once the user saved them */
+  clearBackupCodes: () => void;
 
   // Validation
   /** Whether enable form is valid and can be submitted */
@@ -203,6 +234,10 @@ export function use2FA(config: Use2FAConfig): Use2FAReturn {
   // Setup state
   const [setupData, setSetupData] = createSignal<Setup2FAResponse | null>(null);
 
+  // Backup codes - outlive setupData so they can still be saved after enabling
+  const [backupCodes, setBackupCodes] = createSignal<string[] | null>(null);
+  const [backupCodeStatus, setBackupCodeStatus] = createSignal<BackupCodeStatus | null>(null);
+
   // Form fields
   const [type, setType] = createSignal<TwoFAType>('totp');
   const [code, setCode] = createSignal('');
@@ -210,7 +245,7 @@ export function use2FA(config: Use2FAConfig): Use2FAReturn {
 
   // Operation state
   const [isLoading, setIsLoading] = createSignal(false);
-  const [error, setError] = createSignal<string | null>(null);
+  const { error, errorDetails, setError, setErrorFrom } = createErrorState();
   const [success, setSuccess] = createSignal<string | null>(null);
   const [currentOperation, setCurrentOperation] = createSignal<TwoFAOperation | null>(null);
 
@@ -220,6 +255,7 @@ export function use2FA(config: Use2FAConfig): Use2FAReturn {
       ? config.client
       : new SimpleIdmClient({
           baseUrl: config.client || '', // Empty string = same origin
+          tenant: useTenantConfig(),
           onError: (err) => {
             const operation = currentOperation();
             if (operation) {
@@ -229,12 +265,18 @@ export function use2FA(config: Use2FAConfig): Use2FAReturn {
           },
         });
 
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
+
+  // In-flight requests are aborted on unmount and reset
+  const requests = createRequestScope();
+
   // Derived state
   const isEnabled = createMemo(() => status()?.enabled ?? false);
   const enabledTypes = createMemo(() => status()?.types ?? []);
   const qrCode = createMemo(() => setupData()?.qr_code ?? null);
   const secret = createMemo(() => setupData()?.secret ?? null);
-  const backupCodes = createMemo(() => setupData()?.backup_codes ?? null);
+  const remainingBackupCodes = createMemo(() => backupCodeStatus()?.remaining ?? null);
 
   // Validation
   const canEnable = createMemo(() => {
@@ -259,44 +301,63 @@ export function use2FA(config: Use2FAConfig): Use2FAReturn {
 
   // Load 2FA status
   const loadStatus = async () => {
+    const request = requests.start('status');
+
     try {
       setIsLoading(true);
       setError(null);
       setCurrentOperation('status');
 
-      const statusResponse = await client.get2FAStatus();
+      const statusResponse = await client.get2FAStatus({ signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
       setStatus(statusResponse);
       config.onSuccess?.(statusResponse, 'status');
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to load 2FA status';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Failed to load 2FA status');
       config.onError?.(message, 'status');
     } finally {
-      setIsLoading(false);
-      setCurrentOperation(null);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
     }
   };
 
   // Setup TOTP
   const setupTOTP = async () => {
+    const request = requests.start('setup');
+
     try {
       setIsLoading(true);
       setError(null);
       setSuccess(null);
       setCurrentOperation('setup');
 
-      const setupResponse = await client.setup2FATOTP();
+      const setupResponse = await client.setup2FATOTP({ signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
       setSetupData(setupResponse);
+      setBackupCodes(setupResponse.backup_codes?.length ? setupResponse.backup_codes : null);
       setType('totp');
       setSuccess('Scan the QR code with your authenticator app');
       config.onSuccess?.(setupResponse, 'setup');
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to setup TOTP';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Failed to setup TOTP');
       config.onError?.(message, 'setup');
     } finally {
-      setIsLoading(false);
-      setCurrentOperation(null);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
     }
   };
 
@@ -306,17 +367,25 @@ export function use2FA(config: Use2FAConfig): Use2FAReturn {
       return;
     }
 
+    const request = requests.start('enable');
+
     try {
       setIsLoading(true);
       setError(null);
       setSuccess(null);
       setCurrentOperation('enable');
 
-      const enableResponse = await client.enable2FA({
-        type: type(),
-        code: code(),
-        ...(deliveryOption() && { delivery_option: deliveryOption() }),
-      });
+      const enableResponse = await client.enable2FA(
+        {
+          type: type(),
+          code: code(),
+          ...(deliveryOption() && { delivery_option: deliveryOption() }),
+        },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
 
       setSuccess(enableResponse.message || '2FA enabled successfully!');
       config.onSuccess?.(enableResponse, 'enable');
@@ -328,36 +397,48 @@ export function use2FA(config: Use2FAConfig): Use2FAReturn {
       setCode('');
       setSetupData(null);
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to enable 2FA';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Failed to enable 2FA');
       config.onError?.(message, 'enable');
     } finally {
-      setIsLoading(false);
-      setCurrentOperation(null);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
     }
   };
 
   // Disable 2FA
   const disable = async (twoFAType: TwoFAType) => {
+    const request = requests.start('disable');
+
     try {
       setIsLoading(true);
       setError(null);
       setSuccess(null);
       setCurrentOperation('disable');
 
-      const disableResponse = await client.disable2FA(twoFAType);
+      const disableResponse = await client.disable2FA(twoFAType, { signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
       setSuccess(disableResponse.message || '2FA disabled successfully!');
       config.onSuccess?.(disableResponse, 'disable');
 
       // Reload status
       await loadStatus();
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to disable 2FA';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Failed to disable 2FA');
       config.onError?.(message, 'disable');
     } finally {
-      setIsLoading(false);
-      setCurrentOperation(null);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
     }
   };
 
@@ -367,26 +448,37 @@ export function use2FA(config: Use2FAConfig): Use2FAReturn {
       return;
     }
 
+    const request = requests.start('send_code');
+
     try {
       setIsLoading(true);
       setError(null);
       setSuccess(null);
       setCurrentOperation('send_code');
 
-      const sendResponse = await client.send2FACode({
-        type: type() as 'sms' | 'email',
-        delivery_option: deliveryOption(),
-      });
+      const sendResponse = await client.send2FACode(
+        {
+          type: type() as 'sms' | 'email',
+          delivery_option: deliveryOption(),
+        },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
 
       setSuccess(sendResponse.message || 'Code sent successfully!');
       config.onSuccess?.(sendResponse, 'send_code');
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to send code';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Failed to send code');
       config.onError?.(message, 'send_code');
     } finally {
-      setIsLoading(false);
-      setCurrentOperation(null);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
     }
   };
 
@@ -396,17 +488,25 @@ export function use2FA(config: Use2FAConfig): Use2FAReturn {
       return;
     }
 
+    const request = requests.start('validate');
+
     try {
       setIsLoading(true);
       setError(null);
       setSuccess(null);
       setCurrentOperation('validate');
 
-      const validateResponse = await client.validate2FA({
-        type: type(),
-        code: code(),
-        ...(deliveryOption() && { delivery_option: deliveryOption() }),
-      });
+      const validateResponse = await client.validate2FA(
+        {
+          type: type(),
+          code: code(),
+          ...(deliveryOption() && { delivery_option: deliveryOption() }),
+        },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
 
       setSuccess(validateResponse.message || 'Code validated successfully!');
       config.onSuccess?.(validateResponse, 'validate');
@@ -414,21 +514,99 @@ export function use2FA(config: Use2FAConfig): Use2FAReturn {
       // Reset code
       setCode('');
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Invalid code';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Invalid code');
       config.onError?.(message, 'validate');
     } finally {
-      setIsLoading(false);
-      setCurrentOperation(null);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
+    }
+  };
+
+  // Load remaining backup codes
+  const loadBackupCodeStatus = async () => {
+    const request = requests.start('backup_codes_status');
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setCurrentOperation('backup_codes_status');
+
+      const statusResponse = await client.getBackupCodeStatus({ signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setBackupCodeStatus(statusResponse);
+      config.onSuccess?.(statusResponse, 'backup_codes_status');
+    } catch (err) {
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Failed to load backup codes');
+      config.onError?.(message, 'backup_codes_status');
+    } finally {
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
+    }
+  };
+
+  // Regenerate backup codes
+  const regenerateBackupCodes = async (currentPassword: string) => {
+    if (!currentPassword) {
+      setError('Enter your current password to generate new codes');
+      return;
+    }
+
+    const request = requests.start('regenerate_backup_codes');
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSuccess(null);
+      setCurrentOperation('regenerate_backup_codes');
+
+      const regenerateResponse = await client.regenerateBackupCodes(
+        { current_password: currentPassword },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setBackupCodes(regenerateResponse.backup_codes);
+      setBackupCodeStatus({
+        remaining: regenerateResponse.backup_codes.length,
+        total: regenerateResponse.backup_codes.length,
+        generated_at: regenerateResponse.generated_at,
+      });
+      setSuccess('New backup codes generated. Your old codes no longer work.');
+      config.onSuccess?.(regenerateResponse, 'regenerate_backup_codes');
+    } catch (err) {
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Failed to generate backup codes');
+      config.onError?.(message, 'regenerate_backup_codes');
+    } finally {
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
     }
   };
 
   // Reset functions
   const reset = () => {
+    requests.abortAll();
     setType('totp');
     setCode('');
     setDeliveryOption('');
     setSetupData(null);
+    setBackupCodes(null);
     setError(null);
     setSuccess(null);
     setIsLoading(false);
@@ -438,6 +616,7 @@ export function use2FA(config: Use2FAConfig): Use2FAReturn {
   const clearError = () => setError(null);
   const clearSuccess = () => setSuccess(null);
   const clearSetupData = () => setSetupData(null);
+  const clearBackupCodes = () => setBackupCodes(null);
 
   // Auto-load status on mount
   if (autoLoadStatus) {
@@ -456,6 +635,10 @@ export function use2FA(config: Use2FAConfig): Use2FAReturn {
     secret,
     backupCodes,
 
+    // Backup codes
+    backupCodeStatus,
+    remainingBackupCodes,
+
     // Form fields
     type,
     setType,
@@ -467,6 +650,7 @@ export function use2FA(config: Use2FAConfig): Use2FAReturn {
     // Operation state
     isLoading,
     error,
+    errorDetails,
     success,
     currentOperation,
 
@@ -481,6 +665,9 @@ export function use2FA(config: Use2FAConfig): Use2FAReturn {
     clearError,
     clearSuccess,
     clearSetupData,
+    loadBackupCodeStatus,
+    regenerateBackupCodes,
+    clearBackupCodes,
 
     // Validation
     canEnable,
@@ -11,7 +11,11 @@ import type {
   VerifyEmailResponse,
   ResendVerificationResponse,
   VerificationStatusResponse,
+  ApiError,
 } from '~/types/api';
+import { createRequestScope } from './requestScope';
+import { createErrorState } from './errorState';
+import { bindTenant, useTenantConfig } from './tenant';
 
 /**
  * Email verification operation type
@@ -82,6 +86,8 @@ export interface UseEmailVerificationReturn {
   isLoading: Accessor<boolean>;
   /** Error message if operation failed */
   error: Accessor<string | null>;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: Accessor<ApiError | null>;
   /** Success message if operation succeeded */
   success: Accessor<string | null>;
   /** Last verification response */
@@ -216,7 +222,7 @@ export function useEmailVerification(
 
   // Operation state
   const [isLoading, setIsLoading] = createSignal(false);
-  const [error, setError] = createSignal<string | null>(null);
+  const { error, errorDetails, setError, setErrorFrom } = createErrorState();
   const [success, setSuccess] = createSignal<string | null>(null);
   const [verifyResponse, setVerifyResponse] = createSignal<VerifyEmailResponse | null>(null);
   const [currentOperation, setCurrentOperation] = createSignal<EmailVerificationOperation | null>(null);
@@ -227,6 +233,7 @@ export function useEmailVerification(
       ? config.client
       : new SimpleIdmClient({
           baseUrl: config.client || '', // Empty string = same origin
+          tenant: useTenantConfig(),
           onError: (err) => {
             const operation = currentOperation();
             if (operation) {
@@ -236,6 +243,12 @@ export function useEmailVerification(
           },
         });
 
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
+
+  // In-flight requests are aborted on unmount and reset
+  const requests = createRequestScope();
+
   // Derived state
   const isVerified = () => status()?.email_verified ?? false;
   const verifiedAt = () => status()?.verified_at ?? null;
@@ -253,15 +266,23 @@ export function useEmailVerification(
       return;
     }
 
+    const request = requests.start('verify');
+
     try {
       setIsLoading(true);
       setError(null);
       setSuccess(null);
       setCurrentOperation('verify');
 
-      const verificationResponse = await client.verifyEmail({
-        token: token(),
-      });
+      const verificationResponse = await client.verifyEmail(
+        {
+          token: token(),
+        },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
 
       setVerifyResponse(verificationResponse);
       setSuccess(verificationResponse.message || 'Email verified successfully!');
@@ -275,58 +296,82 @@ export function useEmailVerification(
         });
       }
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Email verification failed';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Email verification failed');
       config.onError?.(message, 'verify');
     } finally {
-      setIsLoading(false);
-      setCurrentOperation(null);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
     }
   };
 
   // Resend verification email
   const resend = async () => {
+    const request = requests.start('resend');
+
     try {
       setIsLoading(true);
       setError(null);
       setSuccess(null);
       setCurrentOperation('resend');
 
-      const resendResponse = await client.resendVerificationEmail();
+      const resendResponse = await client.resendVerificationEmail(undefined, {
+        signal: request.signal,
+      });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
       setSuccess(resendResponse.message || 'Verification email sent successfully!');
       config.onSuccess?.(resendResponse, 'resend');
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to send verification email';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Failed to send verification email');
       config.onError?.(message, 'resend');
     } finally {
-      setIsLoading(false);
-      setCurrentOperation(null);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
     }
   };
 
   // Load verification status
   const loadStatus = async () => {
+    const request = requests.start('status');
+
     try {
       setIsLoading(true);
       setError(null);
       setCurrentOperation('status');
 
-      const statusResponse = await client.getVerificationStatus();
+      const statusResponse = await client.getVerificationStatus({ signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
       setStatus(statusResponse);
       config.onSuccess?.(statusResponse, 'status');
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to load verification status';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Failed to load verification status');
       config.onError?.(message, 'status');
     } finally {
-      setIsLoading(false);
-      setCurrentOperation(null);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
     }
   };
 
   // Reset form
   const reset = () => {
+    requests.abortAll();
     setToken('');
     setStatus(null);
     setError(null);
@@ -363,6 +408,7 @@ export function useEmailVerification(
     // Operation state
     isLoading,
     error,
+    errorDetails,
     success,
     verifyResponse,
     currentOperation,
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook } from '@solidjs/testing-library';
+import { useExternalLogin } from './useExternalLogin';
+import { SimpleIdmClient } from '~/api/client';
+import { createFakeBackend, type FakeBackend } from '~/testing/fakeBackend';
+import type { ExternalProvider } from '~/types/api';
+
+const PROVIDERS: ExternalProvider[] = [
+  { id: 'google', name: 'Google', type: 'google' },
+  { id: 'corp-sso', name: 'Acme SSO', type: 'oidc', icon_url: '/acme.svg' },
+];
+
+const ALICE = { username: 'alice', email: 'alice@example.com', password: 'Password123!' };
+
+describe('useExternalLogin', () => {
+  let backend: FakeBackend;
+  let client: SimpleIdmClient;
+  const loginPage = () => `${window.location.origin}/login`;
+
+  /** Land on the URL simple-idm redirects back to */
+  const returnTo = (url: string) => window.history.replaceState(null, '', url);
+
+  beforeEach(() => {
+    backend = createFakeBackend({ users: [ALICE], externalProviders: PROVIDERS });
+    client = new SimpleIdmClient({ fetch: backend.fetch, retry: false });
+    returnTo(loginPage());
+  });
+
+  afterEach(() => {
+    returnTo('/');
+  });
+
+  it('should load the providers configured in simple-idm', async () => {
+    const { result } = renderHook(() => useExternalLogin({ client }));
+
+    await vi.waitFor(() => expect(result.providers()).toEqual(PROVIDERS));
+    expect(result.isLoadingProviders()).toBe(false);
+    expect(client.getExternalLoginUrl('corp-sso', loginPage())).toBe(
+      `/api/v2/auth/external/corp-sso?redirect_url=${encodeURIComponent(loginPage())}`,
+    );
+  });
+
+  it('should sign in when the provider returns a new account', async () => {
+    const onSuccess = vi.fn();
+    returnTo(backend.externalLogin('google', 'new@example.com', loginPage()));
+
+    const { result } = renderHook(() =>
+      useExternalLogin({ client, providers: PROVIDERS, onSuccess }),
+    );
+
+    expect(window.location.href).toBe(loginPage());
+    await vi.waitFor(() => expect(result.success()).toBeTruthy());
+    expect(onSuccess).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'success',
+        user: expect.objectContaining({ email: 'new@example.com' }),
+      }),
+    );
+  });
+
+  it('should not trust a success result without a session', async () => {
+    const onSuccess = vi.fn();
+    const onError = vi.fn();
+    returnTo(`${loginPage()}?provider=google&status=success`);
+
+    const { result } = renderHook(() =>
+      useExternalLogin({ client, providers: PROVIDERS, onSuccess, onError }),
+    );
+
+    await vi.waitFor(() => expect(result.error()).toBeTruthy());
+    expect(result.success()).toBe(null);
+    expect(onSuccess).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalled();
+    expect(result.isLoading()).toBe(false);
+  });
+
+  it('should link the provider to an existing account', async () => {
+    returnTo(backend.externalLogin('google', ALICE.email, loginPage()));
+
+    const { result } = renderHook(() => useExternalLogin({ client, providers: PROVIDERS }));
+
+    expect(result.linkRequest()).toMatchObject({ provider: 'google', email: ALICE.email });
+
+    result.setPassword('wrong-password');
+    await result.linkAccount();
+    expect(result.errorDetails()?.code).toBe('invalid_credentials');
+    expect(result.linkRequest()).not.toBe(null);
+
+    result.setPassword(ALICE.password);
+    await result.linkAccount();
+
+    expect(result.response()?.status).toBe('success');
+    expect(result.canLink()).toBe(false);
+    await expect(client.getCurrentUser()).resolves.toMatchObject({ email: ALICE.email });
+
+    // Linked now - the next provider sign-in goes straight through
+    expect(backend.externalLogin('google', ALICE.email, loginPage())).toContain('status=success');
+  });
+
+  it('should report a provider error', () => {
+    const onError = vi.fn();
+    returnTo(`${loginPage()}?provider=google&error=access_denied`);
+
+    const { result } = renderHook(() =>
+      useExternalLogin({ client, providers: PROVIDERS, onError }),
+    );
+
+    expect(result.errorDetails()?.code).toBe('forbidden');
+    expect(onError).toHaveBeenCalledWith('Sign-in with the provider was cancelled or denied.');
+    expect(result.linkRequest()).toBe(null);
+    expect(window.location.search).toBe('');
+  });
+});
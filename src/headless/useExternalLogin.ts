@@ -0,0 +1,369 @@
+/**
+ * useExternalLogin - Headless external identity provider hook
+ *
+ * Lists the providers configured in simple-idm (Google, GitHub, corporate
+ * OIDC, ...), starts the provider redirect and handles the return leg,
+ * including linking the provider to an existing account with the same email.
+ */
+
+import { createSignal, createMemo, onMount, Accessor } from 'solid-js';
+import { SimpleIdmClient } from '~/api/client';
+import { stripExternalLoginParams } from '~/api/externalProviders';
+import type {
+  ExternalProvider,
+  ExternalLoginResult,
+  LoginResponse,
+  UserInfo,
+  ApiError,
+} from '~/types/api';
+import { createRequestScope } from './requestScope';
+import { createErrorState } from './errorState';
+import { bindTenant, useTenantConfig } from './tenant';
+
+/**
+ * A 'link_required' result waiting for the account's password
+ */
+export type ExternalLinkRequest = Extract<ExternalLoginResult, { status: 'link_required' }>;
+
+/**
+ * Configuration for the useExternalLogin hook
+ */
+export interface UseExternalLoginConfig {
+  /**
+   * API client instance or base URL string
+   * - If string: Creates a new SimpleIdmClient with the URL
+   * - If SimpleIdmClient: Uses the provided instance
+   */
+  client?: SimpleIdmClient | string;
+
+  /**
+   * Providers to offer
+   * If omitted, the providers configured in simple-idm are loaded on mount
+   */
+  providers?: ExternalProvider[];
+
+  /**
+   * App URL simple-idm returns to after the provider sign-in
+   * @default current page
+   */
+  redirectUrl?: string;
+
+  /**
+   * Read a provider sign-in result from the current URL on mount
+   * The result parameters are then removed from the address bar
+   * @default true
+   */
+  handleCallback?: boolean;
+
+  /**
+   * Callback invoked when a provider sign-in or account link succeeded
+   * Check `status`: a linked account may still require 2FA
+   */
+  onSuccess?: (response: LoginResponse) => void;
+
+  /**
+   * Callback invoked when the provider sign-in or linking fails
+   */
+  onError?: (error: string) => void;
+}
+
+/**
+ * State and actions returned by useExternalLogin
+ */
+export interface UseExternalLoginReturn {
+  // Providers
+  /** Providers to offer */
+  providers: Accessor<ExternalProvider[]>;
+  /** Whether the provider list is being loaded */
+  isLoadingProviders: Accessor<boolean>;
+
+  // Account linking
+  /** Pending 'link_required' result, if the provider's email belongs to an existing account */
+  linkRequest: Accessor<ExternalLinkRequest | null>;
+  /** Password of the existing account */
+  password: Accessor<string>;
+  /** Update password */
+  setPassword: (value: string) => void;
+
+  // Operation state
+  /** Whether an account link is being submitted */
+  isLoading: Accessor<boolean>;
+  /** Error message if the sign-in or linking failed */
+  error: Accessor<string | null>;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: Accessor<ApiError | null>;
+  /** Success message once signed in */
+  success: Accessor<string | null>;
+  /** Response of the account link ('success' or '2fa_required') */
+  response: Accessor<LoginResponse | null>;
+
+  // Actions
+  /** Redirect to sign in with a provider */
+  signIn: (providerId: string) => void;
+  /** Link the provider to the existing account and sign in */
+  linkAccount: () => Promise<void>;
+  /** Drop the pending link request */
+  cancelLink: () => void;
+  /** Load the providers configured in simple-idm */
+  loadProviders: () => Promise<void>;
+  /** Clear error message */
+  clearError: () => void;
+  /** Clear success message */
+  clearSuccess: () => void;
+
+  // Validation
+  /** Whether the account link can be submitted */
+  canLink: Accessor<boolean>;
+}
+
+const toLoginUser = (userInfo: UserInfo): NonNullable<LoginResponse['user']> => ({
+  id: userInfo.sub,
+  name: userInfo.name ?? userInfo.preferred_username ?? '',
+  email: userInfo.email ?? '',
+  roles: userInfo.groups ?? [],
+});
+
+/**
+ * Headless hook for signing in with external identity providers
+ *
+ * @example
+ * ```tsx
+ * import { useExternalLogin } from '@tendant/simple-idm-solid/headless';
+ *
+ * const SocialLogin = () => {
+ *   const external = useExternalLogin({
+ *     onSuccess: (response) => {
+ *       if (response.status === 'success') auth.refreshUser();
+ *     },
+ *   });
+ *
+ *   return (
+ *     <Show
+ *       when={external.linkRequest()}
+ *       fallback={
+ *         <For each={external.providers()}>
+ *           {(provider) => (
+ *             <button onClick={() => external.signIn(provider.id)}>{provider.name}</button>
+ *           )}
+ *         </For>
+ *       }
+ *     >
+ *       <input
+ *         type="password"
+ *         value={external.password()}
+ *         onInput={(e) => external.setPassword(e.currentTarget.value)}
+ *       />
+ *       <button onClick={external.linkAccount} disabled={!external.canLink()}>Link</button>
+ *     </Show>
+ *   );
+ * };
+ * ```
+ */
+export function useExternalLogin(config: UseExternalLoginConfig = {}): UseExternalLoginReturn {
+  const handleCallback = config.handleCallback ?? true;
+
+  // Providers
+  const [providers, setProviders] = createSignal<ExternalProvider[]>(config.providers ?? []);
+  const [isLoadingProviders, setIsLoadingProviders] = createSignal(false);
+
+  // Account linking
+  const [linkRequest, setLinkRequest] = createSignal<ExternalLinkRequest | null>(null);
+  const [password, setPassword] = createSignal('');
+
+  // Operation state
+  const [isLoading, setIsLoading] = createSignal(false);
+  const { error, errorDetails, setError, setErrorFrom } = createErrorState();
+  const [success, setSuccess] = createSignal<string | null>(null);
+  const [response, setResponse] = createSignal<LoginResponse | null>(null);
+
+  // Create or use provided API client
+  const client =
+    config.client instanceof SimpleIdmClient
+      ? config.client
+      : new SimpleIdmClient({
+          baseUrl: config.client || '', // Empty string = same origin
+          tenant: useTenantConfig(),
+          onError: (err) => {
+            if (isLoading()) {
+              setError(err.message);
+              config.onError?.(err.message);
+            }
+          },
+        });
+
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
+
+  // In-flight requests are aborted on unmount
+  const requests = createRequestScope();
+
+  // Validation
+  const canLink = createMemo(
+    () => !isLoading() && !!linkRequest() && password().length > 0 && !response(),
+  );
+
+  const loadProviders = async () => {
+    const request = requests.start('providers');
+
+    try {
+      setIsLoadingProviders(true);
+      const loaded = await client.getExternalProviders({ signal: request.signal });
+      if (!request.isCurrent()) return;
+      setProviders(loaded);
+    } catch (err) {
+      if (!request.isCurrent()) return;
+      // The buttons are optional, so the form stays usable without them
+      console.warn('Failed to load external providers:', err);
+    } finally {
+      if (request.isCurrent()) {
+        setIsLoadingProviders(false);
+      }
+    }
+  };
+
+  const signIn = (providerId: string) => {
+    setError(null);
+    client.loginWithProvider(providerId, config.redirectUrl);
+  };
+
+  // The success result is only query params, so check the session it claims
+  const confirmSignIn = async () => {
+    const request = requests.start('callback');
+
+    try {
+      setIsLoading(true);
+
+      const userInfo = await client.getCurrentUser({ signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setSuccess('Login successful!');
+      config.onSuccess?.({
+        status: 'success',
+        message: 'Login successful!',
+        user: toLoginUser(userInfo),
+      });
+    } catch (err) {
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Sign-in with the provider failed');
+      config.onError?.(message);
+    } finally {
+      if (request.isCurrent()) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Read the return leg of a provider sign-in
+  const readCallback = () => {
+    const url = window.location.href;
+    try {
+      const result = client.handleExternalLoginCallback(url);
+      if (!result) return;
+
+      if (result.status === 'link_required') {
+        setLinkRequest(result);
+      } else {
+        confirmSignIn();
+      }
+    } catch (err) {
+      const message = setErrorFrom(err, 'Sign-in with the provider failed');
+      config.onError?.(message);
+    }
+
+    // Don't replay the result on reload
+    window.history.replaceState(window.history.state, '', stripExternalLoginParams(url));
+  };
+
+  const linkAccount = async () => {
+    const pending = linkRequest();
+    if (!canLink() || !pending) {
+      return;
+    }
+
+    const request = requests.start('link');
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSuccess(null);
+
+      const linkResponse = await client.linkExternalAccount(
+        { link_token: pending.link_token, password: password() },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setResponse(linkResponse);
+      setPassword('');
+      if (linkResponse.status === 'success') {
+        setSuccess('Account linked. You are now signed in.');
+      }
+      config.onSuccess?.(linkResponse);
+    } catch (err) {
+      if (!request.isCurrent()) return;
+
+      setPassword('');
+      const message = setErrorFrom(err, 'Failed to link account');
+      config.onError?.(message);
+    } finally {
+      if (request.isCurrent()) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const cancelLink = () => {
+    requests.abort('link');
+    setLinkRequest(null);
+    setPassword('');
+    setResponse(null);
+    setError(null);
+    setIsLoading(false);
+  };
+
+  const clearError = () => setError(null);
+  const clearSuccess = () => setSuccess(null);
+
+  onMount(() => {
+    if (handleCallback) {
+      readCallback();
+    }
+    if (!config.providers) {
+      loadProviders();
+    }
+  });
+
+  return {
+    // Providers
+    providers,
+    isLoadingProviders,
+
+    // Account linking
+    linkRequest,
+    password,
+    setPassword,
+
+    // Operation state
+    isLoading,
+    error,
+    errorDetails,
+    success,
+    response,
+
+    // Actions
+    signIn,
+    linkAccount,
+    cancelLink,
+    loadProviders,
+    clearError,
+    clearSuccess,
+
+    // Validation
+    canLink,
+  };
+}
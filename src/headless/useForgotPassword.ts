@@ -42,7 +42,10 @@
 
 import { createSignal, createMemo } from 'solid-js';
 import { SimpleIdmClient } from '~/api/client';
-import type { PasswordResetInitResponse } from '~/types/api';
+import type { PasswordResetInitResponse, ApiError } from '~/types/api';
+import { createRequestScope } from './requestScope';
+import { createErrorState } from './errorState';
+import { bindTenant, useTenantConfig } from './tenant';
 
 // ============================================================================
 // Types
@@ -89,6 +92,8 @@ export interface UseForgotPasswordReturn {
   isLoading: () => boolean;
   /** Error message */
   error: () => string | null;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: () => ApiError | null;
   /** Success message */
   success: () => string | null;
   /** Last response from the API */
@@ -116,17 +121,26 @@ export function useForgotPassword(config: UseForgotPasswordConfig): UseForgotPas
   const client =
     config.client instanceof SimpleIdmClient
       ? config.client
-      : new SimpleIdmClient({ baseUrl: config.client || '' }); // Empty = same origin
+      : new SimpleIdmClient({
+          baseUrl: config.client || '', // Empty = same origin
+          tenant: useTenantConfig(),
+        });
+
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
 
   const method = config.method || 'email';
 
   // State
   const [identifier, setIdentifier] = createSignal('');
   const [isLoading, setIsLoading] = createSignal(false);
-  const [error, setError] = createSignal<string | null>(null);
+  const { error, errorDetails, setError, setErrorFrom } = createErrorState();
   const [success, setSuccess] = createSignal<string | null>(null);
   const [response, setResponse] = createSignal<PasswordResetInitResponse | null>(null);
 
+  // In-flight requests are aborted on unmount and reset
+  const requests = createRequestScope();
+
   // Computed
   const canSubmit = createMemo(() => {
     const id = identifier().trim();
@@ -151,6 +165,9 @@ export function useForgotPassword(config: UseForgotPasswordConfig): UseForgotPas
       return;
     }
 
+    const request = requests.start();
+    const options = { signal: request.signal };
+
     setIsLoading(true);
     setError(null);
     setSuccess(null);
@@ -161,31 +178,37 @@ export function useForgotPassword(config: UseForgotPasswordConfig): UseForgotPas
 
       // Determine which API method to use
       if (method === 'email') {
-        result = await client.initiatePasswordResetByEmail(id);
+        result = await client.initiatePasswordResetByEmail(id, options);
       } else if (method === 'username') {
-        result = await client.initiatePasswordResetByUsername(id);
+        result = await client.initiatePasswordResetByUsername(id, options);
       } else {
         // For 'both', try to detect if it's an email or username
         const isEmail = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(id);
         result = isEmail
-          ? await client.initiatePasswordResetByEmail(id)
-          : await client.initiatePasswordResetByUsername(id);
+          ? await client.initiatePasswordResetByEmail(id, options)
+          : await client.initiatePasswordResetByUsername(id, options);
       }
 
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
       setResponse(result);
       setSuccess(result.message || 'Password reset email sent successfully');
       config.onSuccess?.(result);
     } catch (err: unknown) {
-      const errorMessage =
-        err instanceof Error ? err.message : 'Failed to initiate password reset';
-      setError(errorMessage);
+      if (!request.isCurrent()) return;
+
+      const errorMessage = setErrorFrom(err, 'Failed to initiate password reset');
       config.onError?.(errorMessage);
     } finally {
-      setIsLoading(false);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+      }
     }
   };
 
   const reset = () => {
+    requests.abortAll();
     setIdentifier('');
     setError(null);
     setSuccess(null);
@@ -199,6 +222,7 @@ export function useForgotPassword(config: UseForgotPasswordConfig): UseForgotPas
     setIdentifier,
     isLoading,
     error,
+    errorDetails,
     success,
     response,
 
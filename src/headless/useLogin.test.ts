@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createSignal } from 'solid-js';
 import { renderHook } from '@solidjs/testing-library';
 import { useLogin } from './useLogin';
+import { TenantProvider } from '~/components/TenantProvider';
 import {
   createMockClient,
   mockLoginSuccess,
@@ -9,6 +11,8 @@ import {
   mockApiError,
   waitFor,
 } from '~/test/utils';
+import type { LoginResponse } from '~/types/api';
+import { ApiException } from '~/types/api';
 
 describe('useLogin', () => {
   beforeEach(() => {
@@ -147,10 +151,13 @@ describe('useLogin', () => {
 
       await result.submit();
 
-      expect(mockClient.login).toHaveBeenCalledWith({
-        username: 'testuser',
-        password: 'password123',
-      });
+      expect(mockClient.login).toHaveBeenCalledWith(
+        {
+          username: 'testuser',
+          password: 'password123',
+        },
+        { signal: expect.any(AbortSignal) },
+      );
     });
 
     it('should set loading state during login', async () => {
@@ -260,6 +267,23 @@ describe('useLogin', () => {
       expect(result.isLoading()).toBe(false);
     });
 
+    it('should expose the structured error alongside the message', async () => {
+      const mockClient = createMockClient();
+      mockClient.login = vi.fn().mockRejectedValue(mockApiError('Account locked', 423, 'account_locked'));
+
+      const { result } = renderHook(() => useLogin({ client: mockClient }));
+
+      result.setUsername('testuser');
+      result.setPassword('password123');
+
+      await result.submit();
+
+      expect(result.errorDetails()).toMatchObject({ code: 'account_locked', status: 423 });
+
+      result.clearError();
+      expect(result.errorDetails()).toBe(null);
+    });
+
     it('should call onError callback on failure', async () => {
       const mockClient = createMockClient();
       const error = mockApiError('Invalid credentials');
@@ -600,4 +624,109 @@ describe('useLogin', () => {
       expect(result.error()).toBe('Invalid credentials');
     });
   });
+
+  describe('Cancellation', () => {
+    it('should abort the in-flight login on unmount', async () => {
+      const mockClient = createMockClient();
+      let signal: AbortSignal | undefined;
+      mockClient.login = vi.fn((_credentials, options) => {
+        signal = options?.signal;
+        return new Promise(() => {});
+      });
+
+      const { result, cleanup } = renderHook(() => useLogin({ client: mockClient }));
+
+      result.setUsername('testuser');
+      result.setPassword('password123');
+      result.submit();
+      cleanup();
+
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should ignore a response that arrives after reset', async () => {
+      const mockClient = createMockClient();
+      let resolveLogin: ((value: LoginResponse) => void) | undefined;
+      mockClient.login = vi.fn(
+        () => new Promise<LoginResponse>((resolve) => {
+          resolveLogin = resolve;
+        }),
+      );
+      const onSuccess = vi.fn();
+
+      const { result } = renderHook(() => useLogin({ client: mockClient, onSuccess }));
+
+      result.setUsername('testuser');
+      result.setPassword('password123');
+      const submitPromise = result.submit();
+      result.reset();
+      resolveLogin!(mockLoginSuccess());
+      await submitPromise;
+
+      expect(result.success()).toBe(null);
+      expect(result.response()).toBe(null);
+      expect(result.isLoading()).toBe(false);
+      expect(onSuccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    it('should count down Retry-After and block submit meanwhile', async () => {
+      const mockClient = createMockClient();
+      mockClient.login = vi.fn().mockRejectedValue(
+        new ApiException(429, { message: 'Too many attempts', status: 429 }, 3000),
+      );
+
+      const { result } = renderHook(() => useLogin({ client: mockClient }));
+
+      result.setUsername('testuser');
+      result.setPassword('password123');
+      await result.submit();
+
+      expect(result.retryAfter()).toBe(3);
+      expect(result.canSubmit()).toBe(false);
+
+      vi.advanceTimersByTime(3000);
+
+      expect(result.retryAfter()).toBe(0);
+      expect(result.canSubmit()).toBe(true);
+    });
+  });
+
+  describe('Tenants', () => {
+    it("should follow the TenantProvider's tenant", async () => {
+      const mockClient = createMockClient();
+      const [tenant, setTenant] = createSignal<string | null>('acme');
+
+      renderHook(() => useLogin({ client: mockClient }), {
+        wrapper: (props) =>
+          TenantProvider({
+            get tenant() {
+              return tenant();
+            },
+            get children() {
+              return props.children;
+            },
+          }),
+      });
+
+      expect(mockClient.getTenant()).toBe('acme');
+
+      setTenant('globex');
+      expect(mockClient.getTenant()).toBe('globex');
+    });
+  });
+
+  describe('Connectivity', () => {
+    it('should expose whether the server can be reached', async () => {
+      const mockClient = createMockClient({ retry: false });
+      const { result } = renderHook(() => useLogin({ client: mockClient }));
+      expect(result.isOnline()).toBe(true);
+
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      window.dispatchEvent(new Event('offline'));
+
+      expect(result.isOnline()).toBe(false);
+    });
+  });
 });
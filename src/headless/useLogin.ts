@@ -5,9 +5,14 @@
  * Handles credential validation, API calls, and response states.
  */
 
-import { createSignal, Accessor } from 'solid-js';
+import { createSignal, onCleanup, Accessor } from 'solid-js';
 import { SimpleIdmClient } from '~/api/client';
-import type { LoginResponse } from '~/types/api';
+import type { LoginResponse, ApiError } from '~/types/api';
+import { ApiException } from '~/types/api';
+import { createRequestScope } from './requestScope';
+import { createErrorState } from './errorState';
+import { bindTenant, useTenantConfig } from './tenant';
+import { useOnlineStatus } from './onlineStatus';
 
 /**
  * Configuration for the useLogin hook
@@ -71,10 +76,19 @@ export interface UseLoginReturn {
   isLoading: Accessor<boolean>;
   /** Error message if login failed */
   error: Accessor<string | null>;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: Accessor<ApiError | null>;
   /** Success message if login succeeded */
   success: Accessor<string | null>;
   /** Last login response (includes 2FA, multiple users, etc.) */
   response: Accessor<LoginResponse | null>;
+  /**
+   * Seconds remaining before another attempt is allowed
+   * Set when the server rate-limits login with a Retry-After header
+   */
+  retryAfter: Accessor<number>;
+  /** False while the browser is offline or the server can't be reached */
+  isOnline: Accessor<boolean>;
 
   // Actions
   /** Submit login with current username/password */
@@ -87,7 +101,7 @@ export interface UseLoginReturn {
   clearSuccess: () => void;
 
   // Validation
-  /** Whether form is valid and can be submitted */
+  /** Whether form is valid and can be submitted (false while retryAfter > 0) */
   canSubmit: Accessor<boolean>;
 }
 
@@ -153,9 +167,13 @@ export function useLogin(config: UseLoginConfig): UseLoginReturn {
 
   // Operation state
   const [isLoading, setIsLoading] = createSignal(false);
-  const [error, setError] = createSignal<string | null>(null);
+  const { error, errorDetails, setError, setErrorFrom } = createErrorState();
   const [success, setSuccess] = createSignal<string | null>(null);
   const [response, setResponse] = createSignal<LoginResponse | null>(null);
+  const [retryAfter, setRetryAfter] = createSignal(0);
+
+  // Retry-After countdown interval reference
+  let retryInterval: number | undefined;
 
   // Create or use provided API client
   const client =
@@ -163,15 +181,55 @@ export function useLogin(config: UseLoginConfig): UseLoginReturn {
       ? config.client
       : new SimpleIdmClient({
           baseUrl: config.client || '', // Empty string = same origin (relative URLs)
+          tenant: useTenantConfig(),
           onError: (err) => {
             setError(err.message);
             config.onError?.(err.message);
           },
         });
 
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
+
+  // In-flight requests are aborted on unmount and reset
+  const requests = createRequestScope();
+
+  const isOnline = useOnlineStatus(client);
+
+  // Cleanup countdown on unmount
+  onCleanup(() => {
+    if (retryInterval !== undefined) {
+      clearInterval(retryInterval);
+    }
+  });
+
+  // Start Retry-After countdown
+  const startRetryCountdown = (ms: number) => {
+    setRetryAfter(Math.ceil(ms / 1000));
+
+    if (retryInterval !== undefined) {
+      clearInterval(retryInterval);
+    }
+
+    retryInterval = setInterval(() => {
+      setRetryAfter((prev) => {
+        if (prev <= 1) {
+          if (retryInterval !== undefined) {
+            clearInterval(retryInterval);
+            retryInterval = undefined;
+          }
+          return 0;
+        }
+        return prev - 1;
+      });
+    }, 1000) as unknown as number;
+  };
+
   // Validation
   const canSubmit = () => {
-    return username().trim().length > 0 && password().trim().length > 0;
+    return (
+      username().trim().length > 0 && password().trim().length > 0 && retryAfter() === 0
+    );
   };
 
   // Submit login
@@ -180,16 +238,24 @@ export function useLogin(config: UseLoginConfig): UseLoginReturn {
       return;
     }
 
+    const request = requests.start();
+
     try {
       setIsLoading(true);
       setError(null);
       setSuccess(null);
       setResponse(null);
 
-      const loginResponse = await client.login({
-        username: username(),
-        password: password(),
-      });
+      const loginResponse = await client.login(
+        {
+          username: username(),
+          password: password(),
+        },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
 
       setResponse(loginResponse);
 
@@ -214,22 +280,36 @@ export function useLogin(config: UseLoginConfig): UseLoginReturn {
         config.onSuccess?.(loginResponse);
       }
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Login failed';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      // Rate limited - block submit until the server's Retry-After elapses
+      if (err instanceof ApiException && err.retryAfterMs) {
+        startRetryCountdown(err.retryAfterMs);
+      }
+
+      const message = setErrorFrom(err, 'Login failed');
       config.onError?.(message);
     } finally {
-      setIsLoading(false);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+      }
     }
   };
 
   // Reset form
   const reset = () => {
+    requests.abortAll();
     setUsername('');
     setPassword('');
     setError(null);
     setSuccess(null);
     setResponse(null);
     setIsLoading(false);
+    setRetryAfter(0);
+    if (retryInterval !== undefined) {
+      clearInterval(retryInterval);
+      retryInterval = undefined;
+    }
   };
 
   // Clear messages
@@ -246,8 +326,11 @@ export function useLogin(config: UseLoginConfig): UseLoginReturn {
     // Operation state
     isLoading,
     error,
+    errorDetails,
     success,
     response,
+    retryAfter,
+    isOnline,
 
     // Actions
     submit,
@@ -7,7 +7,10 @@
 
 import { createSignal, onCleanup, Accessor } from 'solid-js';
 import { SimpleIdmClient } from '~/api/client';
-import type { MagicLinkResponse } from '~/types/api';
+import type { MagicLinkResponse, ApiError } from '~/types/api';
+import { createRequestScope } from './requestScope';
+import { createErrorState } from './errorState';
+import { bindTenant, useTenantConfig } from './tenant';
 
 /**
  * Configuration for the useMagicLink hook
@@ -53,6 +56,8 @@ export interface UseMagicLinkReturn {
   isLoading: Accessor<boolean>;
   /** Error message if request failed */
   error: Accessor<string | null>;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: Accessor<ApiError | null>;
   /** Success message if magic link was sent */
   success: Accessor<string | null>;
   /** Last magic link response */
@@ -128,7 +133,7 @@ export function useMagicLink(config: UseMagicLinkConfig): UseMagicLinkReturn {
 
   // Operation state
   const [isLoading, setIsLoading] = createSignal(false);
-  const [error, setError] = createSignal<string | null>(null);
+  const { error, errorDetails, setError, setErrorFrom } = createErrorState();
   const [success, setSuccess] = createSignal<string | null>(null);
   const [response, setResponse] = createSignal<MagicLinkResponse | null>(null);
   const [cooldown, setCooldown] = createSignal(0);
@@ -142,12 +147,19 @@ export function useMagicLink(config: UseMagicLinkConfig): UseMagicLinkReturn {
       ? config.client
       : new SimpleIdmClient({
           baseUrl: config.client || '', // Empty string = same origin
+          tenant: useTenantConfig(),
           onError: (err) => {
             setError(err.message);
             config.onError?.(err.message);
           },
         });
 
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
+
+  // In-flight requests are aborted on unmount and reset
+  const requests = createRequestScope();
+
   // Cleanup interval on unmount
   onCleanup(() => {
     if (cooldownInterval !== undefined) {
@@ -193,15 +205,23 @@ export function useMagicLink(config: UseMagicLinkConfig): UseMagicLinkReturn {
       return;
     }
 
+    const request = requests.start();
+
     try {
       setIsLoading(true);
       setError(null);
       setSuccess(null);
       setResponse(null);
 
-      const magicLinkResponse = await client.requestMagicLink({
-        username: username(),
-      });
+      const magicLinkResponse = await client.requestMagicLink(
+        {
+          username: username(),
+        },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
 
       setResponse(magicLinkResponse);
       setSuccess(
@@ -212,12 +232,14 @@ export function useMagicLink(config: UseMagicLinkConfig): UseMagicLinkReturn {
       // Start cooldown timer
       startCooldown();
     } catch (err) {
-      const message =
-        err instanceof Error ? err.message : 'Failed to send magic link';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Failed to send magic link');
       config.onError?.(message);
     } finally {
-      setIsLoading(false);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+      }
     }
   };
 
@@ -228,6 +250,7 @@ export function useMagicLink(config: UseMagicLinkConfig): UseMagicLinkReturn {
 
   // Reset form
   const reset = () => {
+    requests.abortAll();
     setUsername('');
     setError(null);
     setSuccess(null);
@@ -252,6 +275,7 @@ export function useMagicLink(config: UseMagicLinkConfig): UseMagicLinkReturn {
     // Operation state
     isLoading,
     error,
+    errorDetails,
     success,
     response,
     cooldown,
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook } from '@solidjs/testing-library';
+import { usePasskeys } from './usePasskeys';
+import { SimpleIdmClient } from '~/api/client';
+import { base64UrlToBuffer, bufferToBase64Url } from '~/api/webauthn';
+import { createFakeBackend, type FakeBackend } from '~/testing/fakeBackend';
+
+const ALICE = { username: 'alice', email: 'alice@example.com', password: 'Password123!' };
+
+const encode = (value: string) => new TextEncoder().encode(value).buffer;
+const decode = (buffer: BufferSource) => new TextDecoder().decode(buffer);
+
+/**
+ * Stub of navigator.credentials: an authenticator that signs nothing but
+ * echoes the challenge in its client data, like a real one
+ */
+function createAuthenticator() {
+  const ids: string[] = [];
+
+  const clientData = (type: string, challenge: BufferSource) =>
+    encode(
+      JSON.stringify({ type, challenge: bufferToBase64Url(challenge), origin: 'http://localhost' }),
+    );
+
+  const credential = (id: string, response: object) => ({
+    id,
+    rawId: base64UrlToBuffer(id),
+    type: 'public-key',
+    response,
+    authenticatorAttachment: 'platform',
+    getClientExtensionResults: () => ({}),
+  });
+
+  return {
+    create: vi.fn(async ({ publicKey }: CredentialCreationOptions) => {
+      const id = bufferToBase64Url(encode(`credential-${ids.length + 1}`));
+      ids.push(id);
+      return credential(id, {
+        clientDataJSON: clientData('webauthn.create', publicKey!.challenge),
+        attestationObject: new Uint8Array([0xa0]).buffer,
+        getTransports: () => ['internal'],
+      });
+    }),
+    get: vi.fn(async ({ publicKey }: CredentialRequestOptions) =>
+      credential(ids[0]!, {
+        clientDataJSON: clientData('webauthn.get', publicKey!.challenge),
+        authenticatorData: new Uint8Array(37).buffer,
+        signature: new Uint8Array([1, 2, 3]).buffer,
+        userHandle: null,
+      }),
+    ),
+  };
+}
+
+describe('usePasskeys', () => {
+  let backend: FakeBackend;
+  let client: SimpleIdmClient;
+  let authenticator: ReturnType<typeof createAuthenticator>;
+
+  beforeEach(async () => {
+    backend = createFakeBackend({ users: [ALICE] });
+    client = new SimpleIdmClient({ fetch: backend.fetch, retry: false });
+    authenticator = createAuthenticator();
+    vi.stubGlobal('PublicKeyCredential', { isConditionalMediationAvailable: async () => true });
+    Object.defineProperty(navigator, 'credentials', { value: authenticator, configurable: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    Reflect.deleteProperty(navigator, 'credentials');
+  });
+
+  /** Sign in with the password and register a passkey */
+  const registerPasskey = async (name?: string) => {
+    await client.login({ username: ALICE.username, password: ALICE.password });
+    const { result } = renderHook(() => usePasskeys({ client }));
+    await result.register(name);
+    return result;
+  };
+
+  it('should register a passkey with decoded creation options', async () => {
+    const onRegister = vi.fn();
+    await client.login({ username: ALICE.username, password: ALICE.password });
+    const { result } = renderHook(() => usePasskeys({ client, onRegister }));
+
+    await result.register('  Laptop  ');
+
+    const { publicKey } = authenticator.create.mock.calls[0]![0];
+    expect(publicKey!.challenge).toBeInstanceOf(ArrayBuffer);
+    expect(decode(publicKey!.user.id)).toBe(backend.findUser('alice')!.id);
+    expect(result.passkeys()).toEqual([expect.objectContaining({ name: 'Laptop' })]);
+    expect(onRegister).toHaveBeenCalledWith(expect.objectContaining({ name: 'Laptop' }));
+    expect(backend.findUser('alice')!.passkeys).toHaveLength(1);
+  });
+
+  it('should sign in with a registered passkey', async () => {
+    await registerPasskey();
+    await client.logout();
+
+    const onLogin = vi.fn();
+    const { result } = renderHook(() => usePasskeys({ client, onLogin }));
+    await result.login();
+
+    expect(result.response()?.status).toBe('success');
+    expect(onLogin).toHaveBeenCalledWith(expect.objectContaining({ status: 'success' }));
+    expect(backend.findUser('alice')!.passkeys[0]!.last_used_at).toBeTruthy();
+    await expect(client.getCurrentUser()).resolves.toMatchObject({ email: ALICE.email });
+  });
+
+  it('should offer passkeys in the username autofill', async () => {
+    await registerPasskey();
+    await client.logout();
+
+    const { result } = renderHook(() => usePasskeys({ client }));
+    await vi.waitFor(() => expect(result.isConditionalAvailable()).toBe(true));
+    await result.startConditionalLogin();
+
+    expect(authenticator.get).toHaveBeenCalledWith(
+      expect.objectContaining({ mediation: 'conditional' }),
+    );
+    expect(result.response()?.status).toBe('success');
+  });
+
+  it('should report a cancelled ceremony', async () => {
+    const onError = vi.fn();
+    authenticator.get.mockRejectedValueOnce(new DOMException('Cancelled', 'NotAllowedError'));
+    const { result } = renderHook(() => usePasskeys({ client, onError }));
+
+    await result.login();
+
+    expect(result.error()).toBe('The passkey request was cancelled or timed out.');
+    expect(onError).toHaveBeenCalledWith(expect.any(String), 'login');
+    expect(result.isLoading()).toBe(false);
+  });
+
+  it('should reject a passkey simple-idm does not know', async () => {
+    await registerPasskey();
+    backend.findUser('alice')!.passkeys = [];
+    await client.logout();
+
+    const { result } = renderHook(() => usePasskeys({ client }));
+    await result.login();
+
+    expect(result.errorDetails()?.code).toBe('invalid_credentials');
+    expect(result.response()).toBe(null);
+  });
+
+  it('should list and remove passkeys', async () => {
+    await registerPasskey('Laptop');
+
+    const { result } = renderHook(() => usePasskeys({ client, autoLoad: true }));
+    await vi.waitFor(() => expect(result.passkeys()).toHaveLength(1));
+
+    await result.remove(result.passkeys()[0]!.id);
+
+    expect(result.passkeys()).toEqual([]);
+    expect(result.success()).toBe('Passkey removed.');
+    await expect(client.listPasskeys()).resolves.toEqual([]);
+  });
+
+  it('should report missing browser support', async () => {
+    vi.unstubAllGlobals();
+    const { result } = renderHook(() => usePasskeys({ client }));
+
+    expect(result.isSupported()).toBe(false);
+    await result.login();
+    expect(result.error()).toBe('Passkeys are not supported in this browser.');
+    expect(authenticator.get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * usePasskeys - Headless passkey (WebAuthn) hook
+ *
+ * Runs the registration and authentication ceremonies: fetches the options
+ * from simple-idm, hands them to navigator.credentials.create/get and sends
+ * the base64url-encoded credential back. Also lists and removes the
+ * signed-in user's passkeys.
+ */
+
+import { createSignal, onMount, Accessor } from 'solid-js';
+import { SimpleIdmClient } from '~/api/client';
+import {
+  isPasskeySupported,
+  isConditionalMediationAvailable,
+  toCreationOptions,
+  toRequestOptions,
+  serializeRegistrationCredential,
+  serializeAuthenticationCredential,
+} from '~/api/webauthn';
+import type { LoginResponse, Passkey, ApiError } from '~/types/api';
+import { createRequestScope, type RequestHandle } from './requestScope';
+import { createErrorState } from './errorState';
+import { bindTenant, useTenantConfig } from './tenant';
+
+/**
+ * Passkey operation type
+ */
+export type PasskeyOperation = 'login' | 'register' | 'load' | 'delete';
+
+/**
+ * Configuration for the usePasskeys hook
+ */
+export interface UsePasskeysConfig {
+  /**
+   * API client instance or base URL string
+   * - If string: Creates a new SimpleIdmClient with the URL
+   * - If SimpleIdmClient: Uses the provided instance
+   */
+  client?: SimpleIdmClient | string;
+
+  /**
+   * Load the signed-in user's passkeys on mount
+   * @default false
+   */
+  autoLoad?: boolean;
+
+  /**
+   * Callback invoked once signed in with a passkey
+   */
+  onLogin?: (response: LoginResponse) => void;
+
+  /**
+   * Callback invoked once a passkey was registered
+   */
+  onRegister?: (passkey: Passkey) => void;
+
+  /**
+   * Callback invoked when an operation fails
+   */
+  onError?: (error: string, operation: PasskeyOperation) => void;
+}
+
+/**
+ * State and actions returned by usePasskeys
+ */
+export interface UsePasskeysReturn {
+  // Support
+  /** Whether the browser supports passkeys */
+  isSupported: Accessor<boolean>;
+  /** Whether passkeys can be offered in username autofill (resolved on mount) */
+  isConditionalAvailable: Accessor<boolean>;
+
+  // Passkeys
+  /** The signed-in user's passkeys (after loadPasskeys) */
+  passkeys: Accessor<Passkey[]>;
+
+  // Operation state
+  /** Whether an operation is in progress */
+  isLoading: Accessor<boolean>;
+  /** Error message if operation failed */
+  error: Accessor<string | null>;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: Accessor<ApiError | null>;
+  /** Success message if operation succeeded */
+  success: Accessor<string | null>;
+  /** Current operation being performed */
+  currentOperation: Accessor<PasskeyOperation | null>;
+  /** Response of the last passkey sign-in */
+  response: Accessor<LoginResponse | null>;
+
+  // Actions
+  /**
+   * Sign in with a passkey
+   * @param username - Limit the choice to this user's passkeys
+   */
+  login: (username?: string) => Promise<void>;
+  /**
+   * Offer passkeys in the autofill of a username field with `autocomplete="username webauthn"`
+   * Resolves once signed in or aborted; a modal login() or unmount aborts it
+   */
+  startConditionalLogin: () => Promise<void>;
+  /** Register a passkey for the signed-in user */
+  register: (name?: string) => Promise<void>;
+  /** Remove one of the signed-in user's passkeys */
+  remove: (id: string) => Promise<void>;
+  /** Load the signed-in user's passkeys */
+  loadPasskeys: () => Promise<void>;
+  /** Clear error message */
+  clearError: () => void;
+  /** Clear success message */
+  clearSuccess: () => void;
+}
+
+/**
+ * Message for a failed navigator.credentials call, or null for other errors
+ */
+function describeCeremonyError(err: unknown, operation: PasskeyOperation): string | null {
+  if (!(err instanceof DOMException)) return null;
+  switch (err.name) {
+    case 'NotAllowedError':
+    case 'AbortError':
+      return 'The passkey request was cancelled or timed out.';
+    case 'InvalidStateError':
+      return operation === 'register'
+        ? 'This device already has a passkey for your account.'
+        : 'Your device could not use this passkey.';
+    case 'SecurityError':
+      return 'Passkeys are not available on this site.';
+    default:
+      return 'Your device could not complete the passkey request.';
+  }
+}
+
+/**
+ * Headless hook for passkey sign-in and management
+ *
+ * @example
+ * ```tsx
+ * import { usePasskeys } from '@tendant/simple-idm-solid/headless';
+ *
+ * const PasskeyLogin = () => {
+ *   const passkeys = usePasskeys({ onLogin: () => auth.refreshUser() });
+ *
+ *   // Offer passkeys in the username autofill
+ *   onMount(() => passkeys.startConditionalLogin());
+ *
+ *   return (
+ *     <>
+ *       <input autocomplete="username webauthn" />
+ *       <Show when={passkeys.isSupported()}>
+ *         <button onClick={() => passkeys.login()} disabled={passkeys.isLoading()}>
+ *           Sign in with a passkey
+ *         </button>
+ *       </Show>
+ *     </>
+ *   );
+ * };
+ * ```
+ */
+export function usePasskeys(config: UsePasskeysConfig = {}): UsePasskeysReturn {
+  const supported = isPasskeySupported();
+  const [isConditionalAvailable, setIsConditionalAvailable] = createSignal(false);
+
+  const [passkeys, setPasskeys] = createSignal<Passkey[]>([]);
+
+  // Operation state
+  const [isLoading, setIsLoading] = createSignal(false);
+  const { error, errorDetails, setError, setErrorFrom } = createErrorState();
+  const [success, setSuccess] = createSignal<string | null>(null);
+  const [currentOperation, setCurrentOperation] = createSignal<PasskeyOperation | null>(null);
+  const [response, setResponse] = createSignal<LoginResponse | null>(null);
+
+  // Create or use provided API client
+  const client =
+    config.client instanceof SimpleIdmClient
+      ? config.client
+      : new SimpleIdmClient({
+          baseUrl: config.client || '', // Empty string = same origin
+          tenant: useTenantConfig(),
+          onError: (err) => {
+            const operation = currentOperation();
+            if (operation) {
+              setError(err.message);
+              config.onError?.(err.message, operation);
+            }
+          },
+        });
+
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
+
+  // In-flight requests (and pending ceremonies) are aborted on unmount
+  const requests = createRequestScope();
+
+  const beginOperation = (operation: PasskeyOperation) => {
+    setIsLoading(true);
+    setError(null);
+    setSuccess(null);
+    setCurrentOperation(operation);
+  };
+
+  const failOperation = (err: unknown, operation: PasskeyOperation, fallback: string) => {
+    const ceremonyMessage = describeCeremonyError(err, operation);
+    if (ceremonyMessage) {
+      setError(ceremonyMessage);
+    }
+    const message = ceremonyMessage ?? setErrorFrom(err, fallback);
+    config.onError?.(message, operation);
+  };
+
+  const endOperation = (request: RequestHandle) => {
+    if (request.isCurrent()) {
+      setIsLoading(false);
+      setCurrentOperation(null);
+    }
+  };
+
+  const authenticate = async (conditional: boolean, username?: string) => {
+    // Shares the key with the modal login, so starting one aborts the other
+    const request = requests.start('login');
+    // Conditional requests wait silently until a passkey is picked from autofill
+    let picked = !conditional;
+
+    try {
+      if (!conditional) beginOperation('login');
+
+      const { publicKey } = await client.beginPasskeyLogin(username ? { username } : {}, {
+        signal: request.signal,
+      });
+      if (!request.isCurrent()) return;
+
+      const credential = (await navigator.credentials.get({
+        publicKey: toRequestOptions(publicKey),
+        signal: request.signal,
+        ...(conditional && { mediation: 'conditional' as CredentialMediationRequirement }),
+      })) as PublicKeyCredential | null;
+      if (!request.isCurrent()) return;
+      if (!credential) {
+        throw new DOMException('No passkey was selected', 'NotAllowedError');
+      }
+
+      picked = true;
+      if (conditional) beginOperation('login');
+
+      const loginResponse = await client.finishPasskeyLogin(
+        serializeAuthenticationCredential(credential),
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setResponse(loginResponse);
+      setSuccess(loginResponse.message || 'Login successful!');
+      config.onLogin?.(loginResponse);
+    } catch (err) {
+      if (!request.isCurrent()) return;
+
+      if (!picked) {
+        // Autofill is an enhancement - the form stays usable without it
+        console.warn('Passkey autofill unavailable:', err);
+        return;
+      }
+      failOperation(err, 'login', 'Passkey sign-in failed');
+    } finally {
+      endOperation(request);
+    }
+  };
+
+  const login = async (username?: string) => {
+    if (!supported) {
+      setError('Passkeys are not supported in this browser.');
+      return;
+    }
+    await authenticate(false, username);
+  };
+
+  const startConditionalLogin = async () => {
+    if (!(await isConditionalMediationAvailable())) return;
+    // Don't abort a modal login that started meanwhile
+    if (currentOperation() === 'login') return;
+    await authenticate(true);
+  };
+
+  const register = async (name?: string) => {
+    if (!supported) {
+      setError('Passkeys are not supported in this browser.');
+      return;
+    }
+
+    const request = requests.start('register');
+
+    try {
+      beginOperation('register');
+
+      const { publicKey } = await client.beginPasskeyRegistration({ signal: request.signal });
+      if (!request.isCurrent()) return;
+
+      const credential = (await navigator.credentials.create({
+        publicKey: toCreationOptions(publicKey),
+        signal: request.signal,
+      })) as PublicKeyCredential | null;
+      if (!request.isCurrent()) return;
+      if (!credential) {
+        throw new DOMException('No passkey was created', 'NotAllowedError');
+      }
+
+      const passkey = await client.finishPasskeyRegistration(
+        {
+          credential: serializeRegistrationCredential(credential),
+          ...(name?.trim() && { name: name.trim() }),
+        },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setPasskeys([...passkeys(), passkey]);
+      setSuccess('Passkey added.');
+      config.onRegister?.(passkey);
+    } catch (err) {
+      if (!request.isCurrent()) return;
+      failOperation(err, 'register', 'Failed to add passkey');
+    } finally {
+      endOperation(request);
+    }
+  };
+
+  const remove = async (id: string) => {
+    const request = requests.start('delete');
+
+    try {
+      beginOperation('delete');
+
+      await client.deletePasskey(id, { signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setPasskeys(passkeys().filter((p) => p.id !== id));
+      setSuccess('Passkey removed.');
+    } catch (err) {
+      if (!request.isCurrent()) return;
+      failOperation(err, 'delete', 'Failed to remove passkey');
+    } finally {
+      endOperation(request);
+    }
+  };
+
+  const loadPasskeys = async () => {
+    const request = requests.start('load');
+
+    try {
+      beginOperation('load');
+
+      const loaded = await client.listPasskeys({ signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setPasskeys(loaded);
+    } catch (err) {
+      if (!request.isCurrent()) return;
+      failOperation(err, 'load', 'Failed to load passkeys');
+    } finally {
+      endOperation(request);
+    }
+  };
+
+  const clearError = () => setError(null);
+  const clearSuccess = () => setSuccess(null);
+
+  onMount(() => {
+    isConditionalMediationAvailable().then(setIsConditionalAvailable);
+    if (config.autoLoad) {
+      loadPasskeys();
+    }
+  });
+
+  return {
+    // Support
+    isSupported: () => supported,
+    isConditionalAvailable,
+
+    // Passkeys
+    passkeys,
+
+    // Operation state
+    isLoading,
+    error,
+    errorDetails,
+    success,
+    currentOperation,
+    response,
+
+    // Actions
+    login,
+    startConditionalLogin,
+    register,
+    remove,
+    loadPasskeys,
+    clearError,
+    clearSuccess,
+  };
+}
@@ -7,7 +7,10 @@
 
 import { createSignal, createMemo, Accessor } from 'solid-js';
 import { SimpleIdmClient } from '~/api/client';
-import type { ProfileUpdateResponse } from '~/types/api';
+import type { ProfileUpdateResponse, ApiError } from '~/types/api';
+import { createRequestScope } from './requestScope';
+import { createErrorState } from './errorState';
+import { bindTenant, useTenantConfig } from './tenant';
 
 /**
  * Profile update operation type
@@ -95,6 +98,8 @@ export interface UseProfileReturn {
   isLoading: Accessor<boolean>;
   /** Error message if update failed */
   error: Accessor<string | null>;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: Accessor<ApiError | null>;
   /** Success message if update succeeded */
   success: Accessor<string | null>;
   /** Last profile update response */
@@ -225,7 +230,7 @@ export function useProfile(config: UseProfileConfig): UseProfileReturn {
 
   // Operation state
   const [isLoading, setIsLoading] = createSignal(false);
-  const [error, setError] = createSignal<string | null>(null);
+  const { error, errorDetails, setError, setErrorFrom } = createErrorState();
   const [success, setSuccess] = createSignal<string | null>(null);
   const [response, setResponse] = createSignal<ProfileUpdateResponse | null>(null);
   const [currentOperation, setCurrentOperation] = createSignal<ProfileOperation | null>(null);
@@ -236,6 +241,7 @@ export function useProfile(config: UseProfileConfig): UseProfileReturn {
       ? config.client
       : new SimpleIdmClient({
           baseUrl: config.client || '', // Empty string = same origin
+          tenant: useTenantConfig(),
           onError: (err) => {
             const operation = currentOperation();
             if (operation) {
@@ -245,6 +251,12 @@ export function useProfile(config: UseProfileConfig): UseProfileReturn {
           },
         });
 
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
+
+  // In-flight requests are aborted on unmount and reset
+  const requests = createRequestScope();
+
   // Password strength calculation
   const passwordStrength = createMemo((): PasswordStrengthResult => {
     const pwd = newPassword();
@@ -323,6 +335,8 @@ export function useProfile(config: UseProfileConfig): UseProfileReturn {
       return;
     }
 
+    const request = requests.start('username');
+
     try {
       setIsLoading(true);
       setError(null);
@@ -330,10 +344,16 @@ export function useProfile(config: UseProfileConfig): UseProfileReturn {
       setResponse(null);
       setCurrentOperation('username');
 
-      const updateResponse = await client.updateUsername({
-        username: username(),
-        current_password: usernameCurrentPassword(),
-      });
+      const updateResponse = await client.updateUsername(
+        {
+          username: username(),
+          current_password: usernameCurrentPassword(),
+        },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
 
       setResponse(updateResponse);
       setSuccess(updateResponse.message || 'Username updated successfully!');
@@ -342,12 +362,15 @@ export function useProfile(config: UseProfileConfig): UseProfileReturn {
       // Reset username form fields
       resetUsername();
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Username update failed';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Username update failed');
       config.onError?.(message, 'username');
     } finally {
-      setIsLoading(false);
-      setCurrentOperation(null);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
     }
   };
 
@@ -357,6 +380,8 @@ export function useProfile(config: UseProfileConfig): UseProfileReturn {
       return;
     }
 
+    const request = requests.start('phone');
+
     try {
       setIsLoading(true);
       setError(null);
@@ -364,9 +389,15 @@ export function useProfile(config: UseProfileConfig): UseProfileReturn {
       setResponse(null);
       setCurrentOperation('phone');
 
-      const updateResponse = await client.updatePhone({
-        phone: phone(),
-      });
+      const updateResponse = await client.updatePhone(
+        {
+          phone: phone(),
+        },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
 
       setResponse(updateResponse);
       setSuccess(updateResponse.message || 'Phone updated successfully!');
@@ -375,12 +406,15 @@ export function useProfile(config: UseProfileConfig): UseProfileReturn {
       // Reset phone form fields
       resetPhone();
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Phone update failed';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Phone update failed');
       config.onError?.(message, 'phone');
     } finally {
-      setIsLoading(false);
-      setCurrentOperation(null);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
     }
   };
 
@@ -390,6 +424,8 @@ export function useProfile(config: UseProfileConfig): UseProfileReturn {
       return;
     }
 
+    const request = requests.start('password');
+
     try {
       setIsLoading(true);
       setError(null);
@@ -397,10 +433,16 @@ export function useProfile(config: UseProfileConfig): UseProfileReturn {
       setResponse(null);
       setCurrentOperation('password');
 
-      const updateResponse = await client.updatePassword({
-        current_password: currentPassword(),
-        new_password: newPassword(),
-      });
+      const updateResponse = await client.updatePassword(
+        {
+          current_password: currentPassword(),
+          new_password: newPassword(),
+        },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
 
       setResponse(updateResponse);
       setSuccess(updateResponse.message || 'Password updated successfully!');
@@ -409,12 +451,15 @@ export function useProfile(config: UseProfileConfig): UseProfileReturn {
       // Reset password form fields
       resetPassword();
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Password update failed';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Password update failed');
       config.onError?.(message, 'password');
     } finally {
-      setIsLoading(false);
-      setCurrentOperation(null);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
     }
   };
 
@@ -435,6 +480,7 @@ export function useProfile(config: UseProfileConfig): UseProfileReturn {
   };
 
   const reset = () => {
+    requests.abortAll();
     resetUsername();
     resetPhone();
     resetPassword();
@@ -471,6 +517,7 @@ export function useProfile(config: UseProfileConfig): UseProfileReturn {
     // Operation state
     isLoading,
     error,
+    errorDetails,
     success,
     response,
     currentOperation,
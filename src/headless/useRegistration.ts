@@ -7,7 +7,10 @@
 
 import { createSignal, createMemo, Accessor } from 'solid-js';
 import { SimpleIdmClient } from '~/api/client';
-import type { SignupResponse } from '~/types/api';
+import type { SignupResponse, ApiError } from '~/types/api';
+import { createRequestScope } from './requestScope';
+import { createErrorState } from './errorState';
+import { bindTenant, useTenantConfig } from './tenant';
 
 /**
  * Password strength level
@@ -108,6 +111,8 @@ export interface UseRegistrationReturn {
   isLoading: Accessor<boolean>;
   /** Error message if registration failed */
   error: Accessor<string | null>;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: Accessor<ApiError | null>;
   /** Success message if registration succeeded */
   success: Accessor<string | null>;
   /** Last registration response */
@@ -183,7 +188,7 @@ export function useRegistration(
 
   // Operation state
   const [isLoading, setIsLoading] = createSignal(false);
-  const [error, setError] = createSignal<string | null>(null);
+  const { error, errorDetails, setError, setErrorFrom } = createErrorState();
   const [success, setSuccess] = createSignal<string | null>(null);
   const [response, setResponse] = createSignal<SignupResponse | null>(null);
 
@@ -193,12 +198,19 @@ export function useRegistration(
       ? config.client
       : new SimpleIdmClient({
           baseUrl: config.client || '', // Empty string = same origin
+          tenant: useTenantConfig(),
           onError: (err) => {
             setError(err.message);
             config.onError?.(err.message);
           },
         });
 
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
+
+  // In-flight requests are aborted on unmount and reset
+  const requests = createRequestScope();
+
   // Password strength calculation
   const passwordStrength = createMemo((): PasswordStrengthResult => {
     const pwd = password();
@@ -273,6 +285,8 @@ export function useRegistration(
       return;
     }
 
+    const request = requests.start();
+
     try {
       setIsLoading(true);
       setError(null);
@@ -288,7 +302,10 @@ export function useRegistration(
         ...(invitationCode() && { invitation_code: invitationCode() }),
       };
 
-      const registrationResponse = await client.signup(data);
+      const registrationResponse = await client.signup(data, { signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
 
       setResponse(registrationResponse);
       setSuccess(
@@ -309,16 +326,20 @@ export function useRegistration(
       // Reset form
       reset();
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Registration failed';
-      setError(message);
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Registration failed');
       config.onError?.(message);
     } finally {
-      setIsLoading(false);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+      }
     }
   };
 
   // Reset form
   const reset = () => {
+    requests.abortAll();
     setUsername('');
     setEmail('');
     setPassword('');
@@ -353,6 +374,7 @@ export function useRegistration(
     // Operation state
     isLoading,
     error,
+    errorDetails,
     success,
     response,
 
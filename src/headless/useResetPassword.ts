@@ -56,7 +56,10 @@
 
 import { createSignal, createMemo, onMount } from 'solid-js';
 import { SimpleIdmClient } from '~/api/client';
-import type { PasswordResetResponse, PasswordPolicyResponse } from '~/types/api';
+import type { PasswordResetResponse, PasswordPolicyResponse, ApiError } from '~/types/api';
+import { createRequestScope } from './requestScope';
+import { createErrorState } from './errorState';
+import { bindTenant, useTenantConfig } from './tenant';
 
 // ============================================================================
 // Types
@@ -129,6 +132,8 @@ export interface UseResetPasswordReturn {
   isLoading: () => boolean;
   /** Error message */
   error: () => string | null;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: () => ApiError | null;
   /** Success message */
   success: () => string | null;
   /** Last response from the API */
@@ -235,7 +240,13 @@ export function useResetPassword(config: UseResetPasswordConfig): UseResetPasswo
   const client =
     config.client instanceof SimpleIdmClient
       ? config.client
-      : new SimpleIdmClient({ baseUrl: config.client || '' }); // Empty = same origin
+      : new SimpleIdmClient({
+          baseUrl: config.client || '', // Empty = same origin
+          tenant: useTenantConfig(),
+        });
+
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
 
   const autoLoadPolicy = config.autoLoadPolicy ?? true;
   const minLength = config.minPasswordLength || 8;
@@ -245,11 +256,14 @@ export function useResetPassword(config: UseResetPasswordConfig): UseResetPasswo
   const [newPassword, setNewPassword] = createSignal('');
   const [confirmPassword, setConfirmPassword] = createSignal('');
   const [isLoading, setIsLoading] = createSignal(false);
-  const [error, setError] = createSignal<string | null>(null);
+  const { error, errorDetails, setError, setErrorFrom } = createErrorState();
   const [success, setSuccess] = createSignal<string | null>(null);
   const [response, setResponse] = createSignal<PasswordResetResponse | null>(null);
   const [policy, setPolicy] = createSignal<PasswordPolicyResponse | null>(null);
 
+  // In-flight requests are aborted on unmount; reset only cancels submit
+  const requests = createRequestScope();
+
   // Computed
   const passwordStrength = createMemo(() => {
     const policyMinLength = policy()?.min_length || minLength;
@@ -295,10 +309,14 @@ export function useResetPassword(config: UseResetPasswordConfig): UseResetPasswo
 
   // Actions
   const loadPolicy = async () => {
+    const request = requests.start('policy');
+
     try {
-      const policyData = await client.getPasswordPolicy();
+      const policyData = await client.getPasswordPolicy({ signal: request.signal });
+      if (!request.isCurrent()) return;
       setPolicy(policyData);
     } catch (err) {
+      if (!request.isCurrent()) return;
       // Policy loading is optional, so we just log the error
       console.warn('Failed to load password policy:', err);
     }
@@ -316,30 +334,42 @@ export function useResetPassword(config: UseResetPasswordConfig): UseResetPasswo
       return;
     }
 
+    const request = requests.start();
+
     setIsLoading(true);
     setError(null);
     setSuccess(null);
     setResponse(null);
 
     try {
-      const result = await client.resetPassword({
-        token: token().trim(),
-        new_password: newPassword(),
-      });
+      const result = await client.resetPassword(
+        {
+          token: token().trim(),
+          new_password: newPassword(),
+        },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
 
       setResponse(result);
       setSuccess(result.message || 'Password reset successfully');
       config.onSuccess?.(result);
     } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to reset password';
-      setError(errorMessage);
+      if (!request.isCurrent()) return;
+
+      const errorMessage = setErrorFrom(err, 'Failed to reset password');
       config.onError?.(errorMessage);
     } finally {
-      setIsLoading(false);
+      if (request.isCurrent()) {
+        setIsLoading(false);
+      }
     }
   };
 
   const reset = () => {
+    requests.abort();
     setToken(config.initialToken || '');
     setNewPassword('');
     setConfirmPassword('');
@@ -366,6 +396,7 @@ export function useResetPassword(config: UseResetPasswordConfig): UseResetPasswo
     setConfirmPassword,
     isLoading,
     error,
+    errorDetails,
     success,
     response,
     policy,
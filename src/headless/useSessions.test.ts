@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook } from '@solidjs/testing-library';
+import { useSessions } from './useSessions';
+import { SimpleIdmClient } from '~/api/client';
+import { createFakeBackend, type FakeBackend } from '~/testing/fakeBackend';
+
+const ALICE = { username: 'alice', email: 'alice@example.com', password: 'Password123!' };
+const BOB = { username: 'bob', email: 'bob@example.com', password: 'Password123!' };
+
+describe('useSessions', () => {
+  let backend: FakeBackend;
+  let client: SimpleIdmClient;
+
+  beforeEach(async () => {
+    backend = createFakeBackend({ users: [ALICE, BOB] });
+    client = new SimpleIdmClient({ fetch: backend.fetch, retry: false });
+    await client.login({ username: ALICE.username, password: ALICE.password });
+  });
+
+  it('should list the sessions with the current one marked', async () => {
+    backend.signInElsewhere('alice', 'Firefox on Linux');
+    backend.signInElsewhere('bob', 'Safari on iPhone');
+
+    const { result } = renderHook(() => useSessions({ client, autoLoad: true }));
+
+    await vi.waitFor(() => expect(result.sessions()).toHaveLength(2));
+    expect(result.currentSession()).toMatchObject({ device: 'Simulated browser', current: true });
+    expect(result.otherSessions()).toEqual([
+      expect.objectContaining({ device: 'Firefox on Linux', current: false }),
+    ]);
+  });
+
+  it('should end a session on another device', async () => {
+    const onRevoke = vi.fn();
+    const otherId = backend.signInElsewhere('alice', 'Firefox on Linux');
+
+    const { result } = renderHook(() => useSessions({ client, onRevoke }));
+    await result.loadSessions();
+
+    await result.revokeSession(otherId);
+
+    expect(result.otherSessions()).toEqual([]);
+    expect(result.success()).toBeTruthy();
+    expect(onRevoke).toHaveBeenCalledWith(1);
+    await expect(client.listSessions()).resolves.toHaveLength(1);
+  });
+
+  it('should refuse to end the current session', async () => {
+    const { result } = renderHook(() => useSessions({ client }));
+    await result.loadSessions();
+
+    await result.revokeSession(result.currentSession()!.id);
+
+    expect(result.errorDetails()?.code).toBe('validation_failed');
+    expect(result.sessions()).toHaveLength(1);
+    await expect(client.getCurrentUser()).resolves.toMatchObject({ email: ALICE.email });
+  });
+
+  it('should end every other session and keep this one', async () => {
+    backend.signInElsewhere('alice', 'Firefox on Linux');
+    backend.signInElsewhere('alice', 'Safari on iPhone');
+
+    const { result } = renderHook(() => useSessions({ client }));
+    await result.loadSessions();
+    expect(result.otherSessions()).toHaveLength(2);
+
+    await result.revokeOtherSessions();
+
+    expect(result.success()).toBe('Signed out of 2 other sessions.');
+    expect(result.sessions()).toEqual([expect.objectContaining({ current: true })]);
+    await expect(client.listSessions()).resolves.toHaveLength(1);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * useSessions - Headless active session hook
+ *
+ * Lists where the signed-in user is signed in (device, IP address, last
+ * activity) and ends sessions on other devices, one at a time or all at once.
+ */
+
+import { createSignal, createMemo, onMount, Accessor } from 'solid-js';
+import { SimpleIdmClient } from '~/api/client';
+import type { Session, ApiError } from '~/types/api';
+import { createRequestScope, type RequestHandle } from './requestScope';
+import { createErrorState } from './errorState';
+import { bindTenant, useTenantConfig } from './tenant';
+
+/**
+ * Session operation type
+ */
+export type SessionOperation = 'load' | 'revoke' | 'revokeOthers';
+
+/**
+ * Configuration for the useSessions hook
+ */
+export interface UseSessionsConfig {
+  /**
+   * API client instance or base URL string
+   * - If string: Creates a new SimpleIdmClient with the URL
+   * - If SimpleIdmClient: Uses the provided instance
+   */
+  client?: SimpleIdmClient | string;
+
+  /**
+   * Load the sessions on mount
+   * @default false
+   */
+  autoLoad?: boolean;
+
+  /**
+   * Callback invoked after sessions were ended
+   * @param revoked - Number of sessions that were ended
+   */
+  onRevoke?: (revoked: number) => void;
+
+  /**
+   * Callback invoked when an operation fails
+   */
+  onError?: (error: string, operation: SessionOperation) => void;
+}
+
+/**
+ * State and actions returned by useSessions
+ */
+export interface UseSessionsReturn {
+  // Sessions
+  /** Active sessions, most recently seen first (after loadSessions) */
+  sessions: Accessor<Session[]>;
+  /** The session of this browser */
+  currentSession: Accessor<Session | null>;
+  /** Sessions on other devices */
+  otherSessions: Accessor<Session[]>;
+
+  // Operation state
+  /** Whether an operation is in progress */
+  isLoading: Accessor<boolean>;
+  /** Error message if operation failed */
+  error: Accessor<string | null>;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: Accessor<ApiError | null>;
+  /** Success message if operation succeeded */
+  success: Accessor<string | null>;
+  /** Current operation being performed */
+  currentOperation: Accessor<SessionOperation | null>;
+  /** Id of the session being ended by revokeSession */
+  revokingId: Accessor<string | null>;
+
+  // Actions
+  /** Load the active sessions */
+  loadSessions: () => Promise<void>;
+  /** End a session on another device */
+  revokeSession: (id: string) => Promise<void>;
+  /** End every session except this one */
+  revokeOtherSessions: () => Promise<void>;
+  /** Clear error message */
+  clearError: () => void;
+  /** Clear success message */
+  clearSuccess: () => void;
+}
+
+const byLastSeen = (a: Session, b: Session) => b.last_seen_at.localeCompare(a.last_seen_at);
+
+/**
+ * Headless hook for listing and ending the signed-in user's sessions
+ *
+ * @example
+ * ```tsx
+ * import { useSessions } from '@tendant/simple-idm-solid/headless';
+ *
+ * const Sessions = () => {
+ *   const sessions = useSessions({ autoLoad: true });
+ *
+ *   return (
+ *     <>
+ *       <For each={sessions.otherSessions()}>
+ *         {(session) => (
+ *           <div>
+ *             {session.device} - {session.ip_address}
+ *             <button onClick={() => sessions.revokeSession(session.id)}>Sign out</button>
+ *           </div>
+ *         )}
+ *       </For>
+ *       <button onClick={sessions.revokeOtherSessions}>Sign out everywhere else</button>
+ *     </>
+ *   );
+ * };
+ * ```
+ */
+export function useSessions(config: UseSessionsConfig = {}): UseSessionsReturn {
+  const [sessions, setSessions] = createSignal<Session[]>([]);
+
+  // Operation state
+  const [isLoading, setIsLoading] = createSignal(false);
+  const { error, errorDetails, setError, setErrorFrom } = createErrorState();
+  const [success, setSuccess] = createSignal<string | null>(null);
+  const [currentOperation, setCurrentOperation] = createSignal<SessionOperation | null>(null);
+  const [revokingId, setRevokingId] = createSignal<string | null>(null);
+
+  // Create or use provided API client
+  const client =
+    config.client instanceof SimpleIdmClient
+      ? config.client
+      : new SimpleIdmClient({
+          baseUrl: config.client || '', // Empty string = same origin
+          tenant: useTenantConfig(),
+          onError: (err) => {
+            const operation = currentOperation();
+            if (operation) {
+              setError(err.message);
+              config.onError?.(err.message, operation);
+            }
+          },
+        });
+
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
+
+  // In-flight requests are aborted on unmount
+  const requests = createRequestScope();
+
+  const currentSession = createMemo(() => sessions().find((s) => s.current) ?? null);
+  const otherSessions = createMemo(() => sessions().filter((s) => !s.current));
+
+  const beginOperation = (operation: SessionOperation) => {
+    setIsLoading(true);
+    setError(null);
+    setSuccess(null);
+    setCurrentOperation(operation);
+  };
+
+  const failOperation = (err: unknown, operation: SessionOperation, fallback: string) => {
+    const message = setErrorFrom(err, fallback);
+    config.onError?.(message, operation);
+  };
+
+  const endOperation = (request: RequestHandle) => {
+    if (request.isCurrent()) {
+      setIsLoading(false);
+      setCurrentOperation(null);
+      setRevokingId(null);
+    }
+  };
+
+  const loadSessions = async () => {
+    const request = requests.start('load');
+
+    try {
+      beginOperation('load');
+
+      const loaded = await client.listSessions({ signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setSessions([...loaded].sort(byLastSeen));
+    } catch (err) {
+      if (!request.isCurrent()) return;
+      failOperation(err, 'load', 'Failed to load sessions');
+    } finally {
+      endOperation(request);
+    }
+  };
+
+  const revokeSession = async (id: string) => {
+    // Shares the key with revokeOtherSessions - one revocation at a time
+    const request = requests.start('revoke');
+
+    try {
+      beginOperation('revoke');
+      setRevokingId(id);
+
+      await client.revokeSession(id, { signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setSessions(sessions().filter((s) => s.id !== id));
+      setSuccess('Signed out of the session.');
+      config.onRevoke?.(1);
+    } catch (err) {
+      if (!request.isCurrent()) return;
+      failOperation(err, 'revoke', 'Failed to sign out of the session');
+    } finally {
+      endOperation(request);
+    }
+  };
+
+  const revokeOtherSessions = async () => {
+    const request = requests.start('revoke');
+
+    try {
+      beginOperation('revokeOthers');
+
+      const result = await client.revokeOtherSessions({ signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setSessions(sessions().filter((s) => s.current));
+      setSuccess(
+        result.revoked === 1
+          ? 'Signed out of 1 other session.'
+          : `Signed out of ${result.revoked} other sessions.`,
+      );
+      config.onRevoke?.(result.revoked);
+    } catch (err) {
+      if (!request.isCurrent()) return;
+      failOperation(err, 'revokeOthers', 'Failed to sign out of other sessions');
+    } finally {
+      endOperation(request);
+    }
+  };
+
+  const clearError = () => setError(null);
+  const clearSuccess = () => setSuccess(null);
+
+  onMount(() => {
+    if (config.autoLoad) {
+      loadSessions();
+    }
+  });
+
+  return {
+    // Sessions
+    sessions,
+    currentSession,
+    otherSessions,
+
+    // Operation state
+    isLoading,
+    error,
+    errorDetails,
+    success,
+    currentOperation,
+    revokingId,
+
+    // Actions
+    loadSessions,
+    revokeSession,
+    revokeOtherSessions,
+    clearError,
+    clearSuccess,
+  };
+}
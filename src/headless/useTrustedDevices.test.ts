@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook } from '@solidjs/testing-library';
+import { useTrustedDevices } from './useTrustedDevices';
+import { SimpleIdmClient } from '~/api/client';
+import { createFakeBackend, type FakeBackend } from '~/testing/fakeBackend';
+
+const CAROL = {
+  username: 'carol',
+  email: 'carol@example.com',
+  password: 'Password123!',
+  twoFactor: ['totp' as const],
+};
+
+describe('useTrustedDevices', () => {
+  let backend: FakeBackend;
+  let client: SimpleIdmClient;
+
+  /** Sign in with 2FA, remembering the device */
+  const signInRemembered = async (deviceName: string) => {
+    const challenge = await client.login({ username: CAROL.username, password: CAROL.password });
+    await client.validate2FA({
+      type: 'totp',
+      code: '123456',
+      temp_token: challenge.temp_token,
+      remember_device_days: 30,
+      device_name: deviceName,
+    });
+  };
+
+  beforeEach(async () => {
+    backend = createFakeBackend({ users: [CAROL] });
+    client = new SimpleIdmClient({ fetch: backend.fetch, retry: false });
+  });
+
+  it('should list the trusted devices with this one marked', async () => {
+    await signInRemembered('Work laptop');
+
+    const { result } = renderHook(() => useTrustedDevices({ client, autoLoad: true }));
+
+    await vi.waitFor(() => expect(result.devices()).toHaveLength(1));
+    expect(result.currentDevice()).toMatchObject({ name: 'Work laptop', current: true });
+    expect(Date.parse(result.currentDevice()!.expires_at)).toBeGreaterThan(Date.now());
+  });
+
+  it('should rename a device', async () => {
+    await signInRemembered('Work laptop');
+    const { result } = renderHook(() => useTrustedDevices({ client }));
+    await result.loadDevices();
+    const id = result.devices()[0]!.id;
+
+    await expect(result.renameDevice(id, '  ')).resolves.toBe(false);
+    expect(result.error()).toBeTruthy();
+
+    await expect(result.renameDevice(id, 'Office desktop')).resolves.toBe(true);
+    expect(result.devices()[0]).toMatchObject({ id, name: 'Office desktop' });
+    await expect(client.listTrustedDevices()).resolves.toEqual([
+      expect.objectContaining({ name: 'Office desktop' }),
+    ]);
+  });
+
+  it('should ask for 2FA again after the device is removed', async () => {
+    const onRevoke = vi.fn();
+    await signInRemembered('Work laptop');
+    const { result } = renderHook(() => useTrustedDevices({ client, onRevoke }));
+    await result.loadDevices();
+
+    await result.revokeDevice(result.currentDevice()!.id);
+
+    expect(result.devices()).toEqual([]);
+    expect(onRevoke).toHaveBeenCalledWith(expect.objectContaining({ name: 'Work laptop' }));
+    await client.logout();
+    const next = await client.login({ username: CAROL.username, password: CAROL.password });
+    expect(next.status).toBe('2fa_required');
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * useTrustedDevices - Headless trusted device hook
+ *
+ * Lists the devices on which the signed-in user skips 2FA ("remember this
+ * device"), and renames or stops trusting them.
+ */
+
+import { createSignal, createMemo, onMount, Accessor } from 'solid-js';
+import { SimpleIdmClient } from '~/api/client';
+import type { TrustedDevice, ApiError } from '~/types/api';
+import { createRequestScope, type RequestHandle } from './requestScope';
+import { createErrorState } from './errorState';
+import { bindTenant, useTenantConfig } from './tenant';
+
+/**
+ * Trusted device operation type
+ */
+export type TrustedDeviceOperation = 'load' | 'rename' | 'revoke';
+
+/**
+ * Configuration for the useTrustedDevices hook
+ */
+export interface UseTrustedDevicesConfig {
+  /**
+   * API client instance or base URL string
+   * - If string: Creates a new SimpleIdmClient with the URL
+   * - If SimpleIdmClient: Uses the provided instance
+   */
+  client?: SimpleIdmClient | string;
+
+  /**
+   * Load the devices on mount
+   * @default false
+   */
+  autoLoad?: boolean;
+
+  /**
+   * Callback invoked after a device was no longer trusted
+   */
+  onRevoke?: (device: TrustedDevice) => void;
+
+  /**
+   * Callback invoked when an operation fails
+   */
+  onError?: (error: string, operation: TrustedDeviceOperation) => void;
+}
+
+/**
+ * State and actions returned by useTrustedDevices
+ */
+export interface UseTrustedDevicesReturn {
+  // Devices
+  /** Trusted devices, most recently used first (after loadDevices) */
+  devices: Accessor<TrustedDevice[]>;
+  /** This browser, if it is trusted */
+  currentDevice: Accessor<TrustedDevice | null>;
+
+  // Operation state
+  /** Whether an operation is in progress */
+  isLoading: Accessor<boolean>;
+  /** Error message if operation failed */
+  error: Accessor<string | null>;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: Accessor<ApiError | null>;
+  /** Success message if operation succeeded */
+  success: Accessor<string | null>;
+  /** Current operation being performed */
+  currentOperation: Accessor<TrustedDeviceOperation | null>;
+  /** Id of the device being renamed or revoked */
+  pendingId: Accessor<string | null>;
+
+  // Actions
+  /** Load the trusted devices */
+  loadDevices: () => Promise<void>;
+  /** Rename a device; resolves true if it was renamed */
+  renameDevice: (id: string, name: string) => Promise<boolean>;
+  /** Stop trusting a device - the next login on it asks for 2FA */
+  revokeDevice: (id: string) => Promise<void>;
+  /** Clear error message */
+  clearError: () => void;
+  /** Clear success message */
+  clearSuccess: () => void;
+}
+
+const lastUsed = (device: TrustedDevice) => device.last_used_at ?? device.created_at;
+
+const byLastUsed = (a: TrustedDevice, b: TrustedDevice) =>
+  lastUsed(b).localeCompare(lastUsed(a));
+
+/**
+ * Headless hook for managing the signed-in user's trusted devices
+ *
+ * @example
+ * ```tsx
+ * import { useTrustedDevices } from '@tendant/simple-idm-solid/headless';
+ *
+ * const Devices = () => {
+ *   const trusted = useTrustedDevices({ autoLoad: true });
+ *
+ *   return (
+ *     <For each={trusted.devices()}>
+ *       {(device) => (
+ *         <div>
+ *           {device.name} - trusted until {new Date(device.expires_at).toLocaleDateString()}
+ *           <button onClick={() => trusted.revokeDevice(device.id)}>Remove</button>
+ *         </div>
+ *       )}
+ *     </For>
+ *   );
+ * };
+ * ```
+ */
+export function useTrustedDevices(config: UseTrustedDevicesConfig = {}): UseTrustedDevicesReturn {
+  const [devices, setDevices] = createSignal<TrustedDevice[]>([]);
+
+  // Operation state
+  const [isLoading, setIsLoading] = createSignal(false);
+  const { error, errorDetails, setError, setErrorFrom } = createErrorState();
+  const [success, setSuccess] = createSignal<string | null>(null);
+  const [currentOperation, setCurrentOperation] =
+    createSignal<TrustedDeviceOperation | null>(null);
+  const [pendingId, setPendingId] = createSignal<string | null>(null);
+
+  // Create or use provided API client
+  const client =
+    config.client instanceof SimpleIdmClient
+      ? config.client
+      : new SimpleIdmClient({
+          baseUrl: config.client || '', // Empty string = same origin
+          tenant: useTenantConfig(),
+          onError: (err) => {
+            const operation = currentOperation();
+            if (operation) {
+              setError(err.message);
+              config.onError?.(err.message, operation);
+            }
+          },
+        });
+
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
+
+  // In-flight requests are aborted on unmount
+  const requests = createRequestScope();
+
+  const currentDevice = createMemo(() => devices().find((d) => d.current) ?? null);
+
+  const beginOperation = (operation: TrustedDeviceOperation) => {
+    setIsLoading(true);
+    setError(null);
+    setSuccess(null);
+    setCurrentOperation(operation);
+  };
+
+  const failOperation = (err: unknown, operation: TrustedDeviceOperation, fallback: string) => {
+    const message = setErrorFrom(err, fallback);
+    config.onError?.(message, operation);
+  };
+
+  const endOperation = (request: RequestHandle) => {
+    if (request.isCurrent()) {
+      setIsLoading(false);
+      setCurrentOperation(null);
+      setPendingId(null);
+    }
+  };
+
+  const loadDevices = async () => {
+    const request = requests.start('load');
+
+    try {
+      beginOperation('load');
+
+      const loaded = await client.listTrustedDevices({ signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setDevices([...loaded].sort(byLastUsed));
+    } catch (err) {
+      if (!request.isCurrent()) return;
+      failOperation(err, 'load', 'Failed to load trusted devices');
+    } finally {
+      endOperation(request);
+    }
+  };
+
+  const renameDevice = async (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError('Please enter a name for the device.');
+      return false;
+    }
+
+    // Shares the key with revokeDevice - one change at a time
+    const request = requests.start('change');
+
+    try {
+      beginOperation('rename');
+      setPendingId(id);
+
+      const renamed = await client.renameTrustedDevice(
+        id,
+        { name: trimmed },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return false;
+
+      setDevices(devices().map((d) => (d.id === id ? renamed : d)));
+      setSuccess('Device renamed.');
+      return true;
+    } catch (err) {
+      if (!request.isCurrent()) return false;
+      failOperation(err, 'rename', 'Failed to rename the device');
+      return false;
+    } finally {
+      endOperation(request);
+    }
+  };
+
+  const revokeDevice = async (id: string) => {
+    const device = devices().find((d) => d.id === id);
+    const request = requests.start('change');
+
+    try {
+      beginOperation('revoke');
+      setPendingId(id);
+
+      await client.revokeTrustedDevice(id, { signal: request.signal });
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setDevices(devices().filter((d) => d.id !== id));
+      setSuccess(
+        device?.current
+          ? 'This device is no longer trusted. You will be asked for a code at your next sign-in.'
+          : 'Device removed.',
+      );
+      if (device) {
+        config.onRevoke?.(device);
+      }
+    } catch (err) {
+      if (!request.isCurrent()) return;
+      failOperation(err, 'revoke', 'Failed to remove the device');
+    } finally {
+      endOperation(request);
+    }
+  };
+
+  const clearError = () => setError(null);
+  const clearSuccess = () => setSuccess(null);
+
+  onMount(() => {
+    if (config.autoLoad) {
+      loadDevices();
+    }
+  });
+
+  return {
+    // Devices
+    devices,
+    currentDevice,
+
+    // Operation state
+    isLoading,
+    error,
+    errorDetails,
+    success,
+    currentOperation,
+    pendingId,
+
+    // Actions
+    loadDevices,
+    renameDevice,
+    revokeDevice,
+    clearError,
+    clearSuccess,
+  };
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook } from '@solidjs/testing-library';
+import { useTwoFactorChallenge } from './useTwoFactorChallenge';
+import { useAuth } from '~/hooks/useAuth';
+import { SimpleIdmClient } from '~/api/client';
+import { createFakeBackend, type FakeBackend, type FakeUserSeed } from '~/testing/fakeBackend';
+import type { LoginResponse } from '~/types/api';
+
+const BOB: FakeUserSeed & { password: string } = {
+  username: 'bob',
+  email: 'bob@example.com',
+  phone: '+15550100',
+  password: 'Password123!',
+  twoFactor: ['email', 'sms', 'totp'],
+};
+
+describe('useTwoFactorChallenge', () => {
+  let backend: FakeBackend;
+  let client: SimpleIdmClient;
+  let challenge: LoginResponse;
+
+  beforeEach(async () => {
+    backend = createFakeBackend({ users: [BOB] });
+    client = new SimpleIdmClient({ fetch: backend.fetch, retry: false });
+    challenge = await client.login({ username: BOB.username, password: BOB.password });
+  });
+
+  it('should offer the methods from the login response', () => {
+    const { result } = renderHook(() => useTwoFactorChallenge({ client, challenge }));
+
+    expect(result.methods().map((m) => m.type)).toEqual(['email', 'sms', 'totp']);
+    expect(result.method()?.type).toBe('email');
+    expect(result.deliveryOption()).toBe(BOB.email);
+    expect(result.needsCodeSent()).toBe(true);
+
+    result.selectMethod('totp');
+    expect(result.needsCodeSent()).toBe(false);
+    expect(result.canSendCode()).toBe(false);
+    expect(result.deliveryOption()).toBe('');
+  });
+
+  it('should send a code and complete the login', async () => {
+    const onSuccess = vi.fn();
+    const { result } = renderHook(() =>
+      useTwoFactorChallenge({ client, challenge, onSuccess }),
+    );
+
+    await result.sendCode();
+    expect(result.codeSent()).toBe(true);
+
+    result.setCode(backend.lastMessage('2fa_code', BOB.email)!.token);
+    await result.submit();
+
+    expect(result.isComplete()).toBe(true);
+    expect(result.canSubmit()).toBe(false);
+    expect(onSuccess).toHaveBeenCalledWith(
+      expect.objectContaining({ user: expect.objectContaining({ email: BOB.email }) }),
+    );
+    await expect(client.getCurrentUser()).resolves.toMatchObject({ email: BOB.email });
+  });
+
+  it('should keep the challenge open after a wrong code', async () => {
+    const onError = vi.fn();
+    const { result } = renderHook(() =>
+      useTwoFactorChallenge({ client, challenge, onError }),
+    );
+
+    result.selectMethod('totp');
+    result.setCode('000000');
+    await result.submit();
+
+    expect(result.isComplete()).toBe(false);
+    expect(result.error()).toBeTruthy();
+    expect(result.errorDetails()?.code).toBe('invalid_code');
+    expect(result.code()).toBe('');
+    expect(onError).toHaveBeenCalledWith(expect.any(String), 'validate');
+  });
+
+  it('should remember the device so the next login skips 2FA', async () => {
+    const { result } = renderHook(() =>
+      useTwoFactorChallenge({ client, challenge, rememberDeviceDays: 30 }),
+    );
+
+    result.selectMethod('totp');
+    result.setCode('123456');
+    result.setRememberDevice(true);
+    await result.submit();
+    expect(result.isComplete()).toBe(true);
+
+    await client.logout();
+    const next = await client.login({ username: BOB.username, password: BOB.password });
+
+    expect(next.status).toBe('success');
+    await expect(client.listTrustedDevices()).resolves.toEqual([
+      expect.objectContaining({ name: 'Simulated browser', current: true }),
+    ]);
+  });
+
+  it('should sign in with each backup code only once', async () => {
+    const carol = { ...BOB, username: 'carol', email: 'carol@example.com' };
+    backend.addUser({ ...carol, twoFactor: ['totp'], backupCodes: ['backup-a', 'backup-b'] });
+    const login = () => client.login({ username: carol.username, password: carol.password });
+
+    const firstChallenge = await login();
+    const { result } = renderHook(() =>
+      useTwoFactorChallenge({ client, challenge: firstChallenge }),
+    );
+    expect(result.methods().map((m) => m.type)).toEqual(['totp', 'backup_code']);
+
+    result.selectMethod('backup_code');
+    result.setCode('backup-a');
+    await result.submit();
+    expect(result.isComplete()).toBe(true);
+
+    await client.logout();
+    const secondChallenge = await login();
+    const second = renderHook(() =>
+      useTwoFactorChallenge({ client, challenge: secondChallenge }),
+    ).result;
+
+    second.selectMethod('backup_code');
+    second.setCode('backup-a');
+    await second.submit();
+    expect(second.isComplete()).toBe(false);
+    expect(second.errorDetails()?.code).toBe('invalid_code');
+  });
+
+  it('should complete a 2FA login through useAuth', async () => {
+    const { result } = renderHook(() => useAuth({ client, checkAuthOnMount: false }));
+
+    await expect(
+      result.login({ username: BOB.username, password: BOB.password }),
+    ).rejects.toThrow('2FA_REQUIRED');
+    expect(result.twoFactorChallenge()?.temp_token).toBeTruthy();
+
+    await result.completeTwoFactor({ type: 'totp', code: '123456' });
+
+    expect(result.isAuthenticated()).toBe(true);
+    expect(result.user()).toMatchObject({ email: BOB.email });
+    expect(result.twoFactorChallenge()).toBe(null);
+  });
+});
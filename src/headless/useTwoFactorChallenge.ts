@@ -0,0 +1,370 @@
+/**
+ * useTwoFactorChallenge - Headless 2FA login challenge hook
+ *
+ * Finishes a login that returned `status: '2fa_required'`: lets the user pick
+ * one of the offered methods, sends SMS/email codes and validates the code
+ * against the login's temp token, which signs the user in. A backup code can
+ * stand in for the code when the server offers `backup_code`. Optionally trusts
+ * the device, so later logins on it skip this step.
+ */
+
+import { createSignal, createMemo, Accessor } from 'solid-js';
+import { SimpleIdmClient } from '~/api/client';
+import type {
+  LoginResponse,
+  TwoFactorMethod,
+  Validate2FARequest,
+  Validate2FAResponse,
+  ApiError,
+} from '~/types/api';
+import { createRequestScope } from './requestScope';
+import { createErrorState } from './errorState';
+import { bindTenant, useTenantConfig } from './tenant';
+
+/**
+ * 2FA challenge operation type
+ */
+export type TwoFactorChallengeOperation = 'send_code' | 'validate';
+
+/**
+ * Configuration for the useTwoFactorChallenge hook
+ */
+export interface UseTwoFactorChallengeConfig {
+  /**
+   * API client instance or base URL string
+   * - If string: Creates a new SimpleIdmClient with the URL
+   * - If SimpleIdmClient: Uses the provided instance
+   */
+  client?: SimpleIdmClient | string;
+
+  /**
+   * The '2fa_required' login response (temp token and offered methods)
+   */
+  challenge: LoginResponse;
+
+  /**
+   * Offer to remember the device for this many days; 0 disables
+   * @default 0
+   */
+  rememberDeviceDays?: number;
+
+  /**
+   * Name for the remembered device (server default, e.g. from the user agent, if omitted)
+   */
+  deviceName?: string;
+
+  /**
+   * Callback invoked once the code is accepted and the user is signed in
+   */
+  onSuccess?: (response: Validate2FAResponse) => void;
+
+  /**
+   * Callback invoked when sending or validating a code fails
+   */
+  onError?: (error: string, operation: TwoFactorChallengeOperation) => void;
+}
+
+/**
+ * State and actions returned by useTwoFactorChallenge
+ */
+export interface UseTwoFactorChallengeReturn {
+  // Methods
+  /** 2FA methods offered by the server */
+  methods: Accessor<TwoFactorMethod[]>;
+  /** Selected method */
+  method: Accessor<TwoFactorMethod | null>;
+  /** Select a method by type; resets the code and delivery option */
+  selectMethod: (type: string) => void;
+  /** Whether the selected method needs a code sent first (SMS/email) */
+  needsCodeSent: Accessor<boolean>;
+  /** Whether a code was sent for the selected method */
+  codeSent: Accessor<boolean>;
+
+  // Form fields
+  /** Delivery option for SMS/email (as listed by the server, often masked) */
+  deliveryOption: Accessor<string>;
+  /** Update delivery option */
+  setDeliveryOption: (value: string) => void;
+  /** Verification code value */
+  code: Accessor<string>;
+  /** Update verification code */
+  setCode: (value: string) => void;
+  /** Whether to remember the device (only sent when rememberDeviceDays is set) */
+  rememberDevice: Accessor<boolean>;
+  /** Update remember device */
+  setRememberDevice: (value: boolean) => void;
+
+  // Operation state
+  /** Whether an operation is in progress */
+  isLoading: Accessor<boolean>;
+  /** Error message if operation failed */
+  error: Accessor<string | null>;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: Accessor<ApiError | null>;
+  /** Success message if operation succeeded */
+  success: Accessor<string | null>;
+  /** Current operation being performed */
+  currentOperation: Accessor<TwoFactorChallengeOperation | null>;
+  /** Whether the code was accepted and the login completed */
+  isComplete: Accessor<boolean>;
+
+  // Actions
+  /** Send a code for the selected SMS/email method */
+  sendCode: () => Promise<void>;
+  /** Validate the code and complete the login */
+  submit: () => Promise<void>;
+  /** Reset to the first method */
+  reset: () => void;
+  /** Clear error message */
+  clearError: () => void;
+  /** Clear success message */
+  clearSuccess: () => void;
+
+  // Validation
+  /** Whether a code can be sent */
+  canSendCode: Accessor<boolean>;
+  /** Whether the code can be submitted */
+  canSubmit: Accessor<boolean>;
+}
+
+/**
+ * Headless hook for the 2FA step of a login
+ *
+ * @example
+ * ```tsx
+ * import { useLogin, useTwoFactorChallenge } from '@tendant/simple-idm-solid/headless';
+ *
+ * const Challenge = (props: { challenge: LoginResponse }) => {
+ *   const twoFA = useTwoFactorChallenge({
+ *     challenge: props.challenge,
+ *     onSuccess: () => auth.refreshUser(),
+ *   });
+ *
+ *   return (
+ *     <form onSubmit={(e) => { e.preventDefault(); twoFA.submit(); }}>
+ *       <Show when={twoFA.needsCodeSent()}>
+ *         <button type="button" onClick={twoFA.sendCode}>Send code</button>
+ *       </Show>
+ *       <input value={twoFA.code()} onInput={(e) => twoFA.setCode(e.currentTarget.value)} />
+ *       <button type="submit" disabled={!twoFA.canSubmit()}>Verify</button>
+ *     </form>
+ *   );
+ * };
+ * ```
+ */
+export function useTwoFactorChallenge(
+  config: UseTwoFactorChallengeConfig,
+): UseTwoFactorChallengeReturn {
+  const methods = () => config.challenge.two_factor_methods ?? [];
+  const initialMethod = () => methods()[0] ?? null;
+
+  // Form fields
+  const [method, setMethod] = createSignal<TwoFactorMethod | null>(initialMethod());
+  const [deliveryOption, setDeliveryOption] = createSignal(
+    initialMethod()?.delivery_options?.[0] ?? '',
+  );
+  const [code, setCode] = createSignal('');
+  const [codeSent, setCodeSent] = createSignal(false);
+  const [rememberDevice, setRememberDevice] = createSignal(false);
+
+  // Operation state
+  const [isLoading, setIsLoading] = createSignal(false);
+  const { error, errorDetails, setError, setErrorFrom } = createErrorState();
+  const [success, setSuccess] = createSignal<string | null>(null);
+  const [currentOperation, setCurrentOperation] =
+    createSignal<TwoFactorChallengeOperation | null>(null);
+  const [isComplete, setIsComplete] = createSignal(false);
+
+  // Create or use provided API client
+  const client =
+    config.client instanceof SimpleIdmClient
+      ? config.client
+      : new SimpleIdmClient({
+          baseUrl: config.client || '', // Empty string = same origin
+          tenant: useTenantConfig(),
+          onError: (err) => {
+            const operation = currentOperation();
+            if (operation) {
+              setError(err.message);
+              config.onError?.(err.message, operation);
+            }
+          },
+        });
+
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
+
+  // In-flight requests are aborted on unmount and reset
+  const requests = createRequestScope();
+
+  // Derived state
+  const needsCodeSent = createMemo(() => {
+    const type = method()?.type;
+    return type === 'sms' || type === 'email';
+  });
+
+  // Validation
+  const canSendCode = createMemo(() => !isLoading() && !isComplete() && needsCodeSent());
+
+  const canSubmit = createMemo(() => {
+    if (isLoading() || isComplete() || !method()) return false;
+    return code().trim().length > 0;
+  });
+
+  const selectMethod = (type: string) => {
+    const selected = methods().find((m) => m.type === type);
+    if (!selected) return;
+    requests.abortAll();
+    setMethod(selected);
+    setDeliveryOption(selected.delivery_options?.[0] ?? '');
+    setCode('');
+    setCodeSent(false);
+    setError(null);
+    setSuccess(null);
+    setIsLoading(false);
+    setCurrentOperation(null);
+  };
+
+  // Send SMS/email code
+  const sendCode = async () => {
+    if (!canSendCode()) {
+      return;
+    }
+
+    const request = requests.start('send_code');
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSuccess(null);
+      setCurrentOperation('send_code');
+
+      const sendResponse = await client.send2FACode(
+        {
+          type: method()!.type as 'sms' | 'email',
+          delivery_option: deliveryOption(),
+          temp_token: config.challenge.temp_token,
+        },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setCodeSent(true);
+      setSuccess(sendResponse.message || 'Code sent successfully!');
+    } catch (err) {
+      if (!request.isCurrent()) return;
+
+      const message = setErrorFrom(err, 'Failed to send code');
+      config.onError?.(message, 'send_code');
+    } finally {
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
+    }
+  };
+
+  // Validate code and complete the login
+  const submit = async () => {
+    if (!canSubmit()) {
+      return;
+    }
+
+    const request = requests.start('validate');
+    const remember = rememberDevice() && (config.rememberDeviceDays ?? 0) > 0;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSuccess(null);
+      setCurrentOperation('validate');
+
+      const validateResponse = await client.validate2FA(
+        {
+          type: method()!.type as Validate2FARequest['type'],
+          code: code().trim(),
+          ...(deliveryOption() && { delivery_option: deliveryOption() }),
+          temp_token: config.challenge.temp_token,
+          ...(remember && {
+            remember_device_days: config.rememberDeviceDays,
+            device_name: config.deviceName,
+          }),
+        },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setIsComplete(true);
+      setSuccess(validateResponse.message || 'Login successful!');
+      config.onSuccess?.(validateResponse);
+    } catch (err) {
+      if (!request.isCurrent()) return;
+
+      setCode('');
+      const message = setErrorFrom(err, 'Invalid code');
+      config.onError?.(message, 'validate');
+    } finally {
+      if (request.isCurrent()) {
+        setIsLoading(false);
+        setCurrentOperation(null);
+      }
+    }
+  };
+
+  const reset = () => {
+    requests.abortAll();
+    setMethod(initialMethod());
+    setDeliveryOption(initialMethod()?.delivery_options?.[0] ?? '');
+    setCode('');
+    setCodeSent(false);
+    setRememberDevice(false);
+    setError(null);
+    setSuccess(null);
+    setIsLoading(false);
+    setCurrentOperation(null);
+    setIsComplete(false);
+  };
+
+  const clearError = () => setError(null);
+  const clearSuccess = () => setSuccess(null);
+
+  return {
+    // Methods
+    methods,
+    method,
+    selectMethod,
+    needsCodeSent,
+    codeSent,
+
+    // Form fields
+    deliveryOption,
+    setDeliveryOption,
+    code,
+    setCode,
+    rememberDevice,
+    setRememberDevice,
+
+    // Operation state
+    isLoading,
+    error,
+    errorDetails,
+    success,
+    currentOperation,
+    isComplete,
+
+    // Actions
+    sendCode,
+    submit,
+    reset,
+    clearError,
+    clearSuccess,
+
+    // Validation
+    canSendCode,
+    canSubmit,
+  };
+}
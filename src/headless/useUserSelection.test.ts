@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook } from '@solidjs/testing-library';
+import { useUserSelection } from './useUserSelection';
+import { useAuth } from '~/hooks/useAuth';
+import { SimpleIdmClient } from '~/api/client';
+import { createFakeBackend, type FakeBackend } from '~/testing/fakeBackend';
+import type { LoginResponse } from '~/types/api';
+
+const CREDENTIALS = { username: 'carol', password: 'Password123!' };
+
+describe('useUserSelection', () => {
+  let backend: FakeBackend;
+  let client: SimpleIdmClient;
+  let selection: LoginResponse;
+
+  beforeEach(async () => {
+    backend = createFakeBackend({
+      users: [
+        { ...CREDENTIALS, email: 'carol@example.com', name: 'Carol', roles: ['user'] },
+        {
+          username: 'carol-admin',
+          email: 'carol@example.com',
+          password: CREDENTIALS.password,
+          name: 'Carol (Admin)',
+          roles: ['admin'],
+          twoFactor: ['totp'],
+        },
+      ],
+    });
+    client = new SimpleIdmClient({ fetch: backend.fetch, retry: false });
+    selection = await client.login(CREDENTIALS);
+  });
+
+  const userId = (username: string) => backend.findUser(username)!.id;
+
+  it('should offer the accounts from the login response', () => {
+    expect(selection.status).toBe('user_selection_required');
+
+    const { result } = renderHook(() => useUserSelection({ client, selection }));
+
+    expect(result.users()).toEqual([
+      expect.objectContaining({ name: 'Carol', roles: ['user'] }),
+      expect.objectContaining({ name: 'Carol (Admin)', roles: ['admin'] }),
+    ]);
+    expect(result.selectedUserId()).toBe(null);
+  });
+
+  it('should sign in as the selected account', async () => {
+    const onSuccess = vi.fn();
+    const { result } = renderHook(() => useUserSelection({ client, selection, onSuccess }));
+
+    await result.selectUser(userId('carol'));
+
+    expect(result.response()?.status).toBe('success');
+    expect(result.selectedUserId()).toBe(userId('carol'));
+    expect(onSuccess).toHaveBeenCalledWith(expect.objectContaining({ status: 'success' }));
+    await expect(client.getCurrentUser()).resolves.toMatchObject({
+      preferred_username: 'carol',
+    });
+  });
+
+  it('should pass on a 2FA challenge for the selected account', async () => {
+    const { result } = renderHook(() => useUserSelection({ client, selection }));
+
+    await result.selectUser(userId('carol-admin'));
+
+    expect(result.response()).toMatchObject({
+      status: '2fa_required',
+      two_factor_methods: [expect.objectContaining({ type: 'totp' })],
+    });
+    expect(result.success()).toBe(null);
+  });
+
+  it('should reject an account that was not offered', async () => {
+    const { result } = renderHook(() => useUserSelection({ client, selection }));
+
+    await result.selectUser('user-unknown');
+
+    expect(result.errorDetails()?.code).toBe('validation_failed');
+    expect(result.selectedUserId()).toBe(null);
+    expect(result.response()).toBe(null);
+  });
+
+  it('should complete the login through useAuth', async () => {
+    const { result } = renderHook(() => useAuth({ client, checkAuthOnMount: false }));
+
+    await expect(result.login(CREDENTIALS)).rejects.toThrow('USER_SELECTION_REQUIRED');
+    expect(result.userSelection()?.users).toHaveLength(2);
+
+    await expect(result.selectUser(userId('carol-admin'))).rejects.toThrow('2FA_REQUIRED');
+    await result.completeTwoFactor({ type: 'totp', code: '123456' });
+
+    expect(result.isAuthenticated()).toBe(true);
+    expect(result.user()).toMatchObject({ preferred_username: 'carol-admin' });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * useUserSelection - Headless account selection hook
+ *
+ * Finishes a login that returned `status: 'user_selection_required'`: the
+ * credentials belong to several accounts and the user picks one to sign in as.
+ */
+
+import { createSignal, Accessor } from 'solid-js';
+import { SimpleIdmClient } from '~/api/client';
+import type { LoginResponse, ApiError } from '~/types/api';
+import { createRequestScope } from './requestScope';
+import { createErrorState } from './errorState';
+import { bindTenant, useTenantConfig } from './tenant';
+
+/**
+ * An account offered for selection
+ */
+export type SelectableUser = NonNullable<LoginResponse['users']>[number];
+
+/**
+ * Configuration for the useUserSelection hook
+ */
+export interface UseUserSelectionConfig {
+  /**
+   * API client instance or base URL string
+   * - If string: Creates a new SimpleIdmClient with the URL
+   * - If SimpleIdmClient: Uses the provided instance
+   */
+  client?: SimpleIdmClient | string;
+
+  /**
+   * The 'user_selection_required' login response (temp token and candidate users)
+   */
+  selection: LoginResponse;
+
+  /**
+   * Callback invoked with the response for the chosen account
+   * Check `status`: the account may still require 2FA
+   */
+  onSuccess?: (response: LoginResponse) => void;
+
+  /**
+   * Callback invoked when selecting an account fails
+   */
+  onError?: (error: string) => void;
+}
+
+/**
+ * State and actions returned by useUserSelection
+ */
+export interface UseUserSelectionReturn {
+  /** Accounts to choose from */
+  users: Accessor<SelectableUser[]>;
+  /** id of the account being or last selected */
+  selectedUserId: Accessor<string | null>;
+
+  // Operation state
+  /** Whether a selection is being submitted */
+  isLoading: Accessor<boolean>;
+  /** Error message if selection failed */
+  error: Accessor<string | null>;
+  /** Structured error (code, status, field errors) from the last failed API call */
+  errorDetails: Accessor<ApiError | null>;
+  /** Success message if the account was signed in */
+  success: Accessor<string | null>;
+  /** Response for the chosen account ('success' or '2fa_required') */
+  response: Accessor<LoginResponse | null>;
+
+  // Actions
+  /** Sign in as one of the offered accounts */
+  selectUser: (userId: string) => Promise<void>;
+  /** Reset to the initial state */
+  reset: () => void;
+  /** Clear error message */
+  clearError: () => void;
+  /** Clear success message */
+  clearSuccess: () => void;
+}
+
+/**
+ * Headless hook for choosing an account during login
+ *
+ * @example
+ * ```tsx
+ * import { useUserSelection } from '@tendant/simple-idm-solid/headless';
+ *
+ * const Picker = (props: { selection: LoginResponse }) => {
+ *   const picker = useUserSelection({
+ *     selection: props.selection,
+ *     onSuccess: (response) => {
+ *       if (response.status === 'success') auth.refreshUser();
+ *     },
+ *   });
+ *
+ *   return (
+ *     <For each={picker.users()}>
+ *       {(user) => (
+ *         <button onClick={() => picker.selectUser(user.id)} disabled={picker.isLoading()}>
+ *           {user.name} ({user.email})
+ *         </button>
+ *       )}
+ *     </For>
+ *   );
+ * };
+ * ```
+ */
+export function useUserSelection(config: UseUserSelectionConfig): UseUserSelectionReturn {
+  const users = () => config.selection.users ?? [];
+
+  const [selectedUserId, setSelectedUserId] = createSignal<string | null>(null);
+
+  // Operation state
+  const [isLoading, setIsLoading] = createSignal(false);
+  const { error, errorDetails, setError, setErrorFrom } = createErrorState();
+  const [success, setSuccess] = createSignal<string | null>(null);
+  const [response, setResponse] = createSignal<LoginResponse | null>(null);
+
+  // Create or use provided API client
+  const client =
+    config.client instanceof SimpleIdmClient
+      ? config.client
+      : new SimpleIdmClient({
+          baseUrl: config.client || '', // Empty string = same origin
+          tenant: useTenantConfig(),
+          onError: (err) => {
+            setError(err.message);
+            config.onError?.(err.message);
+          },
+        });
+
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(client);
+
+  // In-flight requests are aborted on unmount and reset
+  const requests = createRequestScope();
+
+  const selectUser = async (userId: string) => {
+    if (isLoading() || response()) {
+      return;
+    }
+
+    const request = requests.start();
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSuccess(null);
+      setSelectedUserId(userId);
+
+      const selectResponse = await client.selectUser(
+        { user_id: userId, temp_token: config.selection.temp_token },
+        { signal: request.signal },
+      );
+
+      // Ignore responses for aborted or superseded requests
+      if (!request.isCurrent()) return;
+
+      setResponse(selectResponse);
+      if (selectResponse.status === 'success') {
+        setSuccess('Login successful!');
+      }
+      config.onSuccess?.(selectResponse);
+    } catch (err) {
+      if (!request.isCurrent()) return;
+
+      setSelectedUserId(null);
+      const message = setErrorFrom(err, 'Failed to select account');
+      config.onError?.(message);
+    } finally {
+      if (request.isCurrent()) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const reset = () => {
+    requests.abortAll();
+    setSelectedUserId(null);
+    setError(null);
+    setSuccess(null);
+    setResponse(null);
+    setIsLoading(false);
+  };
+
+  const clearError = () => setError(null);
+  const clearSuccess = () => setSuccess(null);
+
+  return {
+    users,
+    selectedUserId,
+
+    // Operation state
+    isLoading,
+    error,
+    errorDetails,
+    success,
+    response,
+
+    // Actions
+    selectUser,
+    reset,
+    clearError,
+    clearSuccess,
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Session timeout - expiry tracking for useAuth
+ *
+ * Refreshes the tokens shortly before the access token expires, signs out
+ * after a period without user activity (in any of the app's tabs), and
+ * reports when the session is about to end so the app can warn the user.
+ */
+import {
+  createEffect,
+  createMemo,
+  createSignal,
+  on,
+  onCleanup,
+  type Accessor,
+} from 'solid-js';
+import type { SimpleIdmClient } from '../api/client';
+import type { SessionExpiry } from '../api/sessionExpiry';
+
+/**
+ * Why a session ended on its own
+ * - `idle`: no user activity for the idle timeout
+ * - `expired`: the tokens expired and couldn't be refreshed
+ */
+export type SessionTimeoutReason = 'idle' | 'expired';
+
+export interface SessionTimeoutOptions {
+  client: SimpleIdmClient;
+  /** Timers only run while signed in */
+  isAuthenticated: Accessor<boolean>;
+  /** Refresh this long before the access token expires; 0 disables */
+  refreshBeforeExpiryMs: number;
+  /** Sign out after this long without activity; 0 disables */
+  idleTimeoutMs: number;
+  /** Warn this long before the session ends */
+  warningMs: number;
+  /** localStorage key to share the last activity across tabs, or null */
+  activityKey: string | null;
+  /** Called when the session ends */
+  onTimeout: (reason: SessionTimeoutReason) => void;
+}
+
+export interface SessionTimeout {
+  expiry: Accessor<SessionExpiry | null>;
+  /** When the session ends unless the user acts */
+  timeoutAt: Accessor<number | null>;
+  /** Whether the session ends within the warning period */
+  isWarning: Accessor<boolean>;
+  /** Count as activity and refresh the tokens; rejects if the refresh fails */
+  extend: () => Promise<void>;
+}
+
+/** Activity is recorded at most this often */
+const ACTIVITY_THROTTLE_MS = 1_000;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll', 'touchstart', 'mousemove'] as const;
+
+/**
+ * Track the session's expiry and idle time
+ * Call inside a component or root; timers and listeners stop on cleanup
+ */
+export function createSessionTimeout(options: SessionTimeoutOptions): SessionTimeout {
+  const { client } = options;
+
+  const [expiry, setExpiry] = createSignal(client.getSessionExpiry());
+  onCleanup(client.onSessionExpiryChange(setExpiry));
+
+  const [lastActivity, setLastActivity] = createSignal(Date.now());
+  const [isWarning, setIsWarning] = createSignal(false);
+
+  const readSharedActivity = () => {
+    if (!options.activityKey) return 0;
+    try {
+      return Number(window.localStorage.getItem(options.activityKey)) || 0;
+    } catch {
+      return 0;
+    }
+  };
+
+  const recordActivity = (at = Date.now()) => {
+    setLastActivity(at);
+    if (!options.activityKey) return;
+    try {
+      window.localStorage.setItem(options.activityKey, String(at));
+    } catch {
+      // Storage unavailable - idle time is tracked per tab
+    }
+  };
+
+  /** Pick up activity from the other tabs; true if there was newer activity */
+  const syncSharedActivity = () => {
+    const shared = readSharedActivity();
+    if (shared <= lastActivity()) return false;
+    setLastActivity(shared);
+    return true;
+  };
+
+  // Signing in counts as activity, however long the page sat before
+  createEffect(
+    on(options.isAuthenticated, (authenticated) => {
+      if (authenticated) setLastActivity(Date.now());
+    }),
+  );
+
+  if (options.idleTimeoutMs > 0 && typeof window !== 'undefined') {
+    const onActivity = () => {
+      // Once warned, only "stay signed in" keeps the session
+      if (isWarning()) return;
+      const now = Date.now();
+      if (now - lastActivity() >= ACTIVITY_THROTTLE_MS) {
+        recordActivity(now);
+      }
+    };
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, onActivity, { passive: true }),
+    );
+    onCleanup(() =>
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, onActivity)),
+    );
+  }
+
+  // Idle deadline, refresh token expiry, and access token expiry if it isn't refreshed ahead
+  const deadlines = createMemo(() => {
+    if (!options.isAuthenticated()) return [];
+    const current = expiry();
+    const candidates: { at: number; reason: SessionTimeoutReason }[] = [];
+    if (options.idleTimeoutMs > 0) {
+      candidates.push({ at: lastActivity() + options.idleTimeoutMs, reason: 'idle' });
+    }
+    if (current?.refreshTokenExpiresAt) {
+      candidates.push({ at: current.refreshTokenExpiresAt, reason: 'expired' });
+    }
+    if (current?.accessTokenExpiresAt && options.refreshBeforeExpiryMs <= 0) {
+      candidates.push({ at: current.accessTokenExpiresAt, reason: 'expired' });
+    }
+    return candidates.sort((a, b) => a.at - b.at);
+  });
+
+  const timeoutAt = createMemo(() => deadlines()[0]?.at ?? null);
+
+  // Refresh ahead of the access token's expiry - at half its remaining life at the earliest,
+  // so short-lived tokens don't refresh in a loop
+  createEffect(() => {
+    const accessExpiresAt = expiry()?.accessTokenExpiresAt;
+    if (!options.isAuthenticated() || !accessExpiresAt || options.refreshBeforeExpiryMs <= 0) {
+      return;
+    }
+    const remaining = accessExpiresAt - Date.now();
+    const delay = Math.max(remaining - options.refreshBeforeExpiryMs, remaining / 2, 0);
+    const timer = setTimeout(() => {
+      // A failed refresh clears the expiry; the 401 handling takes over from there
+      client.refreshToken().catch(() => undefined);
+    }, delay);
+    onCleanup(() => clearTimeout(timer));
+  });
+
+  // Warn, then end the session
+  createEffect(() => {
+    const next = deadlines()[0];
+    if (!next) {
+      setIsWarning(false);
+      return;
+    }
+
+    const warn = () => {
+      if (next.reason === 'idle' && syncSharedActivity()) return;
+      setIsWarning(true);
+    };
+    const untilWarning = next.at - options.warningMs - Date.now();
+    let warningTimer: ReturnType<typeof setTimeout> | undefined;
+    if (untilWarning <= 0) {
+      warn();
+    } else {
+      setIsWarning(false);
+      warningTimer = setTimeout(warn, untilWarning);
+    }
+
+    const timeoutTimer = setTimeout(
+      () => {
+        if (next.reason === 'idle' && syncSharedActivity()) return;
+        setIsWarning(false);
+        options.onTimeout(next.reason);
+      },
+      Math.max(next.at - Date.now(), 0),
+    );
+    onCleanup(() => {
+      clearTimeout(warningTimer);
+      clearTimeout(timeoutTimer);
+    });
+  });
+
+  const extend = async () => {
+    setIsWarning(false);
+    recordActivity();
+    await client.refreshToken();
+  };
+
+  return { expiry, timeoutAt, isWarning, extend };
+}
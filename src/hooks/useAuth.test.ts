@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook } from '@solidjs/testing-library';
+import { useAuth, type UseAuthOptions } from './useAuth';
+import { SimpleIdmClient } from '~/api/client';
+import { DEFAULT_AUTH_CHANNEL } from '~/api/authSync';
+import { createFakeBackend, type FakeBackend } from '~/testing/fakeBackend';
+
+const ALICE = { username: 'alice', email: 'alice@example.com', password: 'Password123!' };
+
+describe('useAuth', () => {
+  let backend: FakeBackend;
+
+  /** A tab of the app: its own client, sharing the browser's cookies */
+  const openTab = (options: Partial<Omit<UseAuthOptions, 'client'>> = {}) => {
+    const client = new SimpleIdmClient({ fetch: backend.fetch, retry: false });
+    return renderHook(() => useAuth({ client, checkAuthOnMount: false, ...options })).result;
+  };
+
+  beforeEach(() => {
+    backend = createFakeBackend({ users: [ALICE] });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should sign in the other tabs after a login', async () => {
+    const tab = openTab();
+    const otherTab = openTab();
+
+    await tab.login({ username: ALICE.username, password: ALICE.password });
+
+    await vi.waitFor(() => expect(otherTab.isAuthenticated()).toBe(true));
+    expect(otherTab.user()).toMatchObject({ email: ALICE.email });
+    expect(otherTab.isLoading()).toBe(false);
+  });
+
+  it('should sign out the other tabs after a logout', async () => {
+    const tab = openTab();
+    await tab.login({ username: ALICE.username, password: ALICE.password });
+    const otherTab = openTab();
+    await otherTab.refreshUser();
+    expect(otherTab.isAuthenticated()).toBe(true);
+
+    await tab.logout();
+
+    await vi.waitFor(() => expect(otherTab.isAuthenticated()).toBe(false));
+    expect(otherTab.user()).toBe(null);
+  });
+
+  it('should fall back to storage events without BroadcastChannel', async () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const tab = openTab();
+    await tab.login({ username: ALICE.username, password: ALICE.password });
+
+    // What another tab's logout writes to localStorage
+    window.dispatchEvent(
+      new StorageEvent('storage', {
+        key: DEFAULT_AUTH_CHANNEL,
+        newValue: JSON.stringify({ event: 'logout', source: 'other-tab', at: Date.now() }),
+      }),
+    );
+
+    expect(tab.isAuthenticated()).toBe(false);
+  });
+
+  it('should stay signed in when a refresh fails without a 401', async () => {
+    const tab = openTab();
+    await tab.login({ username: ALICE.username, password: ALICE.password });
+
+    backend.script('getCurrentUser', 'network_error');
+    await tab.refreshUser();
+
+    expect(tab.isAuthenticated()).toBe(true);
+    expect(tab.user()).toMatchObject({ email: ALICE.email });
+    expect(tab.error()).toBeTruthy();
+  });
+
+  it('should re-check the session when the tab regains focus after a long idle', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const tab = openTab({ refreshOnFocusAfterMs: 60_000 });
+    await tab.login({ username: ALICE.username, password: ALICE.password });
+
+    window.dispatchEvent(new Event('blur'));
+    // The session ends elsewhere, e.g. revoked from another device
+    await new SimpleIdmClient({ fetch: backend.fetch }).logout();
+
+    vi.advanceTimersByTime(30_000);
+    window.dispatchEvent(new Event('focus'));
+    window.dispatchEvent(new Event('blur'));
+    await Promise.resolve();
+    expect(tab.isAuthenticated()).toBe(true);
+
+    vi.advanceTimersByTime(60_000);
+    window.dispatchEvent(new Event('focus'));
+
+    await vi.waitFor(() => expect(tab.isAuthenticated()).toBe(false));
+  });
+
+  it('should refresh the session before the access token expires', async () => {
+    vi.useFakeTimers();
+    backend = createFakeBackend({ users: [ALICE], accessTokenTtlSeconds: 300 });
+    const tab = openTab({ refreshBeforeExpiryMs: 60_000 });
+    await tab.login({ username: ALICE.username, password: ALICE.password });
+
+    const firstExpiry = tab.sessionExpiry()!.accessTokenExpiresAt!;
+    expect(firstExpiry).toBe(Date.now() + 300_000);
+
+    await vi.advanceTimersByTimeAsync(240_000);
+
+    expect(tab.sessionExpiry()!.accessTokenExpiresAt).toBe(firstExpiry + 240_000);
+    expect(tab.isAuthenticated()).toBe(true);
+  });
+
+  it('should wait at least half the lifetime of a short-lived token before refreshing', async () => {
+    vi.useFakeTimers();
+    backend = createFakeBackend({ users: [ALICE], accessTokenTtlSeconds: 60 });
+    const tab = openTab({ refreshBeforeExpiryMs: 120_000 });
+    await tab.login({ username: ALICE.username, password: ALICE.password });
+    const firstExpiry = tab.sessionExpiry()!.accessTokenExpiresAt!;
+
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(tab.sessionExpiry()!.accessTokenExpiresAt).toBe(firstExpiry);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(tab.sessionExpiry()!.accessTokenExpiresAt).toBe(firstExpiry + 30_000);
+  });
+
+  it('should warn before the idle timeout and sign out after it', async () => {
+    vi.useFakeTimers();
+    const onSessionTimeout = vi.fn();
+    const tab = openTab({ idleTimeoutMs: 60_000, sessionWarningMs: 10_000, onSessionTimeout });
+    await tab.login({ username: ALICE.username, password: ALICE.password });
+
+    await vi.advanceTimersByTimeAsync(50_000);
+    expect(tab.isSessionExpiring()).toBe(true);
+    expect(tab.sessionTimeoutAt()! - Date.now()).toBe(10_000);
+
+    // Stay signed in
+    await tab.extendSession();
+    expect(tab.isSessionExpiring()).toBe(false);
+    await vi.advanceTimersByTimeAsync(50_000);
+    expect(tab.isAuthenticated()).toBe(true);
+
+    // Activity in another tab counts too
+    localStorage.setItem(`${DEFAULT_AUTH_CHANNEL}:activity`, String(Date.now()));
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(tab.isSessionExpiring()).toBe(false);
+    expect(tab.isAuthenticated()).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(tab.isAuthenticated()).toBe(false);
+    expect(onSessionTimeout).toHaveBeenCalledWith('idle');
+    expect(backend.currentUser()).toBeUndefined();
+  });
+});
@@ -3,16 +3,72 @@
  *
  * Note: JWT tokens are stored in HTTP-only cookies, so this hook
  * focuses on user state and authentication status, not token management.
+ * The state is kept in sync across the app's tabs.
  */
-import { createSignal, onMount } from 'solid-js';
+import { createSignal, onCleanup, onMount } from 'solid-js';
 import { SimpleIdmClient } from '../api/client';
-import type { LoginRequest, UserInfo } from '../types/api';
+import { DEFAULT_AUTH_CHANNEL, createAuthChannel, type AuthSyncEvent } from '../api/authSync';
+import type { SessionExpiry } from '../api/sessionExpiry';
+import { createSessionTimeout, type SessionTimeoutReason } from './sessionTimeout';
+import { bindTenant } from '../headless/tenant';
+import {
+  ApiException,
+  type LoginRequest,
+  type LoginResponse,
+  type UserInfo,
+  type Validate2FARequest,
+} from '../types/api';
 
 export interface UseAuthOptions {
   client: SimpleIdmClient;
   onLoginSuccess?: (user: UserInfo) => void;
   onLogoutSuccess?: () => void;
+  /**
+   * Check the session on mount
+   * @default true, or false when initialUser is provided
+   */
   checkAuthOnMount?: boolean;
+  /**
+   * User resolved on the server (e.g. with getServerUser)
+   * Seeds the state so the hydrated page matches the server render; null means signed out
+   */
+  initialUser?: UserInfo | null;
+  /**
+   * Re-check the session when the client switches tenant
+   * @default true
+   */
+  refreshOnTenantChange?: boolean;
+  /**
+   * Announce login, logout and user changes to the app's other tabs, and follow theirs
+   * Pass a string to use a custom channel name
+   * @default true
+   */
+  syncTabs?: boolean | string;
+  /**
+   * Re-check the session when the tab regains focus after being in the background
+   * at least this long (milliseconds); 0 disables
+   * @default 300000 (5 minutes)
+   */
+  refreshOnFocusAfterMs?: number;
+  /**
+   * Refresh the session this long before the access token expires (milliseconds); 0 disables
+   * The expiry comes from `expires_in` in sign-in and refresh responses, or the token's `exp` claim
+   * @default 60000
+   */
+  refreshBeforeExpiryMs?: number;
+  /**
+   * Sign out after this long without user activity (milliseconds); 0 disables
+   * Activity in any of the app's tabs counts
+   * @default 0
+   */
+  idleTimeoutMs?: number;
+  /**
+   * How long before the session ends isSessionExpiring() turns true (milliseconds)
+   * @default 60000
+   */
+  sessionWarningMs?: number;
+  /** Called after the session ended on its own - idle timeout or expired tokens */
+  onSessionTimeout?: (reason: SessionTimeoutReason) => void;
 }
 
 export interface UseAuthReturn {
@@ -21,26 +77,166 @@ export interface UseAuthReturn {
   isLoading: () => boolean;
   error: () => string | null;
   login: (credentials: LoginRequest) => Promise<void>;
+  /** Pending '2fa_required' login response, set when login() throws 2FA_REQUIRED */
+  twoFactorChallenge: () => LoginResponse | null;
+  /** Validate a code for the pending 2FA login and sign in */
+  completeTwoFactor: (request: Omit<Validate2FARequest, 'temp_token'>) => Promise<void>;
+  /** Pending multi-account login response, set when login() throws USER_SELECTION_REQUIRED */
+  userSelection: () => LoginResponse | null;
+  /** Sign in as one of userSelection().users; throws 2FA_REQUIRED if that account needs 2FA */
+  selectUser: (userId: string) => Promise<void>;
   logout: () => Promise<void>;
+  /** Re-check the session; announces a changed user or an ended session to the other tabs */
   refreshUser: () => Promise<void>;
   clearError: () => void;
+  /** When the session's tokens expire, if known */
+  sessionExpiry: () => SessionExpiry | null;
+  /** When the session ends unless the user acts (idle timeout or refresh token expiry) */
+  sessionTimeoutAt: () => number | null;
+  /** Whether the session ends within sessionWarningMs - show SessionTimeoutWarning */
+  isSessionExpiring: () => boolean;
+  /** "Stay signed in": counts as activity and refreshes the session */
+  extendSession: () => Promise<void>;
 }
 
+const DEFAULT_REFRESH_ON_FOCUS_AFTER_MS = 5 * 60_000;
+const DEFAULT_REFRESH_BEFORE_EXPIRY_MS = 60_000;
+const DEFAULT_SESSION_WARNING_MS = 60_000;
+
+const isUnauthorized = (err: unknown) => err instanceof ApiException && err.status === 401;
+
+const isSameUser = (a: UserInfo, b: UserInfo) => JSON.stringify(a) === JSON.stringify(b);
+
 export function useAuth(options: UseAuthOptions): UseAuthReturn {
-  const [user, setUser] = createSignal<UserInfo | null>(null);
-  const [isAuthenticated, setIsAuthenticated] = createSignal(false);
+  const [user, setUser] = createSignal<UserInfo | null>(options.initialUser ?? null);
+  const [isAuthenticated, setIsAuthenticated] = createSignal(!!options.initialUser);
   const [isLoading, setIsLoading] = createSignal(false);
   const [error, setError] = createSignal<string | null>(null);
+  const [twoFactorChallenge, setTwoFactorChallenge] = createSignal<LoginResponse | null>(null);
+  const [userSelection, setUserSelection] = createSignal<LoginResponse | null>(null);
 
   // Check authentication status on mount
   onMount(async () => {
-    if (options.checkAuthOnMount !== false) {
+    if (options.checkAuthOnMount ?? options.initialUser === undefined) {
       await refreshUser();
     }
   });
 
+  // Follow the TenantProvider's tenant, if any
+  bindTenant(options.client);
+
+  // A session belongs to one tenant - re-check who is signed in after a switch.
+  // The state only changes once the check answers, so a ProtectedRoute doesn't
+  // redirect a user who is still signed in
+  if (options.refreshOnTenantChange !== false) {
+    const unsubscribe = options.client.onTenantChange(() => {
+      void refreshUser();
+    });
+    onCleanup(unsubscribe);
+  }
+
+  // Other tabs share the session cookies, so tell them when it changes
+  const channelName =
+    typeof options.syncTabs === 'string' ? options.syncTabs : DEFAULT_AUTH_CHANNEL;
+  const channel =
+    options.syncTabs !== false && typeof window !== 'undefined'
+      ? createAuthChannel(channelName)
+      : null;
+  const broadcast = (event: AuthSyncEvent) => channel?.post(event);
+
+  // Re-check the session in the background, without the loading state
+  const syncUser = async () => {
+    try {
+      const userInfo = await options.client.getCurrentUser({ skipCache: true });
+      setUser(userInfo);
+      setIsAuthenticated(true);
+    } catch (err) {
+      // Keep the current state on network or server errors
+      if (isUnauthorized(err)) {
+        setUser(null);
+        setIsAuthenticated(false);
+      }
+    }
+  };
+
+  if (channel) {
+    channel.subscribe((event) => {
+      options.client.invalidateCache();
+      if (event === 'logout') {
+        setUser(null);
+        setIsAuthenticated(false);
+        setTwoFactorChallenge(null);
+        setUserSelection(null);
+      } else {
+        void syncUser();
+      }
+    });
+    onCleanup(channel.close);
+  }
+
+  // The session may have ended or changed while the tab was in the background
+  const refreshOnFocusAfterMs =
+    options.refreshOnFocusAfterMs ?? DEFAULT_REFRESH_ON_FOCUS_AFTER_MS;
+  if (refreshOnFocusAfterMs > 0 && typeof window !== 'undefined') {
+    let inactiveSince: number | null = null;
+    const onInactive = () => {
+      inactiveSince ??= Date.now();
+    };
+    const onActive = () => {
+      if (inactiveSince !== null && Date.now() - inactiveSince >= refreshOnFocusAfterMs) {
+        void syncUser();
+      }
+      inactiveSince = null;
+    };
+    const onVisibilityChange = () =>
+      document.visibilityState === 'hidden' ? onInactive() : onActive();
+
+    window.addEventListener('blur', onInactive);
+    window.addEventListener('focus', onActive);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    onCleanup(() => {
+      window.removeEventListener('blur', onInactive);
+      window.removeEventListener('focus', onActive);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    });
+  }
+
+  const signOutLocally = () => {
+    setUser(null);
+    setIsAuthenticated(false);
+    broadcast('logout');
+  };
+
+  // Refresh ahead of expiry, and end idle or expired sessions
+  const sessionTimeout = createSessionTimeout({
+    client: options.client,
+    isAuthenticated,
+    refreshBeforeExpiryMs: options.refreshBeforeExpiryMs ?? DEFAULT_REFRESH_BEFORE_EXPIRY_MS,
+    idleTimeoutMs: options.idleTimeoutMs ?? 0,
+    warningMs: options.sessionWarningMs ?? DEFAULT_SESSION_WARNING_MS,
+    activityKey: channel ? `${channelName}:activity` : null,
+    onTimeout: async (reason) => {
+      signOutLocally();
+      // End the session on the server too; it may already be gone
+      await options.client.logout().catch(() => undefined);
+      options.onSessionTimeout?.(reason);
+    },
+  });
+
+  const extendSession = async () => {
+    try {
+      await sessionTimeout.extend();
+    } catch (err) {
+      if (isUnauthorized(err)) {
+        signOutLocally();
+        options.onSessionTimeout?.('expired');
+      }
+    }
+  };
+
   // Refresh user info (check if authenticated)
   const refreshUser = async () => {
+    const previous = user();
     try {
       setIsLoading(true);
       setError(null);
@@ -48,12 +244,18 @@ export function useAuth(options: UseAuthOptions): UseAuthReturn {
       const userInfo = await options.client.getCurrentUser();
       setUser(userInfo);
       setIsAuthenticated(true);
+      if (previous && !isSameUser(previous, userInfo)) {
+        broadcast('user-changed');
+      }
     } catch (err) {
-      // Not authenticated or error - this is OK
-      setUser(null);
-      setIsAuthenticated(false);
-      // Don't set error for 401 (not authenticated is expected)
-      if (err && typeof err === 'object' && 'status' in err && err.status !== 401) {
+      // Not authenticated is expected; keep the current state on network or server errors
+      if (isUnauthorized(err)) {
+        setUser(null);
+        setIsAuthenticated(false);
+        if (previous) {
+          broadcast('logout');
+        }
+      } else {
         setError(err instanceof Error ? err.message : 'Failed to check authentication');
       }
     } finally {
@@ -67,22 +269,11 @@ export function useAuth(options: UseAuthOptions): UseAuthReturn {
       setIsLoading(true);
       setError(null);
 
-      const response = await options.client.login(credentials);
+      setTwoFactorChallenge(null);
+      setUserSelection(null);
 
-      // Handle successful login
-      if (response.status === 'success') {
-        // Get full user info from OIDC userinfo endpoint
-        const userInfo = await options.client.getCurrentUser();
-        setUser(userInfo);
-        setIsAuthenticated(true);
-        options.onLoginSuccess?.(userInfo);
-      } else if (response.status === '2fa_required') {
-        // 2FA required - caller should handle this
-        throw new Error('2FA_REQUIRED');
-      } else if (response.status === 'user_selection_required') {
-        // User selection required - caller should handle this
-        throw new Error('USER_SELECTION_REQUIRED');
-      }
+      const response = await options.client.login(credentials);
+      await handleLoginResponse(response);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Login failed';
       setError(message);
@@ -92,6 +283,79 @@ export function useAuth(options: UseAuthOptions): UseAuthReturn {
     }
   };
 
+  // Sign in, or keep the pending step and tell the caller which one it is
+  const handleLoginResponse = async (response: LoginResponse) => {
+    if (response.status === 'success') {
+      await completeLogin();
+    } else if (response.status === '2fa_required') {
+      // 2FA required - caller completes it with completeTwoFactor()
+      setTwoFactorChallenge(response);
+      throw new Error('2FA_REQUIRED');
+    } else if (response.status === 'user_selection_required') {
+      // User selection required - caller completes it with selectUser()
+      setUserSelection(response);
+      throw new Error('USER_SELECTION_REQUIRED');
+    }
+  };
+
+  // Get full user info from OIDC userinfo endpoint once a login succeeded
+  const completeLogin = async () => {
+    const userInfo = await options.client.getCurrentUser();
+    setUser(userInfo);
+    setIsAuthenticated(true);
+    broadcast('login');
+    options.onLoginSuccess?.(userInfo);
+  };
+
+  // Finish a login that required 2FA
+  const completeTwoFactor = async (request: Omit<Validate2FARequest, 'temp_token'>) => {
+    const challenge = twoFactorChallenge();
+    if (!challenge) {
+      throw new Error('No pending 2FA login: call login() first');
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      await options.client.validate2FA({ ...request, temp_token: challenge.temp_token });
+      setTwoFactorChallenge(null);
+      await completeLogin();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Verification failed';
+      setError(message);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Finish a login that matched several accounts
+  const selectUser = async (userId: string) => {
+    const selection = userSelection();
+    if (!selection) {
+      throw new Error('No pending account selection: call login() first');
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await options.client.selectUser({
+        user_id: userId,
+        temp_token: selection.temp_token,
+      });
+      setUserSelection(null);
+      await handleLoginResponse(response);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Account selection failed';
+      setError(message);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Logout
   const logout = async () => {
     try {
@@ -101,6 +365,7 @@ export function useAuth(options: UseAuthOptions): UseAuthReturn {
       await options.client.logout();
       setUser(null);
       setIsAuthenticated(false);
+      broadcast('logout');
       options.onLogoutSuccess?.();
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Logout failed';
@@ -122,8 +387,16 @@ export function useAuth(options: UseAuthOptions): UseAuthReturn {
     isLoading,
     error,
     login,
+    twoFactorChallenge,
+    completeTwoFactor,
+    userSelection,
+    selectUser,
     logout,
     refreshUser,
     clearError,
+    sessionExpiry: sessionTimeout.expiry,
+    sessionTimeoutAt: sessionTimeout.timeoutAt,
+    isSessionExpiring: sessionTimeout.isWarning,
+    extendSession,
   };
 }
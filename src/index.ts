@@ -16,6 +16,9 @@ export type { MagicLinkFormProps } from './components/MagicLinkForm';
 export { MagicLinkValidate } from './components/MagicLinkValidate';
 export type { MagicLinkValidateProps } from './components/MagicLinkValidate';
 
+export { OAuthCallback } from './components/OAuthCallback';
+export type { OAuthCallbackProps } from './components/OAuthCallback';
+
 export {
   PasswordlessRegistrationForm,
   PasswordRegistrationForm,
@@ -31,6 +34,30 @@ export type { ProfileSettingsFormProps } from './components/ProfileSettingsForm'
 export { TwoFactorAuthSetup } from './components/TwoFactorAuthSetup';
 export type { TwoFactorAuthSetupProps } from './components/TwoFactorAuthSetup';
 
+export { TwoFactorChallenge } from './components/TwoFactorChallenge';
+export type { TwoFactorChallengeProps } from './components/TwoFactorChallenge';
+
+export { AccountPicker } from './components/AccountPicker';
+export type { AccountPickerProps } from './components/AccountPicker';
+
+export { ExternalProviderButtons } from './components/ExternalProviderButtons';
+export type { ExternalProviderButtonsProps } from './components/ExternalProviderButtons';
+
+export { PasskeyManager } from './components/PasskeyManager';
+export type { PasskeyManagerProps } from './components/PasskeyManager';
+
+export { ActiveSessionsList } from './components/ActiveSessionsList';
+export type { ActiveSessionsListProps } from './components/ActiveSessionsList';
+
+export { SessionTimeoutWarning } from './components/SessionTimeoutWarning';
+export type { SessionTimeoutWarningProps } from './components/SessionTimeoutWarning';
+
+export { TrustedDevices } from './components/TrustedDevices';
+export type { TrustedDevicesProps } from './components/TrustedDevices';
+
+export { BackupCodesPanel } from './components/BackupCodesPanel';
+export type { BackupCodesPanelProps } from './components/BackupCodesPanel';
+
 export { EmailVerificationPage } from './components/EmailVerificationPage';
 export type { EmailVerificationPageProps } from './components/EmailVerificationPage';
 
@@ -43,6 +70,9 @@ export type { ResetPasswordFormProps } from './components/ResetPasswordForm';
 export { ProtectedRoute, ProtectedRouteWithLoading } from './components/ProtectedRoute';
 export type { ProtectedRouteProps } from './components/ProtectedRoute';
 
+export { TenantProvider } from './components/TenantProvider';
+export type { TenantProviderProps } from './components/TenantProvider';
+
 // ============================================================================
 // Primitives (optional export for customization)
 // ============================================================================
@@ -72,7 +102,32 @@ export type { LabelProps } from './primitives/Label';
 // ============================================================================
 
 export { SimpleIdmClient } from './api/client';
-export type { ApiClientConfig } from './api/client';
+export type { ApiClientConfig, AuthMode } from './api/client';
+
+// Bearer token storage
+export {
+  createMemoryTokenStorage,
+  createWebStorageTokenStorage,
+  createWebStorageDeviceTokenStorage,
+} from './api/tokenStorage';
+export type { AuthTokens, TokenStorage, DeviceTokenStorage } from './api/tokenStorage';
+
+// CSRF protection
+export { DEFAULT_CSRF_CONFIG } from './api/csrf';
+export type { CsrfConfig } from './api/csrf';
+
+// Error taxonomy
+export { DEFAULT_ERROR_MESSAGES, getErrorMessage } from './api/errors';
+export type { ApiOperation } from './api/errors';
+
+// Response validation
+export { RESPONSE_VALIDATORS, validateResponse } from './api/validation';
+export type {
+  ValidationMode,
+  ValidationIssue,
+  ResponseValidationError,
+  Validator,
+} from './api/validation';
 
 // API Configuration
 export {
@@ -84,12 +139,92 @@ export {
   type PrefixConfig,
 } from './api/config';
 
+// API Interceptors
+export type { Interceptor, InterceptedRequest } from './api/interceptors';
+
+// Request cancellation
+export { isAbortError } from './api/abort';
+export type { RequestCallOptions } from './api/abort';
+
+// Retry policy
+export { DEFAULT_RETRY_POLICY, parseRetryAfter } from './api/retry';
+export type { RetryPolicy } from './api/retry';
+
+// Response cache
+export { DEFAULT_CACHE_TTLS } from './api/cache';
+export type { CacheConfig, CacheableOperation } from './api/cache';
+
+// Request telemetry
+export { DEFAULT_REDACTED_FIELDS, REDACTED } from './api/telemetry';
+export type {
+  TelemetryConfig,
+  TelemetryEvent,
+  RequestStartEvent,
+  RequestResponseEvent,
+  RequestErrorEvent,
+  RequestRetryEvent,
+  RetryReason,
+} from './api/telemetry';
+
+// Offline handling
+export { DEFAULT_OFFLINE_CONFIG } from './api/connectivity';
+export type { OfflineConfig } from './api/connectivity';
+
+// Cross-tab auth sync
+export { createAuthChannel, DEFAULT_AUTH_CHANNEL } from './api/authSync';
+export type { AuthChannel, AuthSyncEvent } from './api/authSync';
+
+// Session expiry
+export { readTokenExpiry } from './api/sessionExpiry';
+export type { SessionExpiry } from './api/sessionExpiry';
+
+// Backend discovery
+export { DEFAULT_DISCOVERY_OPTIONS, discoverBackend } from './api/discovery';
+export type {
+  BackendFeatures,
+  BackendLayout,
+  CapabilitiesDocument,
+  DiscoveryOptions,
+  DiscoveryResult,
+  DiscoverySource,
+} from './api/discovery';
+
+// OAuth2 Authorization Code + PKCE
+export { DEFAULT_OAUTH_SCOPE, createCodeChallenge, generateRandomString } from './api/oauth';
+export type {
+  OAuthConfig,
+  AuthorizeOptions,
+  AuthorizationRequest,
+  OAuthTokenResponse,
+  OAuthCallbackResult,
+} from './api/oauth';
+
+// Passkeys (WebAuthn)
+export {
+  isPasskeySupported,
+  isConditionalMediationAvailable,
+  bufferToBase64Url,
+  base64UrlToBuffer,
+} from './api/webauthn';
+
+// Multi-tenant support
+export { DEFAULT_TENANT_CONFIG } from './api/tenant';
+export type { TenantConfig, TenantStrategy } from './api/tenant';
+
+// ============================================================================
+// Server-Side Rendering
+// ============================================================================
+
+export { createServerClient, getServerUser, DEFAULT_FORWARDED_HEADERS } from './server/ssr';
+export type { ServerRequestEvent, ServerClientConfig } from './server/ssr';
+
 // ============================================================================
 // Hooks
 // ============================================================================
 
 export { useAuth } from './hooks/useAuth';
 export type { UseAuthOptions, UseAuthReturn } from './hooks/useAuth';
+export type { SessionTimeoutReason } from './hooks/sessionTimeout';
 
 export { useForm, validators } from './hooks/useForm';
 export type {
@@ -109,9 +244,17 @@ export {
   useRegistration,
   useProfile,
   use2FA,
+  useTwoFactorChallenge,
+  useUserSelection,
+  useExternalLogin,
+  usePasskeys,
+  useSessions,
+  useTrustedDevices,
   useEmailVerification,
   useForgotPassword,
   useResetPassword,
+  useTenant,
+  useOnlineStatus,
 } from './headless';
 
 export type {
@@ -130,6 +273,24 @@ export type {
   Use2FAReturn,
   TwoFAType,
   TwoFAOperation,
+  UseTwoFactorChallengeConfig,
+  UseTwoFactorChallengeReturn,
+  TwoFactorChallengeOperation,
+  UseUserSelectionConfig,
+  UseUserSelectionReturn,
+  SelectableUser,
+  UseExternalLoginConfig,
+  UseExternalLoginReturn,
+  ExternalLinkRequest,
+  UsePasskeysConfig,
+  UsePasskeysReturn,
+  PasskeyOperation,
+  UseSessionsConfig,
+  UseSessionsReturn,
+  SessionOperation,
+  UseTrustedDevicesConfig,
+  UseTrustedDevicesReturn,
+  TrustedDeviceOperation,
   UseEmailVerificationConfig,
   UseEmailVerificationReturn,
   EmailVerificationOperation,
@@ -140,6 +301,7 @@ export type {
   UseResetPasswordReturn,
   HeadlessBaseConfig,
   HeadlessBaseState,
+  TenantContextValue,
 } from './headless';
 
 // ============================================================================
@@ -149,6 +311,28 @@ export type {
 export type {
   LoginRequest,
   LoginResponse,
+  SelectUserRequest,
+  ExternalProvider,
+  ExternalProvidersResponse,
+  ExternalLoginResult,
+  LinkExternalAccountRequest,
+  Passkey,
+  PasskeyListResponse,
+  PasskeyRegistrationOptions,
+  PasskeyLoginOptions,
+  BeginPasskeyLoginRequest,
+  FinishPasskeyRegistrationRequest,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  PublicKeyCredentialDescriptorJSON,
+  RegistrationCredentialJSON,
+  AuthenticationCredentialJSON,
+  Session,
+  SessionListResponse,
+  RevokeSessionsResponse,
+  TrustedDevice,
+  TrustedDeviceListResponse,
+  RenameTrustedDeviceRequest,
   MagicLinkRequest,
   MagicLinkResponse,
   MagicLinkValidateResponse,
@@ -158,6 +342,7 @@ export type {
   IdmUser,
   TokenRefreshResponse,
   ApiError,
+  ApiErrorCode,
   TwoFactorMethod,
   UpdateUsernameRequest,
   UpdatePhoneRequest,
@@ -166,7 +351,11 @@ export type {
   Setup2FAResponse,
   Enable2FARequest,
   Validate2FARequest,
+  Validate2FAResponse,
   TwoFAStatus,
+  BackupCodeStatus,
+  RegenerateBackupCodesRequest,
+  RegenerateBackupCodesResponse,
   Send2FACodeRequest,
   VerifyEmailRequest,
   VerifyEmailResponse,
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook } from '@solidjs/testing-library';
+import { SimpleIdmClient } from '~/api/client';
+import { useAuth } from '~/hooks/useAuth';
+import { createServerClient, getServerUser, type ServerRequestEvent } from './ssr';
+
+const BASE_URL = 'http://idm.internal:4000';
+const USERINFO_URL = `${BASE_URL}/api/v2/oauth2/userinfo`;
+const REFRESH_URL = `${BASE_URL}/api/v2/auth/token/refresh`;
+const USER = { sub: 'user-1', email: 'alice@example.com' };
+
+function createEvent(headers: Record<string, string> = {}): ServerRequestEvent {
+  return {
+    request: new Request('http://app.example.com/dashboard', { headers }),
+    response: { headers: new Headers() },
+  };
+}
+
+function jsonResponse(status: number, body: unknown, setCookies: string[] = []): Response {
+  const headers = new Headers({ 'Content-Type': 'application/json' });
+  setCookies.forEach((cookie) => headers.append('Set-Cookie', cookie));
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+function cookieSent(fetchMock: ReturnType<typeof vi.fn>, call: number): string | null {
+  return new Headers(fetchMock.mock.calls[call]?.[1]?.headers).get('Cookie');
+}
+
+function callsTo(fetchMock: ReturnType<typeof vi.fn>, url: string): number {
+  return fetchMock.mock.calls.filter(([input]) => String(input) === url).length;
+}
+
+describe('SSR helpers', () => {
+  it('should forward the incoming cookies and client headers', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse(200, USER));
+    const event = createEvent({
+      Cookie: 'access_token=abc; theme=dark',
+      'User-Agent': 'test-agent',
+    });
+
+    const client = createServerClient(event, {
+      baseUrl: BASE_URL,
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+    await client.getCurrentUser();
+
+    const headers = new Headers(fetchMock.mock.calls[0]?.[1]?.headers);
+    expect(headers.get('Cookie')).toBe('access_token=abc; theme=dark');
+    expect(headers.get('User-Agent')).toBe('test-agent');
+  });
+
+  it('should use refreshed cookies and pass Set-Cookie on to the response', async () => {
+    const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input) === REFRESH_URL) {
+        return jsonResponse(200, {}, ['access_token=fresh; Path=/; HttpOnly']);
+      }
+      const cookie = new Headers(init?.headers).get('Cookie') ?? '';
+      return cookie.includes('access_token=fresh')
+        ? jsonResponse(200, USER)
+        : jsonResponse(401, { error: 'token_expired' });
+    });
+    const event = createEvent({ Cookie: 'access_token=stale; refresh_token=r1' });
+
+    const user = await getServerUser(event, {
+      baseUrl: BASE_URL,
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    expect(user).toEqual(USER);
+    expect(cookieSent(fetchMock, 2)).toBe('access_token=fresh; refresh_token=r1');
+    expect(event.response?.headers.getSetCookie()).toEqual([
+      'access_token=fresh; Path=/; HttpOnly',
+    ]);
+  });
+
+  it('should drop cookies the server deletes and honor mapSetCookie', async () => {
+    const fetchMock = vi.fn(async () =>
+      jsonResponse(200, USER, ['session=; Max-Age=0', 'tracking=1; Domain=idm.internal']),
+    );
+    const event = createEvent({ Cookie: 'session=s1' });
+
+    const client = createServerClient(event, {
+      baseUrl: BASE_URL,
+      fetch: fetchMock as unknown as typeof fetch,
+      mapSetCookie: (cookie) => (cookie.includes('Domain=') ? null : cookie),
+    });
+    await client.getCurrentUser();
+    await client.getCurrentUser();
+
+    expect(cookieSent(fetchMock, 1)).toBe('tracking=1');
+    expect(event.response?.headers.getSetCookie()).toEqual([
+      'session=; Max-Age=0',
+      'session=; Max-Age=0',
+    ]);
+  });
+
+  it('should resolve to null for anonymous and signed-out visitors', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse(401, { error: 'unauthorized' }));
+    const config = { baseUrl: BASE_URL, fetch: fetchMock as unknown as typeof fetch };
+
+    await expect(getServerUser(createEvent(), config)).resolves.toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await expect(
+      getServerUser(createEvent({ Cookie: 'access_token=expired' }), config),
+    ).resolves.toBeNull();
+    expect(callsTo(fetchMock, USERINFO_URL)).toBe(1);
+  });
+
+  it('should seed useAuth with the server-resolved user', () => {
+    const client = new SimpleIdmClient({ baseUrl: BASE_URL });
+    const getCurrentUser = vi.spyOn(client, 'getCurrentUser');
+
+    const { result } = renderHook(() => useAuth({ client, initialUser: USER }));
+
+    expect(result.user()).toEqual(USER);
+    expect(result.isAuthenticated()).toBe(true);
+    expect(getCurrentUser).not.toHaveBeenCalled();
+  });
+});
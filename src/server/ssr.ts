@@ -0,0 +1,181 @@
+/**
+ * Server-Side Rendering Helpers
+ *
+ * During SSR there is no browser to attach cookies, so the client has to
+ * forward the incoming request's cookies itself and hand any `Set-Cookie`
+ * from simple-idm (e.g. a silent refresh) back to the outgoing response.
+ *
+ * Works with SolidStart's `getRequestEvent()` and any server exposing
+ * a standard `Request` plus mutable response headers.
+ */
+
+import { SimpleIdmClient, type ApiClientConfig } from '../api/client';
+import { ApiException, type UserInfo } from '../types/api';
+
+/**
+ * The parts of a server request event the helpers use
+ * Structurally compatible with SolidStart's `RequestEvent`
+ */
+export interface ServerRequestEvent {
+  /** Incoming request */
+  request: Request;
+  /** Outgoing response; Set-Cookie headers from simple-idm are appended here */
+  response?: { headers: Headers };
+}
+
+/**
+ * Server client configuration
+ */
+export interface ServerClientConfig extends ApiClientConfig {
+  /**
+   * Absolute URL of the simple-idm backend
+   * Required: relative URLs can't be resolved on the server
+   */
+  baseUrl: string;
+  /**
+   * Request headers forwarded to simple-idm, besides cookies
+   * @default DEFAULT_FORWARDED_HEADERS
+   */
+  forwardHeaders?: string[];
+  /**
+   * Rewrite or drop each Set-Cookie before it is added to the response
+   * Return null to drop it, e.g. to strip a Domain that only matches the backend
+   */
+  mapSetCookie?: (setCookie: string) => string | null;
+}
+
+/**
+ * Headers forwarded by default so simple-idm sees the real client
+ * (rate limiting, audit logs, localized messages)
+ */
+export const DEFAULT_FORWARDED_HEADERS = ['user-agent', 'accept-language', 'x-forwarded-for'];
+
+/**
+ * Create a client that acts on behalf of the incoming request
+ *
+ * Cookies from the request are sent with every call. Cookies simple-idm sets
+ * (e.g. after a silent refresh) are used for the rest of the server render and
+ * appended to `event.response.headers` so the browser receives them too.
+ *
+ * @example
+ * const client = createServerClient(getRequestEvent()!, { baseUrl: process.env.IDM_URL! });
+ */
+export function createServerClient(
+  event: ServerRequestEvent,
+  config: ServerClientConfig,
+): SimpleIdmClient {
+  const { forwardHeaders = DEFAULT_FORWARDED_HEADERS, mapSetCookie, ...clientConfig } = config;
+  const baseFetch = clientConfig.fetch ?? fetch.bind(globalThis);
+  const jar = parseCookieHeader(event.request.headers.get('Cookie'));
+
+  const serverFetch: typeof fetch = async (input, init) => {
+    const headers = new Headers(init?.headers);
+    for (const name of forwardHeaders) {
+      const value = event.request.headers.get(name);
+      if (value !== null && !headers.has(name)) {
+        headers.set(name, value);
+      }
+    }
+    if (jar.size > 0) {
+      headers.set('Cookie', serializeCookies(jar));
+    }
+
+    const response = await baseFetch(input, { ...init, headers });
+
+    for (const setCookie of getSetCookies(response.headers)) {
+      applySetCookie(jar, setCookie);
+      const forwarded = mapSetCookie ? mapSetCookie(setCookie) : setCookie;
+      if (forwarded !== null) {
+        event.response?.headers.append('Set-Cookie', forwarded);
+      }
+    }
+
+    return response;
+  };
+
+  return new SimpleIdmClient({ ...clientConfig, fetch: serverFetch });
+}
+
+/**
+ * Resolve the signed-in user during SSR
+ *
+ * An expired access token is refreshed transparently (the new cookies reach
+ * the browser through the response).
+ *
+ * @returns The user, or null when the request isn't authenticated
+ * @throws ApiException for other failures (e.g. simple-idm unreachable)
+ */
+export async function getServerUser(
+  event: ServerRequestEvent,
+  config: ServerClientConfig,
+): Promise<UserInfo | null> {
+  // Skip the round trip for anonymous visitors
+  if (!event.request.headers.get('Cookie')) {
+    return null;
+  }
+
+  try {
+    return await createServerClient(event, config).getCurrentUser();
+  } catch (error) {
+    if (error instanceof ApiException && error.status === 401) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// Cookies
+// ============================================================================
+
+function parseCookieHeader(header: string | null): Map<string, string> {
+  const jar = new Map<string, string>();
+  for (const part of (header ?? '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      jar.set(part.slice(0, index).trim(), part.slice(index + 1).trim());
+    }
+  }
+  return jar;
+}
+
+function serializeCookies(jar: Map<string, string>): string {
+  return [...jar].map(([name, value]) => `${name}=${value}`).join('; ');
+}
+
+/**
+ * All Set-Cookie headers of a response
+ * getSetCookie() keeps cookies separate; get() joins them with commas
+ */
+function getSetCookies(headers: Headers): string[] {
+  if (typeof headers.getSetCookie === 'function') {
+    return headers.getSetCookie();
+  }
+  const joined = headers.get('Set-Cookie');
+  // Split on commas that start a new cookie, not the ones inside Expires dates
+  return joined ? joined.split(/,(?=\s*[^;,=\s]+=)/).map((cookie) => cookie.trim()) : [];
+}
+
+/**
+ * Update the jar from a Set-Cookie header (a past expiry or Max-Age <= 0 deletes)
+ */
+function applySetCookie(jar: Map<string, string>, setCookie: string): void {
+  const [pair = '', ...attributes] = setCookie.split(';');
+  const index = pair.indexOf('=');
+  if (index <= 0) return;
+
+  const name = pair.slice(0, index).trim();
+  const value = pair.slice(index + 1).trim();
+  const expired = attributes.some((attribute) => {
+    const [key = '', attributeValue = ''] = attribute.split('=').map((s) => s.trim());
+    if (key.toLowerCase() === 'max-age') return Number(attributeValue) <= 0;
+    if (key.toLowerCase() === 'expires') return Date.parse(attributeValue) <= Date.now();
+    return false;
+  });
+
+  if (expired) {
+    jar.delete(name);
+  } else {
+    jar.set(name, value);
+  }
+}
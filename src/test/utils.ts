@@ -1,6 +1,6 @@
 import { SimpleIdmClient } from '~/api/client';
 import type { ApiClientConfig } from '~/api/client';
-import type { LoginResponse, ApiError } from '~/types/api';
+import type { LoginResponse, ApiError, ApiErrorCode } from '~/types/api';
 import { ApiException } from '~/types/api';
 
 /**
@@ -40,14 +40,15 @@ export function createMockClient(configOverrides?: Partial<ApiClientConfig>): Si
 /**
  * Mock successful login response
  */
-export function mockLoginSuccess(user = { id: '1', username: 'testuser', email: 'test@example.com' }): LoginResponse {
+export function mockLoginSuccess(
+  user = { id: '1', name: 'testuser', email: 'test@example.com', roles: ['user'] },
+): LoginResponse {
   return {
     status: 'success',
     message: 'Login successful',
     user,
     access_token: 'mock-access-token',
     refresh_token: 'mock-refresh-token',
-    expires_in: 3600,
   };
 }
 
@@ -66,8 +67,8 @@ export function mock2FARequired(tempToken = 'mock-temp-token'): LoginResponse {
  * Mock multiple users response
  */
 export function mockMultipleUsers(users = [
-  { id: '1', username: 'user1', email: 'user1@example.com' },
-  { id: '2', username: 'user2', email: 'user2@example.com' },
+  { id: '1', name: 'user1', email: 'user1@example.com', roles: ['user'] },
+  { id: '2', name: 'user2', email: 'user2@example.com', roles: ['user'] },
 ]): LoginResponse {
   return {
     status: 'user_selection_required',
@@ -80,11 +81,15 @@ export function mockMultipleUsers(users = [
 /**
  * Mock API error
  */
-export function mockApiError(message = 'Invalid credentials', status = 401): ApiException {
+export function mockApiError(
+  message = 'Invalid credentials',
+  status = 401,
+  code: ApiErrorCode = 'invalid_credentials',
+): ApiException {
   return new ApiException(status, {
     message,
     status,
-    code: 'UNAUTHORIZED',
+    code,
   });
 }
 
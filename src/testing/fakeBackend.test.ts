@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SimpleIdmClient } from '~/api/client';
+import { buildPrefixesFromBase, DEFAULT_V1_PREFIXES } from '~/api/config';
+import { ApiException } from '~/types/api';
+import { createFakeBackend, type FakeBackend } from './fakeBackend';
+
+const ALICE = {
+  username: 'alice',
+  email: 'alice@example.com',
+  password: 'Password123!',
+  name: 'Alice',
+};
+
+describe('createFakeBackend', () => {
+  let backend: FakeBackend;
+  let client: SimpleIdmClient;
+
+  beforeEach(() => {
+    backend = createFakeBackend({ users: [ALICE] });
+    client = new SimpleIdmClient({ fetch: backend.fetch, retry: false });
+  });
+
+  describe('Login', () => {
+    it('should log in with valid credentials and serve the user info', async () => {
+      const response = await client.login({ username: 'alice', password: ALICE.password });
+
+      expect(response.status).toBe('success');
+      expect(response.user).toMatchObject({ name: 'Alice', email: ALICE.email });
+      await expect(client.getCurrentUser()).resolves.toMatchObject({
+        preferred_username: 'alice',
+        email: ALICE.email,
+      });
+    });
+
+    it('should reject invalid credentials', async () => {
+      const error = await client
+        .login({ username: 'alice', password: 'wrong' })
+        .catch((err: ApiException) => err);
+
+      expect(error).toBeInstanceOf(ApiException);
+      expect(error.code).toBe('invalid_credentials');
+    });
+
+    it('should end the session on logout', async () => {
+      await client.login({ username: 'alice', password: ALICE.password });
+      await client.logout();
+
+      await expect(client.getCurrentUser()).rejects.toMatchObject({ status: 401 });
+    });
+
+    it('should let the client refresh an expired session', async () => {
+      await client.login({ username: 'alice', password: ALICE.password });
+      backend.expireSession();
+
+      await expect(client.getCurrentUser()).resolves.toMatchObject({ email: ALICE.email });
+    });
+
+    it('should work in bearer mode', async () => {
+      const bearerClient = new SimpleIdmClient({ fetch: backend.fetch, authMode: 'bearer' });
+
+      await bearerClient.login({ username: 'alice', password: ALICE.password });
+
+      expect(await bearerClient.getTokens()).toMatchObject({ accessToken: expect.any(String) });
+      await expect(bearerClient.getCurrentUser()).resolves.toMatchObject({ email: ALICE.email });
+    });
+  });
+
+  describe('Two-Factor Authentication', () => {
+    it('should require and complete a 2FA challenge', async () => {
+      backend.addUser({
+        username: 'bob',
+        email: 'bob@example.com',
+        password: 'Password123!',
+        twoFactor: ['email'],
+      });
+
+      const response = await client.login({ username: 'bob', password: 'Password123!' });
+      expect(response.status).toBe('2fa_required');
+      expect(response.two_factor_methods?.[0]).toMatchObject({ type: 'email' });
+
+      await client.send2FACode({ type: 'email', delivery_option: 'bob@example.com' });
+      const code = backend.lastMessage('2fa_code', 'bob@example.com')!.token;
+      await client.validate2FA({ type: 'email', code });
+
+      await expect(client.getCurrentUser()).resolves.toMatchObject({ email: 'bob@example.com' });
+    });
+
+    it('should set up and enable TOTP', async () => {
+      await client.login({ username: 'alice', password: ALICE.password });
+
+      const setup = await client.setup2FATOTP();
+      expect(setup.secret).toBeTruthy();
+      await client.enable2FA({ type: 'totp', code: '123456' });
+
+      await expect(client.get2FAStatus()).resolves.toEqual({ enabled: true, types: ['totp'] });
+    });
+  });
+
+  describe('Tokens sent by email', () => {
+    it('should log in through a magic link', async () => {
+      await client.requestMagicLink({ username: ALICE.email });
+      const token = backend.lastMessage('magic_link', ALICE.email)!.token;
+
+      const response = await client.validateMagicLink(token);
+
+      expect(response.status).toBe('success');
+      expect(backend.currentUser()?.username).toBe('alice');
+    });
+
+    it('should verify the email of a new account', async () => {
+      await client.signup({ email: 'carol@example.com', password: 'Password123!' });
+      const token = backend.lastMessage('email_verification')!.token;
+
+      await client.verifyEmail({ token });
+
+      expect(backend.findUser('carol@example.com')?.emailVerified).toBe(true);
+    });
+
+    it('should reset a password with a single-use token', async () => {
+      await client.initiatePasswordResetByUsername('alice');
+      const token = backend.lastMessage('password_reset')!.token;
+
+      await client.resetPassword({ token, new_password: 'NewPassword456!' });
+      await expect(
+        client.resetPassword({ token, new_password: 'Another789!' }),
+      ).rejects.toMatchObject({ code: 'token_invalid' });
+
+      await expect(
+        client.login({ username: 'alice', password: 'NewPassword456!' }),
+      ).resolves.toMatchObject({ status: 'success' });
+    });
+  });
+
+  describe('Scripted Failures', () => {
+    it('should rate limit the next call', async () => {
+      backend.script('login', 'rate_limited', { retryAfterSeconds: 60 });
+
+      const error = await client
+        .login({ username: 'alice', password: ALICE.password })
+        .catch((err: ApiException) => err);
+
+      expect(error.code).toBe('rate_limited');
+      expect(error.retryAfterMs).toBe(60000);
+      await expect(
+        client.login({ username: 'alice', password: ALICE.password }),
+      ).resolves.toMatchObject({ status: 'success' });
+    });
+
+    it('should force a 2FA challenge', async () => {
+      backend.script('login', '2fa_required');
+
+      const response = await client.login({ username: 'alice', password: ALICE.password });
+
+      expect(response.status).toBe('2fa_required');
+    });
+
+    it('should report expired link tokens', async () => {
+      backend.script('resetPassword', 'token_expired');
+
+      await expect(
+        client.resetPassword({ token: 'any', new_password: 'Password456!' }),
+      ).rejects.toMatchObject({ code: 'token_expired' });
+    });
+
+    it('should simulate network failures', async () => {
+      backend.script('getPasswordPolicy', 'network_error');
+
+      await expect(client.getPasswordPolicy()).rejects.toMatchObject({ code: 'network' });
+    });
+  });
+
+  it('should honor custom prefixes', async () => {
+    const prefixes = buildPrefixesFromBase('/api/v1/idm');
+    const v1Backend = createFakeBackend({ prefixes, users: [ALICE] });
+    const v1Client = new SimpleIdmClient({ fetch: v1Backend.fetch, basePrefix: '/api/v1/idm' });
+
+    await expect(
+      v1Client.login({ username: 'alice', password: ALICE.password }),
+    ).resolves.toMatchObject({ status: 'success' });
+    // A client on the default v2 prefixes misses every route
+    const v2Client = new SimpleIdmClient({ fetch: v1Backend.fetch, retry: false });
+    await expect(v2Client.getPasswordPolicy()).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should be found by discovery', async () => {
+    const v1Backend = createFakeBackend({ prefixes: DEFAULT_V1_PREFIXES, users: [ALICE] });
+
+    const discovered = await SimpleIdmClient.discover({ fetch: v1Backend.fetch });
+
+    expect(discovered.getDiscovery()).toMatchObject({ source: 'probe', layout: 'v1' });
+    await expect(
+      discovered.login({ username: 'alice', password: ALICE.password }),
+    ).resolves.toMatchObject({ status: 'success' });
+  });
+
+  it('should restore the seeded state on reset', async () => {
+    backend.addUser({ username: 'dave', email: 'dave@example.com' });
+    await client.login({ username: 'alice', password: ALICE.password });
+
+    backend.reset();
+
+    expect(backend.findUser('dave')).toBeUndefined();
+    expect(backend.currentUser()).toBeUndefined();
+    expect(backend.findUser('alice')).toBeDefined();
+  });
+});
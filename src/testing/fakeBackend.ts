@@ -0,0 +1,1460 @@
+/**
+ * Fake simple-idm Backend
+ *
+ * An in-memory implementation of the simple-idm API exposed as a `fetch`
+ * function. Pass it to `SimpleIdmClient` (or install it as the global fetch)
+ * to run integration tests and the dev page without the Go backend.
+ *
+ * Users, sessions, 2FA secrets, passkeys, trusted devices and magic-link, verification, reset
+ * and account-link tokens are kept in memory. Emails and SMS codes are captured in `outbox`, and
+ * failure modes can be scripted per client method.
+ *
+ * @example
+ * ```ts
+ * const backend = createFakeBackend({
+ *   users: [{ username: 'alice', email: 'alice@example.com', password: 'Secret123!' }],
+ * });
+ * const client = new SimpleIdmClient({ fetch: backend.fetch });
+ *
+ * backend.script('login', 'rate_limited');
+ * await client.login({ username: 'alice', password: 'Secret123!' }); // 429
+ * ```
+ */
+
+import { type PrefixConfig, DEFAULT_V2_PREFIXES } from '~/api/config';
+import type { ApiOperation } from '~/api/errors';
+import { sleep } from '~/api/retry';
+import { base64UrlToBuffer, bufferToBase64Url } from '~/api/webauthn';
+import type {
+  ExternalProvider,
+  IdmUser,
+  LoginResponse,
+  Passkey,
+  PasswordPolicyResponse,
+  Session,
+  TrustedDevice,
+  TwoFactorMethod,
+  UserInfo,
+} from '~/types/api';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FakeTwoFAType = 'totp' | 'sms' | 'email';
+
+/**
+ * User to seed the fake backend with
+ */
+export interface FakeUserSeed {
+  username: string;
+  /** Users sharing an email and password are offered as a choice at login */
+  email: string;
+  /** Omit for a passwordless user */
+  password?: string;
+  name?: string;
+  roles?: string[];
+  phone?: string;
+  /** @default true */
+  emailVerified?: boolean;
+  /** Enabled 2FA methods - login returns `2fa_required` when non-empty */
+  twoFactor?: FakeTwoFAType[];
+  /** Locked accounts are rejected at login with 423 */
+  locked?: boolean;
+  /** External provider ids that sign in to this account without linking */
+  linkedProviders?: string[];
+  /** Unused backup codes, as if issued by an earlier 2FA setup */
+  backupCodes?: string[];
+}
+
+/**
+ * User as stored by the fake backend
+ */
+export interface FakeUser extends Required<Omit<FakeUserSeed, 'password' | 'phone'>> {
+  id: string;
+  password?: string;
+  phone?: string;
+  /** TOTP secret from the last setup (before or after enabling) */
+  totpSecret?: string;
+  /** Backup codes issued in the last setup or regeneration */
+  backupCodesTotal: number;
+  backupCodesGeneratedAt?: string;
+  /** Registered passkeys; the id is the credential id */
+  passkeys: Passkey[];
+}
+
+/**
+ * Message "sent" by the fake backend
+ */
+export interface FakeOutboxMessage {
+  type: 'magic_link' | 'email_verification' | 'password_reset' | '2fa_code';
+  /** Email address or phone number */
+  to: string;
+  /** Token or code contained in the message */
+  token: string;
+}
+
+/**
+ * Scripted failure modes
+ * - `rate_limited`: 429 with a Retry-After header
+ * - `token_expired`: 400 for link tokens, 401 for session-protected calls
+ * - `2fa_required`: login asks for a 2FA code even if the user has none enabled
+ * - `account_locked`: 423
+ * - `server_error`: 500
+ * - `network_error`: fetch rejects like a dropped connection
+ */
+export type FakeFailureMode =
+  | 'rate_limited'
+  | 'token_expired'
+  | '2fa_required'
+  | 'account_locked'
+  | 'server_error'
+  | 'network_error';
+
+export interface FakeScriptOptions {
+  /**
+   * How many calls the failure applies to
+   * @default 1
+   */
+  times?: number;
+  /**
+   * Retry-After in seconds for `rate_limited`
+   * @default 30
+   */
+  retryAfterSeconds?: number;
+}
+
+export interface FakeBackendOptions {
+  /**
+   * Endpoint prefixes the backend serves (match the client configuration)
+   * @default DEFAULT_V2_PREFIXES
+   */
+  prefixes?: PrefixConfig;
+  /** Users available from the start */
+  users?: FakeUserSeed[];
+  /**
+   * Code accepted for every 2FA method
+   * @default '123456'
+   */
+  twoFactorCode?: string;
+  /** Password policy returned by the policy endpoint */
+  passwordPolicy?: Partial<PasswordPolicyResponse>;
+  /** External identity providers listed by the providers endpoint */
+  externalProviders?: ExternalProvider[];
+  /**
+   * Access token lifetime reported as `expires_in` (not enforced - use expireSession())
+   * @default 900
+   */
+  accessTokenTtlSeconds?: number;
+  /**
+   * Refresh token lifetime reported as `refresh_expires_in` (not enforced)
+   * @default 86400
+   */
+  refreshTokenTtlSeconds?: number;
+  /**
+   * Simulated network latency in milliseconds
+   * @default 0
+   */
+  delayMs?: number;
+}
+
+export interface FakeBackend {
+  /** fetch implementation to pass to SimpleIdmClient */
+  fetch: typeof fetch;
+  /** Messages sent so far (magic links, verification, reset, 2FA codes) */
+  outbox: FakeOutboxMessage[];
+  /** Latest message of a type, optionally for a recipient */
+  lastMessage: (type: FakeOutboxMessage['type'], to?: string) => FakeOutboxMessage | undefined;
+  /** Make the next call(s) of a client method fail */
+  script: (operation: ApiOperation, mode: FakeFailureMode, options?: FakeScriptOptions) => void;
+  /** Add a user */
+  addUser: (seed: FakeUserSeed) => FakeUser;
+  /** Find a user by username or email */
+  findUser: (usernameOrEmail: string) => FakeUser | undefined;
+  /**
+   * Finish a sign-in with an external provider as simple-idm would, and return
+   * the URL it redirects back to. Signs in linked accounts, asks to link an
+   * existing account with the same email, and creates an account otherwise.
+   */
+  externalLogin: (providerId: string, email: string, redirectUrl?: string) => string;
+  /**
+   * Start a session for a user on another device, leaving the browser's cookies alone
+   * @returns The session id
+   */
+  signInElsewhere: (usernameOrEmail: string, device?: string) => string;
+  /** User of the current cookie session, if any */
+  currentUser: () => FakeUser | undefined;
+  /** Invalidate access tokens but keep refresh tokens, to exercise silent refresh */
+  expireSession: () => void;
+  /** Restore the initial users and clear sessions, tokens, outbox and scripts */
+  reset: () => void;
+}
+
+/** Session as stored by the fake backend */
+interface FakeSession extends Omit<Session, 'current'> {
+  userId: string;
+  /** Trusted device the session was started on, if any */
+  trustedDeviceId?: string;
+}
+
+/** Trusted device as stored by the fake backend */
+interface FakeTrustedDevice extends Omit<TrustedDevice, 'current'> {
+  userId: string;
+  token: string;
+}
+
+interface FakeRequest {
+  method: string;
+  url: URL;
+  headers: Headers;
+  body: Record<string, unknown>;
+}
+
+interface FakeRoute {
+  method: string;
+  path: string | RegExp;
+  operation: ApiOperation;
+  handler: (request: FakeRequest, match: RegExpMatchArray | null) => Response;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_PASSWORD_POLICY: PasswordPolicyResponse = {
+  min_length: 8,
+  require_uppercase: false,
+  require_lowercase: false,
+  require_digit: false,
+  require_special_char: false,
+  disallow_common_pwds: false,
+  max_repeated_chars: 0,
+  history_check_count: 0,
+  expiration_days: 0,
+};
+
+/** Methods that validate a one-time link token rather than a session */
+const LINK_TOKEN_OPERATIONS: ApiOperation[] = ['validateMagicLink', 'verifyEmail', 'resetPassword'];
+
+const TWO_FA_DISPLAY_NAMES: Record<FakeTwoFAType, string> = {
+  totp: 'Authenticator app',
+  sms: 'Text message',
+  email: 'Email',
+};
+
+const BACKUP_CODE_COUNT = 8;
+
+function json(status: number, body: unknown, headers?: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function fail(status: number, error: string, message: string, extra?: object): Response {
+  return json(status, { error, message, ...extra });
+}
+
+function str(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+// ============================================================================
+// Fake Backend
+// ============================================================================
+
+/**
+ * Create an in-memory simple-idm backend
+ */
+export function createFakeBackend(options: FakeBackendOptions = {}): FakeBackend {
+  const prefixes = options.prefixes ?? DEFAULT_V2_PREFIXES;
+  const twoFactorCode = options.twoFactorCode ?? '123456';
+  const passwordPolicy = { ...DEFAULT_PASSWORD_POLICY, ...options.passwordPolicy };
+
+  let users: FakeUser[] = [];
+  let nextId = 1;
+  const outbox: FakeOutboxMessage[] = [];
+  const scripts = new Map<
+    ApiOperation,
+    FakeScriptOptions & { mode: FakeFailureMode; remaining: number }
+  >();
+
+  /** Session id -> session */
+  const sessions = new Map<string, FakeSession>();
+  /** Access token -> session id */
+  const accessTokens = new Map<string, string>();
+  /** Refresh token -> session id */
+  const refreshTokens = new Map<string, string>();
+  /** Temp token (pending 2FA login) -> user id */
+  const tempTokens = new Map<string, string>();
+  /** Temp token (pending account selection) -> candidate user ids */
+  const selectionTokens = new Map<string, string[]>();
+  /** One-time link tokens -> user id */
+  const magicLinkTokens = new Map<string, string>();
+  const verificationTokens = new Map<string, string>();
+  const resetTokens = new Map<string, string>();
+  /** Passkey ceremony challenge -> ceremony type and user id (registration only) */
+  const passkeyChallenges = new Map<string, { type: 'create' | 'get'; userId?: string }>();
+  /** Account-link token -> user id and provider */
+  const linkTokens = new Map<string, { userId: string; provider: string }>();
+  /** Device token -> trusted device */
+  const trustedDevices = new Map<string, FakeTrustedDevice>();
+
+  /** The simulated browser's HTTP-only cookies */
+  const cookies: { access?: string; refresh?: string; temp?: string; device?: string } = {};
+
+  const newToken = (kind: string) => `fake-${kind}-${nextId++}`;
+
+  // --------------------------------------------------------------------------
+  // Users
+  // --------------------------------------------------------------------------
+
+  const addUser = (seed: FakeUserSeed): FakeUser => {
+    const user: FakeUser = {
+      id: `user-${nextId++}`,
+      username: seed.username,
+      email: seed.email,
+      password: seed.password,
+      name: seed.name ?? seed.username,
+      roles: seed.roles ?? ['user'],
+      phone: seed.phone,
+      emailVerified: seed.emailVerified ?? true,
+      twoFactor: [...(seed.twoFactor ?? [])],
+      locked: seed.locked ?? false,
+      linkedProviders: [...(seed.linkedProviders ?? [])],
+      backupCodes: [...(seed.backupCodes ?? [])],
+      backupCodesTotal: seed.backupCodes?.length ?? 0,
+      passkeys: [],
+    };
+    users.push(user);
+    return user;
+  };
+
+  const findUser = (usernameOrEmail: string) => {
+    const needle = usernameOrEmail.trim().toLowerCase();
+    return users.find(
+      (u) => u.username.toLowerCase() === needle || u.email.toLowerCase() === needle,
+    );
+  };
+
+  /** Accounts sharing an email and password are offered as a choice at login */
+  const findAccounts = (usernameOrEmail: string, password: unknown) => {
+    const user = findUser(usernameOrEmail);
+    if (!user?.password || user.password !== password) return [];
+    return users.filter((u) => u.email === user.email && u.password === user.password);
+  };
+
+  const userById = (id: string | undefined) => users.find((u) => u.id === id);
+
+  const toIdmUser = (user: FakeUser): Pick<IdmUser, 'id' | 'name' | 'email' | 'roles'> => ({
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    roles: user.roles,
+  });
+
+  const toUserInfo = (user: FakeUser): UserInfo => ({
+    sub: user.id,
+    preferred_username: user.username,
+    email: user.email,
+    email_verified: user.emailVerified,
+    name: user.name,
+    groups: user.roles,
+  });
+
+  /** Backup codes are offered after the user's own methods while any are left */
+  const toTwoFactorMethods = (user: FakeUser, types: FakeTwoFAType[]): TwoFactorMethod[] => [
+    ...types.map((type) => ({
+      type,
+      display_name: TWO_FA_DISPLAY_NAMES[type],
+      delivery_options:
+        type === 'sms' ? [user.phone ?? ''] : type === 'email' ? [user.email] : undefined,
+    })),
+    ...(user.backupCodes.length > 0 ? [{ type: 'backup_code', display_name: 'Backup code' }] : []),
+  ];
+
+  const issueBackupCodes = (user: FakeUser) => {
+    const batch = nextId++;
+    user.backupCodes = Array.from(
+      { length: BACKUP_CODE_COUNT },
+      (_, i) => `backup-${batch}-${i + 1}`,
+    );
+    user.backupCodesTotal = BACKUP_CODE_COUNT;
+    user.backupCodesGeneratedAt = new Date().toISOString();
+    return user.backupCodes;
+  };
+
+  // --------------------------------------------------------------------------
+  // Sessions
+  // --------------------------------------------------------------------------
+
+  const startSession = (user: FakeUser, device: string): FakeSession => {
+    const now = new Date().toISOString();
+    const session: FakeSession = {
+      id: newToken('session'),
+      userId: user.id,
+      device,
+      ip_address: '127.0.0.1',
+      created_at: now,
+      last_seen_at: now,
+    };
+    sessions.set(session.id, session);
+    return session;
+  };
+
+  const issueTokens = (session: FakeSession) => {
+    const access = newToken('access');
+    const refresh = newToken('refresh');
+    accessTokens.set(access, session.id);
+    refreshTokens.set(refresh, session.id);
+    return {
+      access_token: access,
+      refresh_token: refresh,
+      expires_in: options.accessTokenTtlSeconds ?? 900,
+      refresh_expires_in: options.refreshTokenTtlSeconds ?? 86_400,
+    };
+  };
+
+  /** Start a session in the simulated browser */
+  const issueSession = (user: FakeUser, session = startSession(user, 'Simulated browser')) => {
+    const tokens = issueTokens(session);
+    cookies.access = tokens.access_token;
+    cookies.refresh = tokens.refresh_token;
+    cookies.temp = undefined;
+    return tokens;
+  };
+
+  const endSession = (id: string) => {
+    sessions.delete(id);
+    for (const tokens of [accessTokens, refreshTokens]) {
+      for (const [token, sessionId] of tokens) {
+        if (sessionId === id) tokens.delete(token);
+      }
+    }
+  };
+
+  const bearerToken = (request: FakeRequest) => {
+    const header = request.headers.get('Authorization') ?? '';
+    return header.startsWith('Bearer ') ? header.slice(7) : undefined;
+  };
+
+  /** Bearer token first, then the session cookie */
+  const currentSession = (request: FakeRequest) =>
+    sessions.get(accessTokens.get(bearerToken(request) ?? cookies.access ?? '') ?? '');
+
+  const authenticate = (request: FakeRequest) => {
+    const session = currentSession(request);
+    if (!session) return undefined;
+    session.last_seen_at = new Date().toISOString();
+    return userById(session.userId);
+  };
+
+  const pendingTwoFactorUser = (request: FakeRequest) =>
+    userById(
+      tempTokens.get(str(request.body.temp_token) || bearerToken(request) || cookies.temp || ''),
+    );
+
+  const unauthorized = () => fail(401, 'unauthorized', 'Authentication required');
+
+  /** The user's unexpired trusted device for a device token (body first, then the cookie) */
+  const trustedDevice = (user: FakeUser, request?: FakeRequest) => {
+    const device = trustedDevices.get(str(request?.body.device_token) || cookies.device || '');
+    return device?.userId === user.id && Date.parse(device.expires_at) > Date.now()
+      ? device
+      : undefined;
+  };
+
+  const trustDevice = (user: FakeUser, days: number, name: string) => {
+    const now = new Date();
+    const device: FakeTrustedDevice = {
+      id: newToken('device'),
+      userId: user.id,
+      token: newToken('device-token'),
+      name,
+      created_at: now.toISOString(),
+      last_used_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + days * 86_400_000).toISOString(),
+    };
+    trustedDevices.set(device.token, device);
+    cookies.device = device.token;
+    return device;
+  };
+
+  const findTrustedDevice = (user: FakeUser, id: string) =>
+    [...trustedDevices.values()].find((d) => d.id === id && d.userId === user.id);
+
+  /** Current if the requesting session was started on the device */
+  const toTrustedDevice = (
+    { userId: _userId, token: _token, ...device }: FakeTrustedDevice,
+    request: FakeRequest,
+  ): TrustedDevice => ({
+    ...device,
+    current: device.id === currentSession(request)?.trustedDeviceId,
+  });
+
+  /**
+   * Ask for 2FA if the user has it enabled, otherwise start a session
+   * Trusted devices skip 2FA unless it is forced by a script
+   */
+  const completeLogin = (
+    user: FakeUser,
+    forceTwoFactor: boolean,
+    request?: FakeRequest,
+  ): Response => {
+    if (user.locked) {
+      return fail(423, 'account_locked', 'Account is locked');
+    }
+
+    const device = forceTwoFactor ? undefined : trustedDevice(user, request);
+    if (device) {
+      device.last_used_at = new Date().toISOString();
+      const session = startSession(user, device.name);
+      session.trustedDeviceId = device.id;
+      const response: LoginResponse = {
+        status: 'success',
+        user: toIdmUser(user),
+        message: 'Login successful',
+        ...issueSession(user, session),
+      };
+      return json(200, response);
+    }
+
+    if (user.twoFactor.length > 0 || forceTwoFactor) {
+      const tempToken = newToken('temp');
+      tempTokens.set(tempToken, user.id);
+      cookies.temp = tempToken;
+      const types: FakeTwoFAType[] = user.twoFactor.length > 0 ? user.twoFactor : ['email'];
+      const response: LoginResponse = {
+        status: '2fa_required',
+        temp_token: tempToken,
+        two_factor_methods: toTwoFactorMethods(user, types),
+        message: '2FA verification required',
+      };
+      return json(200, response);
+    }
+
+    const response: LoginResponse = {
+      status: 'success',
+      user: toIdmUser(user),
+      message: 'Login successful',
+      ...issueSession(user),
+    };
+    return json(200, response);
+  };
+
+  /** Run a handler for the signed-in user, or respond 401 */
+  const withUser =
+    (handler: (user: FakeUser, request: FakeRequest, match: RegExpMatchArray | null) => Response) =>
+    (request: FakeRequest, match: RegExpMatchArray | null) => {
+      const user = authenticate(request);
+      return user ? handler(user, request, match) : unauthorized();
+    };
+
+  const checkPasswordPolicy = (password: string): Response | null =>
+    password.length < passwordPolicy.min_length
+      ? fail(400, 'validation_failed', 'Password does not meet the password policy', {
+          fields: { new_password: `Must be at least ${passwordPolicy.min_length} characters` },
+        })
+      : null;
+
+  const consume = (tokens: Map<string, string>, token: string) => {
+    const userId = tokens.get(token);
+    tokens.delete(token);
+    return userById(userId);
+  };
+
+  const send = (type: FakeOutboxMessage['type'], to: string, token: string) => {
+    outbox.push({ type, to, token });
+  };
+
+  const encode = (value: string) => bufferToBase64Url(new TextEncoder().encode(value));
+
+  const newChallenge = (type: 'create' | 'get', userId?: string) => {
+    const challenge = encode(newToken('challenge'));
+    passkeyChallenges.set(challenge, { type, userId });
+    return challenge;
+  };
+
+  /**
+   * Check the client data of a ceremony against an issued challenge
+   * Signatures aren't verified - the stubbed authenticator has no keys
+   */
+  const consumeChallenge = (request: FakeRequest, type: 'create' | 'get', userId?: string) => {
+    const credential = (request.body.credential ?? request.body) as {
+      response?: { clientDataJSON?: string };
+    };
+    try {
+      const clientData = JSON.parse(
+        new TextDecoder().decode(base64UrlToBuffer(str(credential.response?.clientDataJSON))),
+      ) as { type?: string; challenge?: string };
+      const issued = passkeyChallenges.get(str(clientData.challenge));
+      passkeyChallenges.delete(str(clientData.challenge));
+      return (
+        !!issued &&
+        issued.type === type &&
+        issued.userId === userId &&
+        clientData.type === `webauthn.${type}`
+      );
+    } catch {
+      return false;
+    }
+  };
+
+  const credentialDescriptors = (user: FakeUser) =>
+    user.passkeys.map((p) => ({ id: p.id, type: 'public-key' as const }));
+
+  // --------------------------------------------------------------------------
+  // Routes
+  // --------------------------------------------------------------------------
+
+  const routes: FakeRoute[] = [
+    // Login
+    {
+      method: 'POST',
+      path: `${prefixes.login}/login`,
+      operation: 'login',
+      handler: (request) => {
+        const accounts = findAccounts(str(request.body.username), request.body.password);
+        if (accounts.length === 0) {
+          return fail(400, 'invalid_credentials', 'Invalid username or password');
+        }
+
+        if (accounts.length > 1) {
+          const tempToken = newToken('temp');
+          selectionTokens.set(tempToken, accounts.map((u) => u.id));
+          cookies.temp = tempToken;
+          const response: LoginResponse = {
+            status: 'user_selection_required',
+            temp_token: tempToken,
+            users: accounts.map(toIdmUser),
+            message: 'Multiple accounts found',
+          };
+          return json(200, response);
+        }
+
+        return completeLogin(accounts[0]!, !!takeScript('login', '2fa_required'), request);
+      },
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.login}/user/switch`,
+      operation: 'selectUser',
+      handler: (request) => {
+        const tempToken = str(request.body.temp_token) || cookies.temp || '';
+        const candidates = selectionTokens.get(tempToken);
+        if (!candidates) return unauthorized();
+
+        const user = userById(str(request.body.user_id));
+        if (!user || !candidates.includes(user.id)) {
+          return fail(400, 'validation_failed', 'User is not available for this login', {
+            fields: { user_id: 'Choose one of the offered accounts' },
+          });
+        }
+        selectionTokens.delete(tempToken);
+        return completeLogin(user, false, request);
+      },
+    },
+
+    // Passkey login
+    {
+      method: 'POST',
+      path: `${prefixes.login}/passkey/begin`,
+      operation: 'beginPasskeyLogin',
+      handler: (request) => {
+        const username = str(request.body.username);
+        const user = username ? findUser(username) : undefined;
+        if (username && !user?.passkeys.length) {
+          return fail(404, 'not_found', 'No passkeys registered for this user');
+        }
+        return json(200, {
+          publicKey: {
+            challenge: newChallenge('get'),
+            timeout: 60_000,
+            rpId: 'localhost',
+            allowCredentials: user ? credentialDescriptors(user) : [],
+            userVerification: 'preferred',
+          },
+        });
+      },
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.login}/passkey/finish`,
+      operation: 'finishPasskeyLogin',
+      handler: (request) => {
+        if (!consumeChallenge(request, 'get')) {
+          return fail(400, 'token_invalid', 'Unknown or expired passkey challenge');
+        }
+        const id = str(request.body.id);
+        const user = users.find((u) => u.passkeys.some((p) => p.id === id));
+        if (!user) {
+          return fail(400, 'invalid_credentials', 'Unknown passkey');
+        }
+        if (user.locked) {
+          return fail(423, 'account_locked', 'Account is locked');
+        }
+        user.passkeys.find((p) => p.id === id)!.last_used_at = new Date().toISOString();
+        // A user-verified passkey counts as two factors, so no 2FA step follows
+        const response: LoginResponse = {
+          status: 'success',
+          user: toIdmUser(user),
+          message: 'Login successful',
+          ...issueSession(user),
+        };
+        return json(200, response);
+      },
+    },
+
+    // External identity providers
+    {
+      method: 'GET',
+      path: `${prefixes.login}/external/providers`,
+      operation: 'getExternalProviders',
+      handler: () => json(200, { providers: options.externalProviders ?? [] }),
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.login}/external/link`,
+      operation: 'linkExternalAccount',
+      handler: (request) => {
+        const token = str(request.body.link_token);
+        const link = linkTokens.get(token);
+        const user = userById(link?.userId);
+        if (!link || !user) {
+          return fail(400, 'token_invalid', 'Invalid or expired link token');
+        }
+        if (!user.password || user.password !== request.body.password) {
+          return fail(400, 'invalid_credentials', 'Invalid password');
+        }
+        linkTokens.delete(token);
+        user.linkedProviders.push(link.provider);
+        return completeLogin(user, false);
+      },
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.login}/logout`,
+      operation: 'logout',
+      handler: (request) => {
+        const sessionId =
+          accessTokens.get(bearerToken(request) ?? cookies.access ?? '') ??
+          refreshTokens.get(cookies.refresh ?? '');
+        if (sessionId) {
+          endSession(sessionId);
+        }
+        cookies.access = cookies.refresh = cookies.temp = undefined;
+        return new Response(null, { status: 204 });
+      },
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.login}/token/refresh`,
+      operation: 'refreshToken',
+      handler: (request) => {
+        const token = str(request.body.refresh_token) || cookies.refresh || '';
+        const session = sessions.get(refreshTokens.get(token) ?? '');
+        refreshTokens.delete(token);
+        const user = userById(session?.userId);
+        return session && user
+          ? json(200, issueSession(user, session))
+          : fail(401, 'token_invalid', 'Invalid refresh token');
+      },
+    },
+
+    // Magic links
+    {
+      method: 'POST',
+      path: prefixes.magicLinks,
+      operation: 'requestMagicLink',
+      handler: (request) => {
+        const user = findUser(str(request.body.username));
+        if (user) {
+          const token = newToken('magic');
+          magicLinkTokens.set(token, user.id);
+          send('magic_link', user.email, token);
+        }
+        // Don't reveal whether the account exists
+        return json(200, { message: 'If the account exists, a magic link has been sent' });
+      },
+    },
+    {
+      method: 'GET',
+      path: `${prefixes.magicLinks}/validate`,
+      operation: 'validateMagicLink',
+      handler: (request) => {
+        const user = consume(magicLinkTokens, request.url.searchParams.get('token') ?? '');
+        if (!user) {
+          return fail(400, 'token_invalid', 'Invalid or expired magic link');
+        }
+        return json(200, {
+          status: 'success',
+          user: toIdmUser(user),
+          message: 'Login successful',
+          ...issueSession(user),
+        });
+      },
+    },
+
+    // Signup
+    {
+      method: 'POST',
+      path: prefixes.signup,
+      operation: 'signup',
+      handler: (request) => {
+        const email = str(request.body.email);
+        const username = str(request.body.username) || email;
+        const password = str(request.body.password) || undefined;
+
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+          return fail(400, 'validation_failed', 'Invalid email address', {
+            fields: { email: 'Please enter a valid email address' },
+          });
+        }
+        if (findUser(email) || findUser(username)) {
+          return fail(409, 'conflict', 'An account with this username or email already exists');
+        }
+        if (password) {
+          const invalid = checkPasswordPolicy(password);
+          if (invalid) return invalid;
+        }
+
+        const user = addUser({
+          username,
+          email,
+          password,
+          name: str(request.body.fullname) || undefined,
+          emailVerified: false,
+        });
+        const token = newToken('verify');
+        verificationTokens.set(token, user.id);
+        send('email_verification', user.email, token);
+
+        return json(201, { user_id: user.id, message: 'Account created' });
+      },
+    },
+
+    // User info
+    {
+      method: 'GET',
+      path: `${prefixes.oauth2}/userinfo`,
+      operation: 'getCurrentUser',
+      handler: withUser((user) => json(200, toUserInfo(user))),
+    },
+
+    // Profile
+    {
+      method: 'PUT',
+      path: `${prefixes.profile}/username`,
+      operation: 'updateUsername',
+      handler: withUser((user, request) => {
+        if (user.password && user.password !== request.body.current_password) {
+          return fail(400, 'invalid_credentials', 'Current password is incorrect');
+        }
+        const username = str(request.body.username);
+        const existing = findUser(username);
+        if (existing && existing !== user) {
+          return fail(409, 'conflict', 'Username is already taken');
+        }
+        user.username = username;
+        return json(200, { message: 'Username updated', success: true });
+      }),
+    },
+    {
+      method: 'PUT',
+      path: `${prefixes.profile}/phone`,
+      operation: 'updatePhone',
+      handler: withUser((user, request) => {
+        const phone = str(request.body.phone);
+        if (!/^\+?[0-9\s-]{7,}$/.test(phone)) {
+          return fail(400, 'validation_failed', 'Invalid phone number', {
+            fields: { phone: 'Please enter a valid phone number' },
+          });
+        }
+        user.phone = phone;
+        return json(200, { message: 'Phone number updated', success: true });
+      }),
+    },
+    {
+      method: 'PUT',
+      path: `${prefixes.profile}/password`,
+      operation: 'updatePassword',
+      handler: withUser((user, request) => {
+        if (user.password && user.password !== request.body.current_password) {
+          return fail(400, 'invalid_credentials', 'Current password is incorrect');
+        }
+        const password = str(request.body.new_password);
+        const invalid = checkPasswordPolicy(password);
+        if (invalid) return invalid;
+        user.password = password;
+        return json(200, { message: 'Password updated', success: true });
+      }),
+    },
+
+    // Passkey management
+    {
+      method: 'GET',
+      path: `${prefixes.profile}/passkeys`,
+      operation: 'listPasskeys',
+      handler: withUser((user) => json(200, { passkeys: user.passkeys })),
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.profile}/passkeys/register/begin`,
+      operation: 'beginPasskeyRegistration',
+      handler: withUser((user) =>
+        json(200, {
+          publicKey: {
+            rp: { id: 'localhost', name: 'simple-idm' },
+            user: { id: encode(user.id), name: user.username, displayName: user.name },
+            challenge: newChallenge('create', user.id),
+            pubKeyCredParams: [
+              { type: 'public-key', alg: -7 },
+              { type: 'public-key', alg: -257 },
+            ],
+            timeout: 60_000,
+            excludeCredentials: credentialDescriptors(user),
+            authenticatorSelection: { residentKey: 'preferred', userVerification: 'preferred' },
+            attestation: 'none',
+          },
+        }),
+      ),
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.profile}/passkeys/register/finish`,
+      operation: 'finishPasskeyRegistration',
+      handler: withUser((user, request) => {
+        if (!consumeChallenge(request, 'create', user.id)) {
+          return fail(400, 'validation_failed', 'Unknown or expired passkey challenge');
+        }
+        const id = str((request.body.credential as { id?: unknown } | undefined)?.id);
+        if (users.some((u) => u.passkeys.some((p) => p.id === id))) {
+          return fail(409, 'conflict', 'Passkey is already registered');
+        }
+        const passkey: Passkey = {
+          id,
+          name: str(request.body.name) || `Passkey ${user.passkeys.length + 1}`,
+          created_at: new Date().toISOString(),
+        };
+        user.passkeys.push(passkey);
+        return json(200, passkey);
+      }),
+    },
+    {
+      method: 'DELETE',
+      path: new RegExp(`^${escapeRegExp(prefixes.profile)}/passkeys/([^/]+)$`),
+      operation: 'deletePasskey',
+      handler: withUser((user, _request, match) => {
+        const id = decodeURIComponent(match?.[1] ?? '');
+        if (!user.passkeys.some((p) => p.id === id)) {
+          return fail(404, 'not_found', 'Passkey not found');
+        }
+        user.passkeys = user.passkeys.filter((p) => p.id !== id);
+        return new Response(null, { status: 204 });
+      }),
+    },
+
+    // Sessions
+    {
+      method: 'GET',
+      path: `${prefixes.profile}/sessions`,
+      operation: 'listSessions',
+      handler: withUser((user, request) => {
+        const current = currentSession(request);
+        return json(200, {
+          sessions: [...sessions.values()]
+            .filter((s) => s.userId === user.id)
+            .map(
+              ({ userId: _userId, trustedDeviceId: _deviceId, ...s }): Session => ({
+                ...s,
+                current: s.id === current?.id,
+              }),
+            ),
+        });
+      }),
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.profile}/sessions/revoke-others`,
+      operation: 'revokeOtherSessions',
+      handler: withUser((user, request) => {
+        const current = currentSession(request);
+        const others = [...sessions.values()].filter(
+          (s) => s.userId === user.id && s.id !== current?.id,
+        );
+        others.forEach((s) => endSession(s.id));
+        return json(200, { message: 'Signed out of other sessions', revoked: others.length });
+      }),
+    },
+    {
+      method: 'DELETE',
+      path: new RegExp(`^${escapeRegExp(prefixes.profile)}/sessions/([^/]+)$`),
+      operation: 'revokeSession',
+      handler: withUser((user, request, match) => {
+        const session = sessions.get(decodeURIComponent(match?.[1] ?? ''));
+        if (!session || session.userId !== user.id) {
+          return fail(404, 'not_found', 'Session not found');
+        }
+        if (session.id === currentSession(request)?.id) {
+          return fail(400, 'validation_failed', 'Use logout to end the current session');
+        }
+        endSession(session.id);
+        return new Response(null, { status: 204 });
+      }),
+    },
+
+    // Trusted devices
+    {
+      method: 'GET',
+      path: `${prefixes.profile}/trusted-devices`,
+      operation: 'listTrustedDevices',
+      handler: withUser((user, request) => {
+        return json(200, {
+          devices: [...trustedDevices.values()]
+            .filter((d) => d.userId === user.id && Date.parse(d.expires_at) > Date.now())
+            .map((d) => toTrustedDevice(d, request)),
+        });
+      }),
+    },
+    {
+      method: 'PATCH',
+      path: new RegExp(`^${escapeRegExp(prefixes.profile)}/trusted-devices/([^/]+)$`),
+      operation: 'renameTrustedDevice',
+      handler: withUser((user, request, match) => {
+        const device = findTrustedDevice(user, decodeURIComponent(match?.[1] ?? ''));
+        if (!device) {
+          return fail(404, 'not_found', 'Trusted device not found');
+        }
+        const name = str(request.body.name).trim();
+        if (!name) {
+          return fail(400, 'validation_failed', 'Name is required', {
+            fields: { name: 'Name is required' },
+          });
+        }
+        device.name = name;
+        return json(200, toTrustedDevice(device, request));
+      }),
+    },
+    {
+      method: 'DELETE',
+      path: new RegExp(`^${escapeRegExp(prefixes.profile)}/trusted-devices/([^/]+)$`),
+      operation: 'revokeTrustedDevice',
+      handler: withUser((user, _request, match) => {
+        const device = findTrustedDevice(user, decodeURIComponent(match?.[1] ?? ''));
+        if (!device) {
+          return fail(404, 'not_found', 'Trusted device not found');
+        }
+        trustedDevices.delete(device.token);
+        if (cookies.device === device.token) {
+          cookies.device = undefined;
+        }
+        return new Response(null, { status: 204 });
+      }),
+    },
+
+    // Two-factor authentication
+    {
+      method: 'GET',
+      path: `${prefixes.twoFA}/status`,
+      operation: 'get2FAStatus',
+      handler: withUser((user) =>
+        json(200, { enabled: user.twoFactor.length > 0, types: user.twoFactor }),
+      ),
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.twoFA}/totp/setup`,
+      operation: 'setup2FATOTP',
+      handler: withUser((user) => {
+        user.totpSecret = newToken('totp-secret').toUpperCase();
+        return json(200, {
+          secret: user.totpSecret,
+          qr_code: `data:image/png;base64,${btoa(
+            `otpauth://totp/simple-idm:${user.email}?secret=${user.totpSecret}`,
+          )}`,
+          backup_codes: issueBackupCodes(user),
+        });
+      }),
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.twoFA}/enable`,
+      operation: 'enable2FA',
+      handler: withUser((user, request) => {
+        const type = str(request.body.type) as FakeTwoFAType;
+        if (type === 'totp' && !user.totpSecret) {
+          return fail(400, 'validation_failed', 'Set up TOTP before enabling it');
+        }
+        if (request.body.code !== twoFactorCode) {
+          return fail(400, 'invalid_code', 'Invalid verification code');
+        }
+        if (!user.twoFactor.includes(type)) {
+          user.twoFactor.push(type);
+        }
+        return json(200, { message: '2FA enabled', success: true });
+      }),
+    },
+    {
+      method: 'POST',
+      path: new RegExp(`^${escapeRegExp(prefixes.twoFA)}/(totp|sms|email)/disable$`),
+      operation: 'disable2FA',
+      handler: withUser((user, _request, match) => {
+        user.twoFactor = user.twoFactor.filter((t) => t !== match?.[1]);
+        if (match?.[1] === 'totp') {
+          user.totpSecret = undefined;
+        }
+        return json(200, { message: '2FA disabled', success: true });
+      }),
+    },
+    {
+      method: 'GET',
+      path: `${prefixes.twoFA}/backup-codes`,
+      operation: 'getBackupCodeStatus',
+      handler: withUser((user) =>
+        json(200, {
+          remaining: user.backupCodes.length,
+          total: user.backupCodesTotal,
+          generated_at: user.backupCodesGeneratedAt,
+        }),
+      ),
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.twoFA}/backup-codes/regenerate`,
+      operation: 'regenerateBackupCodes',
+      handler: withUser((user, request) => {
+        if (!user.password || user.password !== request.body.current_password) {
+          return fail(400, 'invalid_credentials', 'Current password is incorrect');
+        }
+        return json(200, {
+          backup_codes: issueBackupCodes(user),
+          generated_at: user.backupCodesGeneratedAt,
+        });
+      }),
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.twoFA}/send-code`,
+      operation: 'send2FACode',
+      handler: (request) => {
+        const user = authenticate(request) ?? pendingTwoFactorUser(request);
+        if (!user) return unauthorized();
+        const to =
+          str(request.body.delivery_option) ||
+          (request.body.type === 'sms' ? (user.phone ?? '') : user.email);
+        send('2fa_code', to, twoFactorCode);
+        return json(200, { message: 'Code sent', success: true });
+      },
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.twoFA}/validate`,
+      operation: 'validate2FA',
+      handler: (request) => {
+        const pending = pendingTwoFactorUser(request);
+        const user = pending ?? authenticate(request);
+        if (!user) return unauthorized();
+
+        const code = str(request.body.code);
+        const backupIndex = user.backupCodes.indexOf(code);
+        const isValid =
+          request.body.type === 'backup_code'
+            ? backupIndex !== -1
+            : code === twoFactorCode || backupIndex !== -1;
+        if (!isValid) {
+          return fail(400, 'invalid_code', 'Invalid verification code');
+        }
+        if (backupIndex !== -1) {
+          user.backupCodes.splice(backupIndex, 1);
+        }
+
+        if (!pending) {
+          return json(200, { message: 'Code verified', success: true });
+        }
+        tempTokens.delete(cookies.temp ?? '');
+        const session = startSession(user, 'Simulated browser');
+        const days = Number(request.body.remember_device_days) || 0;
+        const device =
+          days > 0
+            ? trustDevice(user, days, str(request.body.device_name) || session.device)
+            : undefined;
+        session.trustedDeviceId = device?.id;
+        return json(200, {
+          message: 'Login successful',
+          success: true,
+          user: toIdmUser(user),
+          ...issueSession(user, session),
+          ...(device && { device_token: device.token }),
+        });
+      },
+    },
+
+    // Email verification
+    {
+      method: 'POST',
+      path: `${prefixes.email}/verify`,
+      operation: 'verifyEmail',
+      handler: (request) => {
+        const user = consume(verificationTokens, str(request.body.token));
+        if (!user) {
+          return fail(400, 'token_invalid', 'Invalid or expired verification token');
+        }
+        user.emailVerified = true;
+        return json(200, { message: 'Email verified', verified_at: new Date().toISOString() });
+      },
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.email}/resend`,
+      operation: 'resendVerificationEmail',
+      handler: withUser((user) => {
+        const token = newToken('verify');
+        verificationTokens.set(token, user.id);
+        send('email_verification', user.email, token);
+        return json(200, { message: 'Verification email sent' });
+      }),
+    },
+    {
+      method: 'GET',
+      path: `${prefixes.email}/status`,
+      operation: 'getVerificationStatus',
+      handler: withUser((user) => json(200, { email_verified: user.emailVerified })),
+    },
+
+    // Password reset
+    {
+      method: 'POST',
+      path: `${prefixes.passwordReset}/initiate/email`,
+      operation: 'initiatePasswordReset',
+      handler: (request) => initiateReset(str(request.body.email)),
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.passwordReset}/initiate/username`,
+      operation: 'initiatePasswordReset',
+      handler: (request) => initiateReset(str(request.body.username)),
+    },
+    {
+      method: 'POST',
+      path: `${prefixes.passwordReset}/reset`,
+      operation: 'resetPassword',
+      handler: (request) => {
+        const token = str(request.body.token);
+        if (!resetTokens.has(token)) {
+          return fail(400, 'token_invalid', 'Invalid or expired reset token');
+        }
+        const password = str(request.body.new_password);
+        const invalid = checkPasswordPolicy(password);
+        if (invalid) return invalid;
+
+        const user = consume(resetTokens, token)!;
+        user.password = password;
+        return json(200, { message: 'Password has been reset' });
+      },
+    },
+    {
+      method: 'GET',
+      path: `${prefixes.passwordReset}/policy`,
+      operation: 'getPasswordPolicy',
+      handler: () => json(200, passwordPolicy),
+    },
+  ];
+
+  const externalLogin: FakeBackend['externalLogin'] = (
+    providerId,
+    email,
+    redirectUrl = 'http://localhost/login',
+  ) => {
+    const url = new URL(redirectUrl);
+    url.searchParams.set('provider', providerId);
+
+    if (!options.externalProviders?.some((p) => p.id === providerId)) {
+      url.searchParams.set('error', 'invalid_request');
+      url.searchParams.set('error_description', `Unknown provider ${providerId}`);
+      return url.toString();
+    }
+
+    const existing = findUser(email);
+    if (existing && !existing.linkedProviders.includes(providerId)) {
+      const token = newToken('link');
+      linkTokens.set(token, { userId: existing.id, provider: providerId });
+      url.searchParams.set('status', 'link_required');
+      url.searchParams.set('link_token', token);
+      url.searchParams.set('email', existing.email);
+      return url.toString();
+    }
+
+    issueSession(existing ?? addUser({ username: email, email, linkedProviders: [providerId] }));
+    url.searchParams.set('status', 'success');
+    return url.toString();
+  };
+
+  function initiateReset(identifier: string): Response {
+    const user = findUser(identifier);
+    if (user) {
+      const token = newToken('reset');
+      resetTokens.set(token, user.id);
+      send('password_reset', user.email, token);
+    }
+    // Don't reveal whether the account exists
+    return json(200, { message: 'If the account exists, a password reset email has been sent' });
+  }
+
+  // --------------------------------------------------------------------------
+  // Scripted failures
+  // --------------------------------------------------------------------------
+
+  const script: FakeBackend['script'] = (operation, mode, scriptOptions) => {
+    scripts.set(operation, { ...scriptOptions, mode, remaining: scriptOptions?.times ?? 1 });
+  };
+
+  /**
+   * Consume one use of the scripted failure for an operation
+   * @param only - Only consume it if it has this mode
+   */
+  function takeScript(operation: ApiOperation, only?: FakeFailureMode) {
+    const entry = scripts.get(operation);
+    if (!entry || (only && entry.mode !== only)) return undefined;
+    if (--entry.remaining <= 0) {
+      scripts.delete(operation);
+    }
+    return entry;
+  }
+
+  const scriptedResponse = (operation: ApiOperation): Response | null => {
+    // 2fa_required is handled by the login route itself
+    if (scripts.get(operation)?.mode === '2fa_required') return null;
+
+    const entry = takeScript(operation);
+    if (!entry) return null;
+
+    switch (entry.mode) {
+      case 'rate_limited':
+        return json(
+          429,
+          { error: 'rate_limited', message: 'Too many requests' },
+          { 'Retry-After': String(entry.retryAfterSeconds ?? 30) },
+        );
+      case 'token_expired':
+        return LINK_TOKEN_OPERATIONS.includes(operation)
+          ? fail(400, 'token_expired', 'Token has expired')
+          : fail(401, 'token_expired', 'Session has expired');
+      case 'account_locked':
+        return fail(423, 'account_locked', 'Account is locked');
+      case 'server_error':
+        return fail(500, 'server_error', 'Internal server error');
+      case 'network_error':
+        throw new TypeError('Failed to fetch');
+      default:
+        return null;
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // fetch
+  // --------------------------------------------------------------------------
+
+  const fakeFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const signal = init?.signal ?? (input instanceof Request ? input.signal : undefined);
+    if (options.delayMs) {
+      await sleep(options.delayMs, signal);
+    }
+    signal?.throwIfAborted();
+
+    const rawUrl = input instanceof Request ? input.url : String(input);
+    const method = (
+      init?.method ?? (input instanceof Request ? input.method : 'GET')
+    ).toUpperCase();
+    let body: Record<string, unknown> = {};
+    if (typeof init?.body === 'string' && init.body) {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        return fail(400, 'validation_failed', 'Request body must be JSON');
+      }
+    }
+
+    const request: FakeRequest = {
+      method,
+      url: new URL(rawUrl, 'http://fake-simple-idm.local'),
+      headers: new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined)),
+      body,
+    };
+
+    for (const route of routes) {
+      if (route.method !== method) continue;
+      const match =
+        typeof route.path === 'string'
+          ? request.url.pathname === route.path
+            ? null
+            : undefined
+          : request.url.pathname.match(route.path) ?? undefined;
+      if (match === undefined) continue;
+
+      return scriptedResponse(route.operation) ?? route.handler(request, match);
+    }
+
+    return fail(404, 'not_found', `No fake route for ${method} ${request.url.pathname}`);
+  };
+
+  // --------------------------------------------------------------------------
+  // Public API
+  // --------------------------------------------------------------------------
+
+  const seed = () => {
+    users = [];
+    for (const user of options.users ?? []) {
+      addUser(user);
+    }
+  };
+
+  const reset = () => {
+    nextId = 1;
+    outbox.length = 0;
+    scripts.clear();
+    for (const tokens of [
+      sessions,
+      accessTokens,
+      refreshTokens,
+      tempTokens,
+      selectionTokens,
+      magicLinkTokens,
+      verificationTokens,
+      resetTokens,
+      linkTokens,
+      passkeyChallenges,
+      trustedDevices,
+    ]) {
+      tokens.clear();
+    }
+    cookies.access = cookies.refresh = cookies.temp = cookies.device = undefined;
+    seed();
+  };
+
+  seed();
+
+  return {
+    fetch: fakeFetch as typeof fetch,
+    outbox,
+    lastMessage: (type, to) =>
+      [...outbox].reverse().find((m) => m.type === type && (to === undefined || m.to === to)),
+    script,
+    addUser,
+    findUser,
+    externalLogin,
+    signInElsewhere: (usernameOrEmail, device = 'Other device') => {
+      const user = findUser(usernameOrEmail);
+      if (!user) throw new Error(`Unknown user ${usernameOrEmail}`);
+      const session = startSession(user, device);
+      issueTokens(session);
+      return session.id;
+    },
+    currentUser: () => userById(sessions.get(accessTokens.get(cookies.access ?? '') ?? '')?.userId),
+    expireSession: () => accessTokens.clear(),
+    reset,
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,16 @@
+/**
+ * Testing utilities - published as `@tendant/simple-idm-solid/testing`,
+ * so the fake backend stays out of the main entry.
+ */
+
+export { createFakeBackend } from './fakeBackend';
+export type {
+  FakeBackend,
+  FakeBackendOptions,
+  FakeUser,
+  FakeUserSeed,
+  FakeTwoFAType,
+  FakeOutboxMessage,
+  FakeFailureMode,
+  FakeScriptOptions,
+} from './fakeBackend';
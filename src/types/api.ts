@@ -10,6 +10,11 @@
 export interface LoginRequest {
   username: string;
   password: string;
+  /**
+   * Trusted-device token from an earlier 2FA login; skips 2FA while the device is trusted.
+   * Sent automatically in bearer mode - in cookie mode the server reads it from a cookie
+   */
+  device_token?: string;
 }
 
 export interface LoginResponse {
@@ -33,6 +38,23 @@ export interface LoginResponse {
   /** Available 2FA methods when status is '2fa_required' */
   two_factor_methods?: TwoFactorMethod[];
   message?: string;
+  /** Access token when status is 'success' (bearer mode only) */
+  access_token?: string;
+  /** Refresh token when status is 'success' (bearer mode only) */
+  refresh_token?: string;
+  /** Access token lifetime in seconds */
+  expires_in?: number;
+  /** Refresh token lifetime in seconds */
+  refresh_expires_in?: number;
+}
+
+export interface SelectUserRequest {
+  /** id of one of the `users` from a 'user_selection_required' login */
+  user_id: string;
+  /** Temp token from the 'user_selection_required' login. Note: Also set in HTTP-only cookie */
+  temp_token?: string;
+  /** Trusted-device token, as in LoginRequest */
+  device_token?: string;
 }
 
 export interface TwoFactorMethod {
@@ -41,6 +63,219 @@ export interface TwoFactorMethod {
   display_name?: string;
 }
 
+// ============================================================================
+// External Provider Types
+// ============================================================================
+
+/**
+ * External identity provider offered for sign-in (Google, GitHub, corporate OIDC, ...)
+ */
+export interface ExternalProvider {
+  /** Provider id in simple-idm, used in the sign-in URL (e.g. 'google', 'corp-sso') */
+  id: string;
+  /** Display name, e.g. 'Google' */
+  name: string;
+  /** 'google', 'github' or 'microsoft' for a branded button; anything else is generic OIDC */
+  type?: string;
+  /** Icon shown on the button */
+  icon_url?: string;
+}
+
+export interface ExternalProvidersResponse {
+  providers: ExternalProvider[];
+}
+
+/**
+ * Outcome of a provider sign-in, read from the URL simple-idm redirects back to
+ */
+export type ExternalLoginResult =
+  | {
+      status: 'success';
+      provider: string;
+    }
+  | {
+      /** The provider's email belongs to an existing account that isn't linked yet */
+      status: 'link_required';
+      provider: string;
+      /** Short-lived token for linkExternalAccount() */
+      link_token: string;
+      /** Email of the existing account */
+      email?: string;
+    };
+
+export interface LinkExternalAccountRequest {
+  /** Token from a 'link_required' result */
+  link_token: string;
+  /** Password of the existing account, proving ownership */
+  password: string;
+}
+
+// ============================================================================
+// Passkey (WebAuthn) Types
+// ============================================================================
+
+/**
+ * Credential reference with a base64url id (WebAuthn JSON form)
+ */
+export interface PublicKeyCredentialDescriptorJSON {
+  id: string;
+  type: 'public-key';
+  transports?: string[];
+}
+
+/**
+ * Registration options from simple-idm, with binary fields base64url-encoded
+ */
+export interface PublicKeyCredentialCreationOptionsJSON {
+  rp: { id?: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  challenge: string;
+  pubKeyCredParams: Array<{ type: 'public-key'; alg: number }>;
+  timeout?: number;
+  excludeCredentials?: PublicKeyCredentialDescriptorJSON[];
+  authenticatorSelection?: {
+    authenticatorAttachment?: 'platform' | 'cross-platform';
+    residentKey?: 'discouraged' | 'preferred' | 'required';
+    requireResidentKey?: boolean;
+    userVerification?: 'discouraged' | 'preferred' | 'required';
+  };
+  attestation?: 'none' | 'indirect' | 'direct' | 'enterprise';
+}
+
+/**
+ * Authentication options from simple-idm, with binary fields base64url-encoded
+ */
+export interface PublicKeyCredentialRequestOptionsJSON {
+  challenge: string;
+  timeout?: number;
+  rpId?: string;
+  allowCredentials?: PublicKeyCredentialDescriptorJSON[];
+  userVerification?: 'discouraged' | 'preferred' | 'required';
+}
+
+export interface PasskeyRegistrationOptions {
+  publicKey: PublicKeyCredentialCreationOptionsJSON;
+}
+
+export interface PasskeyLoginOptions {
+  publicKey: PublicKeyCredentialRequestOptionsJSON;
+}
+
+export interface BeginPasskeyLoginRequest {
+  /** Limits the ceremony to this user's passkeys; omit for discoverable credentials */
+  username?: string;
+}
+
+/**
+ * New credential from navigator.credentials.create(), base64url-encoded
+ */
+export interface RegistrationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+  authenticatorAttachment?: string;
+  clientExtensionResults: Record<string, unknown>;
+}
+
+/**
+ * Assertion from navigator.credentials.get(), base64url-encoded
+ */
+export interface AuthenticationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string;
+  };
+  authenticatorAttachment?: string;
+  clientExtensionResults: Record<string, unknown>;
+}
+
+export interface FinishPasskeyRegistrationRequest {
+  credential: RegistrationCredentialJSON;
+  /** Label shown in the passkey list, e.g. 'MacBook' */
+  name?: string;
+}
+
+/**
+ * Registered passkey
+ */
+export interface Passkey {
+  id: string;
+  name: string;
+  created_at: string;
+  last_used_at?: string;
+}
+
+export interface PasskeyListResponse {
+  passkeys: Passkey[];
+}
+
+// ============================================================================
+// Session Types
+// ============================================================================
+
+/**
+ * A signed-in session of the current user
+ */
+export interface Session {
+  id: string;
+  /** Device or browser description, e.g. "Chrome on macOS" */
+  device: string;
+  ip_address?: string;
+  /** Approximate location derived from the IP address */
+  location?: string;
+  created_at: string;
+  last_seen_at: string;
+  /** Whether this is the session making the request */
+  current: boolean;
+}
+
+export interface SessionListResponse {
+  sessions: Session[];
+}
+
+export interface RevokeSessionsResponse {
+  message: string;
+  /** Number of sessions that were ended */
+  revoked: number;
+}
+
+// ============================================================================
+// Trusted Device Types
+// ============================================================================
+
+/**
+ * A device on which the user skips 2FA ("remember this device")
+ */
+export interface TrustedDevice {
+  id: string;
+  /** Name given when the device was trusted, e.g. "Chrome on macOS" */
+  name: string;
+  created_at: string;
+  last_used_at?: string;
+  /** When the device stops being trusted */
+  expires_at: string;
+  /** Whether this is the device making the request */
+  current: boolean;
+}
+
+export interface TrustedDeviceListResponse {
+  devices: TrustedDevice[];
+}
+
+export interface RenameTrustedDeviceRequest {
+  name: string;
+}
+
 // ============================================================================
 // Profile Types
 // ============================================================================
@@ -80,9 +315,27 @@ export interface Enable2FARequest {
 }
 
 export interface Validate2FARequest {
-  type: 'totp' | 'sms' | 'email';
+  /** `backup_code` redeems one of the user's backup codes (login only) */
+  type: 'totp' | 'sms' | 'email' | 'backup_code';
   code: string;
   delivery_option?: string; // For SMS/email
+  /** Temp token from a '2fa_required' login; completes that login */
+  temp_token?: string;
+  /** Trust this device for this many days, so later logins skip 2FA (login only) */
+  remember_device_days?: number;
+  /** Name of the trusted device, e.g. "Chrome on macOS" (server default if omitted) */
+  device_name?: string;
+}
+
+export interface Validate2FAResponse extends ProfileUpdateResponse {
+  /** Signed-in user when the code completed a login */
+  user?: LoginResponse['user'];
+  /** Access token when the code completed a login (bearer mode only) */
+  access_token?: string;
+  /** Refresh token when the code completed a login (bearer mode only) */
+  refresh_token?: string;
+  /** Trusted-device token when remember_device_days was set (bearer mode only) */
+  device_token?: string;
 }
 
 export interface TwoFAStatus {
@@ -90,9 +343,30 @@ export interface TwoFAStatus {
   types: string[];
 }
 
+export interface BackupCodeStatus {
+  /** Unused backup codes */
+  remaining: number;
+  /** Codes issued in the last setup or regeneration */
+  total: number;
+  generated_at?: string;
+}
+
+export interface RegenerateBackupCodesRequest {
+  /** Re-authentication: new codes invalidate the old ones */
+  current_password: string;
+}
+
+export interface RegenerateBackupCodesResponse {
+  /** The new codes - shown once, the server only keeps hashes */
+  backup_codes: string[];
+  generated_at: string;
+}
+
 export interface Send2FACodeRequest {
   type: 'sms' | 'email';
   delivery_option: string; // Phone number or email
+  /** Temp token from a '2fa_required' login */
+  temp_token?: string;
 }
 
 // ============================================================================
@@ -144,6 +418,10 @@ export interface MagicLinkValidateResponse {
   };
   temp_token?: string;
   message?: string;
+  /** Access token (bearer mode only) */
+  access_token?: string;
+  /** Refresh token (bearer mode only) */
+  refresh_token?: string;
 }
 
 // ============================================================================
@@ -219,6 +497,10 @@ export interface IdmUser {
 export interface TokenRefreshResponse {
   access_token: string;
   refresh_token: string;
+  /** Access token lifetime in seconds */
+  expires_in?: number;
+  /** Refresh token lifetime in seconds */
+  refresh_expires_in?: number;
 }
 
 // ============================================================================
@@ -259,18 +541,60 @@ export interface PasswordPolicyResponse {
 // Error Types
 // ============================================================================
 
+/**
+ * What went wrong, independent of the HTTP status
+ */
+export type ApiErrorCode =
+  | 'invalid_credentials'
+  | 'token_expired'
+  | 'token_invalid'
+  | 'invalid_code'
+  | 'rate_limited'
+  | 'validation_failed'
+  | 'account_locked'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'csrf_failed'
+  | 'not_found'
+  | 'conflict'
+  | 'server_error'
+  | 'unavailable'
+  | 'invalid_response'
+  | 'network'
+  | 'offline'
+  | 'timeout'
+  | 'aborted'
+  | 'unknown';
+
 export interface ApiError {
   message: string;
   status?: number;
+  /** Raw error identifier from the server body (or 'timeout'/'aborted') */
   error?: string;
+  /** Error category resolved from the server error, status and client method */
+  code?: ApiErrorCode;
+  /** Field-level validation messages from the server, keyed by field name */
+  fields?: Record<string, string>;
 }
 
 export class ApiException extends Error {
   constructor(
     public status: number,
     public data: ApiError,
+    /** Delay in milliseconds requested by the server's Retry-After header (429/503) */
+    public retryAfterMs?: number,
   ) {
     super(data.message || 'API request failed');
     this.name = 'ApiException';
   }
+
+  /** Error category, e.g. 'invalid_credentials' or 'token_expired' */
+  get code(): ApiErrorCode {
+    return this.data.code ?? 'unknown';
+  }
+
+  /** Field-level validation messages, if the server sent any */
+  get fields(): Record<string, string> | undefined {
+    return this.data.fields;
+  }
 }
@@ -18,9 +18,13 @@ export default defineConfig({
   },
   build: {
     lib: {
-      entry: resolve(__dirname, 'src/index.ts'),
+      entry: {
+        index: resolve(__dirname, 'src/index.ts'),
+        // Test utilities, kept out of the main entry
+        'testing/index': resolve(__dirname, 'src/testing/index.ts'),
+      },
       formats: ['es'],
-      fileName: 'index',
+      fileName: (_format, entryName) => `${entryName}.js`,
     },
     rollupOptions: {
       external: ['solid-js', 'solid-js/web', 'solid-js/store'],